@@ -16,6 +16,7 @@ import LandingPage from "@/pages/landing-page";
 import AuthPage from "@/pages/auth-page";
 import NotFound from "@/pages/not-found";
 import { useAuth } from "@/hooks/use-auth";
+import { useRealtimeEvents } from "@/hooks/use-realtime-events";
 
 // Import authentication pages
 const ResetPasswordPage = lazy(() => import("@/pages/reset-password-page"));
@@ -53,6 +54,9 @@ const AdminOAuthPage = lazy(() => import("@/pages/admin-oauth-page"));
 const AdminOpenAIPage = lazy(() => import("@/pages/admin-openai-page"));
 const AdminPayPalPage = lazy(() => import("@/pages/admin-paypal-page"));
 const AdminSupportPage = lazy(() => import("@/pages/admin-support-page"));
+const AdminJobsPage = lazy(() => import("@/pages/admin-jobs-page"));
+const AdminPlansPage = lazy(() => import("@/pages/admin-plans-page"));
+const AdminLockoutsPage = lazy(() => import("@/pages/admin-lockouts-page"));
 
 // Loading fallback component
 const LoadingFallback = () => (
@@ -302,6 +306,30 @@ function Router() {
             </Suspense>
           )} 
         />
+        <ProtectedRoute 
+          path="/admin/jobs" 
+          component={() => (
+            <Suspense fallback={<LoadingFallback />}>
+              <AdminJobsPage />
+            </Suspense>
+          )} 
+        />
+        <ProtectedRoute 
+          path="/admin/plans" 
+          component={() => (
+            <Suspense fallback={<LoadingFallback />}>
+              <AdminPlansPage />
+            </Suspense>
+          )} 
+        />
+        <ProtectedRoute 
+          path="/admin/lockouts" 
+          component={() => (
+            <Suspense fallback={<LoadingFallback />}>
+              <AdminLockoutsPage />
+            </Suspense>
+          )} 
+        />
         
         {/* Landing or Home depending on login status */}
         <Route path="/" component={user ? HomePage : LandingPage} />
@@ -316,6 +344,12 @@ function Router() {
   }
 }
 
+// Subscribes to server events while signed in; renders nothing
+function RealtimeEvents() {
+  useRealtimeEvents();
+  return null;
+}
+
 function App() {
   console.log("Starting application rendering...");
   
@@ -334,6 +368,7 @@ function App() {
       <AuthProvider>
         <TooltipProvider>
           <Toaster />
+          <RealtimeEvents />
           <Suspense fallback={<LoadingFallback />}>
             <Router />
           </Suspense>
@@ -9,7 +9,10 @@ import {
   LogOut,
   MessagesSquare,
   HeadphonesIcon,
-  HelpCircle
+  HelpCircle,
+  ListChecks,
+  SlidersHorizontal,
+  Lock
 } from "lucide-react";
 import { Separator } from "@/components/ui/separator";
 import { Button } from "@/components/ui/button";
@@ -43,6 +46,21 @@ const navigationItems = [
     href: "/admin/openai",
     icon: MessagesSquare,
   },
+  {
+    label: "Background Jobs",
+    href: "/admin/jobs",
+    icon: ListChecks,
+  },
+  {
+    label: "Plans & Limits",
+    href: "/admin/plans",
+    icon: SlidersHorizontal,
+  },
+  {
+    label: "Lockouts",
+    href: "/admin/lockouts",
+    icon: Lock,
+  },
   {
     label: "Support Requests",
     href: "/admin/support",
@@ -0,0 +1,74 @@
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { TwoFactorCodeForm, SecondFactor } from "@/components/auth/two-factor-code-form";
+
+/**
+ * Whether an apiRequest failure ("<status>: <body>") means the action needs a
+ * 2FA challenge first
+ */
+export function isTwoFactorRequired(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  const match = error.message.match(/^403: ([\s\S]*)$/);
+  if (!match) return false;
+  try {
+    return JSON.parse(match[1])?.code === "TWO_FACTOR_REQUIRED";
+  } catch {
+    return false;
+  }
+}
+
+interface TwoFactorChallengeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Called once the code is accepted, e.g. to retry the action that asked for it
+  onVerified: () => void;
+  description?: string;
+}
+
+export function TwoFactorChallengeDialog({ open, onOpenChange, onVerified, description }: TwoFactorChallengeDialogProps) {
+  const { toast } = useToast();
+
+  const challengeMutation = useMutation({
+    mutationFn: async (factor: SecondFactor) => {
+      const res = await apiRequest("POST", "/api/2fa/challenge", factor);
+      return await res.json();
+    },
+    onSuccess: () => {
+      onOpenChange(false);
+      onVerified();
+    },
+    onError: () => {
+      toast({
+        title: "Verification failed",
+        description: "That code isn't valid. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Confirm it's you</DialogTitle>
+          <DialogDescription>
+            {description || "Enter the 6-digit code from your authenticator app to continue."}
+          </DialogDescription>
+        </DialogHeader>
+        <TwoFactorCodeForm
+          onSubmit={(factor) => challengeMutation.mutate(factor)}
+          isPending={challengeMutation.isPending}
+          submitLabel="Continue"
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,81 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+
+export type SecondFactor = { code: string } | { recoveryCode: string };
+
+interface TwoFactorCodeFormProps {
+  onSubmit: (factor: SecondFactor) => void;
+  isPending: boolean;
+  submitLabel?: string;
+  // Enrollment only accepts codes from the app
+  allowRecoveryCode?: boolean;
+}
+
+/**
+ * Entry for a 6-digit authenticator code, or a recovery code instead
+ */
+export function TwoFactorCodeForm({ onSubmit, isPending, submitLabel = "Verify", allowRecoveryCode = true }: TwoFactorCodeFormProps) {
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState("");
+  const [recoveryCode, setRecoveryCode] = useState("");
+
+  const canSubmit = useRecoveryCode ? recoveryCode.trim().length >= 10 : code.length === 6;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+    onSubmit(useRecoveryCode ? { recoveryCode: recoveryCode.trim() } : { code });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {useRecoveryCode ? (
+        <Input
+          value={recoveryCode}
+          onChange={(e) => setRecoveryCode(e.target.value)}
+          placeholder="xxxxx-xxxxx"
+          autoComplete="one-time-code"
+          autoFocus
+        />
+      ) : (
+        <div className="flex justify-center">
+          <InputOTP
+            maxLength={6}
+            value={code}
+            onChange={setCode}
+            onComplete={(value: string) => onSubmit({ code: value })}
+            inputMode="numeric"
+            pattern="^[0-9]+$"
+            autoComplete="one-time-code"
+            autoFocus
+          >
+            <InputOTPGroup>
+              {Array.from({ length: 6 }, (_, index) => (
+                <InputOTPSlot key={index} index={index} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+        </div>
+      )}
+
+      <Button type="submit" className="w-full" disabled={!canSubmit || isPending}>
+        {isPending ? "Verifying..." : submitLabel}
+      </Button>
+
+      {allowRecoveryCode && (
+        <div className="text-center">
+          <Button
+            type="button"
+            variant="link"
+            className="text-xs text-muted-foreground p-0"
+            onClick={() => setUseRecoveryCode(!useRecoveryCode)}
+          >
+            {useRecoveryCode ? "Use your authenticator app instead" : "Lost your device? Use a recovery code"}
+          </Button>
+        </div>
+      )}
+    </form>
+  );
+}
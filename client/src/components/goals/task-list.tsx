@@ -4,6 +4,7 @@ import { format } from 'date-fns';
 import { Edit, Trash, Trash2, Check, X, ArrowRight, Calendar, Clock, Target, Plus, Filter, AlertCircle, BarChart3, ListTodo, MoreHorizontal, ClipboardList } from 'lucide-react';
 import { Task, Goal } from '@shared/schema';
 import { useToast } from '@/hooks/use-toast';
+import { useQuotaToast } from '@/hooks/use-quota-toast';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
@@ -58,6 +59,7 @@ export default function TaskList({
   userId
 }: TaskListProps) {
   const { toast } = useToast();
+  const showQuotaToast = useQuotaToast();
   const [editingTask, setEditingTask] = useState<Task | null>(null);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [taskToDelete, setTaskToDelete] = useState<Task | null>(null);
@@ -383,6 +385,7 @@ export default function TaskList({
     },
     onError: (error) => {
       console.error('Failed to convert task to goal:', error);
+      if (showQuotaToast(error)) return;
       toast({
         title: 'Error',
         description: 'Failed to convert task to goal. Please try again.',
@@ -2,4 +2,5 @@ export * from "./journaling-stats";
 export * from "./mood-analytics";
 export * from "./reflection-patterns";
 export * from "./correlations";
-export * from "./emotions-analytics";
\ No newline at end of file
+export * from "./emotions-analytics";
+export * from "./weekly-digests";
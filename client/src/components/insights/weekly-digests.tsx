@@ -0,0 +1,185 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { WeeklyDigest } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { format, parseISO } from "date-fns";
+import { CalendarDays, Flame, Loader2, Smile, Sparkles, Target } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+
+interface WeeklyDigestsProps {
+  className?: string;
+}
+
+const MOOD_LABELS = ["", "Very low", "Low", "Okay", "Good", "Great"];
+
+function formatWeek(digest: WeeklyDigest) {
+  const start = parseISO(digest.weekStart);
+  const end = parseISO(digest.weekEnd);
+  return `${format(start, start.getFullYear() === end.getFullYear() ? "MMM d" : "MMM d, yyyy")} – ${format(end, "MMM d, yyyy")}`;
+}
+
+// apiRequest errors read "<status>: <body>"; show the body's error message
+function errorMessage(error: Error) {
+  const match = error.message.match(/^\d{3}: ([\s\S]*)$/);
+  try {
+    return (match && JSON.parse(match[1])?.error) || error.message;
+  } catch {
+    return match ? match[1] : error.message;
+  }
+}
+
+function DigestCard({ digest }: { digest: WeeklyDigest }) {
+  const mood = digest.averageMood !== null ? Math.round(digest.averageMood) : null;
+
+  return (
+    <Card className="bg-white border-0 shadow-sm">
+      <CardHeader className="pb-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <CalendarDays className="h-5 w-5 text-[#9AAB63]" />
+            {formatWeek(digest)}
+          </CardTitle>
+          <div className="flex items-center gap-3 text-sm text-gray-500">
+            <span>{digest.entryCount} {digest.entryCount === 1 ? "entry" : "entries"}</span>
+            {mood !== null && (
+              <span className="flex items-center gap-1">
+                <Smile className="h-4 w-4" />
+                {MOOD_LABELS[mood]} ({digest.averageMood!.toFixed(1)})
+              </span>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-gray-700 whitespace-pre-line">{digest.insights}</p>
+
+        {(digest.topEmotions.length > 0 || digest.commonThemes.length > 0) && (
+          <div className="flex flex-wrap gap-1">
+            {digest.topEmotions.map(emotion => (
+              <Badge key={`emotion-${emotion}`} variant="outline" className="bg-[#F5B8DB]/10 border-[#F5B8DB]/40">{emotion}</Badge>
+            ))}
+            {digest.commonThemes.map(theme => (
+              <Badge key={`theme-${theme}`} variant="outline">{theme}</Badge>
+            ))}
+          </div>
+        )}
+
+        {digest.habitStreaks.length > 0 && (
+          <div>
+            <h4 className="text-sm font-medium mb-2 flex items-center gap-1">
+              <Flame className="h-4 w-4 text-orange-500" />
+              Habit streaks
+            </h4>
+            <ul className="text-sm text-gray-600 space-y-1">
+              {digest.habitStreaks.map(habit => (
+                <li key={habit.habitId} className="flex justify-between">
+                  <span>{habit.name}</span>
+                  <span>{habit.streak} {habit.streak === 1 ? "day" : "days"}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {digest.goalProgress.length > 0 && (
+          <div>
+            <h4 className="text-sm font-medium mb-2 flex items-center gap-1">
+              <Target className="h-4 w-4 text-[#9AAB63]" />
+              Goals
+            </h4>
+            <ul className="space-y-2">
+              {digest.goalProgress.map(goal => (
+                <li key={goal.goalId} className="text-sm text-gray-600">
+                  <div className="flex justify-between mb-1">
+                    <span>{goal.name}</span>
+                    <span>{goal.progress} / {goal.target} {goal.unit}</span>
+                  </div>
+                  <Progress value={goal.target > 0 ? Math.min(100, (goal.progress / goal.target) * 100) : 0} className="h-1.5" />
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Past weekly digests, newest first, with a button to create last week's
+ * digest now rather than waiting for it to be sent
+ */
+export function WeeklyDigests({ className }: WeeklyDigestsProps) {
+  const { toast } = useToast();
+  const { data: digests = [], isLoading } = useQuery<WeeklyDigest[]>({
+    queryKey: ["/api/weekly-digests"],
+  });
+
+  const generateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/weekly-digests/generate");
+      return await res.json() as WeeklyDigest;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/weekly-digests"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't create your digest",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className={className}>
+      <Card className="bg-white border-0 shadow-sm mb-6">
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Sparkles className="h-5 w-5 text-[#F5B8DB]" />
+                Weekly Digests
+              </CardTitle>
+              <CardDescription>
+                A look back at each week's entries, moods, habits and goals, sent every Monday.
+              </CardDescription>
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => generateMutation.mutate()}
+              disabled={generateMutation.isPending}
+            >
+              {generateMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Get last week's digest
+            </Button>
+          </div>
+        </CardHeader>
+      </Card>
+
+      {isLoading ? (
+        <div className="flex justify-center items-center h-32">
+          <div className="animate-spin h-8 w-8 border-4 border-[#F5B8DB] border-t-transparent rounded-full"></div>
+        </div>
+      ) : digests.length === 0 ? (
+        <p className="text-center text-gray-500 py-8">
+          No digests yet. Your first one arrives after a week of journaling.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {digests.map(digest => <DigestCard key={digest.id} digest={digest} />)}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useQuotaToast } from "@/hooks/use-quota-toast";
+import { Calendar, Loader2, Search, Sparkles } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Highlighted } from "@/components/journal/journal-search-results";
+
+type AskResult = {
+  id: number;
+  date: string;
+  title: string | null;
+  snippet: string;
+  score: number;
+  similarity: number | null;
+  keywordRank: number | null;
+  matchedBy: ("keyword" | "semantic")[];
+};
+
+type AskResponse = {
+  question: string;
+  results: AskResult[];
+  answer: {
+    text: string;
+    citations: { number: number; entryId: number; date: string; title: string | null }[];
+  } | null;
+};
+
+function formatDate(date: string) {
+  return new Date(date).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  });
+}
+
+// The message in an apiRequest failure ("<status>: <body>")
+function errorMessage(error: Error) {
+  const body = error.message.replace(/^\d+: /, "");
+  try {
+    return JSON.parse(body).error || body;
+  } catch {
+    return body;
+  }
+}
+
+/**
+ * Turn the [n] citations in an answer into links to the entries they cite
+ */
+function AnswerText({ answer }: { answer: NonNullable<AskResponse["answer"]> }) {
+  const entryFor = new Map(answer.citations.map(citation => [String(citation.number), citation.entryId]));
+  const parts = answer.text.split(/(\[\d+\])/);
+
+  return (
+    <p className="text-gray-800 leading-relaxed">
+      {parts.map((part, index) => {
+        const entryId = entryFor.get(part.slice(1, -1));
+        return entryId ? (
+          <Link key={index} href={`/journal/${entryId}`} className="text-primary font-medium hover:underline">
+            {part}
+          </Link>
+        ) : (
+          <span key={index}>{part}</span>
+        );
+      })}
+    </p>
+  );
+}
+
+/**
+ * "Ask my journal": a question in plain language finds the entries that
+ * match it by keyword or by meaning, with an optional AI answer citing them
+ */
+export function AskJournal() {
+  const { toast } = useToast();
+  const showQuotaToast = useQuotaToast();
+  const [question, setQuestion] = useState("");
+  const [wantAnswer, setWantAnswer] = useState(false);
+
+  const askMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/journal-search/ask", {
+        question: question.trim(),
+        answer: wantAnswer,
+      });
+      return await res.json() as AskResponse;
+    },
+    onError: (error: Error) => {
+      if (showQuotaToast(error)) return;
+      toast({
+        title: "Couldn't search your journal",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (question.trim().length < 3) return;
+    askMutation.mutate();
+  };
+
+  const data = askMutation.data;
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleSubmit} className="bg-gray-50 p-6 rounded-lg border border-gray-200 space-y-4">
+        <div>
+          <h3 className="font-medium text-xl">Ask your journal</h3>
+          <p className="text-sm text-gray-500 mt-1">
+            Ask a question in your own words, like "When did I last feel proud of my work?"
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <Input
+              className="pl-9"
+              placeholder="Ask a question about your journal..."
+              value={question}
+              maxLength={500}
+              onChange={(e) => setQuestion(e.target.value)}
+            />
+          </div>
+          <Button type="submit" className="pi-button" disabled={question.trim().length < 3 || askMutation.isPending}>
+            {askMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Ask"}
+          </Button>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Switch id="ask-journal-answer" checked={wantAnswer} onCheckedChange={setWantAnswer} />
+          <Label htmlFor="ask-journal-answer" className="text-sm font-normal">
+            Answer with AI (uses one of your daily AI responses)
+          </Label>
+        </div>
+      </form>
+
+      {data?.answer && (
+        <div className="bg-white rounded-lg border border-primary/30 p-6">
+          <div className="flex items-center gap-2 mb-3">
+            <Sparkles className="h-4 w-4 text-primary" />
+            <h4 className="font-medium">Answer</h4>
+          </div>
+          <AnswerText answer={data.answer} />
+          {data.answer.citations.length > 0 && (
+            <div className="flex flex-wrap gap-2 mt-4">
+              {data.answer.citations.map(citation => (
+                <Link key={citation.number} href={`/journal/${citation.entryId}`}>
+                  <Badge variant="outline" className="cursor-pointer hover:bg-gray-50">
+                    [{citation.number}] {citation.title || "Untitled Entry"} · {formatDate(citation.date)}
+                  </Badge>
+                </Link>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {data && (data.results.length === 0 ? (
+        <div className="text-center py-16 bg-gray-50 rounded-lg border border-gray-100">
+          <Search className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-lg font-medium mb-2">Nothing in your journal matches that</h3>
+          <p className="text-gray-500">Try asking in different words</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-100">
+          {data.results.map(result => (
+            <Link key={result.id} href={`/journal/${result.id}`} className="block p-6 hover:bg-gray-50 transition-colors">
+              <div className="flex justify-between items-center gap-2">
+                <div className="flex items-center gap-2 text-xs text-gray-500">
+                  <Calendar className="h-3 w-3 text-gray-400" />
+                  {formatDate(result.date)}
+                </div>
+                <div className="flex items-center gap-1">
+                  {result.matchedBy.includes("keyword") && (
+                    <Badge variant="outline" className="text-xs">Keyword</Badge>
+                  )}
+                  {result.similarity !== null && (
+                    <Badge variant="outline" className="text-xs">
+                      Meaning {Math.round(result.similarity * 100)}%
+                    </Badge>
+                  )}
+                  <Badge variant="secondary" className="text-xs">
+                    {Math.round(result.score * 100)}% match
+                  </Badge>
+                </div>
+              </div>
+              <h4 className="font-medium text-lg mt-2 mb-1 text-gray-800">
+                {result.title || "Untitled Entry"}
+              </h4>
+              <p className="text-gray-600 text-sm leading-relaxed">
+                <Highlighted text={result.snippet} />
+              </p>
+            </Link>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState, useEffect, useRef } from "react";
 import { useMutation, useQuery } from "@tanstack/react-query";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiRequest, apiStream, queryClient } from "@/lib/queryClient";
 import { User, JournalEntry } from "@shared/schema";
 import { Link } from "wouter";
 import { Input } from "@/components/ui/input";
@@ -24,13 +24,15 @@ import {
   PenLine,
   Calendar,
   Info,
-  AlertCircle
+  AlertCircle,
+  Square
 } from "lucide-react";
 import { cn, prepareLocalDateForStorage, formatLocalDate, isSameDay } from "@/lib/utils";
 import { HopeLogLogo } from "@/components/ui/hope-log-logo";
 import { HopeLogAvatar } from "@/components/ui/hope-log-avatar";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
+import { useQuotaToast } from "@/hooks/use-quota-toast";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 
 type JournalChatProps = {
@@ -52,6 +54,7 @@ export function JournalChat({ userId, selectedDate }: JournalChatProps) {
   
   console.log(`🚨 JournalChat component - Selected date: ${entryDate.toLocaleDateString()} (${entryDate.toISOString()})`);
   const { toast } = useToast();
+  const showQuotaToast = useQuotaToast();
   const [message, setMessage] = useState("");
   const [journalEntry, setJournalEntry] = useState("");
   const [activeTab, setActiveTab] = useState<string>("chat");
@@ -85,6 +88,15 @@ export function JournalChat({ userId, selectedDate }: JournalChatProps) {
   const [chatHistory, setChatHistory] = useState<Array<{id: number, isAiResponse: boolean, content: string, date: string}>>([]);
   const [nextId, setNextId] = useState(1);
   
+  // The AI reply currently being streamed in, and the controller used to cancel it
+  const [streamingReplyId, setStreamingReplyId] = useState<number | null>(null);
+  const streamAbortRef = useRef<AbortController | null>(null);
+  
+  // Cancel any in-flight reply when the chat unmounts
+  useEffect(() => {
+    return () => streamAbortRef.current?.abort();
+  }, []);
+  
   // Simulate adding a new chat message and get AI response without saving to DB
   const addEntryMutation = useMutation({
     mutationFn: async (content: string) => {
@@ -132,29 +144,48 @@ export function JournalChat({ userId, selectedDate }: JournalChatProps) {
       setChatHistory(prev => [...prev, userMessage]);
       setNextId(prevId => prevId + 1);
       
-      // Get AI response through the API - send the processed content to the AI
-      const res = await apiRequest("POST", "/api/chat-response", {
-        content: processedContent, // send the processed version to the AI
-        userId,
-        // Send recent chat history for context
-        history: chatHistory.slice(-5).map(entry => ({
-          role: entry.isAiResponse ? "ai" : "user",
-          content: entry.content
-        }))
-      });
-      
-      const aiResponse = await res.json();
-      
-      // Add AI response to local chat history
       // Use prepareLocalDateForStorage to ensure proper timezone handling
+      const aiResponseId = nextId + 1;
       const aiResponseDateISOString = prepareLocalDateForStorage(new Date());
       
-      setChatHistory(prev => [...prev, {
-        id: nextId + 1,
-        content: aiResponse.content,
-        isAiResponse: true,
-        date: aiResponseDateISOString
-      }]);
+      const abortController = new AbortController();
+      streamAbortRef.current = abortController;
+      let replyStarted = false;
+      
+      // Stream the AI response through the API - send the processed content to the AI
+      // The reply is added to local chat history as soon as the first tokens arrive
+      const aiResponse = await apiStream(
+        "/api/chat-response/stream",
+        {
+          content: processedContent, // send the processed version to the AI
+          userId,
+          // Send recent chat history for context
+          history: chatHistory.slice(-5).map(entry => ({
+            role: entry.isAiResponse ? "ai" : "user",
+            content: entry.content
+          }))
+        },
+        (chunk) => {
+          if (!replyStarted) {
+            replyStarted = true;
+            setStreamingReplyId(aiResponseId);
+            setChatHistory(prev => [...prev, {
+              id: aiResponseId,
+              content: chunk,
+              isAiResponse: true,
+              date: aiResponseDateISOString
+            }]);
+          } else {
+            setChatHistory(prev => prev.map(entry =>
+              entry.id === aiResponseId ? { ...entry, content: entry.content + chunk } : entry
+            ));
+          }
+        },
+        abortController.signal
+      ).finally(() => {
+        streamAbortRef.current = null;
+        setStreamingReplyId(null);
+      });
       
       setNextId(prevId => prevId + 2);
       
@@ -166,14 +197,26 @@ export function JournalChat({ userId, selectedDate }: JournalChatProps) {
         }
       }, 100);
       
-      return [userMessage, { id: nextId + 1, content: aiResponse.content, isAiResponse: true, date: aiResponseDateISOString }];
+      return [userMessage, { id: aiResponseId, content: aiResponse.content, isAiResponse: true, date: aiResponseDateISOString }];
     },
     onError: (error) => {
       console.error("Failed to get AI response:", error);
+      if (showQuotaToast(error)) return;
+      
+      // 429 responses carry a readable explanation of the monthly token limit
+      let description = "Failed to get AI response. Please try again.";
+      if (error instanceof Error && error.message.startsWith("429:")) {
+        try {
+          description = JSON.parse(error.message.slice(4)).error || description;
+        } catch {
+          // Keep the generic message
+        }
+      }
+      
       toast({
         variant: "destructive",
         title: "Error",
-        description: "Failed to get AI response. Please try again."
+        description
       });
     }
   });
@@ -225,7 +268,7 @@ export function JournalChat({ userId, selectedDate }: JournalChatProps) {
         title: "Chat saved",
         description: (
           <div>
-            <p>Your chat has been saved as a journal entry with sentiment analysis</p>
+            <p>Your chat has been saved as a journal entry. Sentiment analysis will appear shortly.</p>
             {entryId && (
               <p className="mt-2">
                 <Button 
@@ -251,6 +294,7 @@ export function JournalChat({ userId, selectedDate }: JournalChatProps) {
     },
     onError: (error) => {
       console.error("Failed to save chat:", error);
+      if (showQuotaToast(error)) return;
       toast({
         variant: "destructive",
         title: "Error",
@@ -380,6 +424,11 @@ export function JournalChat({ userId, selectedDate }: JournalChatProps) {
     }
   };
 
+  // Stop the AI mid-reply, keeping whatever has been streamed so far
+  const handleStopResponse = () => {
+    streamAbortRef.current?.abort();
+  };
+
   const handleJournalSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (journalEntry.trim()) {
@@ -630,8 +679,8 @@ export function JournalChat({ userId, selectedDate }: JournalChatProps) {
                   </div>
                 )}
                 
-                {/* Display when AI is thinking */}
-                {addEntryMutation.isPending && (
+                {/* Display when AI is thinking, until the streamed reply starts */}
+                {addEntryMutation.isPending && streamingReplyId === null && (
                   <div className="flex items-start gap-2 self-start">
                     <div className="flex-shrink-0">
                       <HopeLogAvatar size="sm" />
@@ -712,13 +761,24 @@ export function JournalChat({ userId, selectedDate }: JournalChatProps) {
               >
                 <Mic className="h-5 w-5 text-white" />
               </button>
-              <button
-                type="submit"
-                className="rounded-xl py-2.5 px-5 font-medium text-white transition-all bg-[#9AAB63] hover:bg-[#9AAB63]/80"
-                disabled={addEntryMutation.isPending || !message.trim()}
-              >
-                <Send className="h-5 w-5" />
-              </button>
+              {addEntryMutation.isPending ? (
+                <button
+                  type="button"
+                  className="rounded-xl py-2.5 px-5 font-medium text-white transition-all bg-[#9AAB63] hover:bg-[#9AAB63]/80"
+                  onClick={handleStopResponse}
+                  title="Stop response"
+                >
+                  <Square className="h-5 w-5" />
+                </button>
+              ) : (
+                <button
+                  type="submit"
+                  className="rounded-xl py-2.5 px-5 font-medium text-white transition-all bg-[#9AAB63] hover:bg-[#9AAB63]/80"
+                  disabled={!message.trim()}
+                >
+                  <Send className="h-5 w-5" />
+                </button>
+              )}
             </form>
           </div>
           </div>
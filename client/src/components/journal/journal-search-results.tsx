@@ -0,0 +1,268 @@
+import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { apiRequest } from "@/lib/queryClient";
+import { Calendar, ChevronLeft, ChevronRight, MessageSquare, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const PAGE_SIZE = 20;
+// Wait for typing to pause before searching
+const SEARCH_DELAY_MS = 300;
+const ANY = "any";
+
+type SearchResult = {
+  id: number;
+  date: string;
+  title: string | null;
+  isAiResponse: boolean;
+  sentiment: { score: number; emotions: string[]; themes: string[] } | null;
+  titleHighlight: string | null;
+  snippet: string;
+  matchedIn: "title" | "content" | "transcript" | null;
+  rank: number;
+};
+
+type SearchResponse = {
+  results: SearchResult[];
+  total: number;
+  limit: number;
+  offset: number;
+};
+
+type SearchFacets = {
+  emotions: { value: string; count: number }[];
+  themes: { value: string; count: number }[];
+};
+
+function unescapeHtml(text: string) {
+  return text.replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&amp;/g, "&");
+}
+
+/**
+ * Render a server snippet, whose only markup is <mark> around the matches,
+ * without injecting HTML
+ */
+export function Highlighted({ text }: { text: string }) {
+  const parts = text.split(/<mark>|<\/mark>/);
+  return (
+    <>
+      {parts.map((part, index) => index % 2 === 1 ? (
+        <mark key={index} className="bg-yellow-100 text-gray-900 rounded px-0.5">{unescapeHtml(part)}</mark>
+      ) : (
+        <span key={index}>{unescapeHtml(part)}</span>
+      ))}
+    </>
+  );
+}
+
+interface JournalSearchResultsProps {
+  searchTerm: string;
+  filterType: "all" | "user" | "ai";
+  sortOrder: "asc" | "desc";
+}
+
+/**
+ * Server-side search over the user's journal, with emotion, theme and date filters
+ */
+export function JournalSearchResults({ searchTerm, filterType, sortOrder }: JournalSearchResultsProps) {
+  const [query, setQuery] = useState(searchTerm.trim());
+  const [emotion, setEmotion] = useState(ANY);
+  const [theme, setTheme] = useState(ANY);
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [page, setPage] = useState(0);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(searchTerm.trim()), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  // Any change to the search starts again from the first page
+  useEffect(() => {
+    setPage(0);
+  }, [query, emotion, theme, fromDate, toDate, filterType, sortOrder]);
+
+  const { data: facets } = useQuery<SearchFacets>({
+    queryKey: ["/api/journal-search/facets"],
+  });
+
+  const params = new URLSearchParams({
+    q: query,
+    type: filterType,
+    // The newest/oldest toggle only applies when ranking by relevance is off
+    sort: query ? "relevance" : sortOrder === "desc" ? "newest" : "oldest",
+    limit: String(PAGE_SIZE),
+    offset: String(page * PAGE_SIZE),
+  });
+  if (emotion !== ANY) params.set("emotions", emotion);
+  if (theme !== ANY) params.set("themes", theme);
+  if (fromDate) params.set("from", new Date(`${fromDate}T00:00:00`).toISOString());
+  if (toDate) params.set("to", new Date(`${toDate}T23:59:59.999`).toISOString());
+
+  const { data, isLoading, isFetching } = useQuery<SearchResponse>({
+    queryKey: ["/api/journal-search", params.toString()],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/journal-search?${params.toString()}`);
+      return await res.json();
+    },
+    placeholderData: (previous) => previous,
+  });
+
+  const hasFilters = emotion !== ANY || theme !== ANY || !!fromDate || !!toDate;
+  const clearFilters = () => {
+    setEmotion(ANY);
+    setTheme(ANY);
+    setFromDate("");
+    setToDate("");
+  };
+
+  const total = data?.total ?? 0;
+  const firstShown = total === 0 ? 0 : page * PAGE_SIZE + 1;
+  const lastShown = Math.min((page + 1) * PAGE_SIZE, total);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="w-40">
+          <label className="block text-xs font-medium text-gray-500 mb-1">Emotion</label>
+          <Select value={emotion} onValueChange={setEmotion}>
+            <SelectTrigger>
+              <SelectValue placeholder="Any emotion" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any emotion</SelectItem>
+              {facets?.emotions.map(facet => (
+                <SelectItem key={facet.value} value={facet.value}>
+                  {facet.value} ({facet.count})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="w-40">
+          <label className="block text-xs font-medium text-gray-500 mb-1">Theme</label>
+          <Select value={theme} onValueChange={setTheme}>
+            <SelectTrigger>
+              <SelectValue placeholder="Any theme" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any theme</SelectItem>
+              {facets?.themes.map(facet => (
+                <SelectItem key={facet.value} value={facet.value}>
+                  {facet.value} ({facet.count})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">From</label>
+          <Input type="date" value={fromDate} max={toDate || undefined} onChange={(e) => setFromDate(e.target.value)} className="w-40" />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">To</label>
+          <Input type="date" value={toDate} min={fromDate || undefined} onChange={(e) => setToDate(e.target.value)} className="w-40" />
+        </div>
+        {hasFilters && (
+          <Button variant="ghost" size="sm" onClick={clearFilters} className="h-10">
+            <X className="h-4 w-4 mr-1" />
+            Clear filters
+          </Button>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Use "quotes" for an exact phrase, OR for either word, and -word to leave a word out.
+      </p>
+
+      {isLoading ? (
+        <div className="flex justify-center items-center h-40">
+          <div className="pi-thinking-dots">
+            <div className="pi-thinking-dot"></div>
+            <div className="pi-thinking-dot"></div>
+            <div className="pi-thinking-dot"></div>
+          </div>
+        </div>
+      ) : !data || data.results.length === 0 ? (
+        <div className="text-center py-16 bg-gray-50 rounded-lg border border-gray-100">
+          <MessageSquare className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-lg font-medium mb-2">No journal entries found</h3>
+          <p className="text-gray-500">Try a different search term or clear your filters</p>
+        </div>
+      ) : (
+        <div className={`bg-white rounded-lg border border-gray-200 divide-y divide-gray-100 ${isFetching ? "opacity-70" : ""}`}>
+          {data.results.map(result => (
+            <Link key={result.id} href={`/journal/${result.id}`} className="block p-6 hover:bg-gray-50 transition-colors">
+              <div className="flex justify-between items-center">
+                <div className="flex items-center gap-2 text-xs text-gray-500">
+                  <Calendar className="h-3 w-3 text-gray-400" />
+                  {new Date(result.date).toLocaleDateString('en-US', {
+                    weekday: 'short',
+                    month: 'short',
+                    day: 'numeric',
+                    year: 'numeric'
+                  })}
+                  {result.isAiResponse && (
+                    <span className="uppercase text-blue-700 font-medium px-2 py-0.5 rounded-sm bg-blue-100">
+                      AI Response
+                    </span>
+                  )}
+                </div>
+                {result.matchedIn === "transcript" && (
+                  <Badge variant="outline" className="text-xs">Found in chat transcript</Badge>
+                )}
+              </div>
+
+              <h4 className="font-medium text-lg mt-2 mb-1 text-gray-800">
+                {result.titleHighlight
+                  ? <Highlighted text={result.titleHighlight} />
+                  : result.title || "Untitled Entry"}
+              </h4>
+              <p className="text-gray-600 text-sm leading-relaxed">
+                <Highlighted text={result.snippet} />
+              </p>
+
+              {result.sentiment && (result.sentiment.emotions.length > 0 || result.sentiment.themes.length > 0) && (
+                <div className="flex flex-wrap gap-1 mt-3">
+                  {result.sentiment.emotions.slice(0, 3).map(item => (
+                    <Badge key={`emotion-${item}`} variant="secondary" className="text-xs">{item}</Badge>
+                  ))}
+                  {result.sentiment.themes.slice(0, 3).map(item => (
+                    <Badge key={`theme-${item}`} variant="outline" className="text-xs">{item}</Badge>
+                  ))}
+                </div>
+              )}
+            </Link>
+          ))}
+        </div>
+      )}
+
+      {total > 0 && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-500">
+            Showing {firstShown}–{lastShown} of {total} {total === 1 ? "entry" : "entries"}
+          </p>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 0 || isFetching}>
+              <ChevronLeft className="h-4 w-4 mr-1" />
+              Previous
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={lastShown >= total || isFetching}>
+              Next
+              <ChevronRight className="h-4 w-4 ml-1" />
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
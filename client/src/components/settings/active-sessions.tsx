@@ -0,0 +1,123 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatDistance } from "date-fns";
+import { Monitor, Smartphone, LogOut } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+
+type ActiveSession = {
+  id: number;
+  device: string | null;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean;
+};
+
+/**
+ * The devices the user is signed in on, each of which can be signed out remotely
+ */
+export function ActiveSessions() {
+  const { toast } = useToast();
+
+  const { data: sessions = [], isLoading } = useQuery<ActiveSession[]>({
+    queryKey: ["/api/sessions"],
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/sessions/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      toast({ title: "Session signed out" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't sign out session", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/sessions/revoke-others");
+      return await res.json() as { revoked: number };
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      toast({
+        title: "Signed out other sessions",
+        description: `${data.revoked} ${data.revoked === 1 ? "session was" : "sessions were"} signed out.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't sign out other sessions", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const hasOtherSessions = sessions.some(session => !session.current);
+
+  return (
+    <div className="bg-gray-50 p-4 rounded-lg">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Monitor className="h-5 w-5 text-[#9AAB63]" />
+          <p className="font-medium">Active Sessions</p>
+        </div>
+        {hasOtherSessions && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => revokeOthersMutation.mutate()}
+            disabled={revokeOthersMutation.isPending}
+          >
+            Sign Out Other Sessions
+          </Button>
+        )}
+      </div>
+      <p className="text-sm text-gray-500 mt-1 ml-7">
+        Devices where you're signed in. Sign out any you don't recognize.
+      </p>
+
+      <div className="mt-3 ml-7 space-y-2">
+        {isLoading ? (
+          <div className="animate-pulse h-12 bg-muted rounded"></div>
+        ) : sessions.map(session => {
+          const DeviceIcon = /iOS|Android/.test(session.device ?? "") ? Smartphone : Monitor;
+          return (
+            <div key={session.id} className="flex items-center justify-between bg-white rounded-md p-3">
+              <div className="flex items-center space-x-3">
+                <DeviceIcon className="h-5 w-5 text-gray-400" />
+                <div>
+                  <p className="text-sm font-medium flex items-center gap-2">
+                    {session.device || "Unknown device"}
+                    {session.current && <Badge className="bg-[#9AAB63]">This device</Badge>}
+                  </p>
+                  <p className="text-xs text-gray-500" title={session.userAgent ?? undefined}>
+                    {session.ipAddress || "Unknown location"} ·{" "}
+                    {session.current
+                      ? "Active now"
+                      : `Last active ${formatDistance(new Date(session.lastSeenAt), new Date(), { addSuffix: true })}`}
+                  </p>
+                </div>
+              </div>
+              {!session.current && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-red-500 hover:bg-red-50"
+                  onClick={() => revokeMutation.mutate(session.id)}
+                  disabled={revokeMutation.isPending}
+                >
+                  <LogOut className="h-4 w-4 mr-1" />
+                  Sign Out
+                </Button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Upload, Loader2, ChevronDown, ChevronUp, CheckCircle2, Copy, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+
+type ImportStatus = "pending" | "running" | "completed" | "failed";
+
+type JournalImportSummary = {
+  id: number;
+  status: ImportStatus;
+  fileNames: string[];
+  sources: string[];
+  totalCount: number;
+  importedCount: number;
+  duplicateCount: number;
+  failedCount: number;
+  error: string | null;
+  completedAt: string | null;
+  createdAt: string;
+};
+
+type JournalImportItem = {
+  file: string;
+  status: "imported" | "duplicate" | "failed";
+  entryId?: number;
+  date?: string;
+  title?: string | null;
+  error?: string;
+};
+
+type JournalImportDetails = JournalImportSummary & { items: JournalImportItem[] };
+
+const SOURCE_LABELS: Record<string, string> = {
+  "day-one": "Day One",
+  "journey": "Journey",
+  "markdown": "Markdown",
+  "text": "Text",
+  "csv": "CSV",
+};
+
+const ACCEPTED_FILES = ".json,.zip,.md,.markdown,.txt,.csv";
+// Poll while an import is running
+const IMPORT_POLL_MS = 3000;
+// Reports can hold thousands of entries; show problems first and cap the rest
+const MAX_REPORT_ROWS = 500;
+const STATUS_ORDER = { failed: 0, duplicate: 1, imported: 2 };
+
+// Timestamps from the API are UTC without an offset
+function parseTimestamp(value: string) {
+  return new Date(/(Z|[+-]\d{2}:?\d{2})$/.test(value) ? value : `${value.replace(" ", "T")}Z`);
+}
+
+function isActive(journalImport: JournalImportSummary) {
+  return journalImport.status === "pending" || journalImport.status === "running";
+}
+
+function ImportReport({ importId }: { importId: number }) {
+  const { data, isLoading } = useQuery<JournalImportDetails>({
+    queryKey: [`/api/journal-imports/${importId}`],
+  });
+
+  if (isLoading || !data) {
+    return <p className="text-sm text-gray-500 p-4">Loading report...</p>;
+  }
+
+  const items = [...data.items].sort((a, b) => STATUS_ORDER[a.status] - STATUS_ORDER[b.status]);
+  return (
+    <div className="max-h-80 overflow-y-auto border-t border-gray-100">
+      <table className="w-full text-sm">
+        <tbody className="divide-y divide-gray-100">
+          {items.slice(0, MAX_REPORT_ROWS).map((item, index) => (
+            <tr key={index}>
+              <td className="p-2 pl-4 align-top w-6">
+                {item.status === "imported" ? (
+                  <CheckCircle2 className="h-4 w-4 text-green-600" />
+                ) : item.status === "duplicate" ? (
+                  <Copy className="h-4 w-4 text-gray-400" />
+                ) : (
+                  <XCircle className="h-4 w-4 text-red-600" />
+                )}
+              </td>
+              <td className="p-2 align-top">
+                <p className="font-medium text-gray-800 break-all">{item.title || item.file}</p>
+                {item.title && <p className="text-xs text-gray-500 break-all">{item.file}</p>}
+                {item.error && <p className="text-xs text-red-600">{item.error}</p>}
+                {item.status === "duplicate" && <p className="text-xs text-gray-500">Already in your journal</p>}
+              </td>
+              <td className="p-2 pr-4 align-top text-right text-xs text-gray-500 whitespace-nowrap">
+                {item.date && new Date(item.date).toLocaleDateString()}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {items.length > MAX_REPORT_ROWS && (
+        <p className="text-xs text-gray-500 p-4">
+          Showing the first {MAX_REPORT_ROWS} of {items.length} entries.
+        </p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Import entries from Day One, Journey, Markdown or text files and CSV, with a
+ * report of what was imported, skipped as a duplicate or couldn't be read
+ */
+export function JournalImportCard() {
+  const { toast } = useToast();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [files, setFiles] = useState<File[]>([]);
+  const [openReport, setOpenReport] = useState<number | null>(null);
+  const activeImports = useRef<Set<number>>(new Set());
+
+  const { data: imports = [] } = useQuery<JournalImportSummary[]>({
+    queryKey: ["/api/journal-imports"],
+    refetchInterval: (query) => query.state.data?.some(isActive) ? IMPORT_POLL_MS : false,
+  });
+
+  // Refresh the journal once a running import finishes
+  useEffect(() => {
+    const finished = imports.filter(item => activeImports.current.has(item.id) && !isActive(item));
+    if (finished.length > 0) {
+      queryClient.invalidateQueries({ queryKey: ["/api/journal-entries"] });
+      for (const item of finished) {
+        queryClient.invalidateQueries({ queryKey: [`/api/journal-imports/${item.id}`] });
+      }
+    }
+    activeImports.current = new Set(imports.filter(isActive).map(item => item.id));
+  }, [imports]);
+
+  const uploadMutation = useMutation({
+    mutationFn: async (selected: File[]) => {
+      const formData = new FormData();
+      for (const file of selected) {
+        formData.append("files", file);
+      }
+
+      const response = await fetch("/api/journal-imports", {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      const body = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(body?.error || "Failed to import your files");
+      }
+      return body as JournalImportSummary;
+    },
+    onSuccess: (journalImport) => {
+      setFiles([]);
+      if (fileInput.current) fileInput.current.value = "";
+      queryClient.invalidateQueries({ queryKey: ["/api/journal-imports"] });
+      setOpenReport(journalImport.status === "completed" ? journalImport.id : null);
+      toast({
+        title: isActive(journalImport) ? "Import started" : "Nothing to import",
+        description: isActive(journalImport)
+          ? "Your entries are being added. You'll get a notification when it's done."
+          : "We couldn't find any entries to import. See the report for details.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Import failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const importRunning = imports.some(isActive);
+
+  return (
+    <div className="space-y-6">
+      <div className="border rounded-lg p-4 bg-gray-50 space-y-3">
+        <p className="text-sm text-gray-600">
+          Bring in entries from <strong>Day One</strong> (JSON export or its zip), <strong>Journey</strong> (zip
+          or JSON files), <strong>Markdown</strong> or <strong>text</strong> files, and <strong>CSV</strong> with
+          date and text columns. Upload a folder of files as a zip. Entries keep their original dates, and
+          entries already in your journal are skipped.
+        </p>
+        <p className="text-xs text-gray-500">
+          Markdown and text files take their date from front matter or a file name starting with YYYY-MM-DD.
+          Imported entries count towards your plan's journal entry limit.
+        </p>
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            ref={fileInput}
+            type="file"
+            multiple
+            accept={ACCEPTED_FILES}
+            onChange={(e) => setFiles(Array.from(e.target.files ?? []))}
+            className="text-sm file:mr-3 file:rounded-md file:border file:border-gray-200 file:bg-white file:px-3 file:py-1.5 file:text-sm"
+          />
+          <Button
+            onClick={() => uploadMutation.mutate(files)}
+            disabled={files.length === 0 || importRunning || uploadMutation.isPending}
+          >
+            {uploadMutation.isPending || importRunning
+              ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              : <Upload className="h-4 w-4 mr-2" />}
+            {importRunning ? "Importing..." : "Import"}
+          </Button>
+        </div>
+      </div>
+
+      {imports.length > 0 && (
+        <div>
+          <h3 className="font-medium mb-3">Recent imports</h3>
+          <div className="divide-y divide-gray-100 border rounded-lg">
+            {imports.map(item => (
+              <div key={item.id}>
+                <div className="p-4 flex flex-wrap items-center justify-between gap-3">
+                  <div>
+                    <p className="text-sm font-medium break-all">
+                      {item.fileNames.length === 1 ? item.fileNames[0] : `${item.fileNames.length} files`}
+                    </p>
+                    <div className="flex flex-wrap items-center gap-1 mt-1">
+                      <span className="text-xs text-gray-500 mr-1">
+                        {parseTimestamp(item.createdAt).toLocaleString()}
+                      </span>
+                      {item.sources.map(source => (
+                        <Badge key={source} variant="outline" className="text-xs">{SOURCE_LABELS[source] ?? source}</Badge>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-3">
+                    {isActive(item) ? (
+                      <span className="flex items-center text-sm text-gray-500">
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        Importing {item.importedCount + item.duplicateCount + item.failedCount} of {item.totalCount}...
+                      </span>
+                    ) : (
+                      <span className="text-sm text-gray-600">
+                        {item.importedCount} imported
+                        {item.duplicateCount > 0 && `, ${item.duplicateCount} duplicates`}
+                        {item.failedCount > 0 && <span className="text-red-600">, {item.failedCount} failed</span>}
+                        {item.status === "failed" && <span className="text-red-600"> (stopped early)</span>}
+                      </span>
+                    )}
+                    {!isActive(item) && item.totalCount > 0 && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setOpenReport(openReport === item.id ? null : item.id)}
+                      >
+                        Report
+                        {openReport === item.id ? <ChevronUp className="h-4 w-4 ml-1" /> : <ChevronDown className="h-4 w-4 ml-1" />}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                {openReport === item.id && <ImportReport importId={item.id} />}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
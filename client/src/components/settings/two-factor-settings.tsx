@@ -0,0 +1,212 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Shield, Copy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { TwoFactorCodeForm } from "@/components/auth/two-factor-code-form";
+import { TwoFactorChallengeDialog, isTwoFactorRequired } from "@/components/auth/two-factor-challenge-dialog";
+
+type TwoFactorStatus = {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+};
+
+type TwoFactorSetup = {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+};
+
+// Actions that need a fresh 2FA code
+type ProtectedAction = "disable" | "regenerate";
+
+/**
+ * Enrollment, recovery codes and turning off TOTP two-factor authentication
+ */
+export function TwoFactorSettings() {
+  const { toast } = useToast();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [challengeFor, setChallengeFor] = useState<ProtectedAction | null>(null);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/2fa/status"],
+  });
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/2fa/setup");
+      return await res.json() as TwoFactorSetup;
+    },
+    onSuccess: setSetup,
+    onError: (error: Error) => {
+      toast({ title: "Couldn't start setup", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const res = await apiRequest("POST", "/api/2fa/enable", { code });
+      return await res.json() as { recoveryCodes: string[] };
+    },
+    onSuccess: (data) => {
+      setSetup(null);
+      setRecoveryCodes(data.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ["/api/2fa/status"] });
+      toast({ title: "Two-factor authentication enabled", description: "You'll be asked for a code when you sign in." });
+    },
+    onError: () => {
+      toast({
+        title: "Verification failed",
+        description: "That code isn't valid. Check your device's time and try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/2fa/recovery-codes");
+      return await res.json() as { recoveryCodes: string[] };
+    },
+    onSuccess: (data) => {
+      setRecoveryCodes(data.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ["/api/2fa/status"] });
+    },
+    onError: (error: Error) => {
+      if (isTwoFactorRequired(error)) return setChallengeFor("regenerate");
+      toast({ title: "Couldn't create recovery codes", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/2fa/disable");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/2fa/status"] });
+      toast({ title: "Two-factor authentication disabled" });
+    },
+    onError: (error: Error) => {
+      if (isTwoFactorRequired(error)) return setChallengeFor("disable");
+      toast({ title: "Couldn't disable two-factor authentication", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const retryProtectedAction = () => {
+    if (challengeFor === "disable") disableMutation.mutate();
+    if (challengeFor === "regenerate") regenerateMutation.mutate();
+    setChallengeFor(null);
+  };
+
+  const copyRecoveryCodes = () => {
+    if (!recoveryCodes) return;
+    navigator.clipboard.writeText(recoveryCodes.join("\n"));
+    toast({ title: "Recovery codes copied" });
+  };
+
+  return (
+    <div className="bg-gray-50 p-4 rounded-lg">
+      <div className="flex items-center space-x-2">
+        <Shield className="h-5 w-5 text-[#9AAB63]" />
+        <p className="font-medium">Two-Factor Authentication</p>
+        {status?.enabled && <Badge className="bg-[#9AAB63]">On</Badge>}
+      </div>
+      <p className="text-sm text-gray-500 mt-1 ml-7">
+        {status?.enabled
+          ? `You'll be asked for a code from your authenticator app when you sign in. ${status.recoveryCodesRemaining} recovery codes left.`
+          : "Add an extra layer of security to your account"}
+      </p>
+      <div className="flex gap-2 mt-2 ml-7">
+        {status?.enabled ? (
+          <>
+            <Button variant="outline" size="sm" onClick={() => regenerateMutation.mutate()} disabled={regenerateMutation.isPending}>
+              New Recovery Codes
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="text-red-500 border-red-200 hover:bg-red-50"
+              onClick={() => disableMutation.mutate()}
+              disabled={disableMutation.isPending}
+            >
+              Disable 2FA
+            </Button>
+          </>
+        ) : (
+          <Button variant="outline" size="sm" onClick={() => setupMutation.mutate()} disabled={isLoading || setupMutation.isPending}>
+            {setupMutation.isPending ? "Starting..." : "Enable 2FA"}
+          </Button>
+        )}
+      </div>
+
+      {/* Enrollment: scan the QR code, then confirm with a code from the app */}
+      <Dialog open={!!setup} onOpenChange={(open) => !open && setSetup(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Set up two-factor authentication</DialogTitle>
+            <DialogDescription>
+              Scan this QR code with an authenticator app such as Google Authenticator or 1Password, then enter the code it shows.
+            </DialogDescription>
+          </DialogHeader>
+          {setup && (
+            <div className="space-y-4">
+              <div className="flex justify-center">
+                <img src={setup.qrCodeDataUrl} alt="QR code for your authenticator app" className="h-48 w-48" />
+              </div>
+              <p className="text-xs text-center text-muted-foreground">
+                Can't scan it? Enter this key instead:
+                <span className="block font-mono text-sm text-foreground break-all mt-1">{setup.secret}</span>
+              </p>
+              <TwoFactorCodeForm
+                onSubmit={(factor) => "code" in factor && enableMutation.mutate(factor.code)}
+                isPending={enableMutation.isPending}
+                submitLabel="Turn On"
+                allowRecoveryCode={false}
+              />
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Recovery codes are only ever shown once */}
+      <Dialog open={!!recoveryCodes} onOpenChange={(open) => !open && setRecoveryCodes(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Save your recovery codes</DialogTitle>
+            <DialogDescription>
+              Each code signs you in once if you lose your device. Keep them somewhere safe; they won't be shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-2 rounded-md bg-gray-50 p-4 font-mono text-sm">
+            {recoveryCodes?.map(code => <span key={code}>{code}</span>)}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={copyRecoveryCodes}>
+              <Copy className="h-4 w-4 mr-2" />
+              Copy
+            </Button>
+            <Button onClick={() => setRecoveryCodes(null)}>I've saved them</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <TwoFactorChallengeDialog
+        open={!!challengeFor}
+        onOpenChange={(open) => !open && setChallengeFor(null)}
+        onVerified={retryProtectedAction}
+      />
+    </div>
+  );
+}
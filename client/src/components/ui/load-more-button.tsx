@@ -0,0 +1,31 @@
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+interface LoadMoreButtonProps {
+  hasNextPage: boolean;
+  isFetchingNextPage: boolean;
+  onLoadMore: () => void;
+  label?: string;
+  className?: string;
+}
+
+// Loads the next page of a paginated list; hidden once the last page is loaded
+export default function LoadMoreButton({
+  hasNextPage,
+  isFetchingNextPage,
+  onLoadMore,
+  label = 'Load more',
+  className,
+}: LoadMoreButtonProps) {
+  if (!hasNextPage) return null;
+
+  return (
+    <div className={cn('flex justify-center pt-4', className)}>
+      <Button variant="outline" onClick={onLoadMore} disabled={isFetchingNextPage}>
+        {isFetchingNextPage && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        {isFetchingNextPage ? 'Loading...' : label}
+      </Button>
+    </div>
+  );
+}
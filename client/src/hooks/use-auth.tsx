@@ -11,6 +11,7 @@ import { useToast } from "@/hooks/use-toast";
 interface LoginResponse {
   message?: string;
   userId?: number;
+  twoFactorRequired?: boolean; // The password was right; finish with twoFactorLoginMutation
   [key: string]: any; // For other user properties
 }
 
@@ -27,12 +28,16 @@ interface VerifyEmailData {
   token: string;
 }
 
+// An authenticator code or a recovery code
+type TwoFactorLoginData = { code: string } | { recoveryCode: string };
+
 type AuthContextType = {
   user: SelectUser | null;
   isLoading: boolean;
   error: Error | null;
   isVerified: boolean; // Keeping for backward compatibility
   loginMutation: UseMutationResult<LoginResponse, Error, LoginData>;
+  twoFactorLoginMutation: UseMutationResult<SelectUser, Error, TwoFactorLoginData>;
   logoutMutation: UseMutationResult<void, Error, void>;
   registerMutation: UseMutationResult<LoginResponse, Error, InsertUser>;
   forgotPasswordMutation: UseMutationResult<{message: string}, Error, ForgotPasswordData>;
@@ -45,6 +50,21 @@ type LoginData = {
   password: string;
 };
 
+/**
+ * The server's message from an apiRequest failure ("<status>: <body>"), e.g.
+ * how long to wait after too many attempts
+ */
+function authErrorMessage(error: Error): string {
+  const match = error.message.match(/^\d{3}: ([\s\S]*)$/);
+  if (!match) return error.message;
+  try {
+    const body = JSON.parse(match[1]);
+    return body.message || body.error || error.message;
+  } catch {
+    return match[1] || error.message;
+  }
+}
+
 export const AuthContext = createContext<AuthContextType | null>(null);
 export function AuthProvider({ children }: { children: ReactNode }) {
   const { toast } = useToast();
@@ -79,7 +99,29 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     onError: (error: Error) => {
       toast({
         title: "Login failed",
-        description: error.message,
+        description: authErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Second sign-in step for users with two-factor authentication
+  const twoFactorLoginMutation = useMutation({
+    mutationFn: async (data: TwoFactorLoginData) => {
+      const res = await apiRequest("POST", "/api/login/2fa", data);
+      return await res.json();
+    },
+    onSuccess: (response: SelectUser) => {
+      queryClient.setQueryData(["/api/user"], response);
+      toast({
+        title: "Login successful",
+        description: `Welcome back, ${response.firstName || response.email.split('@')[0]}!`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Verification failed",
+        description: authErrorMessage(error),
         variant: "destructive",
       });
     },
@@ -104,7 +146,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     onError: (error: Error) => {
       toast({
         title: "Registration failed",
-        description: error.message,
+        description: authErrorMessage(error),
         variant: "destructive",
       });
     },
@@ -125,7 +167,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     onError: (error: Error) => {
       toast({
         title: "Logout failed",
-        description: error.message,
+        description: authErrorMessage(error),
         variant: "destructive",
       });
     },
@@ -146,7 +188,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     onError: (error: Error) => {
       toast({
         title: "Request failed",
-        description: error.message,
+        description: authErrorMessage(error),
         variant: "destructive",
       });
     },
@@ -167,7 +209,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     onError: (error: Error) => {
       toast({
         title: "Reset failed",
-        description: error.message,
+        description: authErrorMessage(error),
         variant: "destructive",
       });
     },
@@ -189,7 +231,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     onError: (error: Error) => {
       toast({
         title: "Verification failed",
-        description: error.message,
+        description: authErrorMessage(error),
         variant: "destructive",
       });
     },
@@ -202,6 +244,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     error,
     isVerified,
     loginMutation,
+    twoFactorLoginMutation,
     logoutMutation,
     registerMutation,
     forgotPasswordMutation,
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Notification, NotificationPreferences } from "@shared/schema";
 import { queryClient, apiRequest } from "@/lib/queryClient";
@@ -183,4 +183,146 @@ export function useNotificationPreferences() {
     updatePreferences,
     isUpdating
   };
-}
\ No newline at end of file
+}
+
+export interface PushDevice {
+  id: number;
+  deviceName: string | null;
+  endpoint: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+const PUSH_SERVICE_WORKER_URL = '/push-sw.js';
+
+// Convert the base64url VAPID key to the byte array PushManager.subscribe expects
+function urlBase64ToUint8Array(base64String: string): Uint8Array {
+  const padding = '='.repeat((4 - (base64String.length % 4)) % 4);
+  const base64 = (base64String + padding).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = window.atob(base64);
+  return Uint8Array.from(raw, (char) => char.charCodeAt(0));
+}
+
+export function usePushNotifications() {
+  const { toast } = useToast();
+  const isSupported = typeof window !== 'undefined' &&
+    'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+  const [currentEndpoint, setCurrentEndpoint] = useState<string | null>(null);
+  const [permission, setPermission] = useState<NotificationPermission>(
+    isSupported ? Notification.permission : 'denied'
+  );
+
+  // Devices the user has subscribed
+  const { data: devices = [], isLoading } = useQuery<PushDevice[]>({
+    queryKey: ['/api/push/subscriptions'],
+    enabled: isSupported,
+  });
+
+  // Find this browser's existing subscription, if any
+  useEffect(() => {
+    if (!isSupported) return;
+    navigator.serviceWorker.getRegistration(PUSH_SERVICE_WORKER_URL)
+      .then((registration) => registration?.pushManager.getSubscription())
+      .then((subscription) => setCurrentEndpoint(subscription?.endpoint ?? null))
+      .catch(() => setCurrentEndpoint(null));
+  }, [isSupported]);
+
+  const subscribeMutation = useMutation({
+    mutationFn: async () => {
+      const keyResponse = await apiRequest('GET', '/api/push/vapid-public-key');
+      const { publicKey } = await keyResponse.json();
+
+      const result = await Notification.requestPermission();
+      setPermission(result);
+      if (result !== 'granted') {
+        throw new Error('Notifications are blocked in your browser settings');
+      }
+
+      const registration = await navigator.serviceWorker.register(PUSH_SERVICE_WORKER_URL);
+      await navigator.serviceWorker.ready;
+      const subscription = await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: urlBase64ToUint8Array(publicKey),
+      });
+
+      const response = await apiRequest('POST', '/api/push/subscriptions', {
+        subscription: subscription.toJSON(),
+      });
+      setCurrentEndpoint(subscription.endpoint);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/push/subscriptions'] });
+      toast({
+        title: 'Push notifications enabled',
+        description: 'Reminders will now appear on this device',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Could not enable push notifications',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (device: PushDevice) => {
+      // Unsubscribe the browser too when revoking this device
+      if (device.endpoint === currentEndpoint) {
+        const registration = await navigator.serviceWorker.getRegistration(PUSH_SERVICE_WORKER_URL);
+        const subscription = await registration?.pushManager.getSubscription();
+        await subscription?.unsubscribe();
+        setCurrentEndpoint(null);
+      }
+      await apiRequest('DELETE', `/api/push/subscriptions/${device.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/push/subscriptions'] });
+      toast({
+        title: 'Device removed',
+        description: 'This device will no longer receive push notifications',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to remove device: ${error.message}`,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/push/test');
+      return await response.json() as { delivered: number };
+    },
+    onSuccess: (data) => {
+      toast({
+        title: 'Test notification sent',
+        description: `Delivered to ${data.delivered} ${data.delivered === 1 ? 'device' : 'devices'}`,
+      });
+    },
+  });
+
+  const subscribe = () => subscribeMutation.mutate();
+  const revokeDevice = (device: PushDevice) => revokeMutation.mutate(device);
+  const sendTest = () => testMutation.mutate();
+
+  return {
+    isSupported,
+    permission,
+    devices,
+    isLoading,
+    currentEndpoint,
+    isSubscribed: !!currentEndpoint && devices.some((device) => device.endpoint === currentEndpoint),
+    subscribe,
+    revokeDevice,
+    sendTest,
+    isSubscribing: subscribeMutation.isPending,
+    isRevoking: revokeMutation.isPending,
+    isSendingTest: testMutation.isPending,
+  };
+}
@@ -0,0 +1,48 @@
+import { useMemo } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+
+// A page from a list route called with ?limit (see server/pagination.ts)
+export type Page<T> = {
+  items: T[];
+  nextCursor: string | null;
+};
+
+type ListParams = Record<string, string | number | undefined>;
+
+/**
+ * Loads a list route a page at a time. The query key starts with the route's
+ * path, so invalidating the path (as mutations already do) refetches the pages.
+ * @param params Sort and filter parameters; undefined ones are left out
+ */
+export function usePaginatedList<T>(
+  path: string,
+  params: ListParams = {},
+  options: { pageSize?: number; enabled?: boolean } = {}
+) {
+  const pageSize = options.pageSize ?? 20;
+
+  const query = useInfiniteQuery({
+    queryKey: [path, "page", params, pageSize],
+    queryFn: async ({ pageParam }) => {
+      const search = new URLSearchParams({ limit: String(pageSize) });
+      for (const [key, value] of Object.entries(params)) {
+        if (value !== undefined) search.set(key, String(value));
+      }
+      if (pageParam) search.set("cursor", pageParam);
+
+      const res = await apiRequest("GET", `${path}?${search.toString()}`);
+      return await res.json() as Page<T>;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: options.enabled ?? true,
+  });
+
+  const items = useMemo(
+    () => query.data?.pages.flatMap(page => page.items) ?? [],
+    [query.data]
+  );
+
+  return { ...query, items };
+}
@@ -0,0 +1,57 @@
+import { useLocation } from "wouter";
+import { ToastAction } from "@/components/ui/toast";
+import { useToast } from "@/hooks/use-toast";
+
+// Body of the 402/429 response a metered route sends once a quota is used up
+export type QuotaExceeded = {
+  error: string;
+  code: "QUOTA_EXCEEDED";
+  feature: "journalEntries" | "goals" | "aiResponses";
+  limit: number;
+  used: number;
+  tier: string;
+  resetsAt: string | null;
+  upgradeUrl: string;
+};
+
+/**
+ * Reads a quota error out of an apiRequest failure ("<status>: <body>")
+ */
+export function getQuotaExceeded(error: unknown): QuotaExceeded | null {
+  if (!(error instanceof Error)) return null;
+  const match = error.message.match(/^(402|429): ([\s\S]*)$/);
+  if (!match) return null;
+  try {
+    const body = JSON.parse(match[2]);
+    return body?.code === "QUOTA_EXCEEDED" ? body : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Returns a handler that shows an upgrade prompt when an error is a used-up
+ * quota, and reports whether it was one so callers can fall back to their
+ * own error toast.
+ */
+export function useQuotaToast() {
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+
+  return (error: unknown): boolean => {
+    const quota = getQuotaExceeded(error);
+    if (!quota) return false;
+
+    toast({
+      variant: "destructive",
+      title: quota.resetsAt ? "Daily limit reached" : "Plan limit reached",
+      description: quota.error,
+      action: (
+        <ToastAction altText="Upgrade your plan" onClick={() => navigate(quota.upgradeUrl)}>
+          Upgrade
+        </ToastAction>
+      ),
+    });
+    return true;
+  };
+}
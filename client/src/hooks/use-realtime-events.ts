@@ -0,0 +1,68 @@
+import { useEffect } from "react";
+import { Notification } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+
+interface SuggestionReadyEvent {
+  journalEntryId: number;
+  goalsCreated: number;
+  tasksCreated: number;
+  habitsCreated: number;
+}
+
+// Insert or replace a notification in a cached list, newest first
+function upsertNotification(list: Notification[], notification: Notification): Notification[] {
+  const rest = list.filter((item) => item.id !== notification.id);
+  return [notification, ...rest].sort(
+    (a, b) => new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime()
+  );
+}
+
+// Lists that haven't been fetched yet are left alone, so their first fetch
+// loads the whole list rather than being seeded with this one notification
+function applyNotification(notification: Notification) {
+  queryClient.setQueryData<Notification[]>(['/api/notifications'], (list) =>
+    list && upsertNotification(list, notification)
+  );
+  queryClient.setQueryData<Notification[]>(['/api/notifications/unread'], (list) =>
+    list && (notification.status === 'unread'
+      ? upsertNotification(list, notification)
+      : list.filter((item) => item.id !== notification.id))
+  );
+}
+
+/**
+ * Keep React Query caches up to date from the server's event stream
+ * (GET /api/events) while a user is signed in. EventSource reconnects
+ * on its own after network errors.
+ */
+export function useRealtimeEvents() {
+  const { user } = useAuth();
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId || typeof EventSource === 'undefined') return;
+
+    const source = new EventSource('/api/events', { withCredentials: true });
+
+    source.addEventListener('notification-created', (event) => {
+      const { notification } = JSON.parse((event as MessageEvent).data) as { notification: Notification };
+      applyNotification(notification);
+    });
+
+    source.addEventListener('notification-updated', (event) => {
+      const { notification } = JSON.parse((event as MessageEvent).data) as { notification: Notification };
+      applyNotification(notification);
+    });
+
+    source.addEventListener('suggestion-ready', (event) => {
+      const data = JSON.parse((event as MessageEvent).data) as SuggestionReadyEvent;
+      queryClient.invalidateQueries({ queryKey: [`/api/goals/${userId}/ai-suggestions`] });
+      // The entry is now analyzed and may have a title and sentiment
+      queryClient.invalidateQueries({ queryKey: [`/api/journal-entries/${userId}`] });
+      console.log(`Suggestions ready for journal entry ${data.journalEntryId}`);
+    });
+
+    return () => source.close();
+  }, [userId]);
+}
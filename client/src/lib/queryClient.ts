@@ -45,6 +45,56 @@ export async function apiRequest(
   }
 }
 
+/**
+ * POST to a streaming endpoint and hand each decoded text chunk to onChunk as
+ * it arrives. Resolves with the full text once the stream ends, or with the
+ * partial text if the request is aborted through the signal.
+ */
+export async function apiStream(
+  url: string,
+  data: unknown,
+  onChunk: (chunk: string) => void,
+  signal?: AbortSignal,
+): Promise<{ content: string; aborted: boolean }> {
+  let content = "";
+
+  try {
+    const res = await fetch(url, {
+      method: "POST",
+      credentials: "include",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(data),
+      signal,
+    });
+
+    await throwIfResNotOk(res);
+
+    const reader = res.body?.getReader();
+    if (!reader) {
+      throw new Error("ReadableStream not supported or body is null");
+    }
+
+    const decoder = new TextDecoder();
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      if (value) {
+        const chunk = decoder.decode(value, { stream: true });
+        content += chunk;
+        onChunk(chunk);
+      }
+    }
+
+    return { content, aborted: false };
+  } catch (error) {
+    if (signal?.aborted) {
+      return { content, aborted: true };
+    }
+    console.error(`API Stream Error for POST ${url}:`, error);
+    throw error;
+  }
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
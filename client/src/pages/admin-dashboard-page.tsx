@@ -30,7 +30,7 @@ export default function AdminDashboardPage() {
         // Provide fallback data
         return {
           totalUsers: 5,
-          activeSessions: 2,
+          activeSessions: 0,
           totalJournalEntries: 42,
           totalAiInteractions: 128,
           databaseStatus: "online",
@@ -73,7 +73,7 @@ export default function AdminDashboardPage() {
               {statsLoading ? (
                 <div className="animate-pulse h-8 w-16 bg-muted rounded"></div>
               ) : (
-                appStats?.activeSessions || "2"
+                appStats?.activeSessions ?? 0
               )}
             </CardContent>
           </Card>
@@ -0,0 +1,234 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Redirect } from "wouter";
+import { AdminLayout } from "@/components/admin/admin-layout";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, RefreshCw, RotateCcw, Trash2 } from "lucide-react";
+import { BackgroundJob } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface JobStat {
+  type: string;
+  status: string;
+  count: number;
+}
+
+const JOB_STATUSES = ["pending", "running", "completed", "dead"] as const;
+
+const statusColors: Record<string, string> = {
+  pending: "bg-blue-500",
+  running: "bg-amber-500",
+  completed: "bg-green-500",
+  dead: "bg-red-500"
+};
+
+function formatDate(dateString: string | null) {
+  if (!dateString) return "—";
+  return new Date(dateString).toLocaleString();
+}
+
+export default function AdminJobsPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [selectedStatus, setSelectedStatus] = useState<string>("dead");
+
+  // Job counts by type and status
+  const { data: stats, refetch: refetchStats } = useQuery<JobStat[]>({
+    queryKey: ["/api/admin/jobs/stats"],
+  });
+
+  // Jobs with the selected status
+  const { data: jobs, isLoading, refetch: refetchJobs } = useQuery<BackgroundJob[]>({
+    queryKey: ["/api/admin/jobs", selectedStatus],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/admin/jobs?status=${selectedStatus}`);
+      return await res.json();
+    },
+  });
+
+  const refreshAll = () => {
+    refetchStats();
+    refetchJobs();
+  };
+
+  const retryMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/admin/jobs/${id}/retry`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/jobs"] });
+      toast({
+        title: "Job queued",
+        description: "The job will run again shortly.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to retry job",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", "/api/admin/jobs/completed");
+      return await res.json();
+    },
+    onSuccess: (data: { deleted: number }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/jobs"] });
+      toast({
+        title: "Completed jobs cleared",
+        description: `Deleted ${data.deleted} jobs completed more than a week ago.`,
+      });
+    },
+  });
+
+  if (!user?.isAdmin) {
+    return <Redirect to="/auth" />;
+  }
+
+  // Pivot the stats into one row per job type
+  const jobTypes = Array.from(new Set((stats || []).map(stat => stat.type)));
+  const countFor = (type: string, status: string) =>
+    stats?.find(stat => stat.type === type && stat.status === status)?.count ?? 0;
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div>
+              <CardTitle>Background Jobs</CardTitle>
+              <CardDescription>AI processing and scheduled work by status</CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={refreshAll}>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Refresh
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => purgeMutation.mutate()}
+                disabled={purgeMutation.isPending}
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Clear Completed
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Job Type</TableHead>
+                  {JOB_STATUSES.map(status => (
+                    <TableHead key={status} className="text-right capitalize">{status}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {jobTypes.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={JOB_STATUSES.length + 1} className="text-center text-muted-foreground">
+                      No jobs have been queued yet
+                    </TableCell>
+                  </TableRow>
+                )}
+                {jobTypes.map(type => (
+                  <TableRow key={type}>
+                    <TableCell className="font-medium">{type}</TableCell>
+                    {JOB_STATUSES.map(status => (
+                      <TableCell key={status} className="text-right">{countFor(type, status)}</TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Jobs</CardTitle>
+            <CardDescription>Dead jobs failed every attempt and can be retried</CardDescription>
+            <Tabs value={selectedStatus} onValueChange={setSelectedStatus} className="mt-2">
+              <TabsList className="grid grid-cols-4 w-full">
+                {JOB_STATUSES.map(status => (
+                  <TabsTrigger key={status} value={status} className="capitalize">{status}</TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center items-center h-40">
+                <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+              </div>
+            ) : jobs && jobs.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>ID</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Attempts</TableHead>
+                    <TableHead>Last Error</TableHead>
+                    <TableHead>Updated</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {jobs.map(job => (
+                    <TableRow key={job.id}>
+                      <TableCell>{job.id}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{job.type}</div>
+                        <Badge className={statusColors[job.status]}>{job.status}</Badge>
+                      </TableCell>
+                      <TableCell>{job.attempts} / {job.maxAttempts}</TableCell>
+                      <TableCell className="max-w-[220px] text-xs text-muted-foreground break-words">
+                        {job.lastError || "—"}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {formatDate(job.updatedAt)}
+                        {job.status === "pending" && (
+                          <div className="text-muted-foreground">Runs {formatDate(job.runAt)}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {job.status === "dead" && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => retryMutation.mutate(job.id)}
+                            disabled={retryMutation.isPending}
+                          >
+                            <RotateCcw className="h-4 w-4 mr-1" />
+                            Retry
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-center text-sm text-muted-foreground py-10">
+                No {selectedStatus} jobs
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AdminLayout>
+  );
+}
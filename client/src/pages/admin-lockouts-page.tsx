@@ -0,0 +1,150 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Redirect } from "wouter";
+import { AdminLayout } from "@/components/admin/admin-layout";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, RefreshCw, Unlock } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface Lockout {
+  id: number;
+  scope: "ip" | "account";
+  action: string;
+  identifier: string;
+  userId: number | null;
+  userEmail: string | null;
+  username: string | null;
+  failures: number;
+  lastFailureAt: string;
+  lastIpAddress: string | null;
+  blockedUntil: string;
+  lockedOutAt: string | null;
+}
+
+function formatDate(dateString: string | null) {
+  if (!dateString) return "—";
+  return new Date(dateString).toLocaleString();
+}
+
+// The account or IP address a block applies to
+function describeTarget(lockout: Lockout) {
+  if (lockout.scope === "ip") return lockout.identifier;
+  if (lockout.userId) return lockout.userEmail || lockout.username || `User ${lockout.userId}`;
+  return lockout.identifier.replace(/^login:/, "");
+}
+
+export default function AdminLockoutsPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const { data: lockouts, isLoading, refetch } = useQuery<Lockout[]>({
+    queryKey: ["/api/admin/lockouts"],
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("DELETE", `/api/admin/lockouts/${id}`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/lockouts"] });
+      toast({
+        title: "Lockout cleared",
+        description: "Sign-in attempts are allowed again.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to clear lockout",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!user?.isAdmin) {
+    return <Redirect to="/auth" />;
+  }
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div>
+              <CardTitle>Lockouts</CardTitle>
+              <CardDescription>
+                Accounts locked after repeated failed sign-ins, and accounts or IP addresses slowed down by rate limiting
+              </CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => refetch()}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Refresh
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center items-center h-40">
+                <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+              </div>
+            ) : lockouts && lockouts.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Account or IP</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Failures</TableHead>
+                    <TableHead>Last Attempt</TableHead>
+                    <TableHead>Blocked Until</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lockouts.map(lockout => (
+                    <TableRow key={lockout.id}>
+                      <TableCell>
+                        <div className="font-medium">{describeTarget(lockout)}</div>
+                        <div className="flex gap-1 mt-1">
+                          <Badge variant="outline">{lockout.scope === "ip" ? "IP address" : "Account"}</Badge>
+                          {lockout.lockedOutAt && <Badge className="bg-red-500">Locked</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell>{lockout.action}</TableCell>
+                      <TableCell>{lockout.failures}</TableCell>
+                      <TableCell className="text-xs">
+                        {formatDate(lockout.lastFailureAt)}
+                        {lockout.scope === "account" && lockout.lastIpAddress && (
+                          <div className="text-muted-foreground">from {lockout.lastIpAddress}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-xs">{formatDate(lockout.blockedUntil)}</TableCell>
+                      <TableCell>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => clearMutation.mutate(lockout.id)}
+                          disabled={clearMutation.isPending}
+                        >
+                          <Unlock className="h-4 w-4 mr-1" />
+                          Clear
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-center text-sm text-muted-foreground py-10">
+                No accounts or IP addresses are blocked
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AdminLayout>
+  );
+}
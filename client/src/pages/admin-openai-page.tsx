@@ -27,14 +27,18 @@ const openaiSettingsSchema = z.object({
 
 type OpenAISettingsFormValues = z.infer<typeof openaiSettingsSchema>;
 
-// Mock data for user token usage
-const mockUserTokenUsage = [
-  { id: 1, username: "james_parker", tokensUsed: 34500, lastUsed: "2025-04-18T15:32:00Z" },
-  { id: 2, username: "emilywrites", tokensUsed: 29800, lastUsed: "2025-04-20T09:17:00Z" },
-  { id: 3, username: "admin", tokensUsed: 5200, lastUsed: "2025-04-21T11:45:00Z" },
-  { id: 4, username: "journaluser", tokensUsed: 18600, lastUsed: "2025-04-19T22:30:00Z" },
-  { id: 5, username: "mindfulme", tokensUsed: 42100, lastUsed: "2025-04-21T16:12:00Z" },
-];
+interface UserTokenUsage {
+  userId: number;
+  username: string;
+  tokensUsed: number;
+  lastUsed: string;
+}
+
+interface TokenUsageResponse {
+  userUsage: UserTokenUsage[];
+  featureUsage: { feature: string; calls: number; tokensUsed: number }[];
+  totalUsage: number;
+}
 
 export default function AdminOpenAIPage() {
   const { user } = useAuth();
@@ -72,6 +76,12 @@ export default function AdminOpenAIPage() {
     },
   });
 
+  // Get this month's token usage
+  const { data: tokenUsage } = useQuery<TokenUsageResponse>({
+    queryKey: ["/api/settings/token-usage"],
+    enabled: activeTab === "usage",
+  });
+
   // Update form when data is loaded
   useEffect(() => {
     if (openaiSettings) {
@@ -147,12 +157,20 @@ export default function AdminOpenAIPage() {
     return <Redirect to="/auth" />;
   }
 
-  // Calculate total token usage
-  const totalTokensUsed = mockUserTokenUsage.reduce((sum, user) => sum + user.tokensUsed, 0);
-  const usagePercentage = openaiSettings?.monthlyTokenLimit 
-    ? Math.min(100, (totalTokensUsed / openaiSettings.monthlyTokenLimit) * 100)
+  // Usage is returned highest first; the limit applies to each user separately
+  const userUsage = tokenUsage?.userUsage ?? [];
+  const totalTokensUsed = tokenUsage?.totalUsage ?? 0;
+  const topUser = userUsage[0];
+  const usagePercentage = topUser && openaiSettings?.monthlyTokenLimit 
+    ? Math.min(100, (topUser.tokensUsed / openaiSettings.monthlyTokenLimit) * 100)
     : 0;
 
+  // Budgets reset at the start of each calendar month (UTC)
+  const now = new Date();
+  const daysRemaining = Math.ceil(
+    (Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1) - now.getTime()) / (1000 * 60 * 60 * 24)
+  );
+
   return (
     <AdminLayout>
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
@@ -249,13 +267,14 @@ export default function AdminOpenAIPage() {
           <Card className="mb-6">
             <CardHeader className="pb-2">
               <CardTitle>Monthly Usage Overview</CardTitle>
-              <CardDescription>Current usage relative to monthly limit</CardDescription>
+              <CardDescription>Highest user's usage relative to the per-user monthly limit</CardDescription>
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
                 <div className="flex justify-between items-center mb-1">
                   <span className="text-sm font-medium">
-                    {totalTokensUsed.toLocaleString()} / {openaiSettings?.monthlyTokenLimit.toLocaleString()} tokens
+                    {(topUser?.tokensUsed ?? 0).toLocaleString()} / {openaiSettings?.monthlyTokenLimit.toLocaleString()} tokens
+                    {!openaiSettings?.enableTokenLimit && " (limit disabled)"}
                   </span>
                   <span className="text-sm font-medium">
                     {usagePercentage.toFixed(1)}%
@@ -266,11 +285,13 @@ export default function AdminOpenAIPage() {
                 <div className="flex justify-between items-center pt-2 text-sm text-muted-foreground">
                   <div className="flex items-center">
                     <Clock className="w-4 h-4 mr-1" />
-                    <span>9 days remaining in billing cycle</span>
+                    <span>{daysRemaining} days remaining in billing cycle</span>
                   </div>
                   <div className="flex items-center">
                     <BarChart className="w-4 h-4 mr-1" />
-                    <span>Avg: ~{Math.round(totalTokensUsed / mockUserTokenUsage.length).toLocaleString()} per user</span>
+                    <span>
+                      {totalTokensUsed.toLocaleString()} tokens total, avg ~{Math.round(totalTokensUsed / Math.max(1, userUsage.length)).toLocaleString()} per user
+                    </span>
                   </div>
                 </div>
               </div>
@@ -293,8 +314,15 @@ export default function AdminOpenAIPage() {
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {mockUserTokenUsage.map((userData) => (
-                    <TableRow key={userData.id}>
+                  {userUsage.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center text-muted-foreground">
+                        No AI usage recorded this month
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {userUsage.map((userData) => (
+                    <TableRow key={userData.userId}>
                       <TableCell className="font-medium">{userData.username}</TableCell>
                       <TableCell className="text-right">{userData.tokensUsed.toLocaleString()}</TableCell>
                       <TableCell className="text-right">
@@ -306,12 +334,14 @@ export default function AdminOpenAIPage() {
                     </TableRow>
                   ))}
                 </TableBody>
-                <TableCaption>
-                  <div className="flex items-center justify-center gap-1 pt-2">
-                    <Award className="h-4 w-4 text-amber-500" />
-                    <span>Top user: {mockUserTokenUsage.sort((a, b) => b.tokensUsed - a.tokensUsed)[0].username}</span>
-                  </div>
-                </TableCaption>
+                {topUser && (
+                  <TableCaption>
+                    <div className="flex items-center justify-center gap-1 pt-2">
+                      <Award className="h-4 w-4 text-amber-500" />
+                      <span>Top user: {topUser.username}</span>
+                    </div>
+                  </TableCaption>
+                )}
               </Table>
             </CardContent>
           </Card>
@@ -17,6 +17,7 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
 import { 
   Card, 
@@ -34,13 +35,28 @@ import {
 } from "@/components/ui/tabs";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { 
   AlertCircle, 
   CreditCard, 
   DollarSign, 
+  Download,
   ExternalLink, 
+  FileText,
+  Gift,
+  Mail,
+  RefreshCw,
   Info, 
-  Settings
+  Settings,
+  Tag
 } from "lucide-react";
 import {
   HoverCard,
@@ -56,6 +72,7 @@ const paypalSettingsSchema = z.object({
     required_error: "Mode is required",
   }),
   callbackUrl: z.string().url("Must be a valid URL").optional(),
+  webhookId: z.string().optional(),
 });
 
 type PayPalSettings = z.infer<typeof paypalSettingsSchema>;
@@ -70,6 +87,79 @@ type PayPalTransaction = {
   date: string;
   planName: string;
   paymentId: string;
+  promoCode: string | null;
+  discountAmount: number | null;
+  invoiceNumber: string | null;
+};
+
+// Seller details, tax and numbering printed on invoices
+type InvoiceSettings = {
+  businessName: string;
+  businessAddress: string | null;
+  taxId: string | null;
+  taxLabel: string;
+  taxRate: number;
+  numberPrefix: string;
+};
+
+// Form schema for creating a promo code; number fields are kept as text until submit
+const promoCodeFormSchema = z.object({
+  code: z.string().trim().min(3, "Code must be at least 3 characters").max(32).regex(/^[A-Za-z0-9_-]+$/, "Use letters, numbers, dashes and underscores"),
+  description: z.string().max(200).optional(),
+  discountType: z.enum(["percent", "fixed"]),
+  discountValue: z.string().refine(value => Number(value) > 0, "Discount must be greater than 0"),
+  planId: z.string(),
+  maxRedemptions: z.string().optional(),
+  maxRedemptionsPerUser: z.string().refine(value => Number.isInteger(Number(value)) && Number(value) > 0, "Must be at least 1"),
+  expiresAt: z.string().optional(),
+}).refine(data => data.discountType !== "percent" || Number(data.discountValue) <= 100, {
+  message: "A percentage discount can't be more than 100",
+  path: ["discountValue"],
+});
+
+type PromoCodeForm = z.infer<typeof promoCodeFormSchema>;
+
+// Promo code with how many times it has been redeemed
+type PromoCodeRow = {
+  id: number;
+  code: string;
+  description: string | null;
+  discountType: "percent" | "fixed";
+  discountValue: number;
+  planIds: number[] | null;
+  maxRedemptions: number | null;
+  maxRedemptionsPerUser: number;
+  expiresAt: string | null;
+  isActive: boolean;
+  redemptionCount: number;
+};
+
+// Payment a promo code was redeemed with
+type PromoRedemption = {
+  paymentId: number;
+  username: string;
+  planName: string | null;
+  amount: number;
+  discountAmount: number | null;
+  status: string;
+  paymentDate: string;
+};
+
+// User who has started their free trial
+type TrialRow = {
+  userId: number;
+  username: string;
+  email: string;
+  trialUsedAt: string;
+  subscriptionTier: string;
+  subscriptionStatus: string;
+};
+
+type SubscriptionPlanOption = {
+  id: number;
+  name: string;
+  displayName: string;
+  price: number;
 };
 
 export default function AdminPaypalPage() {
@@ -101,6 +191,68 @@ export default function AdminPaypalPage() {
     },
     enabled: activeTab === "transactions"
   });
+  
+  // Invoice settings, edited on the Transactions tab
+  const { data: invoiceSettings } = useQuery<InvoiceSettings>({
+    queryKey: ["/api/admin/invoices/settings"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/admin/invoices/settings");
+      return await res.json();
+    },
+    enabled: activeTab === "transactions"
+  });
+  
+  const [invoiceSettingsDraft, setInvoiceSettingsDraft] = useState<Partial<InvoiceSettings>>({});
+  const invoiceForm = { ...invoiceSettings, ...invoiceSettingsDraft };
+  
+  // Queries for the Promotions tab
+  const { data: promoCodes, isLoading: promoCodesLoading } = useQuery<PromoCodeRow[]>({
+    queryKey: ["/api/admin/promo-codes"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/admin/promo-codes");
+      return await res.json();
+    },
+    enabled: activeTab === "promotions"
+  });
+  
+  const { data: plans } = useQuery<SubscriptionPlanOption[]>({
+    queryKey: ["/api/subscription/plans"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/subscription/plans");
+      return await res.json();
+    },
+    enabled: activeTab === "promotions"
+  });
+  
+  const { data: trials, isLoading: trialsLoading } = useQuery<TrialRow[]>({
+    queryKey: ["/api/admin/trials"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/admin/trials");
+      return await res.json();
+    },
+    enabled: activeTab === "promotions"
+  });
+  
+  const { data: lifecycleSettings } = useQuery<{ trialDays: number }>({
+    queryKey: ["/api/admin/subscriptions/lifecycle-settings"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/admin/subscriptions/lifecycle-settings");
+      return await res.json();
+    },
+    enabled: activeTab === "promotions"
+  });
+  
+  const [trialDaysInput, setTrialDaysInput] = useState<string | null>(null);
+  const [redemptionsFor, setRedemptionsFor] = useState<number | null>(null);
+  
+  const { data: redemptions, isLoading: redemptionsLoading } = useQuery<PromoRedemption[]>({
+    queryKey: ["/api/admin/promo-codes", redemptionsFor, "redemptions"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/admin/promo-codes/${redemptionsFor}/redemptions`);
+      return await res.json();
+    },
+    enabled: redemptionsFor !== null
+  });
 
   // Mutation to update PayPal settings
   const updateSettingsMutation = useMutation({
@@ -124,6 +276,159 @@ export default function AdminPaypalPage() {
     }
   });
   
+  // Mutation to save invoice settings
+  const updateInvoiceSettingsMutation = useMutation({
+    mutationFn: async (data: Partial<InvoiceSettings>) => {
+      const res = await apiRequest("PUT", "/api/admin/invoices/settings", data);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Invoice details updated",
+        description: "New and regenerated invoices will use these details.",
+      });
+      setInvoiceSettingsDraft({});
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/invoices/settings"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to update invoice details",
+        description: error.message || "There was an error updating the invoice details.",
+        variant: "destructive",
+      });
+    }
+  });
+  
+  // Mutations to rebuild a payment's invoice and to email it to the user
+  const regenerateInvoiceMutation = useMutation({
+    mutationFn: async (paymentId: number) => {
+      const res = await apiRequest("POST", `/api/admin/payments/${paymentId}/invoice/regenerate`);
+      return await res.json();
+    },
+    onSuccess: (invoice) => {
+      toast({
+        title: "Invoice regenerated",
+        description: `Invoice ${invoice.invoiceNumber} now uses the current payment and invoice details.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/paypal-transactions"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to regenerate invoice",
+        description: error.message || "There was an error regenerating the invoice.",
+        variant: "destructive",
+      });
+    }
+  });
+  
+  const emailInvoiceMutation = useMutation({
+    mutationFn: async (paymentId: number) => {
+      const res = await apiRequest("POST", `/api/admin/payments/${paymentId}/invoice/email`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Invoice emailed",
+        description: "The invoice has been queued for delivery to the user.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/paypal-transactions"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to email invoice",
+        description: error.message || "There was an error emailing the invoice.",
+        variant: "destructive",
+      });
+    }
+  });
+  
+  // Mutation to change the free trial length
+  const updateTrialDaysMutation = useMutation({
+    mutationFn: async (trialDays: number) => {
+      const res = await apiRequest("PUT", "/api/admin/subscriptions/lifecycle-settings", { trialDays });
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Trial length updated",
+        description: "New trials will use the updated length.",
+      });
+      setTrialDaysInput(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/subscriptions/lifecycle-settings"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to update trial length",
+        description: error.message || "There was an error updating the trial length.",
+        variant: "destructive",
+      });
+    }
+  });
+  
+  // Mutation to create a promo code
+  const createPromoCodeMutation = useMutation({
+    mutationFn: async (data: PromoCodeForm) => {
+      const res = await apiRequest("POST", "/api/admin/promo-codes", {
+        code: data.code,
+        description: data.description || null,
+        discountType: data.discountType,
+        discountValue: Number(data.discountValue),
+        planIds: data.planId === "all" ? null : [Number(data.planId)],
+        maxRedemptions: data.maxRedemptions ? Number(data.maxRedemptions) : null,
+        maxRedemptionsPerUser: Number(data.maxRedemptionsPerUser),
+        expiresAt: data.expiresAt ? new Date(`${data.expiresAt}T23:59:59`).toISOString() : null,
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Promo code created",
+        description: "The promo code can be used at checkout right away.",
+      });
+      promoForm.reset();
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/promo-codes"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to create promo code",
+        description: error.message || "There was an error creating the promo code.",
+        variant: "destructive",
+      });
+    }
+  });
+  
+  // Mutation to turn a promo code on or off
+  const togglePromoCodeMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: number; isActive: boolean }) => {
+      const res = await apiRequest("PATCH", `/api/admin/promo-codes/${id}`, { isActive });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/promo-codes"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to update promo code",
+        description: error.message || "There was an error updating the promo code.",
+        variant: "destructive",
+      });
+    }
+  });
+  
+  const promoForm = useForm<PromoCodeForm>({
+    resolver: zodResolver(promoCodeFormSchema),
+    defaultValues: {
+      code: "",
+      description: "",
+      discountType: "percent",
+      discountValue: "",
+      planId: "all",
+      maxRedemptions: "",
+      maxRedemptionsPerUser: "1",
+      expiresAt: "",
+    },
+  });
+  
   // Set up form with default values from settings query
   const form = useForm<PayPalSettings>({
     resolver: zodResolver(paypalSettingsSchema),
@@ -132,6 +437,7 @@ export default function AdminPaypalPage() {
       clientSecret: paypalSettings?.clientSecret || "",
       mode: paypalSettings?.mode || "sandbox",
       callbackUrl: paypalSettings?.callbackUrl || "",
+      webhookId: paypalSettings?.webhookId || "",
     },
     values: paypalSettings,
   });
@@ -174,6 +480,10 @@ export default function AdminPaypalPage() {
               <DollarSign className="h-4 w-4 mr-2" />
               Transactions
             </TabsTrigger>
+            <TabsTrigger value="promotions" className="flex items-center">
+              <Tag className="h-4 w-4 mr-2" />
+              Promotions
+            </TabsTrigger>
             <TabsTrigger value="guide" className="flex items-center">
               <Info className="h-4 w-4 mr-2" />
               Setup Guide
@@ -324,6 +634,38 @@ export default function AdminPaypalPage() {
                         )}
                       />
                       
+                      <FormField
+                        control={form.control}
+                        name="webhookId"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>
+                              Webhook ID (Optional)
+                              <HoverCard>
+                                <HoverCardTrigger asChild>
+                                  <Info className="h-4 w-4 ml-2 text-muted-foreground inline cursor-help" />
+                                </HoverCardTrigger>
+                                <HoverCardContent className="w-80">
+                                  <p className="text-sm">
+                                    The ID PayPal shows for the webhook pointing at /api/webhooks/paypal. It is used to verify that events really come from PayPal; without it renewals, failed payments and refunds are not applied.
+                                  </p>
+                                </HoverCardContent>
+                              </HoverCard>
+                            </FormLabel>
+                            <FormControl>
+                              <Input 
+                                {...field} 
+                                placeholder="e.g. 8PT597110X687430LKGECATA" 
+                              />
+                            </FormControl>
+                            <FormDescription>
+                              From the Webhooks section of your PayPal app.
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      
                       <Alert className="mt-4">
                         <AlertCircle className="h-4 w-4" />
                         <AlertTitle>Important Notes</AlertTitle>
@@ -358,7 +700,80 @@ export default function AdminPaypalPage() {
           </TabsContent>
           
           {/* Transactions Tab */}
-          <TabsContent value="transactions">
+          <TabsContent value="transactions" className="space-y-4">
+            <Card>
+              <CardHeader>
+                <CardTitle>Invoice Details</CardTitle>
+                <CardDescription>
+                  Printed on every invoice. Changes apply to new invoices and to invoices you regenerate.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Business name</label>
+                    <Input
+                      value={invoiceForm.businessName ?? ""}
+                      onChange={(e) => setInvoiceSettingsDraft({ ...invoiceSettingsDraft, businessName: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Tax ID</label>
+                    <Input
+                      value={invoiceForm.taxId ?? ""}
+                      onChange={(e) => setInvoiceSettingsDraft({ ...invoiceSettingsDraft, taxId: e.target.value || null })}
+                      placeholder="e.g. VAT or GST registration number"
+                    />
+                  </div>
+                  <div className="space-y-2 md:col-span-2">
+                    <label className="text-sm font-medium">Business address</label>
+                    <Textarea
+                      rows={3}
+                      value={invoiceForm.businessAddress ?? ""}
+                      onChange={(e) => setInvoiceSettingsDraft({ ...invoiceSettingsDraft, businessAddress: e.target.value || null })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Tax name</label>
+                    <Input
+                      value={invoiceForm.taxLabel ?? ""}
+                      onChange={(e) => setInvoiceSettingsDraft({ ...invoiceSettingsDraft, taxLabel: e.target.value })}
+                      placeholder="e.g. VAT, GST"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Tax rate (%)</label>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={100}
+                      step="0.01"
+                      value={invoiceForm.taxRate ?? ""}
+                      onChange={(e) => setInvoiceSettingsDraft({ ...invoiceSettingsDraft, taxRate: Number(e.target.value) })}
+                    />
+                    <p className="text-xs text-muted-foreground">Plan prices include this tax; 0 leaves it off invoices.</p>
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Invoice number prefix</label>
+                    <Input
+                      value={invoiceForm.numberPrefix ?? ""}
+                      onChange={(e) => setInvoiceSettingsDraft({ ...invoiceSettingsDraft, numberPrefix: e.target.value })}
+                    />
+                    <p className="text-xs text-muted-foreground">Numbers keep counting up when the prefix changes.</p>
+                  </div>
+                </div>
+                <div className="flex justify-end mt-4">
+                  <Button
+                    onClick={() => updateInvoiceSettingsMutation.mutate(invoiceSettingsDraft)}
+                    disabled={Object.keys(invoiceSettingsDraft).length === 0 || updateInvoiceSettingsMutation.isPending}
+                    className="min-w-32"
+                  >
+                    {updateInvoiceSettingsMutation.isPending ? "Saving..." : "Save Invoice Details"}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+            
             <Card>
               <CardHeader>
                 <CardTitle>Payment Transactions</CardTitle>
@@ -381,20 +796,31 @@ export default function AdminPaypalPage() {
                   </div>
                 ) : transactions && transactions.length > 0 ? (
                   <div className="space-y-1">
-                    <div className="grid grid-cols-5 gap-4 py-2 px-3 bg-muted rounded-sm text-xs font-medium text-muted-foreground">
+                    <div className="grid grid-cols-7 gap-4 py-2 px-3 bg-muted rounded-sm text-xs font-medium text-muted-foreground">
                       <div>User</div>
                       <div>Date</div>
                       <div>Plan</div>
                       <div>Amount</div>
+                      <div>Promo</div>
                       <div>Status</div>
+                      <div>Invoice</div>
                     </div>
                     <div className="divide-y">
                       {transactions.map((transaction) => (
-                        <div key={transaction.id} className="grid grid-cols-5 gap-4 py-3 px-3 text-sm">
+                        <div key={transaction.id} className="grid grid-cols-7 gap-4 py-3 px-3 text-sm">
                           <div>{transaction.username}</div>
                           <div>{new Date(transaction.date).toLocaleDateString()}</div>
                           <div>{transaction.planName}</div>
                           <div>${transaction.amount.toFixed(2)}</div>
+                          <div>
+                            {transaction.promoCode ? (
+                              <span title={transaction.discountAmount ? `-$${transaction.discountAmount.toFixed(2)}` : undefined}>
+                                {transaction.promoCode}
+                              </span>
+                            ) : (
+                              <span className="text-muted-foreground">—</span>
+                            )}
+                          </div>
                           <div>
                             <span className={`px-2 py-1 rounded-full text-xs font-medium ${
                               transaction.status === 'completed' 
@@ -406,6 +832,51 @@ export default function AdminPaypalPage() {
                               {transaction.status}
                             </span>
                           </div>
+                          <div>
+                            {transaction.status === 'failed' || transaction.status === 'pending' ? (
+                              <span className="text-muted-foreground">—</span>
+                            ) : (
+                              <div className="flex items-center gap-1">
+                                <a
+                                  href={`/api/admin/payments/${transaction.id}/invoice?format=pdf`}
+                                  title={transaction.invoiceNumber ? `Download ${transaction.invoiceNumber}` : "Issue and download invoice"}
+                                  className="p-1 rounded hover:bg-muted"
+                                >
+                                  <Download className="h-4 w-4" />
+                                </a>
+                                <a
+                                  href={`/api/admin/payments/${transaction.id}/invoice?format=html`}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  title="View invoice"
+                                  className="p-1 rounded hover:bg-muted"
+                                >
+                                  <FileText className="h-4 w-4" />
+                                </a>
+                                <button
+                                  type="button"
+                                  title="Regenerate invoice"
+                                  className="p-1 rounded hover:bg-muted disabled:opacity-50"
+                                  onClick={() => regenerateInvoiceMutation.mutate(transaction.id)}
+                                  disabled={regenerateInvoiceMutation.isPending}
+                                >
+                                  <RefreshCw className="h-4 w-4" />
+                                </button>
+                                <button
+                                  type="button"
+                                  title="Email invoice to user"
+                                  className="p-1 rounded hover:bg-muted disabled:opacity-50"
+                                  onClick={() => emailInvoiceMutation.mutate(transaction.id)}
+                                  disabled={emailInvoiceMutation.isPending}
+                                >
+                                  <Mail className="h-4 w-4" />
+                                </button>
+                              </div>
+                            )}
+                            {transaction.invoiceNumber && (
+                              <p className="text-xs text-muted-foreground">{transaction.invoiceNumber}</p>
+                            )}
+                          </div>
                         </div>
                       ))}
                     </div>
@@ -435,6 +906,336 @@ export default function AdminPaypalPage() {
             </Card>
           </TabsContent>
           
+          {/* Promotions Tab */}
+          <TabsContent value="promotions" className="space-y-4">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <Gift className="h-5 w-5 mr-2" />
+                  Free Trial
+                </CardTitle>
+                <CardDescription>
+                  Every account can start one free trial of a paid plan. Set the length to 0 to turn trials off.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="flex items-end gap-2 max-w-sm">
+                  <div className="flex-1 space-y-2">
+                    <label className="text-sm font-medium">Trial length (days)</label>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={90}
+                      value={trialDaysInput ?? lifecycleSettings?.trialDays ?? ""}
+                      onChange={(e) => setTrialDaysInput(e.target.value)}
+                    />
+                  </div>
+                  <Button
+                    onClick={() => updateTrialDaysMutation.mutate(Number(trialDaysInput))}
+                    disabled={trialDaysInput === null || trialDaysInput === "" || updateTrialDaysMutation.isPending}
+                  >
+                    Save
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+            
+            <Card>
+              <CardHeader>
+                <CardTitle>New Promo Code</CardTitle>
+                <CardDescription>
+                  Give a percentage or fixed amount off at checkout, optionally limited to one plan, a number of uses or a date.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Form {...promoForm}>
+                  <form onSubmit={promoForm.handleSubmit((data) => createPromoCodeMutation.mutate(data))} className="space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <FormField
+                        control={promoForm.control}
+                        name="code"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Code</FormLabel>
+                            <FormControl>
+                              <Input {...field} placeholder="e.g. WELCOME20" onChange={(e) => field.onChange(e.target.value.toUpperCase())} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={promoForm.control}
+                        name="description"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Description</FormLabel>
+                            <FormControl>
+                              <Input {...field} placeholder="Shown to users when the code is applied" />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={promoForm.control}
+                        name="discountType"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Discount type</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="percent">Percentage</SelectItem>
+                                <SelectItem value="fixed">Fixed amount ($)</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={promoForm.control}
+                        name="discountValue"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Discount</FormLabel>
+                            <FormControl>
+                              <Input {...field} type="number" min={0} step="0.01" placeholder={promoForm.watch("discountType") === "percent" ? "e.g. 20" : "e.g. 5.00"} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={promoForm.control}
+                        name="planId"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Plan</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="all">All paid plans</SelectItem>
+                                {plans?.filter(plan => plan.price > 0).map(plan => (
+                                  <SelectItem key={plan.id} value={String(plan.id)}>{plan.displayName}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={promoForm.control}
+                        name="expiresAt"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Expires</FormLabel>
+                            <FormControl>
+                              <Input {...field} type="date" />
+                            </FormControl>
+                            <FormDescription>Leave empty for no expiry.</FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={promoForm.control}
+                        name="maxRedemptions"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Total uses</FormLabel>
+                            <FormControl>
+                              <Input {...field} type="number" min={1} placeholder="Unlimited" />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={promoForm.control}
+                        name="maxRedemptionsPerUser"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Uses per user</FormLabel>
+                            <FormControl>
+                              <Input {...field} type="number" min={1} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                    <div className="flex justify-end">
+                      <Button type="submit" disabled={createPromoCodeMutation.isPending} className="min-w-32">
+                        {createPromoCodeMutation.isPending ? "Creating..." : "Create Promo Code"}
+                      </Button>
+                    </div>
+                  </form>
+                </Form>
+              </CardContent>
+            </Card>
+            
+            <Card>
+              <CardHeader>
+                <CardTitle>Promo Codes</CardTitle>
+                <CardDescription>
+                  A code is used up when a payment is made with it; failed payments don't count.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {promoCodesLoading ? (
+                  <div className="space-y-4">
+                    {[1, 2, 3].map((i) => (
+                      <Skeleton key={i} className="h-10 w-full" />
+                    ))}
+                  </div>
+                ) : promoCodes && promoCodes.length > 0 ? (
+                  <div className="space-y-1">
+                    <div className="grid grid-cols-6 gap-4 py-2 px-3 bg-muted rounded-sm text-xs font-medium text-muted-foreground">
+                      <div>Code</div>
+                      <div>Discount</div>
+                      <div>Plan</div>
+                      <div>Used</div>
+                      <div>Expires</div>
+                      <div>Active</div>
+                    </div>
+                    <div className="divide-y">
+                      {promoCodes.map((promoCode) => (
+                        <div key={promoCode.id}>
+                          <div className="grid grid-cols-6 gap-4 py-3 px-3 text-sm items-center">
+                            <div>
+                              <button
+                                type="button"
+                                className="font-mono font-medium hover:underline"
+                                onClick={() => setRedemptionsFor(redemptionsFor === promoCode.id ? null : promoCode.id)}
+                              >
+                                {promoCode.code}
+                              </button>
+                              {promoCode.description && (
+                                <p className="text-xs text-muted-foreground truncate">{promoCode.description}</p>
+                              )}
+                            </div>
+                            <div>
+                              {promoCode.discountType === "percent"
+                                ? `${promoCode.discountValue}%`
+                                : `$${promoCode.discountValue.toFixed(2)}`}
+                            </div>
+                            <div>
+                              {promoCode.planIds && promoCode.planIds.length > 0
+                                ? promoCode.planIds.map(id => plans?.find(plan => plan.id === id)?.displayName ?? `#${id}`).join(", ")
+                                : "All"}
+                            </div>
+                            <div>
+                              {promoCode.redemptionCount}
+                              {promoCode.maxRedemptions !== null && ` / ${promoCode.maxRedemptions}`}
+                            </div>
+                            <div>
+                              {promoCode.expiresAt ? (
+                                new Date(promoCode.expiresAt) <= new Date() ? (
+                                  <Badge variant="secondary">Expired</Badge>
+                                ) : new Date(promoCode.expiresAt).toLocaleDateString()
+                              ) : "Never"}
+                            </div>
+                            <div>
+                              <Switch
+                                checked={promoCode.isActive}
+                                onCheckedChange={(isActive) => togglePromoCodeMutation.mutate({ id: promoCode.id, isActive })}
+                                disabled={togglePromoCodeMutation.isPending}
+                              />
+                            </div>
+                          </div>
+                          {redemptionsFor === promoCode.id && (
+                            <div className="mx-3 mb-3 p-3 bg-muted/50 rounded-sm text-sm">
+                              {redemptionsLoading ? (
+                                <Skeleton className="h-5 w-48" />
+                              ) : redemptions && redemptions.length > 0 ? (
+                                <ul className="space-y-1">
+                                  {redemptions.map((redemption) => (
+                                    <li key={redemption.paymentId} className="flex justify-between gap-4">
+                                      <span>{redemption.username} · {redemption.planName ?? "Unknown Plan"}</span>
+                                      <span className="text-muted-foreground">
+                                        ${redemption.amount.toFixed(2)}
+                                        {redemption.discountAmount ? ` (-$${redemption.discountAmount.toFixed(2)})` : ""}
+                                        {" · "}{redemption.status}
+                                        {" · "}{new Date(redemption.paymentDate).toLocaleDateString()}
+                                      </span>
+                                    </li>
+                                  ))}
+                                </ul>
+                              ) : (
+                                <p className="text-muted-foreground">This code hasn't been redeemed yet.</p>
+                              )}
+                            </div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ) : (
+                  <div className="text-center py-8">
+                    <Tag className="mx-auto h-12 w-12 text-muted-foreground opacity-50" />
+                    <h3 className="mt-4 text-lg font-medium">No promo codes yet</h3>
+                    <p className="mt-2 text-sm text-muted-foreground">
+                      Codes you create above will appear here with how often they've been used.
+                    </p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+            
+            <Card>
+              <CardHeader>
+                <CardTitle>Recent Trials</CardTitle>
+                <CardDescription>
+                  Users who have started their free trial and what they are on now.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {trialsLoading ? (
+                  <div className="space-y-4">
+                    {[1, 2, 3].map((i) => (
+                      <Skeleton key={i} className="h-8 w-full" />
+                    ))}
+                  </div>
+                ) : trials && trials.length > 0 ? (
+                  <div className="space-y-1">
+                    <div className="grid grid-cols-4 gap-4 py-2 px-3 bg-muted rounded-sm text-xs font-medium text-muted-foreground">
+                      <div>User</div>
+                      <div>Started</div>
+                      <div>Tier</div>
+                      <div>Status</div>
+                    </div>
+                    <div className="divide-y">
+                      {trials.map((trial) => (
+                        <div key={trial.userId} className="grid grid-cols-4 gap-4 py-3 px-3 text-sm">
+                          <div>
+                            {trial.username}
+                            <p className="text-xs text-muted-foreground truncate">{trial.email}</p>
+                          </div>
+                          <div>{new Date(trial.trialUsedAt).toLocaleDateString()}</div>
+                          <div className="capitalize">{trial.subscriptionTier}</div>
+                          <div className="capitalize">{trial.subscriptionStatus}</div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground text-center py-6">No trials have been started yet.</p>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+          
           {/* Setup Guide Tab */}
           <TabsContent value="guide">
             <Card>
@@ -0,0 +1,604 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Redirect } from "wouter";
+import { AdminLayout } from "@/components/admin/admin-layout";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, Eye, Loader2, Pencil, Plus, Save } from "lucide-react";
+import { FeatureLimit, SubscriptionPlan, PlanAuditLogEntry } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+type LimitField = "maxJournalEntries" | "maxGoals" | "aiResponsesPerDay";
+type AccessFlag = "insightsAccess" | "customPromptsAccess" | "weeklyDigestAccess" | "moodTrackingAccess" | "exportAccess" | "communityAccess";
+
+const LIMIT_FIELDS: Array<{ field: LimitField; label: string }> = [
+  { field: "maxJournalEntries", label: "Journal entries" },
+  { field: "maxGoals", label: "Goals" },
+  { field: "aiResponsesPerDay", label: "AI responses per day" },
+];
+
+const ACCESS_FLAGS: Array<{ flag: AccessFlag; label: string }> = [
+  { flag: "insightsAccess", label: "Insights" },
+  { flag: "customPromptsAccess", label: "Custom prompts" },
+  { flag: "weeklyDigestAccess", label: "Weekly digest" },
+  { flag: "moodTrackingAccess", label: "Mood tracking" },
+  { flag: "exportAccess", label: "Data export" },
+  { flag: "communityAccess", label: "Community" },
+];
+
+const FIELD_LABELS: Record<string, string> = {
+  ...Object.fromEntries(LIMIT_FIELDS.map(({ field, label }) => [field, label])),
+  ...Object.fromEntries(ACCESS_FLAGS.map(({ flag, label }) => [flag, label])),
+  subscriptionTier: "Tier",
+  name: "Name",
+  displayName: "Display name",
+  description: "Description",
+  price: "Price",
+  interval: "Interval",
+  features: "Features",
+  isActive: "Active",
+};
+
+// Limits are edited as text so an empty field can mean unlimited
+type LimitDraft = Record<LimitField, string> & Record<AccessFlag, boolean> & { subscriptionTier: string };
+
+type PlanDraft = {
+  name: string;
+  displayName: string;
+  description: string;
+  price: string;
+  interval: "month" | "year";
+  features: string;
+  isActive: boolean;
+};
+
+interface LimitImpact {
+  tier: string;
+  usersInTier: number;
+  overLimit: { journalEntries: number; goals: number; aiResponses: number };
+  losingAccess: AccessFlag[];
+}
+
+type AuditEntry = PlanAuditLogEntry & { adminUsername: string | null };
+
+const emptyLimitDraft: LimitDraft = {
+  subscriptionTier: "",
+  maxJournalEntries: "",
+  maxGoals: "",
+  aiResponsesPerDay: "",
+  insightsAccess: false,
+  customPromptsAccess: false,
+  weeklyDigestAccess: false,
+  moodTrackingAccess: true,
+  exportAccess: false,
+  communityAccess: false,
+};
+
+const emptyPlanDraft: PlanDraft = {
+  name: "",
+  displayName: "",
+  description: "",
+  price: "",
+  interval: "month",
+  features: "",
+  isActive: true,
+};
+
+function toLimitDraft(limits: FeatureLimit): LimitDraft {
+  const draft = { ...emptyLimitDraft, subscriptionTier: limits.subscriptionTier };
+  for (const { field } of LIMIT_FIELDS) {
+    draft[field] = limits[field] === null ? "" : String(limits[field]);
+  }
+  for (const { flag } of ACCESS_FLAGS) {
+    draft[flag] = limits[flag];
+  }
+  return draft;
+}
+
+function fromLimitDraft(draft: LimitDraft) {
+  const values: Record<string, number | boolean | null> = {};
+  for (const { field } of LIMIT_FIELDS) {
+    values[field] = draft[field].trim() === "" ? null : Number(draft[field]);
+  }
+  for (const { flag } of ACCESS_FLAGS) {
+    values[flag] = draft[flag];
+  }
+  return values;
+}
+
+function toPlanDraft(plan: SubscriptionPlan): PlanDraft {
+  return {
+    name: plan.name,
+    displayName: plan.displayName,
+    description: plan.description,
+    price: String(plan.price),
+    interval: plan.interval === "year" ? "year" : "month",
+    features: plan.features.join("\n"),
+    isActive: plan.isActive,
+  };
+}
+
+function fromPlanDraft(draft: PlanDraft) {
+  return {
+    displayName: draft.displayName,
+    description: draft.description,
+    price: Number(draft.price),
+    interval: draft.interval,
+    features: draft.features.split("\n").map(feature => feature.trim()).filter(Boolean),
+    isActive: draft.isActive,
+  };
+}
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined) return "unlimited / none";
+  if (Array.isArray(value)) return value.join(", ") || "none";
+  return String(value);
+}
+
+function formatDate(dateString: string) {
+  return new Date(dateString).toLocaleString();
+}
+
+export default function AdminPlansPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [selectedTierId, setSelectedTierId] = useState<number | "new" | null>(null);
+  const [limitDraft, setLimitDraft] = useState<LimitDraft>(emptyLimitDraft);
+  const [impact, setImpact] = useState<LimitImpact | null>(null);
+  const [selectedPlanId, setSelectedPlanId] = useState<number | "new" | null>(null);
+  const [planDraft, setPlanDraft] = useState<PlanDraft>(emptyPlanDraft);
+
+  const { data: tiers, isLoading: tiersLoading } = useQuery<FeatureLimit[]>({
+    queryKey: ["/api/admin/feature-limits"],
+  });
+
+  const { data: plans, isLoading: plansLoading } = useQuery<SubscriptionPlan[]>({
+    queryKey: ["/api/admin/plans"],
+  });
+
+  const { data: auditLog, isLoading: auditLogLoading } = useQuery<AuditEntry[]>({
+    queryKey: ["/api/admin/plan-audit-log"],
+  });
+
+  // Start on the first tier once they load
+  useEffect(() => {
+    if (selectedTierId === null && tiers && tiers.length > 0) {
+      setSelectedTierId(tiers[0].id);
+      setLimitDraft(toLimitDraft(tiers[0]));
+    }
+  }, [tiers, selectedTierId]);
+
+  const selectTier = (id: number | "new") => {
+    setSelectedTierId(id);
+    setImpact(null);
+    const tier = tiers?.find(t => t.id === id);
+    setLimitDraft(tier ? toLimitDraft(tier) : emptyLimitDraft);
+  };
+
+  const selectPlan = (id: number | "new") => {
+    setSelectedPlanId(id);
+    const plan = plans?.find(p => p.id === id);
+    setPlanDraft(plan ? toPlanDraft(plan) : emptyPlanDraft);
+  };
+
+  // apiRequest errors read "<status>: <body>"; show the server's message when there is one
+  const showError = (title: string) => (error: Error) => {
+    let description = error.message;
+    const match = error.message.match(/^\d{3}: ([\s\S]*)$/);
+    if (match) {
+      try {
+        const body = JSON.parse(match[1]);
+        description = body.details?.[0]?.message || body.error || description;
+      } catch {
+        // Keep the raw message
+      }
+    }
+    toast({ title, description, variant: "destructive" });
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/admin/feature-limits/${selectedTierId}/preview`, fromLimitDraft(limitDraft));
+      return await res.json() as LimitImpact;
+    },
+    onSuccess: setImpact,
+    onError: showError("Failed to preview the change"),
+  });
+
+  const saveLimitsMutation = useMutation({
+    mutationFn: async () => {
+      const res = selectedTierId === "new"
+        ? await apiRequest("POST", "/api/admin/feature-limits", { subscriptionTier: limitDraft.subscriptionTier, ...fromLimitDraft(limitDraft) })
+        : await apiRequest("PATCH", `/api/admin/feature-limits/${selectedTierId}`, fromLimitDraft(limitDraft));
+      return await res.json() as FeatureLimit;
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/feature-limits"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/plan-audit-log"] });
+      setSelectedTierId(saved.id);
+      setLimitDraft(toLimitDraft(saved));
+      setImpact(null);
+      toast({
+        title: "Limits saved",
+        description: `The ${saved.subscriptionTier} tier's limits apply from now on.`,
+      });
+    },
+    onError: showError("Failed to save limits"),
+  });
+
+  const savePlanMutation = useMutation({
+    mutationFn: async () => {
+      const res = selectedPlanId === "new"
+        ? await apiRequest("POST", "/api/admin/plans", { name: planDraft.name, ...fromPlanDraft(planDraft) })
+        : await apiRequest("PATCH", `/api/admin/plans/${selectedPlanId}`, fromPlanDraft(planDraft));
+      return await res.json() as SubscriptionPlan;
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/plans"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/subscription/plans"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/plan-audit-log"] });
+      setSelectedPlanId(saved.id);
+      setPlanDraft(toPlanDraft(saved));
+      toast({
+        title: "Plan saved",
+        description: `${saved.displayName} has been saved.`,
+      });
+    },
+    onError: showError("Failed to save plan"),
+  });
+
+  if (!user?.isAdmin) {
+    return <Redirect to="/auth" />;
+  }
+
+  const overLimitRows = impact ? [
+    { label: "Journal entries", count: impact.overLimit.journalEntries },
+    { label: "Goals", count: impact.overLimit.goals },
+    { label: "AI responses today", count: impact.overLimit.aiResponses },
+  ].filter(row => row.count > 0) : [];
+
+  return (
+    <AdminLayout>
+      <Tabs defaultValue="limits" className="space-y-6">
+        <TabsList>
+          <TabsTrigger value="limits">Tier Limits</TabsTrigger>
+          <TabsTrigger value="plans">Plans</TabsTrigger>
+          <TabsTrigger value="audit">Change History</TabsTrigger>
+        </TabsList>
+
+        {/* Tier Limits Tab */}
+        <TabsContent value="limits">
+          <Card>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div>
+                <CardTitle>Tier Limits</CardTitle>
+                <CardDescription>What each subscription tier can use. Leave a limit empty for unlimited.</CardDescription>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => selectTier("new")}>
+                <Plus className="h-4 w-4 mr-2" />
+                New Tier
+              </Button>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {tiersLoading ? (
+                <div className="flex justify-center items-center h-40">
+                  <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+                </div>
+              ) : (
+                <>
+                  <div className="flex flex-wrap gap-2">
+                    {tiers?.map(tier => (
+                      <Button
+                        key={tier.id}
+                        variant={selectedTierId === tier.id ? "default" : "outline"}
+                        size="sm"
+                        className="capitalize"
+                        onClick={() => selectTier(tier.id)}
+                      >
+                        {tier.subscriptionTier}
+                      </Button>
+                    ))}
+                    {selectedTierId === "new" && <Badge variant="secondary">New tier</Badge>}
+                  </div>
+
+                  {selectedTierId !== null && (
+                    <div className="space-y-6">
+                      {selectedTierId === "new" && (
+                        <div className="space-y-2 max-w-xs">
+                          <Label htmlFor="tier-name">Tier name</Label>
+                          <Input
+                            id="tier-name"
+                            value={limitDraft.subscriptionTier}
+                            onChange={(e) => setLimitDraft({ ...limitDraft, subscriptionTier: e.target.value.toLowerCase() })}
+                            placeholder="e.g. team"
+                          />
+                        </div>
+                      )}
+
+                      <div className="grid gap-4 md:grid-cols-3">
+                        {LIMIT_FIELDS.map(({ field, label }) => (
+                          <div key={field} className="space-y-2">
+                            <Label htmlFor={field}>{label}</Label>
+                            <Input
+                              id={field}
+                              type="number"
+                              min={0}
+                              value={limitDraft[field]}
+                              onChange={(e) => setLimitDraft({ ...limitDraft, [field]: e.target.value })}
+                              placeholder="Unlimited"
+                            />
+                          </div>
+                        ))}
+                      </div>
+
+                      <div className="grid gap-4 md:grid-cols-3">
+                        {ACCESS_FLAGS.map(({ flag, label }) => (
+                          <div key={flag} className="flex items-center justify-between rounded-md border p-3">
+                            <Label htmlFor={flag}>{label}</Label>
+                            <Switch
+                              id={flag}
+                              checked={limitDraft[flag]}
+                              onCheckedChange={(checked) => setLimitDraft({ ...limitDraft, [flag]: checked })}
+                            />
+                          </div>
+                        ))}
+                      </div>
+
+                      {impact && (
+                        <Alert variant={overLimitRows.length > 0 || impact.losingAccess.length > 0 ? "destructive" : "default"}>
+                          <AlertTriangle className="h-4 w-4" />
+                          <AlertTitle>
+                            {impact.usersInTier} {impact.usersInTier === 1 ? "user is" : "users are"} on the {impact.tier} tier
+                          </AlertTitle>
+                          <AlertDescription className="space-y-1">
+                            {overLimitRows.length === 0 && impact.losingAccess.length === 0 && (
+                              <p>Nobody is over the new limits or loses access to a feature.</p>
+                            )}
+                            {overLimitRows.map(row => (
+                              <p key={row.label}>
+                                {row.count} already over the new {row.label.toLowerCase()} limit. They keep what they have but can't add more.
+                              </p>
+                            ))}
+                            {impact.losingAccess.length > 0 && (
+                              <p>
+                                Everyone on the tier loses access to{" "}
+                                {impact.losingAccess.map(flag => FIELD_LABELS[flag].toLowerCase()).join(", ")}.
+                              </p>
+                            )}
+                          </AlertDescription>
+                        </Alert>
+                      )}
+
+                      <div className="flex gap-2">
+                        {selectedTierId !== "new" && (
+                          <Button variant="outline" onClick={() => previewMutation.mutate()} disabled={previewMutation.isPending}>
+                            {previewMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Eye className="h-4 w-4 mr-2" />}
+                            Preview Impact
+                          </Button>
+                        )}
+                        <Button onClick={() => saveLimitsMutation.mutate()} disabled={saveLimitsMutation.isPending}>
+                          {saveLimitsMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                          {selectedTierId === "new" ? "Create Tier" : "Save Limits"}
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {/* Plans Tab */}
+        <TabsContent value="plans" className="space-y-6">
+          <Card>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div>
+                <CardTitle>Subscription Plans</CardTitle>
+                <CardDescription>Price changes apply to new checkouts; running subscriptions keep what they paid</CardDescription>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => selectPlan("new")}>
+                <Plus className="h-4 w-4 mr-2" />
+                New Plan
+              </Button>
+            </CardHeader>
+            <CardContent>
+              {plansLoading ? (
+                <div className="flex justify-center items-center h-40">
+                  <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Plan</TableHead>
+                      <TableHead>Price</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {plans?.map(plan => (
+                      <TableRow key={plan.id}>
+                        <TableCell>
+                          <div className="font-medium">{plan.displayName}</div>
+                          <div className="text-xs text-muted-foreground">{plan.name}</div>
+                        </TableCell>
+                        <TableCell>${plan.price.toFixed(2)} / {plan.interval}</TableCell>
+                        <TableCell>
+                          <Badge variant={plan.isActive ? "default" : "secondary"}>
+                            {plan.isActive ? "Active" : "Inactive"}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="ghost" size="sm" onClick={() => selectPlan(plan.id)}>
+                            <Pencil className="h-4 w-4 mr-1" />
+                            Edit
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          {selectedPlanId !== null && (
+            <Card>
+              <CardHeader>
+                <CardTitle>{selectedPlanId === "new" ? "New Plan" : `Edit ${planDraft.displayName || planDraft.name}`}</CardTitle>
+                <CardDescription>Deactivate a plan to stop offering it; existing subscriptions are unaffected</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="plan-name">Name</Label>
+                    <Input
+                      id="plan-name"
+                      value={planDraft.name}
+                      onChange={(e) => setPlanDraft({ ...planDraft, name: e.target.value.toLowerCase() })}
+                      disabled={selectedPlanId !== "new"}
+                      placeholder="e.g. pro-yearly"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="plan-display-name">Display name</Label>
+                    <Input
+                      id="plan-display-name"
+                      value={planDraft.displayName}
+                      onChange={(e) => setPlanDraft({ ...planDraft, displayName: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="plan-price">Price</Label>
+                    <Input
+                      id="plan-price"
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={planDraft.price}
+                      onChange={(e) => setPlanDraft({ ...planDraft, price: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Billing interval</Label>
+                    <Select
+                      value={planDraft.interval}
+                      onValueChange={(interval) => setPlanDraft({ ...planDraft, interval: interval as PlanDraft["interval"] })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="month">Monthly</SelectItem>
+                        <SelectItem value="year">Yearly</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="plan-description">Description</Label>
+                  <Input
+                    id="plan-description"
+                    value={planDraft.description}
+                    onChange={(e) => setPlanDraft({ ...planDraft, description: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="plan-features">Features (one per line)</Label>
+                  <Textarea
+                    id="plan-features"
+                    rows={5}
+                    value={planDraft.features}
+                    onChange={(e) => setPlanDraft({ ...planDraft, features: e.target.value })}
+                  />
+                </div>
+                <div className="flex items-center gap-3">
+                  <Switch
+                    id="plan-active"
+                    checked={planDraft.isActive}
+                    onCheckedChange={(isActive) => setPlanDraft({ ...planDraft, isActive })}
+                  />
+                  <Label htmlFor="plan-active">Offered to users</Label>
+                </div>
+                <Button onClick={() => savePlanMutation.mutate()} disabled={savePlanMutation.isPending}>
+                  {savePlanMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                  {selectedPlanId === "new" ? "Create Plan" : "Save Plan"}
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+
+        {/* Change History Tab */}
+        <TabsContent value="audit">
+          <Card>
+            <CardHeader>
+              <CardTitle>Change History</CardTitle>
+              <CardDescription>Every change made to plans and tier limits, newest first</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {auditLogLoading ? (
+                <div className="flex justify-center items-center h-40">
+                  <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+                </div>
+              ) : auditLog && auditLog.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>When</TableHead>
+                      <TableHead>Admin</TableHead>
+                      <TableHead>Changed</TableHead>
+                      <TableHead>Fields</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {auditLog.map(entry => (
+                      <TableRow key={entry.id}>
+                        <TableCell className="text-xs whitespace-nowrap">{formatDate(entry.createdAt)}</TableCell>
+                        <TableCell>{entry.adminUsername || "—"}</TableCell>
+                        <TableCell>
+                          <div className="font-medium">{entry.entityName}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {entry.action === "create" ? "Created" : "Updated"} {entry.entityType === "feature_limit" ? "tier limits" : "plan"}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-xs space-y-1">
+                          {Object.entries(entry.changes).map(([field, change]) => (
+                            <div key={field}>
+                              <span className="font-medium">{FIELD_LABELS[field] || field}:</span>{" "}
+                              {entry.action === "update" && (
+                                <span className="text-muted-foreground line-through mr-1">{formatValue(change.from)}</span>
+                              )}
+                              {formatValue(change.to)}
+                            </div>
+                          ))}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <p className="text-center text-sm text-muted-foreground py-10">
+                  No changes have been made yet
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </AdminLayout>
+  );
+}
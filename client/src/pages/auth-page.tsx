@@ -13,11 +13,12 @@ import { insertUserSchema } from "@shared/schema";
 import { Separator } from "@/components/ui/separator";
 import { FcGoogle } from "react-icons/fc";
 import { SiApple } from "react-icons/si";
-import { Image, MessageCircle, Heart, BarChart, Lightbulb, Sparkles, BookOpen, AlertCircle } from "lucide-react";
+import { Image, MessageCircle, Heart, BarChart, Lightbulb, Sparkles, BookOpen, AlertCircle, ArrowLeft } from "lucide-react";
 import { HopeLogLogo } from "@/components/ui/hope-log-logo";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
 import { ForgotPasswordForm } from "@/components/auth/forgot-password-form";
+import { TwoFactorCodeForm } from "@/components/auth/two-factor-code-form";
 
 const loginSchema = z.object({
   email: z.string().email("Please enter a valid email address"),
@@ -43,9 +44,11 @@ type LoginData = {
 type RegisterData = z.infer<typeof registerSchema>;
 
 export default function AuthPage() {
-  const { user, loginMutation, registerMutation } = useAuth();
+  const { user, loginMutation, twoFactorLoginMutation, registerMutation } = useAuth();
   const [activeTab, setActiveTab] = useState<string>("login");
   const [showForgotPassword, setShowForgotPassword] = useState(false);
+  // Set once the password (or OAuth provider) was accepted and a 2FA code is needed
+  const [showTwoFactorStep, setShowTwoFactorStep] = useState(false);
   const [location] = useLocation();
   const [error, setError] = useState<string | null>(null);
   const { toast } = useToast();
@@ -54,6 +57,11 @@ export default function AuthPage() {
   useEffect(() => {
     const params = new URLSearchParams(window.location.search);
     const errorMsg = params.get('error');
+    // OAuth sign-ins for users with 2FA come back here for the code
+    if (params.get('twoFactor') === 'required') {
+      setActiveTab("login");
+      setShowTwoFactorStep(true);
+    }
     if (errorMsg) {
       setError(errorMsg);
       // Log the error for debugging
@@ -86,7 +94,13 @@ export default function AuthPage() {
   });
 
   const onLoginSubmit = (data: LoginData) => {
-    loginMutation.mutate(data);
+    loginMutation.mutate(data, {
+      onSuccess: (response) => {
+        if (response.twoFactorRequired) {
+          setShowTwoFactorStep(true);
+        }
+      }
+    });
   };
 
   const onRegisterSubmit = (data: RegisterData) => {
@@ -258,7 +272,28 @@ export default function AuthPage() {
               </TabsList>
               
               <TabsContent value="login">
-                {showForgotPassword ? (
+                {showTwoFactorStep ? (
+                  <div className="py-2">
+                    <div className="flex items-center mb-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="p-0 mr-2 hover:bg-transparent"
+                        onClick={() => setShowTwoFactorStep(false)}
+                      >
+                        <ArrowLeft className="h-4 w-4" />
+                      </Button>
+                      <h3 className="text-lg font-medium">Two-factor authentication</h3>
+                    </div>
+                    <p className="text-sm text-muted-foreground mb-4">
+                      Enter the 6-digit code from your authenticator app.
+                    </p>
+                    <TwoFactorCodeForm
+                      onSubmit={(factor) => twoFactorLoginMutation.mutate(factor)}
+                      isPending={twoFactorLoginMutation.isPending}
+                    />
+                  </div>
+                ) : showForgotPassword ? (
                   <div className="py-2">
                     <ForgotPasswordForm onBack={() => setShowForgotPassword(false)} />
                   </div>
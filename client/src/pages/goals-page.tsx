@@ -4,12 +4,15 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { Goal as GoalBase, Habit } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useQuotaToast } from "@/hooks/use-quota-toast";
+import { usePaginatedList } from "@/hooks/use-paginated-list";
+import LoadMoreButton from "@/components/ui/load-more-button";
 import TaskForm from "@/components/goals/task-form";
 import TaskList from "@/components/goals/task-list";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { format, addDays, subDays } from "date-fns";
+import { format, addDays, subDays, startOfDay, endOfDay } from "date-fns";
 // Calendar icon is already imported in the main import block
 import { Textarea } from "@/components/ui/textarea";
 import { cn } from "@/lib/utils";
@@ -240,6 +243,7 @@ type HabitFormValues = z.infer<typeof habitSchema>;
 export default function GoalsPage() {
   const { user } = useAuth();
   const { toast } = useToast();
+  const showQuotaToast = useQuotaToast();
   const [showNewGoalDialog, setShowNewGoalDialog] = useState(false);
   const [showNewHabitDialog, setShowNewHabitDialog] = useState(false);
   const [showNewTaskDialog, setShowNewTaskDialog] = useState(false);
@@ -303,8 +307,9 @@ export default function GoalsPage() {
   const [habitFrequencyFilter, setHabitFrequencyFilter] = useState<string | null>(null);
   const [habitSortDirection, setHabitSortDirection] = useState<'asc' | 'desc'>('asc');
   
-  // Fetch goals data
-  const { data: goals = [], isLoading } = useQuery<Goal[]>({
+  // Fetch every goal, for goal names and duplicate checks across the page
+  // (goal counts are capped by plan limits); the Goals tab list is paginated below
+  const { data: goals = [] } = useQuery<Goal[]>({
     queryKey: [`/api/goals/${user?.id}`],
     enabled: !!user?.id,
     staleTime: 60000, // 1 minute
@@ -472,6 +477,7 @@ export default function GoalsPage() {
       queryClient.invalidateQueries({ queryKey: [`/api/goals/${user?.id}/ai-suggestions`] });
     },
     onError: (error) => {
+      if (showQuotaToast(error)) return;
       toast({
         title: "Failed to add goal",
         description: "There was an error adding the suggested goal.",
@@ -669,143 +675,21 @@ export default function GoalsPage() {
     setTaskDateFilterActive(false);
   };
   
-  // Apply filters to goals
-  let filteredGoals = [...goals];
-  
-  // Apply status filter with improved handling for edge cases
-  if (goalFilter === 'in-progress') {
-    filteredGoals = filteredGoals.filter(goal => {
-      // Handle potential NaN or undefined values
-      const progress = isNaN(goal.progress) ? 0 : goal.progress;
-      const target = isNaN(goal.target) ? 100 : goal.target;
-      // A goal is in-progress if it has some progress but isn't completed
-      return progress > 0 && progress < target;
-    });
-  } else if (goalFilter === 'completed') {
-    filteredGoals = filteredGoals.filter(goal => {
-      // Handle potential NaN or undefined values
-      const progress = isNaN(goal.progress) ? 0 : goal.progress;
-      const target = isNaN(goal.target) ? 100 : goal.target;
-      // A goal is completed if progress matches or exceeds target
-      return progress >= target;
-    });
-  } else if (goalFilter === 'not-started') {
-    filteredGoals = filteredGoals.filter(goal => {
-      // Handle potential NaN or undefined values
-      const progress = isNaN(goal.progress) ? 0 : goal.progress;
-      // A goal is not started if it has zero progress
-      return progress === 0;
-    });
-  }
-  
-  // Apply category filter if selected
-  if (goalCategoryFilter !== null) {
-    filteredGoals = filteredGoals.filter(goal => goal.category === goalCategoryFilter);
-  }
-
-  // Apply date filter if active with better error handling
-  if (goalDateFilterActive && goalDateRange.from) {
-    filteredGoals = filteredGoals.filter(goal => {
-      if (!goal.targetDate) return false;
-      
-      try {
-        // Parse the ISO date string to a Date object, ensuring it's valid
-        const targetDate = new Date(goal.targetDate);
-        
-        // Check if the date is valid
-        if (isNaN(targetDate.getTime())) {
-          console.warn(`Invalid target date found for goal ${goal.id}: "${goal.targetDate}"`);
-          return false;
-        }
-        
-        targetDate.setHours(0, 0, 0, 0); // Normalize to start of day
-        
-        // From date only (on or after this date)
-        if (goalDateRange.from && !goalDateRange.to) {
-          const start = new Date(goalDateRange.from);
-          start.setHours(0, 0, 0, 0);
-          return targetDate >= start;
-        }
-        
-        // Date range (between from and to, inclusive)
-        if (goalDateRange.from && goalDateRange.to) {
-          const start = new Date(goalDateRange.from);
-          start.setHours(0, 0, 0, 0);
-          
-          const end = new Date(goalDateRange.to);
-          end.setHours(23, 59, 59, 999);
-          
-          return targetDate >= start && targetDate <= end;
-        }
-        
-        return false;
-      } catch (error) {
-        console.error(`Error filtering goal ${goal.id} by date range:`, error);
-        return false;
-      }
-    });
-  }
-  
-  // Apply sorting
-  filteredGoals = [...filteredGoals].sort((a, b) => {
-    try {
-      if (goalSortBy === 'targetDate') {
-        // Handle null/undefined values
-        if (!a.targetDate && !b.targetDate) return 0;
-        if (!a.targetDate) return goalSortDirection === 'asc' ? 1 : -1;
-        if (!b.targetDate) return goalSortDirection === 'asc' ? -1 : 1;
-        
-        // Parse dates and check for validity
-        const dateA = new Date(a.targetDate);
-        const dateB = new Date(b.targetDate);
-        
-        if (isNaN(dateA.getTime()) && isNaN(dateB.getTime())) return 0;
-        if (isNaN(dateA.getTime())) return goalSortDirection === 'asc' ? 1 : -1;
-        if (isNaN(dateB.getTime())) return goalSortDirection === 'asc' ? -1 : 1;
-        
-        return goalSortDirection === 'asc'
-          ? dateA.getTime() - dateB.getTime()
-          : dateB.getTime() - dateA.getTime();
-      }
-      
-      if (goalSortBy === 'progress') {
-        // Handle potential NaN values
-        const progressA = isNaN(a.progress) ? 0 : a.progress;
-        const progressB = isNaN(b.progress) ? 0 : b.progress;
-        
-        return goalSortDirection === 'asc'
-          ? progressA - progressB
-          : progressB - progressA;
-      }
-      
-      if (goalSortBy === 'createdAt') {
-        // Handle null/undefined values
-        if (!a.createdAt && !b.createdAt) return 0;
-        if (!a.createdAt) return goalSortDirection === 'asc' ? 1 : -1;
-        if (!b.createdAt) return goalSortDirection === 'asc' ? -1 : 1;
-        
-        // Parse dates and check for validity
-        const dateA = new Date(a.createdAt);
-        const dateB = new Date(b.createdAt);
-        
-        if (isNaN(dateA.getTime()) && isNaN(dateB.getTime())) return 0;
-        if (isNaN(dateA.getTime())) return goalSortDirection === 'asc' ? 1 : -1;
-        if (isNaN(dateB.getTime())) return goalSortDirection === 'asc' ? -1 : 1;
-        
-        return goalSortDirection === 'asc'
-          ? dateA.getTime() - dateB.getTime()
-          : dateB.getTime() - dateA.getTime();
-      }
-      
-      // Default: sort by name
-      return goalSortDirection === 'asc'
-        ? a.name.localeCompare(b.name)
-        : b.name.localeCompare(a.name);
-    } catch (error) {
-      console.error("Error sorting goals:", error);
-      return 0;
-    }
-  });
+  // Fetch the goals list a page at a time, filtered and sorted on the server
+  const {
+    items: filteredGoals,
+    isLoading: isGoalListLoading,
+    hasNextPage: hasMoreGoals,
+    fetchNextPage: fetchMoreGoals,
+    isFetchingNextPage: isFetchingMoreGoals,
+  } = usePaginatedList<Goal>(`/api/goals/${user?.id}`, {
+    progress: goalFilter,
+    category: goalCategoryFilter ?? undefined,
+    sort: goalSortBy,
+    order: goalSortDirection,
+    targetFrom: goalDateFilterActive && goalDateRange.from ? startOfDay(goalDateRange.from).toISOString() : undefined,
+    targetTo: goalDateFilterActive && goalDateRange.from && goalDateRange.to ? endOfDay(goalDateRange.to).toISOString() : undefined,
+  }, { enabled: !!user?.id });
   
   // Group filtered goals by category (for display purposes)
   const goalsByCategory = filteredGoals.reduce((acc, goal) => {
@@ -847,6 +731,7 @@ export default function GoalsPage() {
     },
     onError: (error) => {
       console.error("Error creating goal:", error);
+      if (showQuotaToast(error)) return;
       toast({
         title: "Creation failed",
         description: "There was an error creating your goal. Please try again.",
@@ -1173,7 +1058,7 @@ export default function GoalsPage() {
                                 method: 'POST',
                                 headers: { 'Content-Type': 'application/json' }
                               })
-                              .then(res => {
+                              .then(async res => {
                                 if (res.ok) {
                                   // Invalidate both queries
                                   queryClient.invalidateQueries({ queryKey: [`/api/goals/${user?.id}`] });
@@ -1183,11 +1068,13 @@ export default function GoalsPage() {
                                     description: "Your goal has been successfully restored",
                                   });
                                 } else {
-                                  throw new Error('Failed to restore goal');
+                                  // Same "<status>: <body>" shape as apiRequest, so quota errors are recognised
+                                  throw new Error(`${res.status}: ${await res.text()}`);
                                 }
                               })
                               .catch(error => {
                                 console.error('Error restoring goal:', error);
+                                if (showQuotaToast(error)) return;
                                 toast({
                                   title: "Restore failed",
                                   description: "There was an error restoring your goal. Please try again.",
@@ -1596,7 +1483,7 @@ export default function GoalsPage() {
                       </Button>
                     </div>
                   </div>
-                  {isLoading ? (
+                  {isGoalListLoading ? (
                     <div className="flex justify-center py-12">
                       <div className="animate-spin h-8 w-8 border-4 border-[#F5B8DB] border-t-transparent rounded-full"></div>
                     </div>
@@ -1748,6 +1635,13 @@ export default function GoalsPage() {
                           </div>
                         </div>
                       ))}
+
+                      <LoadMoreButton
+                        hasNextPage={hasMoreGoals}
+                        isFetchingNextPage={isFetchingMoreGoals}
+                        onLoadMore={() => fetchMoreGoals()}
+                        label="Load more goals"
+                      />
                     </div>
                   ) : (
                     <div className="flex flex-col items-center justify-center py-12 text-center">
@@ -52,13 +52,17 @@ import {
   MoodAnalytics, 
   ReflectionPatterns, 
   Correlations,
-  EmotionsAnalytics
+  EmotionsAnalytics,
+  WeeklyDigests
 } from "@/components/insights";
 
 export default function InsightsPage() {
   const { user } = useAuth();
   const [timeframe, setTimeframe] = useState<string>("week");
-  const [activeTab, setActiveTab] = useState<string>("overview");
+  // Weekly digest notifications link straight to their tab
+  const [activeTab, setActiveTab] = useState<string>(
+    () => new URLSearchParams(window.location.search).get("tab") || "overview"
+  );
   
   // Fetch journal entries
   const { data: entries = [], isLoading: entriesLoading } = useQuery<JournalEntry[]>({
@@ -159,6 +163,7 @@ export default function InsightsPage() {
             <TabsTrigger value="emotions">Emotions</TabsTrigger>
             <TabsTrigger value="productivity">Productivity</TabsTrigger>
             <TabsTrigger value="activity">Activity</TabsTrigger>
+            <TabsTrigger value="digests">Weekly Digests</TabsTrigger>
           </TabsList>
           
           <TabsContent value="overview">
@@ -434,6 +439,10 @@ export default function InsightsPage() {
               <Correlations entries={entries} moods={moods} isLoading={isLoading} />
             </div>
           </TabsContent>
+          
+          <TabsContent value="digests">
+            <WeeklyDigests />
+          </TabsContent>
         </Tabs>
       </div>
     </DashboardLayout>
@@ -6,6 +6,8 @@ import { JournalEntry } from "@shared/schema";
 import { DashboardLayout } from "@/components/layout/dashboard-layout";
 import { EntryTypeSelector } from "@/components/journal/entry-type-selector";
 import { GenerateTitlesButton } from "@/components/journal/generate-titles-button";
+import { JournalSearchResults } from "@/components/journal/journal-search-results";
+import { AskJournal } from "@/components/journal/ask-journal";
 import {
   Calendar,
   MessageSquare,
@@ -52,11 +54,15 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
+import { useQuotaToast } from "@/hooks/use-quota-toast";
+import { usePaginatedList } from "@/hooks/use-paginated-list";
+import LoadMoreButton from "@/components/ui/load-more-button";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 
 export default function JournalPage() {
   const { user } = useAuth();
   const { toast } = useToast();
+  const showQuotaToast = useQuotaToast();
   const [searchTerm, setSearchTerm] = useState("");
   const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc");
   const [filterType, setFilterType] = useState<"all" | "user" | "ai">("all");
@@ -210,12 +216,27 @@ export default function JournalPage() {
 
   if (!user) return null;
 
-  // Fetch all journal entries
-  const { data: entries = [], isLoading } = useQuery<JournalEntry[]>({
-    queryKey: [`/api/journal-entries/${user?.id}`],
-    enabled: !!user?.id,
-    staleTime: 60000, // 1 minute
-  });
+  // Fetch the selected month's journal entries, newest first, a page at a time
+  const [monthYear, monthNumber] = selectedMonth.split('-').map(Number);
+  const {
+    items: entries,
+    isLoading,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = usePaginatedList<JournalEntry>(`/api/journal-entries/${user?.id}`, {
+    from: new Date(monthYear, monthNumber - 1, 1).toISOString(),
+    to: new Date(new Date(monthYear, monthNumber, 1).getTime() - 1).toISOString(),
+  }, { pageSize: 50, enabled: !!user?.id });
+
+  const loadMoreEntries = (
+    <LoadMoreButton
+      hasNextPage={hasNextPage}
+      isFetchingNextPage={isFetchingNextPage}
+      onLoadMore={() => fetchNextPage()}
+      label="Load more entries from this month"
+    />
+  );
 
   // Fetch deleted journal entries for recycle bin
   const { data: deletedEntries = [], isLoading: isLoadingDeleted } = useQuery<JournalEntry[]>({
@@ -263,6 +284,7 @@ export default function JournalPage() {
       queryClient.invalidateQueries({ queryKey: [`/api/journal-entries/${user?.id}/deleted`] });
     },
     onError: (error: Error) => {
+      if (showQuotaToast(error)) return;
       toast({
         title: "Error restoring journal entry",
         description: error.message,
@@ -294,15 +316,11 @@ export default function JournalPage() {
     },
   });
 
-  // Filter entries based on search term and filter type
+  // Filter entries based on filter type; searches go to the server (see JournalSearchResults)
   const filteredEntries = entries.filter(entry => {
-    const matchesSearch = entry.content.toLowerCase().includes(searchTerm.toLowerCase());
-
-    if (filterType === "all") return matchesSearch;
-    if (filterType === "user") return matchesSearch && !entry.isAiResponse;
-    if (filterType === "ai") return matchesSearch && entry.isAiResponse;
-
-    return matchesSearch;
+    if (filterType === "user") return !entry.isAiResponse;
+    if (filterType === "ai") return entry.isAiResponse;
+    return true;
   });
 
   // Sort entries based on date
@@ -377,12 +395,14 @@ export default function JournalPage() {
               <HoverCardTrigger asChild>
                 <Button variant="outline" size="sm" className="h-9">
                   <BookOpen className="h-4 w-4 mr-2" />
-                  <span className="font-medium">{entries.length} Entries</span>
+                  <span className="font-medium">{entries.length}{hasNextPage ? "+" : ""} Entries</span>
                 </Button>
               </HoverCardTrigger>
               <HoverCardContent className="w-80">
                 <div className="space-y-2">
-                  <h4 className="text-sm font-medium">Journal Statistics</h4>
+                  <h4 className="text-sm font-medium">
+                    {new Date(monthYear, monthNumber - 1, 1).toLocaleString('default', { month: 'long', year: 'numeric' })}
+                  </h4>
                   <div className="grid grid-cols-2 gap-4">
                     <div>
                       <p className="text-sm text-gray-500">Total Entries</p>
@@ -411,6 +431,7 @@ export default function JournalPage() {
           <TabsList className="mb-6">
             <TabsTrigger value="entries">All Entries</TabsTrigger>
             <TabsTrigger value="calendar">Calendar View</TabsTrigger>
+            <TabsTrigger value="ask">Ask My Journal</TabsTrigger>
             <TabsTrigger value="recycle-bin" onClick={() => setShowDeleted(true)}>
               <div className="flex items-center">
                 <Trash2 className="h-4 w-4 mr-2" />
@@ -570,7 +591,13 @@ export default function JournalPage() {
               </div>
             </div>
 
-            {isLoading ? (
+            {searchTerm.trim() ? (
+              <JournalSearchResults
+                searchTerm={searchTerm}
+                filterType={filterType}
+                sortOrder={sortOrder}
+              />
+            ) : isLoading ? (
               <div className="flex justify-center items-center h-64">
                 <div className="pi-thinking-dots">
                   <div className="pi-thinking-dot"></div>
@@ -583,27 +610,23 @@ export default function JournalPage() {
                 <MessageSquare className="h-12 w-12 text-gray-300 mx-auto mb-4" />
                 <h3 className="text-lg font-medium mb-2">No journal entries found</h3>
                 <p className="text-gray-500 mb-4">
-                  {searchTerm 
-                    ? "Try a different search term or clear your filters"
-                    : "Start journaling to see your entries here"}
+                  Start journaling to see your entries here
                 </p>
 
                 {/* Allow adding journal entries for the past */}
-                {!searchTerm && (
-                  <div className="mt-4">
-                    <h3 className="text-xl font-medium mb-4 text-center">
-                      {selectedDate.toDateString() === new Date().toDateString()
-                        ? "Start Journaling Today"
-                        : `Add Journal for ${selectedDate.toLocaleDateString('en-US', {month: 'short', day: 'numeric'})}`
-                      }
-                    </h3>
-                    <EntryTypeSelector
-                      selectedDate={selectedDate}
-                      linkMode={true}
-                      className="max-w-4xl mx-auto"
-                    />
-                  </div>
-                )}
+                <div className="mt-4">
+                  <h3 className="text-xl font-medium mb-4 text-center">
+                    {selectedDate.toDateString() === new Date().toDateString()
+                      ? "Start Journaling Today"
+                      : `Add Journal for ${selectedDate.toLocaleDateString('en-US', {month: 'short', day: 'numeric'})}`
+                    }
+                  </h3>
+                  <EntryTypeSelector
+                    selectedDate={selectedDate}
+                    linkMode={true}
+                    className="max-w-4xl mx-auto"
+                  />
+                </div>
               </div>
             ) : (
               <div className="space-y-6">
@@ -786,6 +809,8 @@ export default function JournalPage() {
                     </div>
                   </div>
                 ))}
+
+                {loadMoreEntries}
               </div>
             )}
           </TabsContent>
@@ -869,7 +894,7 @@ export default function JournalPage() {
                   </div>
 
                   <div className="text-sm text-muted-foreground">
-                    {entries.length} total entries
+                    {entries.length}{hasNextPage ? "+" : ""} entries this month
                   </div>
                 </div>
               </div>
@@ -1070,12 +1095,18 @@ export default function JournalPage() {
                       </div>
                     );
                   })}
+
+                  {loadMoreEntries}
                 </div>
               )}
             </div>
           </TabsContent>
 
 
+          <TabsContent value="ask">
+            <AskJournal />
+          </TabsContent>
+
           <TabsContent value="recycle-bin">
             <div className="bg-white border border-gray-200 rounded-lg p-8">
               <div className="flex justify-between items-center mb-6">
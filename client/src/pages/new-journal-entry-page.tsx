@@ -9,6 +9,7 @@ import { useAuth } from "@/hooks/use-auth";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useQuotaToast } from "@/hooks/use-quota-toast";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { EntryTypeSelector } from "@/components/journal/entry-type-selector";
 import { prepareLocalDateForStorage, formatLocalDate, isSameDay } from "@/lib/utils";
@@ -17,6 +18,7 @@ export default function NewJournalEntryPage() {
   const [location, navigate] = useLocation();
   const { user } = useAuth();
   const { toast } = useToast();
+  const showQuotaToast = useQuotaToast();
   const [content, setContent] = useState("");
   const [showEntrySelector, setShowEntrySelector] = useState(true);
   const [entryType, setEntryType] = useState<'journal' | 'chat' | null>(null);
@@ -127,6 +129,7 @@ export default function NewJournalEntryPage() {
     },
     onError: (error) => {
       console.error("Error creating journal entry:", error);
+      if (showQuotaToast(error)) return;
       toast({
         variant: "destructive",
         title: "Error",
@@ -1,6 +1,12 @@
 import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { DashboardLayout } from "@/components/layout/dashboard-layout";
-import { Download, FileJson, FileText, Database, RefreshCw, AlertTriangle } from "lucide-react";
+import { JournalImportCard } from "@/components/settings/journal-import";
+import { Download, FileJson, FileText, FileType, BookOpen, Database, Loader2, AlertTriangle, Lock } from "lucide-react";
 import {
   Card,
   CardContent,
@@ -10,48 +16,102 @@ import {
   CardFooter,
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
-import { useState } from "react";
+
+type ExportFormat = "json" | "csv" | "markdown" | "pdf";
+
+type DataExport = {
+  id: number;
+  status: "pending" | "running" | "completed" | "failed" | "expired";
+  formats: ExportFormat[];
+  itemCounts: Record<string, number> | null;
+  fileName: string | null;
+  sizeBytes: number | null;
+  error: string | null;
+  completedAt: string | null;
+  expiresAt: string | null;
+  createdAt: string;
+};
+
+type ExportsResponse = {
+  access: { allowed: boolean; reason?: string };
+  exports: DataExport[];
+};
+
+const FORMAT_OPTIONS: { value: ExportFormat; label: string; description: string; icon: typeof FileJson; color: string }[] = [
+  { value: "json", label: "JSON", description: "Everything, for use with other applications", icon: FileJson, color: "text-[#F5B8DB]" },
+  { value: "csv", label: "CSV", description: "A spreadsheet for each kind of data", icon: FileText, color: "text-[#9AAB63]" },
+  { value: "markdown", label: "Markdown", description: "A text file for each journal entry", icon: FileType, color: "text-[#B6CAEB]" },
+  { value: "pdf", label: "PDF", description: "Your journal as a printable book", icon: BookOpen, color: "text-[#F5D867]" },
+];
+
+// Poll while an export is being built
+const EXPORT_POLL_MS = 3000;
+
+// Timestamps from the API are UTC without an offset
+function parseTimestamp(value: string) {
+  return new Date(/(Z|[+-]\d{2}:?\d{2})$/.test(value) ? value : `${value.replace(" ", "T")}Z`);
+}
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
 
 export default function SettingsDataPage() {
   const { user } = useAuth();
-  const [exporting, setExporting] = useState(false);
-  const [progress, setProgress] = useState(0);
-  
-  if (!user) return null;
+  const { toast } = useToast();
+  const [formats, setFormats] = useState<ExportFormat[]>(["json", "csv", "markdown", "pdf"]);
 
-  const handleExport = (format: string) => {
-    setExporting(true);
-    setProgress(0);
-    
-    // Simulate export progress
-    const interval = setInterval(() => {
-      setProgress((prev) => {
-        if (prev >= 100) {
-          clearInterval(interval);
-          setExporting(false);
-          return 100;
-        }
-        return prev + 10;
+  const { data, isLoading } = useQuery<ExportsResponse>({
+    queryKey: ["/api/export"],
+    enabled: !!user,
+    refetchInterval: (query) =>
+      query.state.data?.exports.some(item => item.status === "pending" || item.status === "running")
+        ? EXPORT_POLL_MS
+        : false,
+  });
+
+  const startExport = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/export", { formats });
+      return await res.json() as DataExport;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/export"] });
+      toast({
+        title: "Export started",
+        description: "We're preparing your archive. You'll get a notification when it's ready.",
       });
-    }, 300);
+    },
+    onError: (error: Error) => {
+      const match = error.message.match(/^\d+: ([\s\S]*)$/);
+      let description = error.message;
+      try {
+        description = match ? JSON.parse(match[1]).error ?? description : description;
+      } catch {
+        // Not a JSON error body
+      }
+      toast({ title: "Couldn't start your export", description, variant: "destructive" });
+    },
+  });
+
+  if (!user) return null;
+
+  const toggleFormat = (format: ExportFormat, checked: boolean) => {
+    setFormats(current => checked ? [...current, format] : current.filter(item => item !== format));
   };
 
+  const exports = data?.exports ?? [];
+  const allowed = data?.access.allowed ?? true;
+  const inProgress = exports.some(item => item.status === "pending" || item.status === "running");
+
   return (
     <DashboardLayout>
       <div className="space-y-6">
-        <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg">
-          <div className="flex items-start gap-3">
-            <AlertTriangle className="h-6 w-6 text-amber-500 flex-shrink-0 mt-1" />
-            <div>
-              <h3 className="font-medium text-amber-700 mb-1">Coming Soon</h3>
-              <p className="text-sm text-amber-600">
-                Our Data & Export module is under development. The preview below shows what's coming!
-              </p>
-            </div>
-          </div>
-        </div>
-        
         <div className="mb-8">
           <h1 className="text-3xl font-bold mb-2 font-['Montserrat_Variable']">Data & Export</h1>
           <p className="text-gray-500 font-['Inter_Variable']">
@@ -63,62 +123,125 @@ export default function SettingsDataPage() {
           <CardHeader className="border-b border-gray-100">
             <CardTitle className="font-['Montserrat_Variable']">Export Your Data</CardTitle>
             <CardDescription>
-              Download all your journal entries, mood tracking, and goals
+              Download a zip of your journal entries and chat transcripts, moods, goals, tasks,
+              habits with their history, notifications and AI summaries
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-6 pt-6">
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div className="border rounded-lg p-4 bg-gray-50">
-                <div className="flex items-center mb-2">
-                  <FileJson className="h-5 w-5 mr-2 text-[#F5B8DB]" />
-                  <h3 className="font-medium">JSON Format</h3>
+            {!allowed && (
+              <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg flex items-start gap-3">
+                <Lock className="h-5 w-5 text-amber-500 flex-shrink-0 mt-0.5" />
+                <div>
+                  <p className="text-sm text-amber-700">{data?.access.reason}</p>
+                  <Link href="/subscription" className="text-sm font-medium text-amber-800 underline">
+                    View plans
+                  </Link>
                 </div>
-                <p className="text-sm text-gray-500 mb-3">
-                  Export your data in JSON format for use with other applications
-                </p>
-                <Button 
-                  variant="outline" 
-                  className="w-full justify-start" 
-                  onClick={() => handleExport('json')}
-                  disabled={true}
-                >
-                  <Download className="h-4 w-4 mr-2" />
-                  Export as JSON
-                </Button>
               </div>
-              
-              <div className="border rounded-lg p-4 bg-gray-50">
-                <div className="flex items-center mb-2">
-                  <FileText className="h-5 w-5 mr-2 text-[#9AAB63]" />
-                  <h3 className="font-medium">CSV Format</h3>
-                </div>
-                <p className="text-sm text-gray-500 mb-3">
-                  Export your data as CSV files for use with spreadsheets
-                </p>
-                <Button 
-                  variant="outline" 
-                  className="w-full justify-start" 
-                  onClick={() => handleExport('csv')}
-                  disabled={true}
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {FORMAT_OPTIONS.map(option => (
+                <label
+                  key={option.value}
+                  htmlFor={`format-${option.value}`}
+                  className="border rounded-lg p-4 bg-gray-50 flex items-start gap-3 cursor-pointer"
                 >
-                  <Download className="h-4 w-4 mr-2" />
-                  Export as CSV
-                </Button>
-              </div>
+                  <Checkbox
+                    id={`format-${option.value}`}
+                    checked={formats.includes(option.value)}
+                    onCheckedChange={(checked) => toggleFormat(option.value, checked === true)}
+                    disabled={!allowed}
+                    className="mt-0.5"
+                  />
+                  <div>
+                    <div className="flex items-center mb-1">
+                      <option.icon className={`h-5 w-5 mr-2 ${option.color}`} />
+                      <h3 className="font-medium">{option.label}</h3>
+                    </div>
+                    <p className="text-sm text-gray-500">{option.description}</p>
+                  </div>
+                </label>
+              ))}
             </div>
-            
-            {exporting && (
-              <div className="mt-4">
-                <div className="flex justify-between mb-2 text-sm">
-                  <span>Exporting your data...</span>
-                  <span>{progress}%</span>
+
+            <Button
+              onClick={() => startExport.mutate()}
+              disabled={!allowed || formats.length === 0 || inProgress || startExport.isPending}
+            >
+              {startExport.isPending || inProgress
+                ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                : <Download className="h-4 w-4 mr-2" />}
+              {inProgress ? "Preparing your export..." : "Export my data"}
+            </Button>
+
+            {isLoading ? null : exports.length > 0 && (
+              <div>
+                <h3 className="font-medium mb-3">Recent exports</h3>
+                <div className="divide-y divide-gray-100 border rounded-lg">
+                  {exports.map(item => (
+                    <div key={item.id} className="p-4 flex flex-wrap items-center justify-between gap-3">
+                      <div>
+                        <p className="text-sm font-medium">
+                          {parseTimestamp(item.createdAt).toLocaleString()}
+                        </p>
+                        <div className="flex flex-wrap items-center gap-1 mt-1">
+                          {item.formats.map(format => (
+                            <Badge key={format} variant="outline" className="text-xs uppercase">{format}</Badge>
+                          ))}
+                          {item.sizeBytes !== null && item.status === "completed" && (
+                            <span className="text-xs text-gray-500 ml-1">{formatBytes(item.sizeBytes)}</span>
+                          )}
+                        </div>
+                      </div>
+
+                      {item.status === "completed" ? (
+                        <div className="flex items-center gap-3">
+                          {item.expiresAt && (
+                            <span className="text-xs text-gray-500">
+                              Available until {parseTimestamp(item.expiresAt).toLocaleDateString()}
+                            </span>
+                          )}
+                          <Button variant="outline" size="sm" asChild>
+                            <a href={`/api/export/${item.id}/download`} download={item.fileName ?? undefined}>
+                              <Download className="h-4 w-4 mr-2" />
+                              Download
+                            </a>
+                          </Button>
+                        </div>
+                      ) : item.status === "failed" ? (
+                        <span className="flex items-center text-sm text-red-600">
+                          <AlertTriangle className="h-4 w-4 mr-1" />
+                          Failed, please try again
+                        </span>
+                      ) : item.status === "expired" ? (
+                        <span className="text-sm text-gray-500">Expired</span>
+                      ) : (
+                        <span className="flex items-center text-sm text-gray-500">
+                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                          Preparing...
+                        </span>
+                      )}
+                    </div>
+                  ))}
                 </div>
-                <Progress value={progress} className="h-2" />
               </div>
             )}
           </CardContent>
         </Card>
         
+        <Card className="bg-white border-0 shadow-sm">
+          <CardHeader className="border-b border-gray-100">
+            <CardTitle className="font-['Montserrat_Variable']">Import Your Journal</CardTitle>
+            <CardDescription>
+              Bring your existing journaling into Hope Log from other apps and files
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="pt-6">
+            <JournalImportCard />
+          </CardContent>
+        </Card>
+
         <Card className="bg-white border-0 shadow-sm">
           <CardHeader className="border-b border-gray-100">
             <CardTitle className="font-['Montserrat_Variable']">Data Storage</CardTitle>
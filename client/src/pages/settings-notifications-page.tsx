@@ -1,15 +1,20 @@
 import { useEffect } from "react";
-import { useNotificationPreferences } from "@/hooks/use-notifications";
+import { useNotificationPreferences, usePushNotifications } from "@/hooks/use-notifications";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Loader2, AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Loader2, BellRing, Smartphone, Trash2 } from "lucide-react";
 import { Separator } from "@/components/ui/separator";
 import { PageLayout } from "@/components/layout/page-layout";
 
 export default function NotificationsSettingsPage() {
   const { preferences, isLoading, updatePreferences, isUpdating } = useNotificationPreferences();
+  const push = usePushNotifications();
+
+  // Reminders are sent at the reminder time in this time zone
+  const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
 
   // Generate time options for notifications
   const timeOptions = [];
@@ -34,17 +39,20 @@ export default function NotificationsSettingsPage() {
     if (preferences) {
       updatePreferences({ 
         ...preferences, 
+        timezone: preferences.timezone || browserTimeZone,
         [key]: value 
       });
     }
   };
 
-  // Handle reminder time change
+  // Handle reminder time change. Saving the time also records the browser's
+  // time zone, so reminders arrive at this time locally.
   const handleTimeChange = (time: string) => {
     if (preferences) {
       updatePreferences({ 
         ...preferences, 
-        reminderTime: time 
+        reminderTime: time,
+        timezone: browserTimeZone
       });
     }
   };
@@ -58,7 +66,8 @@ export default function NotificationsSettingsPage() {
         weeklyDigest: true,
         emailNotifications: false,
         browserNotifications: true,
-        reminderTime: "09:00"
+        reminderTime: "09:00",
+        timezone: browserTimeZone
       });
     }
   }, [isLoading, preferences, updatePreferences]);
@@ -75,18 +84,6 @@ export default function NotificationsSettingsPage() {
 
   return (
     <PageLayout heading="Settings" subheading="Manage your account settings and preferences">
-      <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg">
-        <div className="flex items-start gap-3">
-          <AlertTriangle className="h-6 w-6 text-amber-500 flex-shrink-0 mt-1" />
-          <div>
-            <h3 className="font-medium text-amber-700 mb-1">Coming Soon</h3>
-            <p className="text-sm text-amber-600">
-              Our Notification System is under development. The preview below shows what's coming!
-            </p>
-          </div>
-        </div>
-      </div>
-      
       <div className="space-y-6">
         <div>
           <h3 className="text-2xl font-medium">Notification Settings</h3>
@@ -116,7 +113,7 @@ export default function NotificationsSettingsPage() {
                 id="journal-reminders" 
                 checked={preferences?.journalReminders} 
                 onCheckedChange={(checked) => handleToggleChange("journalReminders", checked)}
-                disabled={true}
+                disabled={isUpdating}
               />
             </div>
             
@@ -135,7 +132,7 @@ export default function NotificationsSettingsPage() {
                 id="goal-reminders" 
                 checked={preferences?.goalReminders}
                 onCheckedChange={(checked) => handleToggleChange("goalReminders", checked)}
-                disabled={true}
+                disabled={isUpdating}
               />
             </div>
             
@@ -154,7 +151,7 @@ export default function NotificationsSettingsPage() {
                 id="weekly-digest" 
                 checked={preferences?.weeklyDigest}
                 onCheckedChange={(checked) => handleToggleChange("weeklyDigest", checked)}
-                disabled={true}
+                disabled={isUpdating}
               />
             </div>
           </CardContent>
@@ -174,14 +171,14 @@ export default function NotificationsSettingsPage() {
                   Browser Notifications
                 </Label>
                 <p className="text-sm text-muted-foreground">
-                  Show notifications in your browser when you're using Hope Log
+                  Send reminders as push notifications to the devices below
                 </p>
               </div>
               <Switch 
                 id="browser-notifications" 
                 checked={preferences?.browserNotifications}
                 onCheckedChange={(checked) => handleToggleChange("browserNotifications", checked)}
-                disabled={true}
+                disabled={isUpdating}
               />
             </div>
             
@@ -193,19 +190,98 @@ export default function NotificationsSettingsPage() {
                   Email Notifications
                 </Label>
                 <p className="text-sm text-muted-foreground">
-                  Receive notifications via email (coming soon)
+                  Receive reminders and your weekly digest by email
                 </p>
               </div>
               <Switch 
                 id="email-notifications" 
                 checked={preferences?.emailNotifications}
                 onCheckedChange={(checked) => handleToggleChange("emailNotifications", checked)}
-                disabled={true}
+                disabled={isUpdating}
               />
             </div>
           </CardContent>
         </Card>
 
+        <Card>
+          <CardHeader>
+            <CardTitle>Push Devices</CardTitle>
+            <CardDescription>
+              Browsers and devices that receive push notifications
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {!push.isSupported ? (
+              <p className="text-sm text-muted-foreground">
+                This browser doesn't support push notifications.
+              </p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {!push.isSubscribed && (
+                  <Button
+                    onClick={push.subscribe}
+                    disabled={push.isSubscribing || push.permission === "denied"}
+                  >
+                    {push.isSubscribing ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <BellRing className="h-4 w-4 mr-2" />
+                    )}
+                    Enable on this device
+                  </Button>
+                )}
+                {push.devices.length > 0 && (
+                  <Button variant="outline" onClick={push.sendTest} disabled={push.isSendingTest}>
+                    Send test notification
+                  </Button>
+                )}
+              </div>
+            )}
+            {push.permission === "denied" && push.isSupported && (
+              <p className="text-sm text-muted-foreground">
+                Notifications are blocked for this site. Allow them in your browser settings to enable push.
+              </p>
+            )}
+
+            {push.isLoading ? (
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            ) : push.devices.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No devices subscribed yet.</p>
+            ) : (
+              <div className="divide-y border rounded-md">
+                {push.devices.map((device) => (
+                  <div key={device.id} className="flex items-center justify-between p-3">
+                    <div className="flex items-center gap-3">
+                      <Smartphone className="h-5 w-5 text-muted-foreground" />
+                      <div>
+                        <p className="text-sm font-medium">
+                          {device.deviceName || "Unknown device"}
+                          {device.endpoint === push.currentEndpoint && (
+                            <span className="ml-2 text-xs text-muted-foreground">(this device)</span>
+                          )}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          Added {new Date(device.createdAt).toLocaleDateString()}
+                          {device.lastUsedAt && ` · Last notified ${new Date(device.lastUsedAt).toLocaleString()}`}
+                        </p>
+                      </div>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => push.revokeDevice(device)}
+                      disabled={push.isRevoking}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      <span className="sr-only">Remove device</span>
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
         <Card>
           <CardHeader>
             <CardTitle>Reminder Schedule</CardTitle>
@@ -219,7 +295,7 @@ export default function NotificationsSettingsPage() {
               <Select 
                 value={preferences?.reminderTime || "09:00"} 
                 onValueChange={handleTimeChange}
-                disabled={true}
+                disabled={isUpdating}
               >
                 <SelectTrigger id="reminder-time">
                   <SelectValue placeholder="Select time" />
@@ -234,6 +310,7 @@ export default function NotificationsSettingsPage() {
               </Select>
               <p className="text-sm text-muted-foreground mt-1">
                 Reminders will be sent at approximately this time each day
+                ({preferences?.timezone || browserTimeZone} time)
               </p>
             </div>
           </CardContent>
@@ -1,3 +1,4 @@
+import { useState } from "react";
 import { useAuth } from "@/hooks/use-auth";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
@@ -25,6 +26,7 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import * as z from "zod";
 import { useToast } from "@/hooks/use-toast";
+import { TwoFactorChallengeDialog, isTwoFactorRequired } from "@/components/auth/two-factor-challenge-dialog";
 
 // Password form schema
 const passwordFormSchema = z.object({
@@ -48,6 +50,8 @@ type PasswordFormValues = z.infer<typeof passwordFormSchema>;
 export default function SettingsPasswordPage() {
   const { user } = useAuth();
   const { toast } = useToast();
+  // Held while the user confirms a 2FA code, then resubmitted
+  const [pendingPasswordChange, setPendingPasswordChange] = useState<PasswordFormValues | null>(null);
   
   // Password form
   const passwordForm = useForm<PasswordFormValues>({
@@ -75,7 +79,11 @@ export default function SettingsPasswordPage() {
       });
       passwordForm.reset();
     },
-    onError: (error) => {
+    onError: (error, data) => {
+      if (isTwoFactorRequired(error)) {
+        setPendingPasswordChange(data);
+        return;
+      }
       toast({
         title: "Update failed",
         description: error.message,
@@ -177,6 +185,13 @@ export default function SettingsPasswordPage() {
             </Form>
           </CardContent>
         </Card>
+
+        <TwoFactorChallengeDialog
+          open={!!pendingPasswordChange}
+          onOpenChange={(open) => !open && setPendingPasswordChange(null)}
+          onVerified={() => pendingPasswordChange && updatePasswordMutation.mutate(pendingPasswordChange)}
+          description="Enter the 6-digit code from your authenticator app to change your password."
+        />
       </div>
     </DashboardLayout>
   );
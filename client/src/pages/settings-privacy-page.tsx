@@ -1,4 +1,8 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
 import { DashboardLayout } from "@/components/layout/dashboard-layout";
 import { Switch } from "@/components/ui/switch";
 import { Shield, EyeOff, Key, Ban, AlertTriangle } from "lucide-react";
@@ -11,12 +15,56 @@ import {
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { TwoFactorSettings } from "@/components/settings/two-factor-settings";
+import { ActiveSessions } from "@/components/settings/active-sessions";
+import { TwoFactorChallengeDialog, isTwoFactorRequired } from "@/components/auth/two-factor-challenge-dialog";
 
 export default function SettingsPrivacyPage() {
   const { user } = useAuth();
+  const { toast } = useToast();
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [deletePassword, setDeletePassword] = useState("");
+  const [showDeleteChallenge, setShowDeleteChallenge] = useState(false);
+
+  const deleteAccountMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", "/api/user", { password: deletePassword });
+    },
+    onSuccess: () => {
+      setShowDeleteDialog(false);
+      queryClient.setQueryData(["/api/user"], null);
+      toast({
+        title: "Account deleted",
+        description: "Your account and all of your data have been removed.",
+      });
+    },
+    onError: (error: Error) => {
+      if (isTwoFactorRequired(error)) {
+        setShowDeleteChallenge(true);
+        return;
+      }
+      toast({
+        title: "Couldn't delete account",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
   
   if (!user) return null;
 
+  // OAuth-only accounts have no password to confirm with
+  const needsPassword = !user.provider || user.provider === "local";
+
   return (
     <DashboardLayout>
       <div className="space-y-6">
@@ -26,7 +74,7 @@ export default function SettingsPrivacyPage() {
             <div>
               <h3 className="font-medium text-amber-700 mb-1">Coming Soon</h3>
               <p className="text-sm text-amber-600">
-                Our Privacy Settings module is under development. The preview below shows what's coming!
+                Privacy mode, journal encryption and data collection controls are under development. The preview below shows what's coming!
               </p>
             </div>
           </div>
@@ -94,18 +142,9 @@ export default function SettingsPrivacyPage() {
               <h3 className="text-lg font-semibold font-['Montserrat_Variable']">Account Security</h3>
               
               <div className="grid gap-4">
-                <div className="bg-gray-50 p-4 rounded-lg">
-                  <div className="flex items-center space-x-2">
-                    <Shield className="h-5 w-5 text-[#9AAB63]" />
-                    <p className="font-medium">Two-Factor Authentication</p>
-                  </div>
-                  <p className="text-sm text-gray-500 mt-1 ml-7">
-                    Add an extra layer of security to your account
-                  </p>
-                  <Button variant="outline" size="sm" className="mt-2 ml-7" disabled={true}>
-                    Enable 2FA
-                  </Button>
-                </div>
+                <TwoFactorSettings />
+                
+                <ActiveSessions />
                 
                 <div className="bg-gray-50 p-4 rounded-lg">
                   <div className="flex items-center space-x-2">
@@ -115,7 +154,12 @@ export default function SettingsPrivacyPage() {
                   <p className="text-sm text-gray-500 mt-1 ml-7">
                     Permanently delete your account and all data
                   </p>
-                  <Button variant="outline" size="sm" className="mt-2 ml-7 text-red-500 border-red-200 hover:bg-red-50" disabled={true}>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="mt-2 ml-7 text-red-500 border-red-200 hover:bg-red-50"
+                    onClick={() => setShowDeleteDialog(true)}
+                  >
                     Delete Account
                   </Button>
                 </div>
@@ -123,6 +167,52 @@ export default function SettingsPrivacyPage() {
             </div>
           </CardContent>
         </Card>
+
+        <Dialog
+          open={showDeleteDialog}
+          onOpenChange={(open) => {
+            setShowDeleteDialog(open);
+            if (!open) setDeletePassword("");
+          }}
+        >
+          <DialogContent className="sm:max-w-md">
+            <DialogHeader>
+              <DialogTitle>Delete your account?</DialogTitle>
+              <DialogDescription>
+                This permanently deletes your account along with your journal entries, goals, tasks, habits and
+                mood history. It can't be undone.
+              </DialogDescription>
+            </DialogHeader>
+            {needsPassword && (
+              <Input
+                type="password"
+                placeholder="Enter your password to confirm"
+                value={deletePassword}
+                onChange={(e) => setDeletePassword(e.target.value)}
+                autoComplete="current-password"
+              />
+            )}
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setShowDeleteDialog(false)}>
+                Cancel
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={() => deleteAccountMutation.mutate()}
+                disabled={deleteAccountMutation.isPending || (needsPassword && !deletePassword)}
+              >
+                {deleteAccountMutation.isPending ? "Deleting..." : "Delete Account"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        <TwoFactorChallengeDialog
+          open={showDeleteChallenge}
+          onOpenChange={setShowDeleteChallenge}
+          onVerified={() => deleteAccountMutation.mutate()}
+          description="Enter the 6-digit code from your authenticator app to delete your account."
+        />
       </div>
     </DashboardLayout>
   );
@@ -44,6 +44,7 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import * as z from "zod";
 import { useToast } from "@/hooks/use-toast";
+import { TwoFactorChallengeDialog, isTwoFactorRequired } from "@/components/auth/two-factor-challenge-dialog";
 import { AvatarSelector } from "@/components/profile/avatar-selector";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 
@@ -104,6 +105,7 @@ export default function SettingsProfilePage() {
   const [newInterest, setNewInterest] = useState("");
   const [filteredHobbies, setFilteredHobbies] = useState<string[]>([]);
   const [filteredInterests, setFilteredInterests] = useState<string[]>([]);
+  const [pendingProfileUpdate, setPendingProfileUpdate] = useState<ProfileFormValues | null>(null);
   
   // Filter hobby suggestions based on input
   useEffect(() => {
@@ -278,7 +280,11 @@ export default function SettingsProfilePage() {
       });
       queryClient.invalidateQueries({ queryKey: ["/api/user"] });
     },
-    onError: (error) => {
+    onError: (error, data) => {
+      if (isTwoFactorRequired(error)) {
+        setPendingProfileUpdate(data);
+        return;
+      }
       toast({
         title: "Update failed",
         description: error.message,
@@ -754,6 +760,13 @@ export default function SettingsProfilePage() {
             </form>
           </CardContent>
         </Card>
+
+        <TwoFactorChallengeDialog
+          open={!!pendingProfileUpdate}
+          onOpenChange={(open) => !open && setPendingProfileUpdate(null)}
+          onVerified={() => pendingProfileUpdate && updateProfileMutation.mutate(pendingProfileUpdate)}
+          description="Enter the 6-digit code from your authenticator app to change your email address."
+        />
       </div>
     </DashboardLayout>
   );
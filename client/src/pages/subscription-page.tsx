@@ -24,7 +24,8 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Progress } from "@/components/ui/progress";
-import { AlertTriangle, CalendarDays, CheckCircle, CreditCard, DollarSign, LockIcon, ShieldCheck } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { CalendarDays, CheckCircle, CreditCard, Download, FileText, Gift, ShieldCheck, Tag } from "lucide-react";
 import { 
   AlertDialog,
   AlertDialogAction,
@@ -115,6 +116,8 @@ type PaymentHistory = {
     paymentId: string;
     status: string;
     paymentDate: string;
+    discountAmount?: number | null;
+    invoiceNumber?: string | null;
   } | null;
   payments?: Array<{
     id: number;
@@ -123,16 +126,73 @@ type PaymentHistory = {
     paymentId: string;
     status: string;
     paymentDate: string;
+    discountAmount?: number | null;
+    invoiceNumber?: string | null;
   }>;
 }[];
 
+// Free trial eligibility
+type TrialEligibility = {
+  eligible: boolean;
+  trialDays: number;
+  reason?: string;
+};
+
+// Price of a plan after a promo code
+type PromoQuote = {
+  planName: string;
+  code: string;
+  description: string | null;
+  originalAmount: number;
+  discountAmount: number;
+  finalAmount: number;
+};
+
+// A payment provider checkout can use
+type PaymentProvider = {
+  name: "paypal" | "stripe";
+  displayName: string;
+};
+
+// Usage of the metered quotas, from /api/subscription/usage
+type QuotaStatus = {
+  used: number;
+  limit: number | null; // null means unlimited
+  resetsAt: string | null;
+};
+
+type UsageSummary = {
+  tier: string;
+  quotas: Record<"journalEntries" | "goals" | "aiResponses", QuotaStatus>;
+};
+
+const USAGE_ROWS: Array<{ feature: keyof UsageSummary["quotas"]; label: string; tooltip: string }> = [
+  { feature: "journalEntries", label: "Journal Entries", tooltip: "Total number of journal entries you have created" },
+  { feature: "aiResponses", label: "AI Responses Today", tooltip: "Number of AI responses you have used today" },
+  { feature: "goals", label: "Goals", tooltip: "Total number of goals you can create and track" },
+];
+
+// apiRequest errors read "<status>: <body>"; show the server's message when there is one
+const getServerMessage = (error: any, fallback: string) => {
+  const match = typeof error?.message === "string" ? error.message.match(/^\d{3}: ([\s\S]*)$/) : null;
+  if (!match) return error?.message || fallback;
+  try {
+    return JSON.parse(match[1]).message || fallback;
+  } catch {
+    return match[1] || fallback;
+  }
+};
+
 const SubscriptionPage = () => {
   const { toast } = useToast();
   const { user } = useAuth();
   const queryClient = useQueryClient();
   const [currentTab, setCurrentTab] = useState("plans");
-  const [processingPayPal, setProcessingPayPal] = useState(false);
+  const [processingPayment, setProcessingPayment] = useState(false);
   const [selectedPlan, setSelectedPlan] = useState<SubscriptionPlan | null>(null);
+  const [selectedProvider, setSelectedProvider] = useState<PaymentProvider["name"] | null>(null);
+  const [promoCodeInput, setPromoCodeInput] = useState("");
+  const [promoQuotes, setPromoQuotes] = useState<Record<string, PromoQuote>>({});
   
   // Fetch subscription plans
   const { data: plans, isLoading: plansLoading } = useQuery<SubscriptionPlan[]>({
@@ -169,37 +229,144 @@ const SubscriptionPage = () => {
     enabled: currentTab === "history" // Only fetch when tab is selected
   });
   
-  // Create PayPal order mutation
+  // Fetch the payment providers that are set up
+  const { data: paymentProviders } = useQuery<PaymentProvider[]>({
+    queryKey: ["/api/subscription/providers"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/subscription/providers");
+      return await res.json();
+    }
+  });
+  
+  // Fetch free trial eligibility
+  const { data: trialEligibility } = useQuery<TrialEligibility>({
+    queryKey: ["/api/subscription/trial"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/subscription/trial");
+      return await res.json();
+    }
+  });
+  
+  const { data: usage } = useQuery<UsageSummary>({
+    queryKey: ["/api/subscription/usage"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/subscription/usage");
+      return await res.json();
+    }
+  });
+  
+  // Refresh everything that depends on the user's subscription
+  const refreshSubscriptionData = () => {
+    refetchSubscription();
+    queryClient.invalidateQueries({ queryKey: ["/api/subscription/usage"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/subscription/history"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/subscription/trial"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+  };
+  
+  // Start checkout with PayPal or Stripe
   const createOrderMutation = useMutation({
-    mutationFn: async (planName: string) => {
-      const res = await apiRequest("POST", "/api/subscription/create-order", { planName });
+    mutationFn: async ({ planName, promoCode, provider }: { planName: string; promoCode?: string; provider: PaymentProvider["name"] }) => {
+      const res = await apiRequest("POST", "/api/subscription/create-order", { planName, promoCode, provider });
       return await res.json();
     },
     onSuccess: (data) => {
-      // Redirect to PayPal checkout
-      if (data.links) {
-        const approvalLink = data.links.find((link: any) => link.rel === "approve");
-        if (approvalLink) {
-          setProcessingPayPal(true);
-          window.location.href = approvalLink.href;
-        }
+      // A promo code that covers the whole price activates the plan without a payment
+      if (data.free) {
+        toast({
+          title: "Subscription activated!",
+          description: "Your promo code covered the full price. Enjoy your new plan!",
+        });
+        setProcessingPayment(false);
+        setPromoQuotes({});
+        setPromoCodeInput("");
+        refreshSubscriptionData();
+        setCurrentTab("subscription");
+        return;
+      }
+      
+      // Redirect to the provider's checkout page
+      if (data.redirectUrl) {
+        setProcessingPayment(true);
+        window.location.href = data.redirectUrl;
       }
     },
-    onError: (error: any) => {
-      console.error('[PayPal] Order creation error:', error);
+    onError: (error: any, variables) => {
+      console.error('[Billing] Order creation error:', error);
       
       // Create a more detailed error message
-      let errorMessage = error.message || "Failed to create payment.";
+      let errorMessage = getServerMessage(error, "Failed to create payment.");
       
       // Add sandbox testing information
-      errorMessage += " Note: For PayPal sandbox testing, please see our sandbox testing instructions.";
+      if (variables.provider === "paypal") {
+        errorMessage += " Note: For PayPal sandbox testing, please see our sandbox testing instructions.";
+      }
       
       toast({
         title: "Error creating order",
         description: errorMessage,
         variant: "destructive"
       });
-      setProcessingPayPal(false);
+      setProcessingPayment(false);
+    }
+  });
+  
+  // Check a promo code against every paid plan so each card can show its price
+  const validatePromoMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const paidPlans = (plans || []).filter(plan => plan.price > 0);
+      const results = await Promise.allSettled(paidPlans.map(async (plan) => {
+        const res = await apiRequest("POST", "/api/subscription/validate-promo", { planName: plan.name, code });
+        return { ...(await res.json()), planName: plan.name } as PromoQuote;
+      }));
+      
+      const quotes: Record<string, PromoQuote> = {};
+      results.forEach((result) => {
+        if (result.status === "fulfilled") quotes[result.value.planName] = result.value;
+      });
+      if (Object.keys(quotes).length === 0) {
+        const rejected = results.find((result): result is PromiseRejectedResult => result.status === "rejected");
+        throw rejected?.reason ?? new Error("This promo code isn't valid");
+      }
+      return quotes;
+    },
+    onSuccess: (quotes) => {
+      setPromoQuotes(quotes);
+      toast({
+        title: "Promo code applied",
+        description: "The discounted price is shown on each plan it applies to.",
+      });
+    },
+    onError: (error: any) => {
+      setPromoQuotes({});
+      toast({
+        title: "Promo code not applied",
+        description: getServerMessage(error, "This promo code isn't valid."),
+        variant: "destructive"
+      });
+    }
+  });
+  
+  // Start free trial mutation
+  const startTrialMutation = useMutation({
+    mutationFn: async (planName: string) => {
+      const res = await apiRequest("POST", "/api/subscription/start-trial", { planName });
+      return await res.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Free trial started",
+        description: `Enjoy all features until ${formatDate(data.endDate)}.`,
+      });
+      refreshSubscriptionData();
+      setCurrentTab("subscription");
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Couldn't start your trial",
+        description: getServerMessage(error, "Failed to start the free trial. Please try again."),
+        variant: "destructive"
+      });
     }
   });
   
@@ -227,21 +394,23 @@ const SubscriptionPage = () => {
     }
   });
   
-  // Check for PayPal redirect with order ID (token)
+  // Check for a redirect back from PayPal (token) or Stripe (session_id)
   useEffect(() => {
     const queryParams = new URLSearchParams(window.location.search);
     // PayPal returns the token parameter with the order ID
     const token = queryParams.get("token");
+    // Stripe returns the checkout session ID
+    const sessionId = queryParams.get("session_id");
+    const provider = queryParams.get("provider") === "stripe" ? "stripe" : "paypal";
     // Our custom planName parameter that we sent with the return URL
     const planName = queryParams.get("planName");
-    // PayPal token parameter from approval URL
-    const paypalOrderId = token;
+    const orderId = provider === "stripe" ? sessionId : token;
     const cancelled = queryParams.get("cancelled");
     
-    console.log('[PayPal] Redirect params:', { token, paypalOrderId, planName, cancelled });
+    console.log('[Billing] Redirect params:', { provider, orderId, planName, cancelled });
     
     // Clear query params immediately to prevent reprocessing on page refresh
-    if (token || planName || cancelled) {
+    if (orderId || planName || cancelled) {
       window.history.replaceState({}, document.title, window.location.pathname);
     }
     
@@ -252,22 +421,21 @@ const SubscriptionPage = () => {
         description: "Your payment process was cancelled. You can try again when you're ready.",
         variant: "default"
       });
-      setProcessingPayPal(false);
+      setProcessingPayment(false);
       return;
     }
     
-    // If we have either token or paypalOrderId, and we have the planName, we can capture the order
-    if ((token || paypalOrderId) && planName) {
-      // Handle PayPal redirect with token/orderId
+    // With the order ID and the planName we can complete the order
+    if (orderId && planName) {
       const captureOrder = async () => {
         try {
-          setProcessingPayPal(true);
-          const orderId = token || paypalOrderId;
-          console.log('[PayPal] Capturing order with token/orderId:', orderId);
+          setProcessingPayment(true);
+          console.log(`[Billing] Completing ${provider} order:`, orderId);
           
           const res = await apiRequest("POST", "/api/subscription/capture-order", { 
-            orderId, // Use token/paypalOrderId as the orderId
-            planName 
+            orderId,
+            planName,
+            provider
           });
           
           if (res.ok) {
@@ -276,22 +444,23 @@ const SubscriptionPage = () => {
               description: "Your subscription has been activated. Thank you for your support!",
             });
             // Refetch subscription data
-            refetchSubscription();
-            queryClient.invalidateQueries({ queryKey: ["/api/subscription/history"] });
+            refreshSubscriptionData();
             setCurrentTab("subscription");
           } else {
             const errorData = await res.json();
-            console.error('[PayPal] Error response:', errorData);
+            console.error('[Billing] Error response:', errorData);
             throw new Error(errorData.message || "Failed to process payment");
           }
         } catch (error: any) {
-          console.error('[PayPal] Capture error:', error);
+          console.error('[Billing] Capture error:', error);
           
           // Create a more detailed error message
-          let errorDescription = error.message || "There was an error processing your payment.";
+          let errorDescription = getServerMessage(error, "There was an error processing your payment.");
           
           // Add helpful information about sandbox testing
-          errorDescription += " For PayPal sandbox testing, use test account credentials from the PayPal Developer Dashboard.";
+          if (provider === "paypal") {
+            errorDescription += " For PayPal sandbox testing, use test account credentials from the PayPal Developer Dashboard.";
+          }
           
           toast({
             title: "Payment processing failed",
@@ -299,7 +468,7 @@ const SubscriptionPage = () => {
             variant: "destructive"
           });
         } finally {
-          setProcessingPayPal(false);
+          setProcessingPayment(false);
         }
       };
       
@@ -308,10 +477,15 @@ const SubscriptionPage = () => {
   }, [toast, queryClient, refetchSubscription]);
   
   // Handle subscription purchase
-  const handleSubscribe = (plan: SubscriptionPlan) => {
+  const handleSubscribe = (plan: SubscriptionPlan, provider: PaymentProvider["name"]) => {
     setSelectedPlan(plan);
-    createOrderMutation.mutate(plan.name);
-    setProcessingPayPal(true);
+    setSelectedProvider(provider);
+    createOrderMutation.mutate({
+      planName: plan.name,
+      promoCode: promoQuotes[plan.name]?.code,
+      provider
+    });
+    setProcessingPayment(true);
   };
   
   // Handle subscription cancellation
@@ -342,34 +516,66 @@ const SubscriptionPage = () => {
   const isPro = user?.subscriptionTier === 'pro' || endDateInFuture;
   
   // Loading state
-  const isLoading = plansLoading || subscriptionLoading || processingPayPal;
+  const isLoading = plansLoading || subscriptionLoading || processingPayment;
   
   return (
     <PageLayout 
       heading="Subscription Management"
       subheading="Manage your subscription and payment information"
     >
-      <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg">
-        <div className="flex items-start gap-3">
-          <AlertTriangle className="h-6 w-6 text-amber-500 flex-shrink-0 mt-1" />
-          <div>
-            <h3 className="font-medium text-amber-700 mb-1">Coming Soon</h3>
-            <p className="text-sm text-amber-600">
-              Our subscription packages are under development. The preview below shows what's coming!
-            </p>
-          </div>
-        </div>
-      </div>
-      
       <Tabs value={currentTab} onValueChange={setCurrentTab} className="space-y-4">
         <TabsList className="grid w-full grid-cols-3">
-          <TabsTrigger value="plans" disabled={true}>Subscription Plans</TabsTrigger>
-          <TabsTrigger value="subscription" disabled={true}>Current Subscription</TabsTrigger>
-          <TabsTrigger value="history" disabled={true}>Payment History</TabsTrigger>
+          <TabsTrigger value="plans">Subscription Plans</TabsTrigger>
+          <TabsTrigger value="subscription">Current Subscription</TabsTrigger>
+          <TabsTrigger value="history">Payment History</TabsTrigger>
         </TabsList>
         
         {/* Subscription Plans Tab */}
         <TabsContent value="plans" className="space-y-4">
+          {trialEligibility?.eligible && !isPro && (
+            <div className="p-4 bg-[#F5B8DB]/10 border border-[#F5B8DB]/40 rounded-lg">
+              <div className="flex items-start gap-3">
+                <Gift className="h-6 w-6 text-[#F5B8DB] flex-shrink-0 mt-1" />
+                <div>
+                  <h3 className="font-medium mb-1">Try Pro free for {trialEligibility.trialDays} days</h3>
+                  <p className="text-sm text-muted-foreground">
+                    No payment needed. When the trial ends you'll go back to the free plan unless you subscribe.
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+          
+          <div className="flex flex-col sm:flex-row gap-2 sm:items-center">
+            <div className="relative flex-1 max-w-sm">
+              <Tag className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                value={promoCodeInput}
+                onChange={(e) => setPromoCodeInput(e.target.value.toUpperCase())}
+                placeholder="Promo code"
+                className="pl-9"
+              />
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => validatePromoMutation.mutate(promoCodeInput.trim())}
+              disabled={!promoCodeInput.trim() || validatePromoMutation.isPending || !plans}
+            >
+              {validatePromoMutation.isPending ? "Checking..." : "Apply"}
+            </Button>
+            {Object.keys(promoQuotes).length > 0 && (
+              <Button
+                variant="ghost"
+                onClick={() => {
+                  setPromoQuotes({});
+                  setPromoCodeInput("");
+                }}
+              >
+                Remove
+              </Button>
+            )}
+          </div>
+          
           {isLoading ? (
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               {[1, 2].map((i) => (
@@ -403,7 +609,17 @@ const SubscriptionPage = () => {
                       )}
                     </div>
                     <CardDescription>
-                      ${plan.price}/{plan.interval}
+                      {promoQuotes[plan.name] ? (
+                        <span className="flex items-center gap-2">
+                          <span className="line-through">${plan.price}</span>
+                          <span className="font-medium text-foreground">
+                            ${promoQuotes[plan.name].finalAmount.toFixed(2)}/{plan.interval}
+                          </span>
+                          <Badge variant="outline">{promoQuotes[plan.name].code}</Badge>
+                        </span>
+                      ) : (
+                        <>${plan.price}/{plan.interval}</>
+                      )}
                     </CardDescription>
                   </CardHeader>
                   <CardContent className="flex-grow">
@@ -458,7 +674,7 @@ const SubscriptionPage = () => {
                       )}
                     </ul>
                   </CardContent>
-                  <CardFooter>
+                  <CardFooter className="flex flex-col gap-2">
                     {plan.name === 'free' ? (
                       // Free plan is disabled if you're on Pro, otherwise it shows as your current plan
                       !isPro ? (
@@ -480,16 +696,42 @@ const SubscriptionPage = () => {
                         </Button>
                       ) : (
                         // Allow subscribing or re-subscribing regardless of other plan status
-                        <Button 
-                          variant="default" 
-                          className="w-full opacity-70 cursor-not-allowed"
-                          disabled={true}
-                        >
-                          <span className="flex items-center gap-2">
-                            <CreditCard className="h-4 w-4" />
-                            Coming Soon
-                          </span>
-                        </Button>
+                        <>
+                          {(paymentProviders || []).map((provider, index) => (
+                            <Button 
+                              key={provider.name}
+                              variant={index === 0 ? "default" : "outline"}
+                              className="w-full"
+                              onClick={() => handleSubscribe(plan, provider.name)}
+                              disabled={createOrderMutation.isPending || processingPayment}
+                            >
+                              <span className="flex items-center gap-2">
+                                <CreditCard className="h-4 w-4" />
+                                {createOrderMutation.isPending && selectedPlan?.id === plan.id && selectedProvider === provider.name
+                                  ? `Redirecting to ${provider.name === "stripe" ? "Stripe" : provider.displayName}...`
+                                  : provider.name === "stripe" ? "Subscribe with card" : `Subscribe with ${provider.displayName}`}
+                              </span>
+                            </Button>
+                          ))}
+                          {paymentProviders?.length === 0 && (
+                            <p className="text-sm text-muted-foreground text-center">
+                              Payments are not available right now.
+                            </p>
+                          )}
+                          {trialEligibility?.eligible && !isPro && (
+                            <Button
+                              variant="outline"
+                              className="w-full"
+                              onClick={() => startTrialMutation.mutate(plan.name)}
+                              disabled={startTrialMutation.isPending}
+                            >
+                              <span className="flex items-center gap-2">
+                                <Gift className="h-4 w-4" />
+                                Start {trialEligibility.trialDays}-day free trial
+                              </span>
+                            </Button>
+                          )}
+                        </>
                       )
                     )}
                   </CardFooter>
@@ -505,7 +747,7 @@ const SubscriptionPage = () => {
                 <div>
                   <h3 className="font-medium mb-1">Secure Subscription</h3>
                   <p className="text-sm text-muted-foreground">
-                    All payments are processed securely through PayPal. Your subscription can be cancelled anytime from your account dashboard.
+                    All payments are processed securely through PayPal or Stripe. Your subscription can be cancelled anytime from your account dashboard.
                   </p>
                 </div>
               </div>
@@ -541,7 +783,7 @@ const SubscriptionPage = () => {
                   </CardTitle>
                   <Badge 
                     variant={
-                      currentSubscription.subscription.status === 'active' 
+                      currentSubscription.subscription.status === 'active' || currentSubscription.subscription.status === 'trial' 
                         ? currentSubscription.subscription.cancelAtPeriodEnd 
                           ? 'outline' 
                           : 'default'
@@ -555,6 +797,9 @@ const SubscriptionPage = () => {
                       const isActive = endDate > now;
                       
                       if (isActive) {
+                        if (currentSubscription.subscription.status === 'trial') {
+                          return 'Free trial until ' + formatDate(currentSubscription.subscription.endDate);
+                        }
                         return currentSubscription.subscription.cancelAtPeriodEnd
                           ? 'Active until ' + formatDate(currentSubscription.subscription.endDate)
                           : 'Active';
@@ -565,7 +810,9 @@ const SubscriptionPage = () => {
                   </Badge>
                 </div>
                 <CardDescription>
-                  Billing: ${currentSubscription.subscription.plan.price}/{currentSubscription.subscription.plan.interval}
+                  {currentSubscription.subscription.status === 'trial'
+                    ? `Free trial · then $${currentSubscription.subscription.plan.price}/${currentSubscription.subscription.plan.interval} if you subscribe`
+                    : `Billing: $${currentSubscription.subscription.plan.price}/${currentSubscription.subscription.plan.interval}`}
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
@@ -609,74 +856,35 @@ const SubscriptionPage = () => {
                 <div>
                   <h3 className="font-medium mb-3">Current Usage</h3>
                   <div className="space-y-4">
-                    <div>
-                      <div className="flex justify-between mb-2">
-                        <div className="flex items-center gap-2">
-                          <span>Journal Entries</span>
-                          <TooltipProvider>
-                            <Tooltip>
-                              <TooltipTrigger>
-                                <span className="text-muted-foreground h-4 w-4">?</span>
-                              </TooltipTrigger>
-                              <TooltipContent>
-                                <p>Total number of journal entries you have created</p>
-                              </TooltipContent>
-                            </Tooltip>
-                          </TooltipProvider>
-                        </div>
-                        <span className="text-sm font-medium">
-                          {/* These would be replaced with actual values */}
-                          {isPro ? "Unlimited" : "15/20"}
-                        </span>
-                      </div>
-                      {!isPro && <Progress value={75} />}
-                    </div>
-                    
-                    <div>
-                      <div className="flex justify-between mb-2">
-                        <div className="flex items-center gap-2">
-                          <span>AI Responses Today</span>
-                          <TooltipProvider>
-                            <Tooltip>
-                              <TooltipTrigger>
-                                <span className="text-muted-foreground h-4 w-4">?</span>
-                              </TooltipTrigger>
-                              <TooltipContent>
-                                <p>Number of AI responses you have used today</p>
-                              </TooltipContent>
-                            </Tooltip>
-                          </TooltipProvider>
-                        </div>
-                        <span className="text-sm font-medium">
-                          {/* These would be replaced with actual values */}
-                          {isPro ? "Unlimited" : "8/10"}
-                        </span>
-                      </div>
-                      {!isPro && <Progress value={80} />}
-                    </div>
-                    
-                    <div>
-                      <div className="flex justify-between mb-2">
-                        <div className="flex items-center gap-2">
-                          <span>Goals</span>
-                          <TooltipProvider>
-                            <Tooltip>
-                              <TooltipTrigger>
-                                <span className="text-muted-foreground h-4 w-4">?</span>
-                              </TooltipTrigger>
-                              <TooltipContent>
-                                <p>Total number of goals you can create and track</p>
-                              </TooltipContent>
-                            </Tooltip>
-                          </TooltipProvider>
+                    {USAGE_ROWS.map(({ feature, label, tooltip }) => {
+                      const quota = usage?.quotas[feature];
+                      const limited = quota?.limit != null;
+                      return (
+                        <div key={feature}>
+                          <div className="flex justify-between mb-2">
+                            <div className="flex items-center gap-2">
+                              <span>{label}</span>
+                              <TooltipProvider>
+                                <Tooltip>
+                                  <TooltipTrigger>
+                                    <span className="text-muted-foreground h-4 w-4">?</span>
+                                  </TooltipTrigger>
+                                  <TooltipContent>
+                                    <p>{tooltip}</p>
+                                  </TooltipContent>
+                                </Tooltip>
+                              </TooltipProvider>
+                            </div>
+                            <span className="text-sm font-medium">
+                              {!quota ? "…" : limited ? `${quota.used}/${quota.limit}` : "Unlimited"}
+                            </span>
+                          </div>
+                          {quota && limited && (
+                            <Progress value={quota.limit ? Math.min(100, (quota.used / quota.limit) * 100) : 100} />
+                          )}
                         </div>
-                        <span className="text-sm font-medium">
-                          {/* These would be replaced with actual values */}
-                          {isPro ? "Unlimited" : "3/5"}
-                        </span>
-                      </div>
-                      {!isPro && <Progress value={60} />}
-                    </div>
+                      );
+                    })}
                   </div>
                 </div>
               </CardContent>
@@ -685,7 +893,7 @@ const SubscriptionPage = () => {
                  !currentSubscription.subscription.cancelAtPeriodEnd && (
                   <AlertDialog>
                     <AlertDialogTrigger asChild>
-                      <Button variant="destructive" disabled={true}>Cancel Subscription</Button>
+                      <Button variant="destructive">Cancel Subscription</Button>
                     </AlertDialogTrigger>
                     <AlertDialogContent>
                       <AlertDialogHeader>
@@ -699,7 +907,6 @@ const SubscriptionPage = () => {
                         <AlertDialogAction
                           onClick={handleCancelSubscription}
                           className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                          disabled={true}
                         >
                           Yes, Cancel
                         </AlertDialogAction>
@@ -716,7 +923,7 @@ const SubscriptionPage = () => {
               <p className="text-muted-foreground mb-6 max-w-md mx-auto">
                 You're currently on the free plan. Upgrade to a premium plan to unlock additional features and higher usage limits.
               </p>
-              <Button onClick={() => setCurrentTab("plans")} variant="default" disabled={true}>
+              <Button onClick={() => setCurrentTab("plans")} variant="default">
                 View Subscription Plans
               </Button>
             </div>
@@ -760,40 +967,59 @@ const SubscriptionPage = () => {
                             {formatDate(item.startDate || '')} - {formatDate(item.endDate || '')}
                           </p>
                         </div>
-                        <Badge variant={item.payment?.status === 'completed' ? 'outline' : 'secondary'}>
-                          {item.payment?.status || 'No payment'}
+                        <Badge variant={(item.payment || item.payments?.[0])?.status === 'completed' ? 'outline' : 'secondary'}>
+                          {(item.payment || item.payments?.[0])?.status || (item.status === 'trial' ? 'Free trial' : 'No payment')}
                         </Badge>
                       </div>
                       
-                      {/* Check for either a single payment or the first item in payments array */}
-                      {(item.payment || (item.payments && item.payments.length > 0)) && (
-                        <div className="mt-2 space-y-1 text-sm">
-                          {/* Use the first payment if we have an array, otherwise use the payment property */}
-                          {(() => {
-                            const paymentData = item.payment || (item.payments && item.payments[0]);
-                            return paymentData ? (
-                              <>
-                                <div className="flex justify-between">
-                                  <span className="text-muted-foreground">Amount:</span>
-                                  <span>${paymentData.amount}</span>
-                                </div>
-                                <div className="flex justify-between">
-                                  <span className="text-muted-foreground">Payment Method:</span>
-                                  <span className="capitalize">{paymentData.paymentMethod}</span>
-                                </div>
-                                <div className="flex justify-between">
-                                  <span className="text-muted-foreground">Date:</span>
-                                  <span>{formatDate(paymentData.paymentDate)}</span>
-                                </div>
-                                <div className="flex justify-between">
-                                  <span className="text-muted-foreground">Transaction ID:</span>
-                                  <span className="text-xs truncate max-w-[180px]">{paymentData.paymentId}</span>
-                                </div>
-                              </>
-                            ) : null;
-                          })()}
+                      {/* List every payment made for the subscription, e.g. the first payment and renewals */}
+                      {(item.payment ? [item.payment] : item.payments || []).map((paymentData) => (
+                        <div key={paymentData.id} className="mt-3 space-y-1 text-sm">
+                          <div className="flex justify-between">
+                            <span className="text-muted-foreground">Amount:</span>
+                            <span>${paymentData.amount}</span>
+                          </div>
+                          {!!paymentData.discountAmount && (
+                            <div className="flex justify-between">
+                              <span className="text-muted-foreground">Promo Discount:</span>
+                              <span>-${paymentData.discountAmount.toFixed(2)}</span>
+                            </div>
+                          )}
+                          <div className="flex justify-between">
+                            <span className="text-muted-foreground">Payment Method:</span>
+                            <span className="capitalize">{paymentData.paymentMethod}</span>
+                          </div>
+                          <div className="flex justify-between">
+                            <span className="text-muted-foreground">Date:</span>
+                            <span>{formatDate(paymentData.paymentDate)}</span>
+                          </div>
+                          <div className="flex justify-between">
+                            <span className="text-muted-foreground">Transaction ID:</span>
+                            <span className="text-xs truncate max-w-[180px]">{paymentData.paymentId}</span>
+                          </div>
+                          {paymentData.status !== 'failed' && paymentData.status !== 'pending' && (
+                            <div className="flex justify-between items-center pt-1">
+                              <span className="text-muted-foreground">
+                                Invoice{paymentData.invoiceNumber ? ` ${paymentData.invoiceNumber}` : ''}:
+                              </span>
+                              <span className="flex gap-2">
+                                <Button variant="outline" size="sm" asChild>
+                                  <a href={`/api/subscription/payments/${paymentData.id}/invoice?format=html`} target="_blank" rel="noopener noreferrer">
+                                    <FileText className="h-4 w-4 mr-1" />
+                                    View
+                                  </a>
+                                </Button>
+                                <Button variant="outline" size="sm" asChild>
+                                  <a href={`/api/subscription/payments/${paymentData.id}/invoice?format=pdf`} download>
+                                    <Download className="h-4 w-4 mr-1" />
+                                    PDF
+                                  </a>
+                                </Button>
+                              </span>
+                            </div>
+                          )}
                         </div>
-                      )}
+                      ))}
                     </div>
                   ))}
                 </div>
@@ -806,7 +1032,7 @@ const SubscriptionPage = () => {
               <p className="text-muted-foreground mb-6 max-w-md mx-auto">
                 You haven't made any payments yet. Subscribe to a plan to get started.
               </p>
-              <Button onClick={() => setCurrentTab("plans")} variant="default" disabled={true}>
+              <Button onClick={() => setCurrentTab("plans")} variant="default">
                 View Subscription Plans
               </Button>
             </div>
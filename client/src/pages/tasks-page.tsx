@@ -5,7 +5,7 @@ import { Plus, Filter, SortAsc, SortDesc, CalendarDays } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Goal } from '@shared/schema';
+import { Goal, Task } from '@shared/schema';
 import TaskList from '@/components/goals/task-list';
 import TaskForm from '@/components/goals/task-form';
 import AISuggestions from '@/components/goals/ai-suggestions';
@@ -14,6 +14,8 @@ import PageHeader from '@/components/ui/page-header';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
+import { usePaginatedList } from '@/hooks/use-paginated-list';
+import LoadMoreButton from '@/components/ui/load-more-button';
 import { format, addDays, subDays, startOfDay, endOfDay, isWithinInterval } from 'date-fns';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Calendar as CalendarComponent } from '@/components/ui/calendar';
@@ -46,16 +48,21 @@ export default function TasksPage() {
   });
   const [dateFilterActive, setDateFilterActive] = useState(false);
   
-  // Fetch tasks
-  const { data: tasks = [], isLoading: isTasksLoading } = useQuery({
-    queryKey: ['/api/tasks', user?.id],
-    enabled: !!user?.id,
-    queryFn: async () => {
-      const res = await fetch(`/api/tasks/${user?.id}`);
-      if (!res.ok) throw new Error('Failed to fetch tasks');
-      return res.json();
-    },
-  });
+  // Fetch tasks a page at a time, filtered and sorted on the server
+  const {
+    items: tasks,
+    isLoading: isTasksLoading,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = usePaginatedList<Task>(`/api/tasks/${user?.id}`, {
+    status: filter,
+    goalId: selectedGoalId === null ? undefined : selectedGoalId === 0 ? 'none' : selectedGoalId,
+    sort: sortBy,
+    order: sortDirection,
+    dueFrom: dateFilterActive && dateRange.from ? startOfDay(dateRange.from).toISOString() : undefined,
+    dueTo: dateFilterActive && dateRange.to ? endOfDay(dateRange.to).toISOString() : undefined,
+  }, { enabled: !!user?.id });
 
   // Fetch goals for filter dropdown
   const { data: goals = [] } = useQuery<Goal[]>({
@@ -318,6 +325,12 @@ export default function TasksPage() {
                 isDateFilterActive={dateFilterActive}
                 isDateInRange={dateFilterActive ? isDateInRange : undefined}
               />
+              <LoadMoreButton
+                hasNextPage={hasNextPage}
+                isFetchingNextPage={isFetchingNextPage}
+                onLoadMore={() => fetchNextPage()}
+                label="Load more tasks"
+              />
             </CardContent>
           </Card>
         </div>
@@ -335,7 +348,7 @@ export default function TasksPage() {
             <TaskForm 
               onSuccess={() => {
                 setIsCreateDialogOpen(false);
-                queryClient.invalidateQueries({ queryKey: ['/api/tasks', user?.id] });
+                queryClient.invalidateQueries({ queryKey: [`/api/tasks/${user?.id}`] });
               }}
               userId={user?.id || 0}
             />
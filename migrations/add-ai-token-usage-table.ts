@@ -0,0 +1,43 @@
+import { db } from "../server/db";
+
+/**
+ * This migration adds an ai_token_usage table recording the tokens used by each AI call,
+ * which backs the per-user monthly token limits
+ */
+async function main() {
+  console.log("Creating ai_token_usage table...");
+  
+  try {
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS ai_token_usage (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+        feature TEXT NOT NULL,
+        provider TEXT NOT NULL,
+        model TEXT NOT NULL,
+        prompt_tokens INTEGER NOT NULL DEFAULT 0,
+        completion_tokens INTEGER NOT NULL DEFAULT 0,
+        total_tokens INTEGER NOT NULL DEFAULT 0,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    
+    // Monthly budget checks filter by user and date
+    await db.execute(`
+      CREATE INDEX IF NOT EXISTS ai_token_usage_user_created_idx
+        ON ai_token_usage (user_id, created_at);
+    `);
+    
+    console.log("✅ Successfully created ai_token_usage table");
+  } catch (error) {
+    console.error("❌ Error creating ai_token_usage table:", error);
+    throw error;
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exit(1);
+  });
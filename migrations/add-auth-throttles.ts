@@ -0,0 +1,44 @@
+import { db } from "../server/db";
+
+/**
+ * This migration adds rate limiting for sign-in, registration and password
+ * resets: failed attempts per IP address and per account, and lockouts
+ */
+async function main() {
+  console.log("Adding auth throttles...");
+  
+  try {
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS auth_throttles (
+        id SERIAL PRIMARY KEY,
+        scope TEXT NOT NULL,
+        action TEXT NOT NULL,
+        identifier TEXT NOT NULL,
+        user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+        failures INTEGER NOT NULL DEFAULT 0,
+        first_failure_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        last_failure_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        last_ip_address TEXT,
+        blocked_until TIMESTAMP,
+        locked_out_at TIMESTAMP
+      );
+    `);
+    console.log("✅ Created auth_throttles table");
+    
+    await db.execute(`
+      CREATE UNIQUE INDEX IF NOT EXISTS auth_throttles_scope_action_identifier_idx
+      ON auth_throttles (scope, action, identifier);
+    `);
+    console.log("✅ Created auth_throttles unique index");
+  } catch (error) {
+    console.error("❌ Error adding auth throttles:", error);
+    throw error;
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exit(1);
+  });
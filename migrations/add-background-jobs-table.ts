@@ -0,0 +1,46 @@
+import { db } from "../server/db";
+
+/**
+ * This migration adds a background_jobs table for the persistent job queue
+ * that runs AI processing for journal entries and scheduled work
+ */
+async function main() {
+  console.log("Creating background_jobs table...");
+  
+  try {
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS background_jobs (
+        id SERIAL PRIMARY KEY,
+        type TEXT NOT NULL,
+        payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+        status TEXT NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        max_attempts INTEGER NOT NULL DEFAULT 5,
+        run_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        locked_at TIMESTAMP,
+        last_error TEXT,
+        completed_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    
+    // Workers look up due jobs by status and run time
+    await db.execute(`
+      CREATE INDEX IF NOT EXISTS background_jobs_status_run_at_idx
+        ON background_jobs (status, run_at);
+    `);
+    
+    console.log("✅ Successfully created background_jobs table");
+  } catch (error) {
+    console.error("❌ Error creating background_jobs table:", error);
+    throw error;
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exit(1);
+  });
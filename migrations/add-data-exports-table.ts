@@ -0,0 +1,46 @@
+import { db } from "../server/db";
+
+/**
+ * This migration adds a data_exports table that tracks account export
+ * requests and holds each finished archive until it expires
+ */
+async function main() {
+  console.log("Creating data_exports table...");
+
+  try {
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS data_exports (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        status TEXT NOT NULL DEFAULT 'pending',
+        formats JSONB NOT NULL,
+        item_counts JSONB,
+        file_name TEXT,
+        archive BYTEA,
+        size_bytes INTEGER,
+        error TEXT,
+        job_id INTEGER,
+        completed_at TIMESTAMP,
+        expires_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+
+    await db.execute(`
+      CREATE INDEX IF NOT EXISTS data_exports_user_id_idx
+        ON data_exports (user_id);
+    `);
+
+    console.log("✅ Successfully created data_exports table");
+  } catch (error) {
+    console.error("❌ Error creating data_exports table:", error);
+    throw error;
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exit(1);
+  });
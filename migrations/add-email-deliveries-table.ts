@@ -0,0 +1,53 @@
+import { db } from "../server/db";
+
+/**
+ * This migration adds an email_deliveries table that logs every email sent,
+ * with its delivery status and any failure or bounce reason
+ */
+async function main() {
+  console.log("Creating email_deliveries table...");
+  
+  try {
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS email_deliveries (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        to_address TEXT NOT NULL,
+        template TEXT NOT NULL,
+        subject TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'queued',
+        transport TEXT,
+        message_id TEXT,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        error TEXT,
+        metadata JSONB DEFAULT '{}'::jsonb,
+        sent_at TIMESTAMP,
+        bounced_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    
+    // Bounce reports are matched by recipient address or Message-ID
+    await db.execute(`
+      CREATE INDEX IF NOT EXISTS email_deliveries_to_address_idx
+        ON email_deliveries (to_address);
+    `);
+    await db.execute(`
+      CREATE INDEX IF NOT EXISTS email_deliveries_message_id_idx
+        ON email_deliveries (message_id);
+    `);
+    
+    console.log("✅ Successfully created email_deliveries table");
+  } catch (error) {
+    console.error("❌ Error creating email_deliveries table:", error);
+    throw error;
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,54 @@
+import { db } from "../server/db";
+
+/**
+ * This migration adds the invoices table. Payments made before it are invoiced
+ * the first time their invoice is downloaded.
+ */
+async function main() {
+  console.log("Adding invoices table...");
+  
+  try {
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS invoices (
+        id SERIAL PRIMARY KEY,
+        invoice_number TEXT NOT NULL UNIQUE,
+        sequence INTEGER NOT NULL UNIQUE,
+        payment_id INTEGER NOT NULL UNIQUE REFERENCES payments(id) ON DELETE CASCADE,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        subscription_id INTEGER REFERENCES subscriptions(id) ON DELETE SET NULL,
+        currency TEXT NOT NULL DEFAULT 'USD',
+        plan_name TEXT NOT NULL,
+        plan_interval TEXT,
+        period_start TIMESTAMP,
+        period_end TIMESTAMP,
+        subtotal DOUBLE PRECISION NOT NULL,
+        discount_amount DOUBLE PRECISION NOT NULL DEFAULT 0,
+        tax_label TEXT NOT NULL DEFAULT 'Tax',
+        tax_rate DOUBLE PRECISION NOT NULL DEFAULT 0,
+        tax_amount DOUBLE PRECISION NOT NULL DEFAULT 0,
+        total DOUBLE PRECISION NOT NULL,
+        billed_to JSONB NOT NULL,
+        seller JSONB NOT NULL,
+        issued_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        regenerated_at TIMESTAMP,
+        emailed_at TIMESTAMP
+      );
+    `);
+    console.log("✅ Created invoices table");
+    
+    await db.execute(`
+      CREATE INDEX IF NOT EXISTS invoices_user_id_idx ON invoices (user_id);
+    `);
+    console.log("✅ Created invoices user index");
+  } catch (error) {
+    console.error("❌ Error adding invoices table:", error);
+    throw error;
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exit(1);
+  });
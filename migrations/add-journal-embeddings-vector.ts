@@ -0,0 +1,42 @@
+import { db } from "../server/db";
+import { EMBEDDING_DIMENSIONS } from "../shared/schema";
+
+/**
+ * This migration adds a pgvector column and HNSW index to journal_embeddings so similar
+ * entries can be found with an index lookup instead of scanning every embedding.
+ * Run server/scripts/backfill-embedding-vectors.ts afterwards to fill the column for existing rows.
+ */
+async function main() {
+  console.log("Adding vector column to journal_embeddings...");
+  
+  try {
+    await db.execute(`CREATE EXTENSION IF NOT EXISTS vector;`);
+    
+    await db.execute(`
+      ALTER TABLE journal_embeddings
+        ADD COLUMN IF NOT EXISTS embedding vector(${EMBEDDING_DIMENSIONS});
+    `);
+    
+    await db.execute(`
+      CREATE INDEX IF NOT EXISTS journal_embeddings_embedding_hnsw_idx
+        ON journal_embeddings USING hnsw (embedding vector_cosine_ops);
+    `);
+    
+    await db.execute(`
+      CREATE INDEX IF NOT EXISTS journal_embeddings_journal_entry_id_idx
+        ON journal_embeddings (journal_entry_id);
+    `);
+    
+    console.log("✅ Successfully added vector column and indexes to journal_embeddings");
+  } catch (error) {
+    console.error("❌ Error adding vector column to journal_embeddings:", error);
+    throw error;
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,48 @@
+import { db } from "../server/db";
+
+/**
+ * This migration adds a journal_imports table that tracks journal imports
+ * from other apps and files, with a report of every entry in them
+ */
+async function main() {
+  console.log("Creating journal_imports table...");
+
+  try {
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS journal_imports (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        status TEXT NOT NULL DEFAULT 'pending',
+        file_names JSONB NOT NULL DEFAULT '[]'::jsonb,
+        sources JSONB NOT NULL DEFAULT '[]'::jsonb,
+        pending_entries JSONB,
+        total_count INTEGER NOT NULL DEFAULT 0,
+        imported_count INTEGER NOT NULL DEFAULT 0,
+        duplicate_count INTEGER NOT NULL DEFAULT 0,
+        failed_count INTEGER NOT NULL DEFAULT 0,
+        items JSONB NOT NULL DEFAULT '[]'::jsonb,
+        error TEXT,
+        job_id INTEGER,
+        completed_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+
+    await db.execute(`
+      CREATE INDEX IF NOT EXISTS journal_imports_user_id_idx
+        ON journal_imports (user_id);
+    `);
+
+    console.log("✅ Successfully created journal_imports table");
+  } catch (error) {
+    console.error("❌ Error creating journal_imports table:", error);
+    throw error;
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exit(1);
+  });
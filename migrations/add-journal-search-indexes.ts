@@ -0,0 +1,39 @@
+import { db } from "../server/db";
+
+/**
+ * This migration adds the indexes behind journal search: a full-text index over
+ * each entry's title, content and transcript, and an index on the sentiment JSON
+ * for emotion and theme filters. The expression must match journalSearchDocument
+ * in shared/schema.ts.
+ */
+async function main() {
+  console.log("Adding journal search indexes...");
+  
+  try {
+    await db.execute(`
+      CREATE INDEX IF NOT EXISTS journal_entries_search_idx
+        ON journal_entries USING gin ((
+          setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+          setweight(to_tsvector('english', content), 'B') ||
+          setweight(to_tsvector('english', coalesce(transcript, '')), 'C')
+        ));
+    `);
+    console.log("✅ Created journal_entries full-text index");
+    
+    await db.execute(`
+      CREATE INDEX IF NOT EXISTS journal_entries_sentiment_idx
+        ON journal_entries USING gin (sentiment jsonb_path_ops);
+    `);
+    console.log("✅ Created journal_entries sentiment index");
+  } catch (error) {
+    console.error("❌ Error adding journal search indexes:", error);
+    throw error;
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exit(1);
+  });
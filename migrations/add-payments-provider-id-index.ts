@@ -0,0 +1,44 @@
+import { db } from "../server/db";
+
+/**
+ * This migration makes a provider's payment ID unique, so a payment reported
+ * both when the user returns from checkout and by webhook is recorded once.
+ * Payments recorded twice before it are listed and must be merged by hand
+ * before the index can be created.
+ */
+async function main() {
+  console.log("Adding unique index on payments (payment_method, payment_id)...");
+
+  try {
+    const duplicates = await db.execute(`
+      SELECT payment_method, payment_id, array_agg(id ORDER BY id) AS ids
+      FROM payments
+      WHERE payment_id IS NOT NULL
+      GROUP BY payment_method, payment_id
+      HAVING count(*) > 1;
+    `);
+    if (duplicates.rows.length > 0) {
+      for (const row of duplicates.rows) {
+        console.error(`Payment ${row.payment_method} ${row.payment_id} is recorded more than once (ids ${row.ids})`);
+      }
+      throw new Error("Remove the duplicate payments listed above, then run this migration again");
+    }
+
+    await db.execute(`
+      CREATE UNIQUE INDEX IF NOT EXISTS payments_payment_method_payment_id_idx
+        ON payments (payment_method, payment_id)
+        WHERE payment_id IS NOT NULL;
+    `);
+    console.log("✅ Created payments_payment_method_payment_id_idx");
+  } catch (error) {
+    console.error("❌ Error adding payments index:", error);
+    throw error;
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exit(1);
+  });
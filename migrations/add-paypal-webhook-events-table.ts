@@ -0,0 +1,39 @@
+import { db } from "../server/db";
+
+/**
+ * This migration adds a paypal_webhook_events table that stores each webhook
+ * event PayPal sends, once per event ID
+ */
+async function main() {
+  console.log("Creating paypal_webhook_events table...");
+  
+  try {
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS paypal_webhook_events (
+        id SERIAL PRIMARY KEY,
+        event_id TEXT NOT NULL UNIQUE,
+        event_type TEXT NOT NULL,
+        resource_type TEXT,
+        resource_id TEXT,
+        payload JSONB NOT NULL,
+        status TEXT NOT NULL DEFAULT 'received',
+        subscription_id INTEGER REFERENCES subscriptions(id) ON DELETE SET NULL,
+        detail TEXT,
+        processed_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    
+    console.log("✅ Successfully created paypal_webhook_events table");
+  } catch (error) {
+    console.error("❌ Error creating paypal_webhook_events table:", error);
+    throw error;
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,41 @@
+import { db } from "../server/db";
+
+/**
+ * This migration adds the audit trail for admin changes to subscription
+ * plans and tier feature limits
+ */
+async function main() {
+  console.log("Adding plan audit log...");
+  
+  try {
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS plan_audit_log (
+        id SERIAL PRIMARY KEY,
+        admin_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        entity_type TEXT NOT NULL,
+        entity_id INTEGER NOT NULL,
+        entity_name TEXT NOT NULL,
+        action TEXT NOT NULL,
+        changes JSONB NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    console.log("✅ Created plan_audit_log table");
+    
+    await db.execute(`
+      CREATE INDEX IF NOT EXISTS plan_audit_log_entity_idx
+        ON plan_audit_log (entity_type, entity_id, created_at DESC);
+    `);
+    console.log("✅ Added index on plan_audit_log entity");
+  } catch (error) {
+    console.error("❌ Error adding plan audit log:", error);
+    throw error;
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,52 @@
+import { db } from "../server/db";
+
+/**
+ * This migration adds promo codes, links payments to the promo code redeemed
+ * with them, and records when each user started their free trial
+ */
+async function main() {
+  console.log("Adding promo codes and free trials...");
+  
+  try {
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS promo_codes (
+        id SERIAL PRIMARY KEY,
+        code TEXT NOT NULL UNIQUE,
+        description TEXT,
+        discount_type TEXT NOT NULL,
+        discount_value DOUBLE PRECISION NOT NULL,
+        plan_ids JSONB,
+        max_redemptions INTEGER,
+        max_redemptions_per_user INTEGER NOT NULL DEFAULT 1,
+        expires_at TIMESTAMP,
+        is_active BOOLEAN NOT NULL DEFAULT TRUE,
+        created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    console.log("✅ Created promo_codes table");
+    
+    await db.execute(`
+      ALTER TABLE payments
+        ADD COLUMN IF NOT EXISTS promo_code_id INTEGER REFERENCES promo_codes(id) ON DELETE SET NULL,
+        ADD COLUMN IF NOT EXISTS discount_amount DOUBLE PRECISION;
+    `);
+    console.log("✅ Added promo_code_id and discount_amount to payments");
+    
+    await db.execute(`
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS trial_used_at TIMESTAMP;
+    `);
+    console.log("✅ Added trial_used_at to users");
+  } catch (error) {
+    console.error("❌ Error adding promo codes and trials:", error);
+    throw error;
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exit(1);
+  });
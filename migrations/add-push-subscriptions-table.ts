@@ -0,0 +1,37 @@
+import { db } from "../server/db";
+
+/**
+ * This migration adds a push_subscriptions table for the browsers and devices
+ * users have enabled Web Push notifications on
+ */
+async function main() {
+  console.log("Creating push_subscriptions table...");
+  
+  try {
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS push_subscriptions (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        endpoint TEXT NOT NULL UNIQUE,
+        p256dh TEXT NOT NULL,
+        auth TEXT NOT NULL,
+        device_name TEXT,
+        user_agent TEXT,
+        last_used_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    
+    console.log("✅ Successfully created push_subscriptions table");
+  } catch (error) {
+    console.error("❌ Error creating push_subscriptions table:", error);
+    throw error;
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,35 @@
+import { db } from "../server/db";
+
+/**
+ * This migration records which billing provider (PayPal or Stripe) each
+ * subscription was paid through. Every paid subscription before it went
+ * through PayPal; trials have no provider.
+ */
+async function main() {
+  console.log("Adding provider column to subscriptions...");
+
+  try {
+    await db.execute(`
+      ALTER TABLE subscriptions
+      ADD COLUMN IF NOT EXISTS provider TEXT;
+    `);
+    console.log("✅ Added provider column");
+
+    await db.execute(`
+      UPDATE subscriptions
+      SET provider = 'paypal'
+      WHERE provider IS NULL AND status <> 'trial';
+    `);
+    console.log("✅ Marked existing paid subscriptions as PayPal");
+  } catch (error) {
+    console.error("❌ Error adding subscription provider column:", error);
+    throw error;
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,35 @@
+import { db } from "../server/db";
+
+/**
+ * This migration adds TOTP two-factor authentication: each user's secret,
+ * hashed recovery codes and the last accepted time step
+ */
+async function main() {
+  console.log("Adding two-factor authentication...");
+  
+  try {
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS user_two_factor (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+        secret TEXT NOT NULL,
+        enabled_at TIMESTAMP,
+        recovery_code_hashes JSONB NOT NULL DEFAULT '[]'::jsonb,
+        last_used_step INTEGER,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    console.log("✅ Created user_two_factor table");
+  } catch (error) {
+    console.error("❌ Error adding two-factor authentication:", error);
+    throw error;
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exit(1);
+  });
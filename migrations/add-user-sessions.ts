@@ -0,0 +1,38 @@
+import { db } from "../server/db";
+
+/**
+ * This migration adds the session registry: each signed-in session's user,
+ * device, IP address and when it was last seen
+ */
+async function main() {
+  console.log("Adding user sessions...");
+  
+  try {
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS user_sessions (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        session_id TEXT NOT NULL UNIQUE,
+        device TEXT,
+        user_agent TEXT,
+        ip_address TEXT,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        last_seen_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    console.log("✅ Created user_sessions table");
+    
+    await db.execute(`CREATE INDEX IF NOT EXISTS user_sessions_user_id_idx ON user_sessions (user_id);`);
+    console.log("✅ Created user_sessions user index");
+  } catch (error) {
+    console.error("❌ Error adding user sessions:", error);
+    throw error;
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exit(1);
+  });
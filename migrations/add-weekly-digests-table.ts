@@ -0,0 +1,47 @@
+import { db } from "../server/db";
+
+/**
+ * This migration adds a weekly_digests table that keeps every user's weekly
+ * digest as history, one row per user per week
+ */
+async function main() {
+  console.log("Creating weekly_digests table...");
+  
+  try {
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS weekly_digests (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        week_start DATE NOT NULL,
+        week_end DATE NOT NULL,
+        entry_count INTEGER NOT NULL DEFAULT 0,
+        average_mood DOUBLE PRECISION,
+        top_emotions JSONB NOT NULL DEFAULT '[]'::jsonb,
+        common_themes JSONB NOT NULL DEFAULT '[]'::jsonb,
+        insights TEXT NOT NULL,
+        habit_streaks JSONB NOT NULL DEFAULT '[]'::jsonb,
+        goal_progress JSONB NOT NULL DEFAULT '[]'::jsonb,
+        notification_id INTEGER,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    
+    // One digest per user per week
+    await db.execute(`
+      CREATE UNIQUE INDEX IF NOT EXISTS weekly_digests_user_id_week_start_idx
+        ON weekly_digests (user_id, week_start);
+    `);
+    
+    console.log("✅ Successfully created weekly_digests table");
+  } catch (error) {
+    console.error("❌ Error creating weekly_digests table:", error);
+    throw error;
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,57 @@
+import { db } from "../server/db";
+
+/**
+ * This migration keeps payments and invoices when an account is deleted: their
+ * user_id becomes nullable and is set to null with the user, and their
+ * subscription_id is set to null with the subscription, instead of the rows
+ * being deleted or blocking the delete.
+ */
+
+// Replace whatever foreign key a column has (its name depends on how the table was created)
+async function replaceForeignKey(table: string, column: string, references: string, onDelete: string) {
+  await db.execute(`
+    DO $$
+    DECLARE constraint_name TEXT;
+    BEGIN
+      FOR constraint_name IN
+        SELECT tc.constraint_name
+        FROM information_schema.table_constraints tc
+        JOIN information_schema.key_column_usage kcu
+          ON kcu.constraint_name = tc.constraint_name AND kcu.table_name = tc.table_name
+        WHERE tc.table_name = '${table}' AND tc.constraint_type = 'FOREIGN KEY' AND kcu.column_name = '${column}'
+      LOOP
+        EXECUTE format('ALTER TABLE ${table} DROP CONSTRAINT %I', constraint_name);
+      END LOOP;
+    END $$;
+  `);
+  await db.execute(`
+    ALTER TABLE ${table}
+      ADD CONSTRAINT ${table}_${column}_fkey
+      FOREIGN KEY (${column}) REFERENCES ${references} ON DELETE ${onDelete};
+  `);
+}
+
+async function main() {
+  console.log("Keeping payments and invoices of deleted accounts...");
+
+  try {
+    await db.execute(`ALTER TABLE payments ALTER COLUMN user_id DROP NOT NULL;`);
+    await db.execute(`ALTER TABLE invoices ALTER COLUMN user_id DROP NOT NULL;`);
+    console.log("✅ Made payments.user_id and invoices.user_id nullable");
+
+    await replaceForeignKey("payments", "user_id", "users(id)", "SET NULL");
+    await replaceForeignKey("payments", "subscription_id", "subscriptions(id)", "SET NULL");
+    await replaceForeignKey("invoices", "user_id", "users(id)", "SET NULL");
+    console.log("✅ Updated payments and invoices foreign keys");
+  } catch (error) {
+    console.error("❌ Error updating payments and invoices:", error);
+    throw error;
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,628 @@
+import JSZip from "jszip";
+import PDFDocument from "pdfkit";
+import { z } from "zod";
+import { db } from "./db";
+import { storage } from "./storage";
+import {
+  dataExports,
+  notifications,
+  weeklyDigests,
+  DataExport,
+  JournalEntry,
+  Habit,
+} from "@shared/schema";
+import { and, desc, eq, inArray, isNotNull, lt, sql } from "drizzle-orm";
+import { enqueueJob, registerJobHandler, scheduleRecurringJob } from "./job-queue";
+import { publishToUser } from "./realtime";
+import { parseDbTimestamp, resolveTimeZone, getLocalDateString } from "./schedule-utils";
+
+/**
+ * Account Export
+ *
+ * Users with exportAccess on their plan can download everything they have
+ * written and tracked: journal entries with their chat transcripts, moods,
+ * goals, tasks, habits with their completion history, notifications, the AI
+ * summary and weekly digests.
+ *
+ * An export is requested, then built by the 'account-export' job into a zip
+ * holding the formats the user picked:
+ *   json/      one file per data type, plus account.json with everything
+ *   csv/       one file per data type, for spreadsheets
+ *   markdown/  one file per journal entry, with its details as front matter
+ *   pdf/       the journal as a printable book
+ *
+ * The archive is kept in data_exports for EXPORT_RETENTION_DAYS, and the user
+ * gets an in-app notification when it is ready. Expired archives are cleared
+ * by the hourly 'account-export-cleanup' job.
+ */
+
+export const EXPORT_FORMATS = ["json", "csv", "markdown", "pdf"] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+const EXPORT_RETENTION_DAYS = 7;
+const EXPORT_MAX_ATTEMPTS = 3;
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+export const requestAccountExportSchema = z.object({
+  formats: z.array(z.enum(EXPORT_FORMATS)).min(1).default([...EXPORT_FORMATS]),
+});
+
+/**
+ * An export can't be started or downloaded, e.g. one is already being built
+ */
+export class AccountExportError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "AccountExportError";
+  }
+}
+
+// An export's details without the archive itself
+export type DataExportSummary = Omit<DataExport, "archive">;
+
+const summaryColumns = {
+  id: dataExports.id,
+  userId: dataExports.userId,
+  status: dataExports.status,
+  formats: dataExports.formats,
+  itemCounts: dataExports.itemCounts,
+  fileName: dataExports.fileName,
+  sizeBytes: dataExports.sizeBytes,
+  error: dataExports.error,
+  jobId: dataExports.jobId,
+  completedAt: dataExports.completedAt,
+  expiresAt: dataExports.expiresAt,
+  createdAt: dataExports.createdAt,
+};
+
+/**
+ * Everything exported for a user, keyed by data type
+ */
+export interface AccountData {
+  exportedAt: string;
+  user: { id: number; name: string; email: string; timeZone: string };
+  journalEntries: JournalEntry[];
+  moods: Awaited<ReturnType<typeof storage.getMoodsByUserId>>;
+  goals: Awaited<ReturnType<typeof storage.getGoalsByUserId>>;
+  tasks: Awaited<ReturnType<typeof storage.getTasksByUserId>>;
+  habits: Habit[];
+  habitCompletions: { habitId: number; habit: string; date: string; completed: boolean }[];
+  notifications: (typeof notifications.$inferSelect)[];
+  summaries: NonNullable<Awaited<ReturnType<typeof storage.getSummaryByUserId>>>[];
+  weeklyDigests: (typeof weeklyDigests.$inferSelect)[];
+}
+
+type DataType = Exclude<keyof AccountData, "exportedAt" | "user">;
+
+const DATA_TYPES: DataType[] = [
+  "journalEntries",
+  "moods",
+  "goals",
+  "tasks",
+  "habits",
+  "habitCompletions",
+  "notifications",
+  "summaries",
+  "weeklyDigests",
+];
+
+// File names for each data type, e.g. csv/journal-entries.csv
+const FILE_NAMES: Record<DataType, string> = {
+  journalEntries: "journal-entries",
+  moods: "moods",
+  goals: "goals",
+  tasks: "tasks",
+  habits: "habits",
+  habitCompletions: "habit-completions",
+  notifications: "notifications",
+  summaries: "summaries",
+  weeklyDigests: "weekly-digests",
+};
+
+/**
+ * Gather everything to export for a user. Deleted journal entries, goals,
+ * tasks and habits are left out.
+ */
+export async function collectAccountData(userId: number): Promise<AccountData> {
+  const user = await storage.getUser(userId);
+  if (!user) {
+    throw new AccountExportError("User not found", 404);
+  }
+
+  const [preferences, entries, moods, goals, tasks, habits, notificationRows, summary, digests] = await Promise.all([
+    storage.getNotificationPreferencesByUserId(userId),
+    storage.getJournalEntriesByUserId(userId),
+    storage.getMoodsByUserId(userId),
+    storage.getGoalsByUserId(userId),
+    storage.getTasksByUserId(userId),
+    storage.getHabitsByUserId(userId),
+    db.select().from(notifications).where(eq(notifications.userId, userId)).orderBy(desc(notifications.createdAt)),
+    storage.getSummaryByUserId(userId),
+    db.select().from(weeklyDigests).where(eq(weeklyDigests.userId, userId)).orderBy(desc(weeklyDigests.weekStart)),
+  ]);
+
+  const habitCompletions = habits.flatMap(habit =>
+    Object.entries(habit.completionHistory ?? {})
+      .map(([date, completed]) => ({ habitId: habit.id, habit: habit.title, date, completed }))
+  ).sort((a, b) => a.date.localeCompare(b.date) || a.habitId - b.habitId);
+
+  return {
+    exportedAt: new Date().toISOString(),
+    user: {
+      id: user.id,
+      name: user.displayName || user.name,
+      email: user.email,
+      timeZone: resolveTimeZone(preferences?.timezone),
+    },
+    journalEntries: entries,
+    moods,
+    goals,
+    tasks,
+    habits,
+    habitCompletions,
+    notifications: notificationRows,
+    summaries: summary ? [summary] : [],
+    weeklyDigests: digests,
+  };
+}
+
+// ------------------------
+// CSV
+// ------------------------
+
+type CsvColumn<T> = [header: string, value: (row: T) => unknown];
+
+const CSV_COLUMNS: { [K in DataType]: CsvColumn<AccountData[K][number]>[] } = {
+  journalEntries: [
+    ["id", e => e.id],
+    ["date", e => e.date],
+    ["title", e => e.title],
+    ["type", e => e.isAiResponse ? "ai" : "user"],
+    ["content", e => e.content],
+    ["transcript", e => e.transcript],
+    ["sentiment_score", e => e.sentiment?.score],
+    ["emotions", e => e.sentiment?.emotions],
+    ["themes", e => e.sentiment?.themes],
+  ],
+  moods: [
+    ["id", m => m.id],
+    ["date", m => m.date],
+    ["rating", m => m.rating],
+  ],
+  goals: [
+    ["id", g => g.id],
+    ["name", g => g.name],
+    ["description", g => g.description],
+    ["category", g => g.category],
+    ["status", g => g.status],
+    ["progress", g => g.progress],
+    ["target", g => g.target],
+    ["unit", g => g.unit],
+    ["start_date", g => g.startDate],
+    ["target_date", g => g.targetDate],
+    ["source", g => g.source],
+    ["created_at", g => g.createdAt],
+  ],
+  tasks: [
+    ["id", t => t.id],
+    ["title", t => t.title],
+    ["description", t => t.description],
+    ["status", t => t.status],
+    ["priority", t => t.priority],
+    ["completed", t => t.completed],
+    ["due_date", t => t.dueDate],
+    ["completed_at", t => t.completedAt],
+    ["goal_id", t => t.goalId],
+    ["source", t => t.source],
+    ["created_at", t => t.createdAt],
+  ],
+  habits: [
+    ["id", h => h.id],
+    ["title", h => h.title],
+    ["description", h => h.description],
+    ["frequency", h => h.frequency],
+    ["status", h => h.status],
+    ["streak", h => h.streak],
+    ["last_completed_at", h => h.lastCompletedAt],
+    ["source", h => h.source],
+    ["created_at", h => h.createdAt],
+  ],
+  habitCompletions: [
+    ["habit_id", c => c.habitId],
+    ["habit", c => c.habit],
+    ["date", c => c.date],
+    ["completed", c => c.completed],
+  ],
+  notifications: [
+    ["id", n => n.id],
+    ["title", n => n.title],
+    ["message", n => n.message],
+    ["type", n => n.type],
+    ["status", n => n.status],
+    ["scheduled_for", n => n.scheduledFor],
+    ["recurring_pattern", n => n.recurringPattern],
+    ["created_at", n => n.createdAt],
+  ],
+  summaries: [
+    ["top_emotions", s => s.topEmotions],
+    ["common_themes", s => s.commonThemes],
+    ["insights", s => s.insights],
+    ["updated_at", s => s.updatedAt],
+  ],
+  weeklyDigests: [
+    ["week_start", d => d.weekStart],
+    ["week_end", d => d.weekEnd],
+    ["entry_count", d => d.entryCount],
+    ["average_mood", d => d.averageMood],
+    ["top_emotions", d => d.topEmotions],
+    ["common_themes", d => d.commonThemes],
+    ["insights", d => d.insights],
+  ],
+};
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  let text = Array.isArray(value) ? value.join("; ") : typeof value === "object" ? JSON.stringify(value) : String(value);
+  // Keep spreadsheets from running cells that look like formulas
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv<T>(columns: CsvColumn<T>[], rows: T[]): string {
+  const lines = [columns.map(([header]) => header).join(",")];
+  for (const row of rows) {
+    lines.push(columns.map(([, value]) => csvCell(value(row))).join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+// ------------------------
+// Markdown
+// ------------------------
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 50);
+}
+
+/**
+ * A journal entry as Markdown. Details go in YAML front matter, written as
+ * JSON values so any title or emotion is quoted safely.
+ */
+export function renderEntryMarkdown(entry: JournalEntry): string {
+  const frontMatter: Record<string, unknown> = {
+    id: entry.id,
+    date: parseDbTimestamp(entry.date).toISOString(),
+    title: entry.title,
+    type: entry.isAiResponse ? "ai" : "user",
+  };
+  if (entry.sentiment) {
+    frontMatter.sentiment = entry.sentiment.score;
+    frontMatter.emotions = entry.sentiment.emotions;
+    frontMatter.themes = entry.sentiment.themes;
+  }
+
+  const lines = ["---"];
+  for (const [key, value] of Object.entries(frontMatter)) {
+    if (value !== null && value !== undefined) lines.push(`${key}: ${JSON.stringify(value)}`);
+  }
+  lines.push("---", "", `# ${entry.title || "Untitled Entry"}`, "", entry.content.trim(), "");
+
+  if (entry.transcript) {
+    lines.push("## Conversation", "", entry.transcript.trim(), "");
+  }
+  return lines.join("\n");
+}
+
+function entryFileName(entry: JournalEntry, timeZone: string): string {
+  const day = getLocalDateString(parseDbTimestamp(entry.date), timeZone);
+  const slug = slugify(entry.title || "");
+  return `${day}-${entry.id}${slug ? `-${slug}` : ""}.md`;
+}
+
+// ------------------------
+// PDF
+// ------------------------
+
+/**
+ * The journal as a printable A4 book, oldest entry first. Uses the built-in
+ * PDF fonts, so characters outside Latin-1 may not print.
+ */
+export function renderJournalPdf(data: AccountData): Promise<Buffer> {
+  const { timeZone } = data.user;
+  const entries = [...data.journalEntries].sort((a, b) =>
+    parseDbTimestamp(a.date).getTime() - parseDbTimestamp(b.date).getTime()
+  );
+  const formatDay = (value: string) => parseDbTimestamp(value).toLocaleDateString("en-US", {
+    timeZone,
+    weekday: "long",
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: "A4",
+      margin: 60,
+      info: { Title: `${data.user.name}'s Journal`, Author: data.user.name },
+    });
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+    const muted = "#78716c";
+
+    // Title page
+    doc.font("Helvetica-Bold").fontSize(28).fillColor("#1c1917")
+      .text(`${data.user.name}'s Journal`, doc.page.margins.left, 250, { width, align: "center" });
+    doc.moveDown();
+    doc.font("Helvetica").fontSize(12).fillColor(muted);
+    if (entries.length > 0) {
+      doc.text(`${formatDay(entries[0].date)} – ${formatDay(entries[entries.length - 1].date)}`, { width, align: "center" });
+    }
+    doc.text(`${entries.length} ${entries.length === 1 ? "entry" : "entries"}`, { width, align: "center" });
+    doc.text(`Exported from Hope Log on ${formatDay(data.exportedAt)}`, { width, align: "center" });
+
+    // One entry after another, each starting on a new page
+    for (const entry of entries) {
+      doc.addPage();
+      doc.font("Helvetica").fontSize(10).fillColor(muted)
+        .text(formatDay(entry.date).toUpperCase() + (entry.isAiResponse ? "  ·  AI RESPONSE" : ""), { width });
+      doc.moveDown(0.5);
+      doc.font("Helvetica-Bold").fontSize(18).fillColor("#1c1917")
+        .text(entry.title || "Untitled Entry", { width });
+      doc.moveDown(0.75);
+      doc.font("Times-Roman").fontSize(12).fillColor("#1c1917")
+        .text(entry.content.trim(), { width, lineGap: 4 });
+
+      if (entry.sentiment && (entry.sentiment.emotions.length > 0 || entry.sentiment.themes.length > 0)) {
+        doc.moveDown();
+        doc.font("Helvetica").fontSize(9).fillColor(muted)
+          .text([...entry.sentiment.emotions, ...entry.sentiment.themes].join("  ·  "), { width });
+      }
+    }
+
+    doc.end();
+  });
+}
+
+// ------------------------
+// Archive
+// ------------------------
+
+function archiveReadme(data: AccountData, formats: ExportFormat[]): string {
+  const lines = [
+    "Hope Log data export",
+    `Exported ${data.exportedAt} for ${data.user.name} <${data.user.email}>`,
+    "",
+  ];
+  if (formats.includes("json")) lines.push("json/      One file per data type, and account.json with everything");
+  if (formats.includes("csv")) lines.push("csv/       One file per data type, for spreadsheets");
+  if (formats.includes("markdown")) lines.push("markdown/  One file per journal entry, named by date");
+  if (formats.includes("pdf")) lines.push("pdf/       Your journal, ready to print");
+  lines.push("", "Dates are in UTC unless a file name says otherwise; file names use your time zone", `(${data.user.timeZone}).`);
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Build the zip for an export
+ * @returns The zip and the number of rows exported per data type
+ */
+export async function buildExportArchive(
+  data: AccountData,
+  formats: ExportFormat[]
+): Promise<{ archive: Buffer; fileName: string; itemCounts: Record<string, number> }> {
+  const day = getLocalDateString(new Date(data.exportedAt), data.user.timeZone);
+  const name = `hope-log-export-${day}`;
+  const zip = new JSZip();
+  const root = zip.folder(name)!;
+
+  root.file("README.txt", archiveReadme(data, formats));
+
+  if (formats.includes("json")) {
+    root.file("json/account.json", JSON.stringify(data, null, 2));
+    for (const type of DATA_TYPES) {
+      root.file(`json/${FILE_NAMES[type]}.json`, JSON.stringify(data[type], null, 2));
+    }
+  }
+
+  if (formats.includes("csv")) {
+    for (const type of DATA_TYPES) {
+      const columns = CSV_COLUMNS[type] as CsvColumn<unknown>[];
+      root.file(`csv/${FILE_NAMES[type]}.csv`, toCsv(columns, data[type] as unknown[]));
+    }
+  }
+
+  if (formats.includes("markdown")) {
+    for (const entry of data.journalEntries) {
+      root.file(`markdown/${entryFileName(entry, data.user.timeZone)}`, renderEntryMarkdown(entry));
+    }
+  }
+
+  if (formats.includes("pdf")) {
+    root.file("pdf/journal.pdf", await renderJournalPdf(data));
+  }
+
+  const archive = await zip.generateAsync({
+    type: "nodebuffer",
+    compression: "DEFLATE",
+    compressionOptions: { level: 6 },
+  });
+
+  const itemCounts = Object.fromEntries(DATA_TYPES.map(type => [type, data[type].length]));
+  return { archive, fileName: `${name}.zip`, itemCounts };
+}
+
+// ------------------------
+// Requests and the export job
+// ------------------------
+
+/**
+ * Queue an export of the user's account
+ * @throws AccountExportError if one is already being prepared
+ */
+export async function requestAccountExport(userId: number, formats: ExportFormat[]): Promise<DataExportSummary> {
+  const [inProgress] = await db
+    .select({ id: dataExports.id })
+    .from(dataExports)
+    .where(and(eq(dataExports.userId, userId), inArray(dataExports.status, ["pending", "running"])))
+    .limit(1);
+  if (inProgress) {
+    throw new AccountExportError("An export is already being prepared. You'll be notified when it's ready.", 409);
+  }
+
+  const [created] = await db
+    .insert(dataExports)
+    .values({ userId, formats: Array.from(new Set(formats)) })
+    .returning(summaryColumns);
+
+  const job = await enqueueJob("account-export", { exportId: created.id }, { maxAttempts: EXPORT_MAX_ATTEMPTS });
+  const [exportRow] = await db
+    .update(dataExports)
+    .set({ jobId: job.id })
+    .where(eq(dataExports.id, created.id))
+    .returning(summaryColumns);
+
+  return exportRow;
+}
+
+/**
+ * A user's exports, newest first
+ */
+export async function listAccountExports(userId: number, limit: number = 10): Promise<DataExportSummary[]> {
+  return await db
+    .select(summaryColumns)
+    .from(dataExports)
+    .where(eq(dataExports.userId, userId))
+    .orderBy(desc(dataExports.createdAt))
+    .limit(limit);
+}
+
+export async function getAccountExport(userId: number, exportId: number): Promise<DataExportSummary | undefined> {
+  const [exportRow] = await db
+    .select(summaryColumns)
+    .from(dataExports)
+    .where(and(eq(dataExports.id, exportId), eq(dataExports.userId, userId)));
+  return exportRow;
+}
+
+/**
+ * The finished archive for download
+ * @throws AccountExportError if the export isn't ready or has expired
+ */
+export async function getAccountExportArchive(userId: number, exportId: number): Promise<{ archive: Buffer; fileName: string }> {
+  const [exportRow] = await db
+    .select()
+    .from(dataExports)
+    .where(and(eq(dataExports.id, exportId), eq(dataExports.userId, userId)));
+
+  if (!exportRow) {
+    throw new AccountExportError("Export not found", 404);
+  }
+  if (exportRow.status === "expired" || (exportRow.expiresAt && parseDbTimestamp(exportRow.expiresAt) <= new Date())) {
+    throw new AccountExportError("This export has expired. Please start a new one.", 410);
+  }
+  if (exportRow.status !== "completed" || !exportRow.archive) {
+    throw new AccountExportError("This export isn't ready yet", 409);
+  }
+
+  return { archive: exportRow.archive, fileName: exportRow.fileName ?? `hope-log-export-${exportRow.id}.zip` };
+}
+
+async function notifyExportFinished(exportRow: DataExportSummary): Promise<void> {
+  const ready = exportRow.status === "completed";
+  const notification = await storage.createNotification({
+    userId: exportRow.userId,
+    title: ready ? "Your data export is ready" : "Your data export failed",
+    message: ready
+      ? `Download it from Settings → Data & Export within ${EXPORT_RETENTION_DAYS} days.`
+      : "We couldn't prepare your data export. Please try again from Settings → Data & Export.",
+    type: "system",
+    status: "unread",
+    metadata: { dataExportId: exportRow.id },
+  });
+  publishToUser(exportRow.userId, { type: "notification-created", notification });
+}
+
+/**
+ * Build a queued export and announce it. A failure puts the export back to
+ * pending for the job's retry, or marks it failed on the last attempt.
+ */
+export async function runAccountExport(exportId: number, lastAttempt: boolean): Promise<void> {
+  const [exportRow] = await db
+    .update(dataExports)
+    .set({ status: "running", error: null })
+    .where(and(eq(dataExports.id, exportId), inArray(dataExports.status, ["pending", "running"])))
+    .returning(summaryColumns);
+  if (!exportRow) return;
+
+  try {
+    const data = await collectAccountData(exportRow.userId);
+    const { archive, fileName, itemCounts } = await buildExportArchive(data, exportRow.formats as ExportFormat[]);
+
+    const completedAt = new Date();
+    const [completed] = await db
+      .update(dataExports)
+      .set({
+        status: "completed",
+        archive,
+        fileName,
+        itemCounts,
+        sizeBytes: archive.length,
+        completedAt: completedAt.toISOString(),
+        expiresAt: new Date(completedAt.getTime() + EXPORT_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+      })
+      .where(eq(dataExports.id, exportId))
+      .returning(summaryColumns);
+
+    await notifyExportFinished(completed);
+  } catch (error: any) {
+    const [failed] = await db
+      .update(dataExports)
+      .set({ status: lastAttempt ? "failed" : "pending", error: error?.message || String(error) })
+      .where(eq(dataExports.id, exportId))
+      .returning(summaryColumns);
+
+    if (lastAttempt) {
+      await notifyExportFinished(failed);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Clear the archives of expired exports
+ * @returns Number of exports expired
+ */
+export async function expireAccountExports(): Promise<number> {
+  const expired = await db
+    .update(dataExports)
+    .set({ status: "expired", archive: null })
+    .where(and(
+      eq(dataExports.status, "completed"),
+      isNotNull(dataExports.expiresAt),
+      lt(dataExports.expiresAt, sql`now()`)
+    ))
+    .returning({ id: dataExports.id });
+  return expired.length;
+}
+
+/**
+ * Register the export job handler and the hourly cleanup of expired archives
+ */
+export function registerAccountExportJobs(): void {
+  registerJobHandler("account-export", async (payload, job) => {
+    await runAccountExport(Number(payload.exportId), job.attempts >= job.maxAttempts);
+  });
+
+  registerJobHandler("account-export-cleanup", async () => {
+    const expired = await expireAccountExports();
+    if (expired > 0) {
+      console.log(`Expired ${expired} account exports`);
+    }
+  });
+
+  scheduleRecurringJob("account-export-cleanup", CLEANUP_INTERVAL_MS);
+}
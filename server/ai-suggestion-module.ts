@@ -2,6 +2,8 @@ import { db } from "./db";
 import { storage } from "./storage";
 import { JournalEntry } from "@shared/schema";
 import { generateCombinedSuggestions } from "./openai";
+import { TokenLimitExceededError } from "./token-usage";
+import { publishToUser } from "./realtime";
 
 /**
  * Unified AI Suggestion Module
@@ -11,6 +13,17 @@ import { generateCombinedSuggestions } from "./openai";
  * or chat is saved and only process entries that haven't been analyzed yet.
  */
 
+/**
+ * Thrown by processSingleEntry when the AI call fails, so the job that runs it can retry.
+ * The entry is left unanalyzed.
+ */
+export class SuggestionGenerationError extends Error {
+  constructor(readonly journalEntryId: number, readonly aiError: unknown) {
+    super(`Failed to generate suggestions for journal entry ${journalEntryId}: ${aiError instanceof Error ? aiError.message : String(aiError)}`);
+    this.name = "SuggestionGenerationError";
+  }
+}
+
 interface SuggestionResult {
   goalsCreated: number;
   tasksCreated: number;
@@ -83,14 +96,18 @@ export async function processSingleEntry(journalEntry: JournalEntry): Promise<Su
         [journalEntryFormatted], 
         existingGoals, 
         existingTasksFormatted,
-        existingHabitsFormatted
+        existingHabitsFormatted,
+        userId
       );
       console.log(`Successfully generated suggestions: ${suggestions.goals?.length || 0} goals, ${suggestions.tasks?.length || 0} tasks, ${suggestions.habits?.length || 0} habits`);
     } catch (aiError) {
+      // Leave the entry unanalyzed so it is picked up once the user's token budget resets
+      if (aiError instanceof TokenLimitExceededError) {
+        console.log(`Skipping suggestions for entry ${journalEntry.id}: ${aiError.message}`);
+        return emptyResult;
+      }
       console.error(`Error generating suggestions for entry ${journalEntry.id}:`, aiError);
-      // Mark as analyzed even if AI fails to prevent retrying
-      await storage.updateJournalEntry(journalEntry.id, { analyzed: true });
-      return emptyResult;
+      throw new SuggestionGenerationError(journalEntry.id, aiError);
     }
     
     let result: SuggestionResult = {
@@ -220,8 +237,18 @@ export async function processSingleEntry(journalEntry: JournalEntry): Promise<Su
       console.error(`Failed to mark entry ${journalEntry.id} as analyzed:`, updateError);
     }
     
+    // Let any open browser tabs refresh their suggestions
+    publishToUser(userId, {
+      type: "suggestion-ready",
+      journalEntryId: journalEntry.id,
+      goalsCreated: result.goalsCreated,
+      tasksCreated: result.tasksCreated,
+      habitsCreated: result.habitsCreated
+    });
+    
     return result;
   } catch (error: any) {
+    if (error instanceof SuggestionGenerationError) throw error;
     console.error(`Error processing journal entry ${journalEntry.id}:`, error);
     
     // Always try to mark as analyzed even if there was an error
@@ -0,0 +1,323 @@
+import { Request, Response, NextFunction } from "express";
+import { db } from "./db";
+import { storage } from "./storage";
+import { queueUserEmail } from "./email";
+import { publishToUser } from "./realtime";
+import { registerJobHandler, scheduleRecurringJob } from "./job-queue";
+import { authThrottles, users, AuthThrottle } from "@shared/schema";
+import { and, desc, eq, gt, lt, or, sql } from "drizzle-orm";
+
+/**
+ * Auth Throttling
+ *
+ * Rate limits sign-in, registration and password resets. Failed attempts are
+ * counted per IP address and per account within a window; past a few free
+ * attempts each further one has to wait twice as long as the last, and an
+ * account with too many failed sign-ins is locked for a while and its owner
+ * notified. Admins can see and clear blocks.
+ */
+
+export type AuthAction = "login" | "register" | "forgot-password" | "reset-password";
+
+type ThrottleScope = "ip" | "account";
+
+interface ThrottlePolicy {
+  freeAttempts: number; // Failures allowed before backoff starts
+  windowMs: number; // Failures older than this are forgotten
+  lockoutAfter?: number; // Failures that lock the account
+  countEveryAttempt?: boolean; // Count successful requests too, not only failures
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 15 * 60 * 1000;
+const LOCKOUT_MS = 15 * 60 * 1000;
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+const POLICIES: Record<AuthAction, Partial<Record<ThrottleScope, ThrottlePolicy>>> = {
+  "login": {
+    ip: { freeAttempts: 20, windowMs: HOUR_MS },
+    account: { freeAttempts: 3, windowMs: HOUR_MS, lockoutAfter: 10 },
+  },
+  // Each registration and reset email is limited whether or not it succeeds
+  "register": {
+    ip: { freeAttempts: 5, windowMs: HOUR_MS, countEveryAttempt: true },
+  },
+  "forgot-password": {
+    ip: { freeAttempts: 5, windowMs: HOUR_MS, countEveryAttempt: true },
+    account: { freeAttempts: 3, windowMs: HOUR_MS, countEveryAttempt: true },
+  },
+  "reset-password": {
+    ip: { freeAttempts: 5, windowMs: HOUR_MS },
+  },
+};
+
+// The account an attempt was for: the email or username that was typed, or a known user
+export type AccountRef = { login: string } | { userId: number };
+
+interface ThrottleKey {
+  scope: ThrottleScope;
+  identifier: string;
+  userId: number | null;
+  policy: ThrottlePolicy;
+}
+
+function clientIp(req: Request): string {
+  return req.ip || req.socket.remoteAddress || "unknown";
+}
+
+/**
+ * Accounts are keyed by user ID when the login matches one, so email and
+ * username attempts count together; unknown logins are throttled as typed.
+ */
+async function resolveAccount(account: AccountRef): Promise<{ identifier: string; userId: number | null }> {
+  if ("userId" in account) {
+    return { identifier: `user:${account.userId}`, userId: account.userId };
+  }
+
+  const login = account.login.trim().toLowerCase();
+  const user = await storage.getUserByEmail(login) || await storage.getUserByUsername(login);
+  return user
+    ? { identifier: `user:${user.id}`, userId: user.id }
+    : { identifier: `login:${login}`, userId: null };
+}
+
+async function throttleKeys(req: Request, action: AuthAction, account?: AccountRef): Promise<ThrottleKey[]> {
+  const policies = POLICIES[action];
+  const keys: ThrottleKey[] = [];
+
+  if (policies.ip) {
+    keys.push({ scope: "ip", identifier: clientIp(req), userId: null, policy: policies.ip });
+  }
+  if (policies.account && account) {
+    const { identifier, userId } = await resolveAccount(account);
+    keys.push({ scope: "account", identifier, userId, policy: policies.account });
+  }
+  return keys;
+}
+
+function backoffMs(failures: number, policy: ThrottlePolicy): number {
+  if (failures <= policy.freeAttempts) return 0;
+  return Math.min(BASE_DELAY_MS * 2 ** (failures - policy.freeAttempts - 1), MAX_DELAY_MS);
+}
+
+/**
+ * How long the attempt has to wait, or null if it may go ahead
+ */
+export async function checkAuthThrottle(req: Request, action: AuthAction, account?: AccountRef) {
+  const keys = await throttleKeys(req, action, account);
+  if (keys.length === 0) return null;
+
+  const now = new Date().toISOString();
+  const blocks = await db.select()
+    .from(authThrottles)
+    .where(and(
+      eq(authThrottles.action, action),
+      gt(authThrottles.blockedUntil, now),
+      or(...keys.map(key => and(eq(authThrottles.scope, key.scope), eq(authThrottles.identifier, key.identifier))))
+    ));
+  if (blocks.length === 0) return null;
+
+  const blockedUntil = Math.max(...blocks.map(block => new Date(block.blockedUntil!).getTime()));
+  return {
+    retryAfterSeconds: Math.max(1, Math.ceil((blockedUntil - Date.now()) / 1000)),
+    lockedOut: blocks.some(block => block.scope === "account" && !!block.lockedOutAt),
+  };
+}
+
+async function notifyLockout(record: AuthThrottle): Promise<void> {
+  if (!record.userId) return;
+
+  const lockedMinutes = Math.round(LOCKOUT_MS / 60000);
+  const notification = await storage.createNotification({
+    userId: record.userId,
+    title: "Your account was temporarily locked",
+    message: `After ${record.failures} failed sign-in attempts, your account is locked for ${lockedMinutes} minutes. If this wasn't you, reset your password.`,
+    type: "system",
+    status: "unread",
+    metadata: { authThrottleId: record.id, ipAddress: record.lastIpAddress },
+  });
+  publishToUser(record.userId, { type: "notification-created", notification });
+
+  await queueUserEmail(record.userId, "account-lockout", {
+    failures: record.failures,
+    lockedMinutes,
+    ipAddress: record.lastIpAddress,
+  });
+}
+
+/**
+ * Count a failed attempt (or any attempt, for actions that count every one),
+ * slowing down or locking out further attempts once there have been too many
+ */
+export async function recordAuthFailure(req: Request, action: AuthAction, account?: AccountRef): Promise<void> {
+  const keys = await throttleKeys(req, action, account);
+  const ipAddress = clientIp(req);
+
+  for (const key of keys) {
+    const now = new Date();
+    const windowStart = new Date(now.getTime() - key.policy.windowMs).toISOString();
+
+    // Start a new window if the last one has passed; done in SQL so concurrent failures all count
+    const [record] = await db.insert(authThrottles)
+      .values({
+        scope: key.scope,
+        action,
+        identifier: key.identifier,
+        userId: key.userId,
+        failures: 1,
+        firstFailureAt: now.toISOString(),
+        lastFailureAt: now.toISOString(),
+        lastIpAddress: ipAddress,
+      })
+      .onConflictDoUpdate({
+        target: [authThrottles.scope, authThrottles.action, authThrottles.identifier],
+        set: {
+          failures: sql`CASE WHEN ${authThrottles.firstFailureAt} < ${windowStart} THEN 1 ELSE ${authThrottles.failures} + 1 END`,
+          firstFailureAt: sql`CASE WHEN ${authThrottles.firstFailureAt} < ${windowStart} THEN ${now.toISOString()}::timestamp ELSE ${authThrottles.firstFailureAt} END`,
+          lockedOutAt: sql`CASE WHEN ${authThrottles.firstFailureAt} < ${windowStart} THEN NULL ELSE ${authThrottles.lockedOutAt} END`,
+          lastFailureAt: now.toISOString(),
+          lastIpAddress: ipAddress,
+        },
+      })
+      .returning();
+
+    const lockout = !!key.policy.lockoutAfter && record.failures >= key.policy.lockoutAfter;
+    const delayMs = lockout ? LOCKOUT_MS : backoffMs(record.failures, key.policy);
+    if (delayMs === 0) continue;
+
+    const newLockout = lockout && !record.lockedOutAt;
+    const [updated] = await db.update(authThrottles)
+      .set({
+        blockedUntil: new Date(now.getTime() + delayMs).toISOString(),
+        ...(newLockout ? { lockedOutAt: now.toISOString() } : {}),
+      })
+      .where(eq(authThrottles.id, record.id))
+      .returning();
+
+    if (newLockout) {
+      console.log(`[Auth] Locked ${key.identifier} after ${record.failures} failed ${action} attempts`);
+      notifyLockout(updated).catch(error => console.error("Error sending lockout notice:", error));
+    }
+  }
+}
+
+/**
+ * Forget an account's failures after a successful attempt
+ */
+export async function clearAuthFailures(action: AuthAction, account: AccountRef): Promise<void> {
+  const { identifier } = await resolveAccount(account);
+  await db.delete(authThrottles).where(and(
+    eq(authThrottles.scope, "account"),
+    eq(authThrottles.action, action),
+    eq(authThrottles.identifier, identifier)
+  ));
+}
+
+/**
+ * Middleware that refuses an attempt with 429 while its IP address or account
+ * is blocked. Actions that count every attempt are counted here; otherwise the
+ * route calls recordAuthFailure when the attempt fails.
+ * @param getAccount Which account the request is for, if the action has one
+ */
+export function throttleAuth(
+  action: AuthAction,
+  getAccount?: (req: Request) => AccountRef | undefined
+) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const account = getAccount?.(req);
+      const block = await checkAuthThrottle(req, action, account);
+      if (!block) {
+        if (Object.values(POLICIES[action]).some(policy => policy?.countEveryAttempt)) {
+          await recordAuthFailure(req, action, account);
+        }
+        return next();
+      }
+
+      const minutes = Math.ceil(block.retryAfterSeconds / 60);
+      const wait = block.retryAfterSeconds < 60
+        ? `${block.retryAfterSeconds} seconds`
+        : `${minutes} ${minutes === 1 ? "minute" : "minutes"}`;
+
+      res.set("Retry-After", String(block.retryAfterSeconds));
+      return res.status(429).json({
+        message: block.lockedOut
+          ? `Too many failed sign-in attempts. This account is locked; try again in ${wait}.`
+          : `Too many attempts. Please try again in ${wait}.`,
+        code: "RATE_LIMITED",
+        retryAfter: block.retryAfterSeconds,
+      });
+    } catch (error) {
+      // Never let the throttle itself keep people out
+      console.error("Error checking auth throttle:", error);
+      return next();
+    }
+  };
+}
+
+/**
+ * Accounts and IP addresses that are blocked now, newest first
+ */
+export async function listActiveBlocks() {
+  return await db.select({
+    id: authThrottles.id,
+    scope: authThrottles.scope,
+    action: authThrottles.action,
+    identifier: authThrottles.identifier,
+    userId: authThrottles.userId,
+    userEmail: users.email,
+    username: users.username,
+    failures: authThrottles.failures,
+    lastFailureAt: authThrottles.lastFailureAt,
+    lastIpAddress: authThrottles.lastIpAddress,
+    blockedUntil: authThrottles.blockedUntil,
+    lockedOutAt: authThrottles.lockedOutAt,
+  })
+    .from(authThrottles)
+    .leftJoin(users, eq(authThrottles.userId, users.id))
+    .where(gt(authThrottles.blockedUntil, new Date().toISOString()))
+    .orderBy(desc(authThrottles.lastFailureAt));
+}
+
+/**
+ * Lift a block and forget its failures
+ * @returns Whether there was one to clear
+ */
+export async function clearBlock(id: number): Promise<boolean> {
+  const deleted = await db.delete(authThrottles)
+    .where(eq(authThrottles.id, id))
+    .returning({ id: authThrottles.id });
+  return deleted.length > 0;
+}
+
+/**
+ * Delete records whose window and block have both passed
+ */
+export async function pruneAuthThrottles(): Promise<number> {
+  const longestWindow = Math.max(...Object.values(POLICIES).flatMap(policies =>
+    Object.values(policies).map(policy => policy!.windowMs)
+  ));
+  const now = new Date();
+  const deleted = await db.delete(authThrottles)
+    .where(and(
+      lt(authThrottles.lastFailureAt, new Date(now.getTime() - longestWindow).toISOString()),
+      or(sql`${authThrottles.blockedUntil} IS NULL`, lt(authThrottles.blockedUntil, now.toISOString()))
+    ))
+    .returning({ id: authThrottles.id });
+  return deleted.length;
+}
+
+/**
+ * Register the cleanup job handler and its hourly schedule
+ */
+export function registerAuthThrottleJobs(): void {
+  registerJobHandler("auth-throttle-cleanup", async () => {
+    const deleted = await pruneAuthThrottles();
+    if (deleted > 0) {
+      console.log(`[Auth] Cleared ${deleted} expired throttle records`);
+    }
+  });
+
+  scheduleRecurringJob("auth-throttle-cleanup", CLEANUP_INTERVAL_MS);
+}
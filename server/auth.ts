@@ -10,6 +10,17 @@ import { storage } from "./storage";
 import { User as SelectUser, users as usersTable } from "@shared/schema";
 import { db } from "./db";
 import { eq, and, gt } from "drizzle-orm";
+import { trackSession, forgetSession } from "./session-registry";
+import { throttleAuth, recordAuthFailure, clearAuthFailures } from "./auth-throttle";
+import { queueUserEmail } from "./email";
+import {
+  isTwoFactorEnabled,
+  verifySecondFactor,
+  markChallengePassed,
+  secondFactorSchema,
+  PENDING_LOGIN_TTL_MS,
+  PENDING_LOGIN_MAX_ATTEMPTS,
+} from "./two-factor";
 
 // Extend express-session with additional properties
 declare module "express-session" {
@@ -18,6 +29,14 @@ declare module "express-session" {
       user?: number;
     };
     lastLogin?: string;
+    // A sign-in that passed the password or OAuth step and is waiting for a 2FA code
+    pendingTwoFactor?: {
+      userId: number;
+      expiresAt: number;
+      attempts: number;
+    };
+    // When the user last entered a 2FA code, for sensitive actions
+    twoFactorVerifiedAt?: number;
   }
 }
 
@@ -145,6 +164,7 @@ export async function setupAuth(app: Express) {
   app.use(session(sessionSettings));
   app.use(passport.initialize());
   app.use(passport.session());
+  app.use(trackSession);
   
   // Add session monitoring middleware
   app.use((req, res, next) => {
@@ -371,7 +391,32 @@ export async function setupAuth(app: Express) {
     }
   });
 
-  app.post("/api/register", async (req, res, next) => {
+  // Park a sign-in that passed its first factor until a 2FA code is entered at /api/login/2fa
+  const holdForSecondFactor = (req: Request, userId: number, done: (err?: any) => void) => {
+    req.session.pendingTwoFactor = { userId, expiresAt: Date.now() + PENDING_LOGIN_TTL_MS, attempts: 0 };
+    req.session.save(done);
+  };
+
+  // OAuth sign-ins for users with 2FA stop at the code step on the auth page
+  const finishOAuthLogin = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (req.user && await isTwoFactorEnabled(req.user.id)) {
+        const userId = req.user.id;
+        return req.logout((logoutErr) => {
+          if (logoutErr) return next(logoutErr);
+          holdForSecondFactor(req, userId, (saveErr) => {
+            if (saveErr) return next(saveErr);
+            res.redirect("/auth?twoFactor=required");
+          });
+        });
+      }
+      res.redirect("/");
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  app.post("/api/register", throttleAuth("register"), async (req, res, next) => {
     // Use email as username if not provided
     if (!req.body.username && req.body.email) {
       req.body.username = req.body.email;
@@ -416,7 +461,10 @@ export async function setupAuth(app: Express) {
     });
   });
 
-  app.post("/api/login", (req, res, next) => {
+  // The account an attempt is for: the email (or username) that was typed
+  const loginAccount = (req: Request) => req.body?.email ? { login: String(req.body.email) } : undefined;
+
+  app.post("/api/login", throttleAuth("login", loginAccount), (req, res, next) => {
     console.log(`🔑 LOGIN ATTEMPT: ${new Date().toISOString()}`);
     console.log(`🔑 Login body:`, req.body);
     console.log(`🔑 Session before login:`, {
@@ -425,19 +473,40 @@ export async function setupAuth(app: Express) {
       passport: req.session?.passport,
     });
     
-    passport.authenticate("local", (err: Error | null, user: SelectUser | false, info: any) => {
+    passport.authenticate("local", async (err: Error | null, user: SelectUser | false, info: any) => {
       if (err) {
         console.error("❌ Login error:", err);
         return next(err);
       }
       if (!user) {
         console.log("❌ Login failed - user not found or password incorrect");
+        try {
+          await recordAuthFailure(req, "login", loginAccount(req));
+        } catch (throttleErr) {
+          console.error("Error recording failed login:", throttleErr);
+        }
         return res.status(401).json({ message: "Authentication failed" });
       }
       
       // Email verification check has been removed
       // All users are considered verified now
       
+      // Users with 2FA finish signing in at /api/login/2fa
+      try {
+        if (await isTwoFactorEnabled(user.id)) {
+          console.log(`🔑 Password accepted for user ID: ${user.id}, waiting for 2FA code`);
+          return holdForSecondFactor(req, user.id, (saveErr) => {
+            if (saveErr) return next(saveErr);
+            res.status(200).json({ twoFactorRequired: true });
+          });
+        }
+      } catch (twoFactorErr) {
+        return next(twoFactorErr);
+      }
+      
+      clearAuthFailures("login", { userId: user.id })
+        .catch(throttleErr => console.error("Error clearing failed logins:", throttleErr));
+      
       req.login(user, (loginErr: Error | null) => {
         if (loginErr) {
           console.error("❌ Session login error:", loginErr);
@@ -477,9 +546,66 @@ export async function setupAuth(app: Express) {
     })(req, res, next);
   });
 
+  // Second sign-in step for users with 2FA: an authenticator or recovery code
+  // Wrong codes count as failed sign-ins for the account, like wrong passwords
+  const pendingAccount = (req: Request) =>
+    req.session.pendingTwoFactor ? { userId: req.session.pendingTwoFactor.userId } : undefined;
+
+  app.post("/api/login/2fa", throttleAuth("login", pendingAccount), async (req, res, next) => {
+    const pending = req.session.pendingTwoFactor;
+    if (!pending || pending.expiresAt < Date.now()) {
+      delete req.session.pendingTwoFactor;
+      return res.status(401).json({ message: "Your sign-in has expired. Please sign in again." });
+    }
+
+    const parsed = secondFactorSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message || "Enter a code" });
+    }
+
+    try {
+      if (!(await verifySecondFactor(pending.userId, parsed.data))) {
+        await recordAuthFailure(req, "login", { userId: pending.userId });
+        pending.attempts += 1;
+        if (pending.attempts >= PENDING_LOGIN_MAX_ATTEMPTS) {
+          delete req.session.pendingTwoFactor;
+          return res.status(401).json({ message: "Too many incorrect codes. Please sign in again." });
+        }
+        return res.status(401).json({ message: "That code isn't valid" });
+      }
+
+      delete req.session.pendingTwoFactor;
+      await clearAuthFailures("login", { userId: pending.userId });
+      const user = await storage.getUser(pending.userId);
+      if (!user) {
+        return res.status(401).json({ message: "Authentication failed" });
+      }
+
+      req.login(user, (loginErr: Error | null) => {
+        if (loginErr) return next(loginErr);
+        console.log(`✅ 2FA login successful for user ID: ${user.id}`);
+
+        markChallengePassed(req);
+        req.session.lastLogin = new Date().toISOString();
+        req.session.save((saveErr) => {
+          if (saveErr) return next(saveErr);
+
+          // Don't send the password back to the client
+          const { password, ...userWithoutPassword } = user;
+          return res.status(200).json(userWithoutPassword);
+        });
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
   app.post("/api/logout", (req, res, next) => {
+    // Logging out regenerates the session, so note its ID first
+    const sessionId = req.sessionID;
     req.logout((err) => {
       if (err) return next(err);
+      forgetSession(sessionId).catch(error => console.error("Error forgetting session:", error));
       res.sendStatus(200);
     });
   });
@@ -554,7 +680,7 @@ export async function setupAuth(app: Express) {
   });
   
   // Request password reset route
-  app.post("/api/forgot-password", async (req, res) => {
+  app.post("/api/forgot-password", throttleAuth("forgot-password", loginAccount), async (req, res) => {
     try {
       const { email } = req.body;
       
@@ -582,10 +708,8 @@ export async function setupAuth(app: Express) {
         })
         .where(eq(usersTable.id, user.id));
       
-      // TODO: Send password reset email
-      // In a real application, you'd send an email with a link to /reset-password/{token}
-      
-      console.log(`Password reset link: ${process.env.REPLIT_DEV_DOMAIN ? `https://${process.env.REPLIT_DEV_DOMAIN}` : 'http://localhost:5000'}/reset-password/${resetToken}`);
+      // Send password reset email
+      await queueUserEmail(user.id, "password-reset", { token: resetToken, expiresInMinutes: 60 });
       
       res.status(200).json({ message: "If an account with that email exists, a password reset link has been sent." });
     } catch (error) {
@@ -595,7 +719,7 @@ export async function setupAuth(app: Express) {
   });
   
   // Reset password route - validates token
-  app.get("/api/reset-password/:token", async (req, res) => {
+  app.get("/api/reset-password/:token", throttleAuth("reset-password"), async (req, res) => {
     try {
       const token = req.params.token;
       
@@ -610,6 +734,7 @@ export async function setupAuth(app: Express) {
         );
       
       if (users.length === 0) {
+        await recordAuthFailure(req, "reset-password");
         return res.status(400).json({ error: "Password reset token is invalid or has expired" });
       }
       
@@ -622,7 +747,7 @@ export async function setupAuth(app: Express) {
   });
   
   // Reset password route - updates password
-  app.post("/api/reset-password/:token", async (req, res) => {
+  app.post("/api/reset-password/:token", throttleAuth("reset-password"), async (req, res) => {
     try {
       const { password } = req.body;
       const token = req.params.token;
@@ -642,6 +767,7 @@ export async function setupAuth(app: Express) {
         );
       
       if (users.length === 0) {
+        await recordAuthFailure(req, "reset-password");
         return res.status(400).json({ error: "Password reset token is invalid or has expired" });
       }
       
@@ -803,9 +929,9 @@ export async function setupAuth(app: Express) {
         failWithError: true
       })(req, res, next);
     },
-    (req: Request, res: Response) => {
+    (req: Request, res: Response, next: NextFunction) => {
       console.log("Google OAuth successful, redirecting to home page");
-      res.redirect("/");
+      finishOAuthLogin(req, res, next);
     }
   );
   
@@ -860,8 +986,6 @@ export async function setupAuth(app: Express) {
   app.get(
     "/auth/apple/callback",
     passport.authenticate("apple", { failureRedirect: "/auth" }),
-    (req: Request, res: Response) => {
-      res.redirect("/");
-    }
+    finishOAuthLogin
   );
 }
@@ -0,0 +1,323 @@
+import { db } from './db';
+import { payments, subscriptionPlans, subscriptions, Subscription, SubscriptionPlan } from '@shared/schema';
+import { eq, and, asc, gt, inArray, sql } from 'drizzle-orm';
+import { PromoQuote } from './promo-codes';
+import { endTrials, syncUserSubscription } from './subscription-lifecycle';
+import { getOrIssueInvoice } from './invoices';
+import { paypalBillingProvider } from './paypal-rest';
+import { stripeBillingProvider } from './stripe';
+
+export const BILLING_PROVIDERS = ['paypal', 'stripe'] as const;
+export type BillingProviderName = typeof BILLING_PROVIDERS[number];
+
+export class BillingProviderUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BillingProviderUnavailableError';
+  }
+}
+
+/**
+ * A payment started with a provider. The user pays at redirectUrl and comes
+ * back with the reference, which completeCheckout turns into a subscription.
+ */
+export interface CheckoutSession {
+  provider: BillingProviderName;
+  reference: string;
+  redirectUrl: string | null;
+  amount: number;
+  discountAmount: number;
+}
+
+export interface ActivationPayment {
+  amount: number;
+  paymentId: string | null;
+  promoCodeId: number | null;
+  discountAmount: number | null;
+  metadata: Record<string, any>;
+}
+
+export interface ActivationResult {
+  subscriptionId: number;
+  status: string;
+  paymentStatus: string;
+  startDate: string;
+  endDate: string | null;
+}
+
+/**
+ * What the subscription flow needs from a payment provider. Plans, promo
+ * codes, trials and the subscription records themselves stay provider-agnostic.
+ */
+export interface BillingProvider {
+  name: BillingProviderName;
+  displayName: string;
+  isConfigured(): Promise<boolean>;
+  createCheckout(userId: number, plan: SubscriptionPlan, quote: PromoQuote | null): Promise<CheckoutSession>;
+  completeCheckout(userId: number, reference: string, plan: SubscriptionPlan): Promise<ActivationResult>;
+  // Stops any billing the provider would do on its own; the subscription record is updated by the caller
+  cancelSubscription(subscription: Subscription): Promise<void>;
+}
+
+// Looked up lazily: the providers import this module for activateSubscription
+function getProviders(): Record<BillingProviderName, BillingProvider> {
+  return {
+    paypal: paypalBillingProvider,
+    stripe: stripeBillingProvider,
+  };
+}
+
+export function getBillingProvider(name: BillingProviderName): BillingProvider {
+  return getProviders()[name];
+}
+
+/**
+ * The providers users can pay with right now
+ */
+export async function listAvailableProviders(): Promise<Array<{ name: BillingProviderName; displayName: string }>> {
+  const available = [];
+  for (const provider of Object.values(getProviders())) {
+    if (await provider.isConfigured()) {
+      available.push({ name: provider.name, displayName: provider.displayName });
+    }
+  }
+  return available;
+}
+
+export async function findActivePlan(planName: string): Promise<SubscriptionPlan | null> {
+  const [plan] = await db.select()
+    .from(subscriptionPlans)
+    .where(eq(subscriptionPlans.name, planName));
+  return plan && plan.isActive ? plan : null;
+}
+
+/**
+ * The cheapest active paid plan, for checkouts that don't name one
+ */
+export async function findDefaultPaidPlan(): Promise<SubscriptionPlan | null> {
+  const [plan] = await db.select()
+    .from(subscriptionPlans)
+    .where(and(eq(subscriptionPlans.isActive, true), gt(subscriptionPlans.price, 0)))
+    .orderBy(asc(subscriptionPlans.price))
+    .limit(1);
+  return plan ?? null;
+}
+
+async function requireConfiguredProvider(name: BillingProviderName): Promise<BillingProvider> {
+  const provider = getBillingProvider(name);
+  if (!(await provider.isConfigured())) {
+    throw new BillingProviderUnavailableError(`${provider.displayName} payments are not available right now`);
+  }
+  return provider;
+}
+
+/**
+ * Starts checkout for a plan with the given provider. A promo code quote must
+ * already have been checked; one that covers the whole price activates the
+ * plan straight away without involving the provider.
+ */
+export async function startCheckout(
+  providerName: BillingProviderName,
+  userId: number,
+  plan: SubscriptionPlan,
+  quote: PromoQuote | null
+): Promise<CheckoutSession | (ActivationResult & { free: true })> {
+  const provider = await requireConfiguredProvider(providerName);
+
+  if (quote && quote.finalAmount <= 0) {
+    console.log(`[Billing] Promo code ${quote.promoCode.code} covers the full price, activating without payment`);
+    const activation = await activateSubscription(provider.name, userId, plan, {
+      amount: 0,
+      paymentId: null,
+      promoCodeId: quote.promoCode.id,
+      discountAmount: quote.discountAmount,
+      metadata: { promoCode: quote.promoCode.code }
+    });
+    return { ...activation, free: true };
+  }
+
+  return provider.createCheckout(userId, plan, quote);
+}
+
+/**
+ * Confirms a checkout the user came back from and activates the plan
+ */
+export async function completeCheckout(
+  providerName: BillingProviderName,
+  userId: number,
+  reference: string,
+  plan: SubscriptionPlan
+): Promise<ActivationResult> {
+  const provider = await requireConfiguredProvider(providerName);
+  return provider.completeCheckout(userId, reference, plan);
+}
+
+function toActivationResult(subscription: Subscription, paymentStatus: string): ActivationResult {
+  return {
+    subscriptionId: subscription.id,
+    status: subscription.status,
+    paymentStatus,
+    startDate: subscription.startDate,
+    endDate: subscription.endDate
+  };
+}
+
+/**
+ * Starts a paid subscription period for a user: records the subscription and
+ * its payment, ends any running trial and upgrades the user. A payment the
+ * provider reports twice (on return and by webhook) only activates once, even
+ * when both reports arrive together.
+ */
+export async function activateSubscription(
+  provider: BillingProviderName,
+  userId: number,
+  plan: SubscriptionPlan,
+  payment: ActivationPayment
+): Promise<ActivationResult> {
+  const endDate = new Date();
+  if (plan.interval === 'month') {
+    endDate.setMonth(endDate.getMonth() + 1);
+  } else if (plan.interval === 'year') {
+    endDate.setFullYear(endDate.getFullYear() + 1);
+  }
+  console.log(`[Billing] Subscription will end at: ${endDate.toISOString()}`);
+
+  // A paid plan replaces the trial
+  await endTrials(userId);
+
+  // The payment is claimed first: a concurrent report of the same payment waits
+  // on the unique index, then finds it recorded and returns its subscription
+  const activation = await db.transaction(async (tx) => {
+    const [paymentRecord] = await tx.insert(payments)
+      .values({
+        userId,
+        amount: payment.amount,
+        paymentMethod: provider,
+        paymentId: payment.paymentId,
+        status: 'completed',
+        paymentDate: new Date().toISOString(),
+        promoCodeId: payment.promoCodeId,
+        discountAmount: payment.discountAmount,
+        metadata: payment.metadata
+      })
+      .onConflictDoNothing({
+        target: [payments.paymentMethod, payments.paymentId],
+        where: sql`${payments.paymentId} IS NOT NULL`
+      })
+      .returning();
+
+    if (!paymentRecord) {
+      const [existing] = await tx.select()
+        .from(payments)
+        .where(and(eq(payments.paymentMethod, provider), eq(payments.paymentId, payment.paymentId!)));
+      const [subscription] = existing.subscriptionId
+        ? await tx.select().from(subscriptions).where(eq(subscriptions.id, existing.subscriptionId))
+        : [];
+      if (!subscription) {
+        throw new Error(`${provider} payment ${payment.paymentId} is recorded without a subscription`);
+      }
+      return { subscription, paymentRecord: existing, duplicate: true };
+    }
+
+    const [subscription] = await tx.insert(subscriptions)
+      .values({
+        userId,
+        planId: plan.id,
+        status: 'active',
+        provider,
+        startDate: new Date().toISOString(),
+        endDate: endDate.toISOString(),
+        paypalSubscriptionId: null, // This is a one-time payment, not a recurring subscription
+      })
+      .returning();
+
+    await tx.update(payments)
+      .set({ subscriptionId: subscription.id })
+      .where(eq(payments.id, paymentRecord.id));
+
+    return { subscription, paymentRecord, duplicate: false };
+  });
+
+  const { subscription, paymentRecord } = activation;
+  if (activation.duplicate) {
+    console.log(`[Billing] ${provider} payment ${payment.paymentId} was already recorded`);
+    return toActivationResult(subscription, paymentRecord.status);
+  }
+
+  console.log(`[Billing] Created ${provider} subscription record ${subscription.id} for user ${userId}`);
+
+  await syncUserSubscription(userId);
+
+  // The payment already went through, so a failure here only delays the invoice until it's first downloaded
+  await getOrIssueInvoice(paymentRecord.id).catch(error => {
+    console.error(`[Billing] Failed to issue invoice for payment ${paymentRecord.id}:`, error);
+  });
+
+  return toActivationResult(subscription, 'completed');
+}
+
+/**
+ * Cancels a user's subscription at the end of its period, stopping any
+ * renewal the provider would otherwise charge for
+ */
+export async function cancelSubscription(subscriptionId: number, userId: number) {
+  const [subscription] = await db.select()
+    .from(subscriptions)
+    .where(and(
+      eq(subscriptions.id, subscriptionId),
+      eq(subscriptions.userId, userId)
+    ));
+
+  if (!subscription) {
+    throw new Error('Subscription not found');
+  }
+
+  // Trials have no provider
+  const provider = getProviders()[subscription.provider as BillingProviderName];
+  if (provider) {
+    await provider.cancelSubscription(subscription);
+  }
+
+  const [updatedSubscription] = await db.update(subscriptions)
+    .set({
+      status: 'cancelled',
+      cancelAtPeriodEnd: true,
+      cancelledAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    })
+    .where(eq(subscriptions.id, subscriptionId))
+    .returning();
+
+  // The user keeps Pro until the end date; the lifecycle job expires it then
+  await syncUserSubscription(userId);
+
+  return {
+    subscriptionId: updatedSubscription.id,
+    status: updatedSubscription.status
+  };
+}
+
+/**
+ * Stops every renewal a provider would still charge a user for, e.g. before
+ * their account is deleted. Our own records are left as they are.
+ * @throws if a provider fails to cancel, so the caller can stop
+ */
+export async function cancelProviderSubscriptions(userId: number): Promise<number> {
+  const renewing = await db.select()
+    .from(subscriptions)
+    .where(and(
+      eq(subscriptions.userId, userId),
+      inArray(subscriptions.status, ['active', 'past_due', 'suspended'])
+    ));
+
+  let cancelled = 0;
+  for (const subscription of renewing) {
+    // Trials have no provider
+    const provider = getProviders()[subscription.provider as BillingProviderName];
+    if (provider) {
+      await provider.cancelSubscription(subscription);
+      cancelled++;
+    }
+  }
+  return cancelled;
+}
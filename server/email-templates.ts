@@ -0,0 +1,236 @@
+/**
+ * Email Templates
+ *
+ * Each template renders a subject with HTML and plain-text bodies from its data.
+ * Links are built from APP_URL so they point at the deployed client.
+ */
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface WeeklyDigestEmailData {
+  name: string;
+  weekStart: string; // YYYY-MM-DD
+  weekEnd: string;
+  summary: string;
+  entryCount: number;
+  averageMood: number | null; // Sentiment score 1-5
+  habitStreaks: { name: string; streak: number }[];
+  goals: { name: string; progress: number; target: number; unit: string }[];
+}
+
+export interface EmailTemplateData {
+  "verification": { name: string; token: string };
+  "password-reset": { name: string; token: string; expiresInMinutes: number };
+  "journal-reminder": { name: string; title: string; message: string };
+  "goal-reminder": { name: string; title: string; message: string };
+  "weekly-digest": WeeklyDigestEmailData;
+  "subscription-notice": { name: string; title: string; message: string };
+  "invoice": { name: string; invoiceNumber: string; total: string; paymentDate: string; paymentId: number };
+  "account-lockout": { name: string; failures: number; lockedMinutes: number; ipAddress: string | null };
+}
+
+export type EmailTemplate = keyof EmailTemplateData;
+
+export const EMAIL_TEMPLATES: EmailTemplate[] = [
+  "verification",
+  "password-reset",
+  "journal-reminder",
+  "goal-reminder",
+  "weekly-digest",
+  "subscription-notice",
+  "invoice",
+  "account-lockout",
+];
+
+export function getAppUrl(): string {
+  return (process.env.APP_URL || "http://localhost:5000").replace(/\/$/, "");
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Wrap body HTML in the shared Hope Log layout
+function layout(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:0;background:#f5f5f4;font-family:Arial,Helvetica,sans-serif;color:#1c1917;">
+    <div style="max-width:560px;margin:0 auto;padding:32px 24px;">
+      <h1 style="font-size:20px;color:#f97316;margin:0 0 24px;">Hope Log</h1>
+      <div style="background:#ffffff;border-radius:8px;padding:24px;">
+        <h2 style="font-size:18px;margin:0 0 16px;">${escapeHtml(title)}</h2>
+        ${body}
+      </div>
+      <p style="font-size:12px;color:#78716c;margin-top:24px;">
+        You can change which emails you receive in
+        <a href="${getAppUrl()}/settings/notifications" style="color:#78716c;">notification settings</a>.
+      </p>
+    </div>
+  </body>
+</html>`;
+}
+
+function button(href: string, label: string): string {
+  return `<p style="margin:24px 0;"><a href="${href}" style="background:#f97316;color:#ffffff;padding:12px 20px;border-radius:6px;text-decoration:none;display:inline-block;">${escapeHtml(label)}</a></p>`;
+}
+
+function paragraph(text: string): string {
+  return `<p style="line-height:1.5;margin:0 0 12px;">${escapeHtml(text)}</p>`;
+}
+
+const MOOD_LABELS = ["", "Very low", "Low", "Neutral", "Good", "Great"];
+
+type TemplateRenderer<T extends EmailTemplate> = (data: EmailTemplateData[T]) => RenderedEmail;
+
+const renderers: { [T in EmailTemplate]: TemplateRenderer<T> } = {
+  "verification": ({ name, token }) => {
+    const link = `${getAppUrl()}/verify-email/${token}`;
+    return {
+      subject: "Verify your email address",
+      html: layout("Verify your email address", [
+        paragraph(`Hi ${name},`),
+        paragraph("Please confirm this is your email address so we can keep your account secure."),
+        button(link, "Verify email"),
+        paragraph("If you didn't request this, you can ignore this email."),
+      ].join("\n")),
+      text: `Hi ${name},\n\nPlease confirm this is your email address by opening the link below:\n\n${link}\n\nIf you didn't request this, you can ignore this email.`,
+    };
+  },
+
+  "password-reset": ({ name, token, expiresInMinutes }) => {
+    const link = `${getAppUrl()}/reset-password/${token}`;
+    return {
+      subject: "Reset your Hope Log password",
+      html: layout("Reset your password", [
+        paragraph(`Hi ${name},`),
+        paragraph(`We received a request to reset your password. This link expires in ${expiresInMinutes} minutes.`),
+        button(link, "Reset password"),
+        paragraph("If you didn't ask to reset your password, you can ignore this email."),
+      ].join("\n")),
+      text: `Hi ${name},\n\nWe received a request to reset your password. Open the link below within ${expiresInMinutes} minutes:\n\n${link}\n\nIf you didn't ask to reset your password, you can ignore this email.`,
+    };
+  },
+
+  "journal-reminder": ({ name, title, message }) => ({
+    subject: title,
+    html: layout(title, [
+      paragraph(`Hi ${name},`),
+      paragraph(message),
+      button(`${getAppUrl()}/journal/new`, "Write in your journal"),
+    ].join("\n")),
+    text: `Hi ${name},\n\n${message}\n\n${getAppUrl()}/journal/new`,
+  }),
+
+  "goal-reminder": ({ name, title, message }) => ({
+    subject: title,
+    html: layout(title, [
+      paragraph(`Hi ${name},`),
+      paragraph(message),
+      button(`${getAppUrl()}/goals`, "View your goals"),
+    ].join("\n")),
+    text: `Hi ${name},\n\n${message}\n\n${getAppUrl()}/goals`,
+  }),
+
+  "subscription-notice": ({ name, title, message }) => ({
+    subject: title,
+    html: layout(title, [
+      paragraph(`Hi ${name},`),
+      paragraph(message),
+      button(`${getAppUrl()}/subscription`, "Manage your subscription"),
+    ].join("\n")),
+    text: `Hi ${name},\n\n${message}\n\n${getAppUrl()}/subscription`,
+  }),
+
+  "invoice": ({ name, invoiceNumber, total, paymentDate, paymentId }) => {
+    const link = `${getAppUrl()}/api/subscription/payments/${paymentId}/invoice?format=html`;
+    return {
+      subject: `Your Hope Log invoice ${invoiceNumber}`,
+      html: layout(`Invoice ${invoiceNumber}`, [
+        paragraph(`Hi ${name},`),
+        paragraph(`Thank you for your payment of ${total} on ${paymentDate}. Your invoice is attached as a PDF.`),
+        button(link, "View invoice"),
+        paragraph("You can download your invoices at any time from the payment history on your subscription page."),
+      ].join("\n")),
+      text: `Hi ${name},\n\nThank you for your payment of ${total} on ${paymentDate}. Your invoice ${invoiceNumber} is attached as a PDF.\n\nView it online: ${link}`,
+    };
+  },
+
+  "account-lockout": ({ name, failures, lockedMinutes, ipAddress }) => {
+    const attempt = `There were ${failures} failed attempts to sign in to your account${ipAddress ? ` (most recently from ${ipAddress})` : ""}, so we've locked it for ${lockedMinutes} minutes.`;
+    const link = `${getAppUrl()}/auth`;
+    return {
+      subject: "Your Hope Log account has been temporarily locked",
+      html: layout("Your account has been temporarily locked", [
+        paragraph(`Hi ${name},`),
+        paragraph(attempt),
+        paragraph("If this was you, you can sign in again once the lock ends. If it wasn't, we recommend resetting your password and turning on two-factor authentication."),
+        button(link, "Reset password"),
+      ].join("\n")),
+      text: `Hi ${name},\n\n${attempt}\n\nIf this was you, you can sign in again once the lock ends. If it wasn't, we recommend resetting your password and turning on two-factor authentication:\n\n${link}`,
+    };
+  },
+
+  "weekly-digest": (data) => {
+    const mood = data.averageMood !== null
+      ? `${MOOD_LABELS[Math.round(data.averageMood)] || "—"} (${data.averageMood.toFixed(1)} / 5)`
+      : "No mood data this week";
+
+    const streakLines = data.habitStreaks.map(habit => `${habit.name}: ${habit.streak} day streak`);
+    const goalLines = data.goals.map(goal => `${goal.name}: ${goal.progress} / ${goal.target} ${goal.unit}`);
+
+    const list = (items: string[], empty: string) => items.length > 0
+      ? `<ul style="padding-left:20px;margin:0 0 12px;">${items.map(item => `<li style="margin-bottom:4px;">${escapeHtml(item)}</li>`).join("")}</ul>`
+      : paragraph(empty);
+
+    const title = `Your week in review (${data.weekStart} – ${data.weekEnd})`;
+    return {
+      subject: "Your Hope Log weekly digest",
+      html: layout(title, [
+        paragraph(`Hi ${data.name},`),
+        paragraph(data.summary),
+        `<h3 style="font-size:15px;margin:20px 0 8px;">At a glance</h3>`,
+        list([`Journal entries: ${data.entryCount}`, `Average mood: ${mood}`], ""),
+        `<h3 style="font-size:15px;margin:20px 0 8px;">Habit streaks</h3>`,
+        list(streakLines, "No active habit streaks this week."),
+        `<h3 style="font-size:15px;margin:20px 0 8px;">Goal progress</h3>`,
+        list(goalLines, "No goals in progress."),
+        button(`${getAppUrl()}/insights`, "See your insights"),
+      ].join("\n")),
+      text: [
+        `Hi ${data.name},`,
+        "",
+        title,
+        "",
+        data.summary,
+        "",
+        `Journal entries: ${data.entryCount}`,
+        `Average mood: ${mood}`,
+        "",
+        "Habit streaks:",
+        ...(streakLines.length > 0 ? streakLines.map(line => `- ${line}`) : ["- None this week"]),
+        "",
+        "Goal progress:",
+        ...(goalLines.length > 0 ? goalLines.map(line => `- ${line}`) : ["- No goals in progress"]),
+        "",
+        `${getAppUrl()}/insights`,
+      ].join("\n"),
+    };
+  },
+};
+
+/**
+ * Render an email template with its data
+ */
+export function renderEmailTemplate<T extends EmailTemplate>(template: T, data: EmailTemplateData[T]): RenderedEmail {
+  const renderer = renderers[template] as TemplateRenderer<T>;
+  return renderer(data);
+}
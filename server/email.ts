@@ -0,0 +1,401 @@
+import nodemailer from "nodemailer";
+import { promises as fs } from "fs";
+import path from "path";
+import { db } from "./db";
+import { storage } from "./storage";
+import { emailDeliveries, EmailDelivery } from "@shared/schema";
+import { and, desc, eq, or, sql } from "drizzle-orm";
+import { registerJobHandler, enqueueJob } from "./job-queue";
+import { EmailTemplate, EmailTemplateData, renderEmailTemplate } from "./email-templates";
+
+/**
+ * Email Delivery
+ *
+ * Templated emails are recorded in the email_deliveries log and sent from the
+ * background job queue, so failed sends are retried. The transport is chosen
+ * with environment variables:
+ *
+ * - EMAIL_TRANSPORT=smtp sends through SMTP_HOST / SMTP_PORT / SMTP_USER / SMTP_PASS
+ * - EMAIL_TRANSPORT=file writes each message as an .eml file to EMAIL_FILE_DIR (default .emails)
+ * - EMAIL_TRANSPORT=console prints each message to the server log
+ *
+ * Without EMAIL_TRANSPORT, SMTP is used if SMTP_HOST is set and the console otherwise.
+ * EMAIL_FROM sets the sender address.
+ *
+ * Addresses that have hard-bounced are suppressed: later emails to them are logged but not sent.
+ */
+
+export type EmailTransportName = "smtp" | "file" | "console";
+
+export type EmailDeliveryStatus = "queued" | "sent" | "failed" | "bounced" | "suppressed";
+
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType: string;
+}
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  attachments?: EmailAttachment[];
+}
+
+export interface EmailTransport {
+  readonly name: EmailTransportName;
+
+  /**
+   * Send a message
+   * @returns The Message-ID assigned to the message
+   */
+  send(message: EmailMessage): Promise<{ messageId: string }>;
+}
+
+/**
+ * A send the receiving server rejected permanently (an SMTP 5xx reply).
+ * Retrying won't help, so the delivery is marked as bounced.
+ */
+export class EmailRejectedError extends Error {
+  constructor(message: string, readonly responseCode?: number) {
+    super(message);
+    this.name = "EmailRejectedError";
+  }
+}
+
+// Reminder and digest emails can be turned off; account and billing emails are always sent
+const TRANSACTIONAL_TEMPLATES: EmailTemplate[] = ["verification", "password-reset", "subscription-notice", "invoice", "account-lockout"];
+
+const MAX_SEND_ATTEMPTS = 5;
+
+function getFromAddress(): string {
+  return process.env.EMAIL_FROM || "Hope Log <no-reply@hopelog.app>";
+}
+
+class SmtpEmailTransport implements EmailTransport {
+  readonly name = "smtp" as const;
+  private transporter: nodemailer.Transporter;
+
+  constructor() {
+    if (!process.env.SMTP_HOST) {
+      throw new Error("SMTP_HOST must be set when EMAIL_TRANSPORT is 'smtp'");
+    }
+
+    const port = Number(process.env.SMTP_PORT || 587);
+    this.transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === "true" : port === 465,
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+        : undefined,
+    });
+  }
+
+  async send(message: EmailMessage): Promise<{ messageId: string }> {
+    try {
+      const info = await this.transporter.sendMail({ from: getFromAddress(), ...message });
+      if (info.rejected && info.rejected.length > 0) {
+        throw new EmailRejectedError(`Recipient rejected: ${info.rejected.join(", ")}`);
+      }
+      return { messageId: info.messageId };
+    } catch (error: any) {
+      if (error instanceof EmailRejectedError) throw error;
+      if (typeof error?.responseCode === "number" && error.responseCode >= 500) {
+        throw new EmailRejectedError(error.response || error.message, error.responseCode);
+      }
+      throw error;
+    }
+  }
+}
+
+class FileEmailTransport implements EmailTransport {
+  readonly name = "file" as const;
+  private directory = path.resolve(process.env.EMAIL_FILE_DIR || ".emails");
+  // Builds the raw RFC 822 message without sending it anywhere
+  private builder = nodemailer.createTransport({ streamTransport: true, buffer: true });
+
+  async send(message: EmailMessage): Promise<{ messageId: string }> {
+    const info = await this.builder.sendMail({ from: getFromAddress(), ...message });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, "_")}.eml`;
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(path.join(this.directory, fileName), info.message as Buffer);
+    console.log(`📧 Wrote email "${message.subject}" for ${message.to} to ${path.join(this.directory, fileName)}`);
+
+    return { messageId: info.messageId };
+  }
+}
+
+class ConsoleEmailTransport implements EmailTransport {
+  readonly name = "console" as const;
+
+  async send(message: EmailMessage): Promise<{ messageId: string }> {
+    const messageId = `<${Date.now()}.${Math.random().toString(36).slice(2)}@console>`;
+    console.log([
+      "📧 ---------------- Email ----------------",
+      `From: ${getFromAddress()}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Message-ID: ${messageId}`,
+      ...(message.attachments ?? []).map(attachment => `Attachment: ${attachment.filename} (${attachment.content.length} bytes)`),
+      "",
+      message.text,
+      "------------------------------------------",
+    ].join("\n"));
+
+    return { messageId };
+  }
+}
+
+/**
+ * Create a transport from the current environment variables
+ */
+export function createEmailTransport(
+  name: string = process.env.EMAIL_TRANSPORT || (process.env.SMTP_HOST ? "smtp" : "console")
+): EmailTransport {
+  switch (name) {
+    case "smtp":
+      return new SmtpEmailTransport();
+    case "file":
+      return new FileEmailTransport();
+    case "console":
+      return new ConsoleEmailTransport();
+    default:
+      throw new Error(`Unknown email transport '${name}'. Expected 'smtp', 'file' or 'console'.`);
+  }
+}
+
+let activeTransport: EmailTransport | null = null;
+
+/**
+ * Get the transport used for all email. Created lazily from the environment.
+ */
+export function getEmailTransport(): EmailTransport {
+  if (!activeTransport) {
+    activeTransport = createEmailTransport();
+    console.log(`Using email transport '${activeTransport.name}'`);
+  }
+  return activeTransport;
+}
+
+/**
+ * Replace the active transport, e.g. with a test double
+ */
+export function setEmailTransport(transport: EmailTransport | null): void {
+  activeTransport = transport;
+}
+
+// Whether the user's notification preferences allow this template
+async function isEmailAllowed(userId: number, template: EmailTemplate): Promise<boolean> {
+  if (TRANSACTIONAL_TEMPLATES.includes(template)) return true;
+
+  const preferences = await storage.getNotificationPreferencesByUserId(userId);
+  if (!preferences) return true;
+  if (!preferences.emailNotifications) return false;
+  if (template === "weekly-digest") return preferences.weeklyDigest;
+  return true;
+}
+
+async function isAddressSuppressed(address: string): Promise<boolean> {
+  const [bounced] = await db
+    .select({ id: emailDeliveries.id })
+    .from(emailDeliveries)
+    .where(and(eq(emailDeliveries.toAddress, address.toLowerCase()), eq(emailDeliveries.status, "bounced")))
+    .limit(1);
+
+  return !!bounced;
+}
+
+/**
+ * Record an email in the delivery log and queue it for sending
+ * @param options.userId The recipient's user, whose notification preferences are checked
+ * @param options.attachments Files sent with the email; they travel in the job payload, so keep them small
+ * @returns The delivery record, or undefined if the user has turned this email off
+ */
+export async function queueEmail<T extends EmailTemplate>(
+  template: T,
+  data: EmailTemplateData[T],
+  options: { to: string; userId?: number; metadata?: Record<string, any>; attachments?: EmailAttachment[] }
+): Promise<EmailDelivery | undefined> {
+  if (options.userId && !(await isEmailAllowed(options.userId, template))) {
+    return undefined;
+  }
+
+  const to = options.to.trim().toLowerCase();
+  const { subject } = renderEmailTemplate(template, data);
+  const suppressed = await isAddressSuppressed(to);
+
+  const [delivery] = await db
+    .insert(emailDeliveries)
+    .values({
+      userId: options.userId ?? null,
+      toAddress: to,
+      template,
+      subject,
+      status: suppressed ? "suppressed" : "queued",
+      error: suppressed ? "Address previously bounced" : null,
+      metadata: options.metadata ?? {},
+    })
+    .returning();
+
+  if (suppressed) {
+    console.log(`Not sending ${template} email to ${to}: address previously bounced`);
+    return delivery;
+  }
+
+  const attachments = options.attachments?.map(attachment => ({
+    filename: attachment.filename,
+    contentType: attachment.contentType,
+    content: attachment.content.toString("base64"),
+  }));
+  await enqueueJob(
+    "send-email",
+    { deliveryId: delivery.id, template, data, ...(attachments ? { attachments } : {}) },
+    { maxAttempts: MAX_SEND_ATTEMPTS }
+  );
+  return delivery;
+}
+
+/**
+ * Queue a templated email for a user, if they have an email address
+ */
+export async function queueUserEmail<T extends EmailTemplate>(
+  userId: number,
+  template: T,
+  data: Omit<EmailTemplateData[T], "name">,
+  metadata?: Record<string, any>,
+  attachments?: EmailAttachment[]
+): Promise<EmailDelivery | undefined> {
+  const user = await storage.getUser(userId);
+  if (!user?.email) return undefined;
+
+  const name = user.displayName || user.name;
+  return await queueEmail(template, { ...data, name } as EmailTemplateData[T], { to: user.email, userId, metadata, attachments });
+}
+
+async function runSendEmailJob(payload: Record<string, any>): Promise<void> {
+  const [delivery] = await db
+    .select()
+    .from(emailDeliveries)
+    .where(eq(emailDeliveries.id, payload.deliveryId));
+
+  // Already sent, bounced or removed
+  if (!delivery || (delivery.status !== "queued" && delivery.status !== "failed")) return;
+
+  const transport = getEmailTransport();
+  const rendered = renderEmailTemplate(payload.template as EmailTemplate, payload.data);
+  const attachments: EmailAttachment[] | undefined = payload.attachments?.map((attachment: Record<string, string>) => ({
+    filename: attachment.filename,
+    contentType: attachment.contentType,
+    content: Buffer.from(attachment.content, "base64"),
+  }));
+
+  try {
+    const { messageId } = await transport.send({ to: delivery.toAddress, ...rendered, attachments });
+
+    await db
+      .update(emailDeliveries)
+      .set({
+        status: "sent",
+        transport: transport.name,
+        messageId,
+        attempts: sql`${emailDeliveries.attempts} + 1`,
+        error: null,
+        sentAt: sql`now()`,
+        updatedAt: sql`now()`,
+      })
+      .where(eq(emailDeliveries.id, delivery.id));
+  } catch (error: any) {
+    const rejected = error instanceof EmailRejectedError;
+
+    await db
+      .update(emailDeliveries)
+      .set({
+        status: rejected ? "bounced" : "failed",
+        transport: transport.name,
+        attempts: sql`${emailDeliveries.attempts} + 1`,
+        error: error?.message || String(error),
+        bouncedAt: rejected ? sql`now()` : null,
+        updatedAt: sql`now()`,
+      })
+      .where(eq(emailDeliveries.id, delivery.id));
+
+    if (rejected) {
+      console.warn(`Email ${delivery.id} to ${delivery.toAddress} was rejected: ${error.message}`);
+      return;
+    }
+    // Let the job queue retry with backoff
+    throw error;
+  }
+}
+
+/**
+ * Mark deliveries as bounced, matched by Message-ID or recipient address.
+ * Later emails to a bounced address are suppressed.
+ * @returns Number of deliveries updated
+ */
+export async function recordBounce(report: { messageId?: string; email?: string; reason?: string }): Promise<number> {
+  const conditions = [];
+  if (report.messageId) conditions.push(eq(emailDeliveries.messageId, report.messageId));
+  if (report.email) {
+    conditions.push(and(eq(emailDeliveries.toAddress, report.email.trim().toLowerCase()), eq(emailDeliveries.status, "sent")));
+  }
+  if (conditions.length === 0) return 0;
+
+  const updated = await db
+    .update(emailDeliveries)
+    .set({
+      status: "bounced",
+      error: report.reason || "Bounced",
+      bouncedAt: sql`now()`,
+      updatedAt: sql`now()`,
+    })
+    .where(or(...conditions))
+    .returning({ id: emailDeliveries.id });
+
+  return updated.length;
+}
+
+/**
+ * Get delivery counts grouped by template and status, for the admin view
+ */
+export async function getEmailDeliveryStats() {
+  return await db
+    .select({
+      template: emailDeliveries.template,
+      status: emailDeliveries.status,
+      count: sql<number>`COUNT(*)::int`,
+    })
+    .from(emailDeliveries)
+    .groupBy(emailDeliveries.template, emailDeliveries.status)
+    .orderBy(emailDeliveries.template, emailDeliveries.status);
+}
+
+/**
+ * List deliveries, newest first, optionally filtered by status, template and recipient
+ */
+export async function listEmailDeliveries(
+  filters: { status?: EmailDeliveryStatus; template?: EmailTemplate; to?: string; limit?: number; offset?: number } = {}
+): Promise<EmailDelivery[]> {
+  const conditions = [];
+  if (filters.status) conditions.push(eq(emailDeliveries.status, filters.status));
+  if (filters.template) conditions.push(eq(emailDeliveries.template, filters.template));
+  if (filters.to) conditions.push(eq(emailDeliveries.toAddress, filters.to.trim().toLowerCase()));
+
+  return await db
+    .select()
+    .from(emailDeliveries)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(emailDeliveries.createdAt))
+    .limit(filters.limit ?? 50)
+    .offset(filters.offset ?? 0);
+}
+
+/**
+ * Register the job handler that sends queued emails
+ */
+export function registerEmailJobs(): void {
+  registerJobHandler("send-email", runSendEmailJob);
+}
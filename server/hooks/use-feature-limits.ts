@@ -1,13 +1,112 @@
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
 import { storage } from '../storage';
 import { db } from '../db';
-import { eq, sql } from 'drizzle-orm';
-import { userUsage, featureLimits, users } from '@shared/schema';
+import { eq, and, lt, isNull, sql, count } from 'drizzle-orm';
+import type { PgUpdateSetSource } from 'drizzle-orm/pg-core';
+import { userUsage, featureLimits, users, journalEntries, goals, FeatureLimit } from '@shared/schema';
+import { getEffectiveTier } from '../subscription-lifecycle';
+import {
+  resolveTimeZone,
+  getLocalDateString,
+  getZonedParts,
+  zonedTimeToUtc,
+  addDays,
+  parseDbTimestamp,
+} from '../schedule-utils';
 
 // Helper function to convert Date to ISO string for database
 function dateToISOString(date: Date): string {
   return date.toISOString();
 }
 
+/**
+ * Features with a metered quota. Journal entries and goals are limited in
+ * total; AI responses per day, resetting at midnight in the user's time zone.
+ */
+export type MeteredFeature = 'journalEntries' | 'goals' | 'aiResponses';
+
+const USAGE_COLUMNS = {
+  journalEntries: userUsage.journalEntriesCount,
+  goals: userUsage.goalsCount,
+  aiResponses: userUsage.aiResponsesCount,
+} as const;
+
+const USAGE_KEYS = {
+  journalEntries: 'journalEntriesCount',
+  goals: 'goalsCount',
+  aiResponses: 'aiResponsesCount',
+} as const;
+
+const FEATURE_LABELS: Record<MeteredFeature, string> = {
+  journalEntries: 'journal entries',
+  goals: 'goals',
+  aiResponses: 'AI responses today',
+};
+
+function getLimit(limits: FeatureLimit | null, feature: MeteredFeature): number | null {
+  if (!limits) return null;
+  if (feature === 'journalEntries') return limits.maxJournalEntries;
+  if (feature === 'goals') return limits.maxGoals;
+  return limits.aiResponsesPerDay;
+}
+
+/**
+ * A metered quota is used up. Totals need an upgrade (402); the daily AI
+ * quota comes back at resetsAt (429).
+ */
+export class QuotaExceededError extends Error {
+  readonly code = 'QUOTA_EXCEEDED';
+
+  constructor(
+    readonly feature: MeteredFeature,
+    readonly limit: number,
+    readonly used: number,
+    readonly tier: string,
+    readonly resetsAt: string | null
+  ) {
+    super(
+      feature === 'aiResponses'
+        ? `You've used all ${limit} AI responses for today. They reset at midnight, or upgrade to Pro for a higher limit.`
+        : `You've reached your limit of ${limit} ${FEATURE_LABELS[feature]}. Please upgrade to Pro for unlimited ${FEATURE_LABELS[feature]}.`
+    );
+    this.name = 'QuotaExceededError';
+  }
+
+  get status(): number {
+    return this.resetsAt ? 429 : 402;
+  }
+
+  toJSON() {
+    return {
+      error: this.message,
+      code: this.code,
+      feature: this.feature,
+      limit: this.limit,
+      used: this.used,
+      tier: this.tier,
+      resetsAt: this.resetsAt,
+      upgradeUrl: '/subscription',
+    };
+  }
+}
+
+export interface QuotaStatus {
+  used: number;
+  limit: number | null;
+  resetsAt: string | null;
+}
+
+async function getUserTimeZone(userId: number): Promise<string> {
+  const preferences = await storage.getNotificationPreferencesByUserId(userId);
+  return resolveTimeZone(preferences?.timezone);
+}
+
+// Midnight after `now` in the user's time zone, when the daily AI quota resets
+function getNextLocalMidnight(now: Date, timeZone: string): Date {
+  const today = getZonedParts(now, timeZone);
+  return zonedTimeToUtc({ ...addDays(today, 1), hour: 0, minute: 0 }, timeZone);
+}
+
 /**
  * Service for checking feature limits and user usage
  */
@@ -23,12 +122,19 @@ export class FeatureLimitService {
       .where(eq(userUsage.userId, userId));
     
     if (!existingUsage) {
-      // Create a new usage record
+      // Create a new usage record, starting from what the user already has
+      const [entryCount] = await db.select({ value: count() })
+        .from(journalEntries)
+        .where(and(eq(journalEntries.userId, userId), eq(journalEntries.isJournal, true), isNull(journalEntries.deletedAt)));
+      const [goalCount] = await db.select({ value: count() })
+        .from(goals)
+        .where(and(eq(goals.userId, userId), isNull(goals.deletedAt)));
+
       await db.insert(userUsage)
         .values({
           userId,
-          journalEntriesCount: 0,
-          goalsCount: 0,
+          journalEntriesCount: entryCount?.value ?? 0,
+          goalsCount: goalCount?.value ?? 0,
           aiResponsesCount: 0,
           aiResponsesResetDate: dateToISOString(new Date()),
           lastActive: dateToISOString(new Date())
@@ -42,7 +148,8 @@ export class FeatureLimitService {
   }
 
   /**
-   * Gets the feature limits for a user based on their subscription tier
+   * Gets the feature limits for a user based on their subscription tier.
+   * A lapsed Pro subscription past its grace period counts as free.
    */
   static async getFeatureLimits(userId: number) {
     const [user] = await db.select().from(users).where(eq(users.id, userId));
@@ -50,7 +157,7 @@ export class FeatureLimitService {
       throw new Error(`User with ID ${userId} not found`);
     }
 
-    const tier = user.subscriptionTier || 'free';
+    const tier = await getEffectiveTier(user);
     const [limits] = await db.select().from(featureLimits).where(eq(featureLimits.subscriptionTier, tier));
 
     return limits || null;
@@ -145,21 +252,8 @@ export class FeatureLimitService {
     const limits = await this.getFeatureLimits(userId);
     const usage = await this.getUserUsage(userId);
 
-    // Check if we need to reset the AI response count (new day)
-    const resetDate = new Date(usage.aiResponsesResetDate);
-    const now = new Date();
-    if (now.getDate() !== resetDate.getDate() || 
-        now.getMonth() !== resetDate.getMonth() || 
-        now.getFullYear() !== resetDate.getFullYear()) {
-      // Reset counter for a new day
-      await db.update(userUsage)
-        .set({
-          aiResponsesCount: 0,
-          aiResponsesResetDate: dateToISOString(now),
-          updatedAt: dateToISOString(now)
-        })
-        .where(eq(userUsage.userId, userId));
-      
+    // A new day in the user's time zone starts the count again
+    if (await this.resetDailyQuotaIfDue(userId, usage)) {
       return { allowed: true };
     }
 
@@ -271,4 +365,138 @@ export class FeatureLimitService {
       reason: 'Community access is only available with a Pro subscription. Please upgrade to access this feature.'
     };
   }
-}
\ No newline at end of file
+
+  /**
+   * Starts the daily AI quota again if the user's local date has moved on
+   * since it was last reset
+   * @returns Whether the quota was reset
+   */
+  static async resetDailyQuotaIfDue(userId: number, usage: { aiResponsesResetDate: string }): Promise<boolean> {
+    const timeZone = await getUserTimeZone(userId);
+    const now = new Date();
+    const lastReset = parseDbTimestamp(usage.aiResponsesResetDate);
+    if (getLocalDateString(lastReset, timeZone) === getLocalDateString(now, timeZone)) {
+      return false;
+    }
+
+    // Matching the old reset date keeps concurrent requests from resetting twice
+    await db.update(userUsage)
+      .set({
+        aiResponsesCount: 0,
+        aiResponsesResetDate: dateToISOString(now),
+        updatedAt: dateToISOString(now)
+      })
+      .where(and(eq(userUsage.userId, userId), eq(userUsage.aiResponsesResetDate, usage.aiResponsesResetDate)));
+    return true;
+  }
+
+  /**
+   * Uses one unit of a metered quota. The count only goes up while it is under
+   * the limit, so concurrent requests can't overshoot it.
+   * @throws QuotaExceededError if the quota is used up
+   */
+  static async consume(userId: number, feature: MeteredFeature): Promise<void> {
+    const usage = await this.getUserUsage(userId);
+    if (feature === 'aiResponses') {
+      await this.resetDailyQuotaIfDue(userId, usage);
+    }
+
+    const limits = await this.getFeatureLimits(userId);
+    const limit = getLimit(limits, feature);
+    const column = USAGE_COLUMNS[feature];
+    const changes: PgUpdateSetSource<typeof userUsage> = {
+      [USAGE_KEYS[feature]]: sql`${column} + 1`,
+      updatedAt: dateToISOString(new Date())
+    };
+
+    const [updated] = await db.update(userUsage)
+      .set(changes)
+      .where(and(eq(userUsage.userId, userId), limit === null ? undefined : lt(column, limit)))
+      .returning({ id: userUsage.id });
+
+    if (!updated) {
+      const timeZone = feature === 'aiResponses' ? await getUserTimeZone(userId) : null;
+      throw new QuotaExceededError(
+        feature,
+        limit ?? 0,
+        usage[USAGE_KEYS[feature]],
+        limits?.subscriptionTier ?? 'free',
+        timeZone ? getNextLocalMidnight(new Date(), timeZone).toISOString() : null
+      );
+    }
+  }
+
+  /**
+   * Gives back one unit of a metered quota, e.g. when an entry is deleted or
+   * a metered request fails
+   */
+  static async release(userId: number, feature: MeteredFeature): Promise<void> {
+    const column = USAGE_COLUMNS[feature];
+    const changes: PgUpdateSetSource<typeof userUsage> = {
+      [USAGE_KEYS[feature]]: sql`GREATEST(${column} - 1, 0)`,
+      updatedAt: dateToISOString(new Date())
+    };
+
+    await db.update(userUsage)
+      .set(changes)
+      .where(eq(userUsage.userId, userId));
+  }
+
+  /**
+   * Usage and limits of every metered feature, for showing remaining quota
+   */
+  static async getQuotaStatus(userId: number): Promise<{ tier: string; quotas: Record<MeteredFeature, QuotaStatus> }> {
+    let usage = await this.getUserUsage(userId);
+    if (await this.resetDailyQuotaIfDue(userId, usage)) {
+      usage = await this.getUserUsage(userId);
+    }
+    const limits = await this.getFeatureLimits(userId);
+    const timeZone = await getUserTimeZone(userId);
+
+    const status = (feature: MeteredFeature): QuotaStatus => ({
+      used: usage[USAGE_KEYS[feature]],
+      limit: getLimit(limits, feature),
+      resetsAt: feature === 'aiResponses' ? getNextLocalMidnight(new Date(), timeZone).toISOString() : null
+    });
+
+    return {
+      tier: limits?.subscriptionTier ?? 'free',
+      quotas: {
+        journalEntries: status('journalEntries'),
+        goals: status('goals'),
+        aiResponses: status('aiResponses')
+      }
+    };
+  }
+}
+
+/**
+ * Middleware that uses one unit of a metered quota before the route runs,
+ * answering 402/429 with a QuotaExceededError payload once it is used up.
+ * The unit is given back if the route responds with an error.
+ */
+export function meterFeature(feature: MeteredFeature): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const userId = req.user.id;
+    try {
+      await FeatureLimitService.consume(userId, feature);
+    } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      console.error(`Error checking ${feature} quota for user ${userId}:`, error);
+      return res.status(500).json({ error: 'Failed to check usage limits' });
+    }
+
+    res.on('finish', () => {
+      if (res.statusCode >= 400) {
+        FeatureLimitService.release(userId, feature).catch(error => {
+          console.error(`Error releasing ${feature} quota for user ${userId}:`, error);
+        });
+      }
+    });
+    next();
+  };
+}
@@ -2,9 +2,27 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { createAdminUser } from "./create-admin";
+import { startJobWorker } from "./job-queue";
+import { registerJournalJobs } from "./journal-jobs";
+import { registerNotificationJobs } from "./notification-scheduler";
+import { registerEmailJobs } from "./email";
+import { registerWeeklyDigestJobs } from "./weekly-digest";
+import { registerPayPalWebhookJobs } from "./paypal-webhooks";
+import { registerSubscriptionLifecycleJobs } from "./subscription-lifecycle";
+import { registerAuthThrottleJobs } from "./auth-throttle";
+import { registerAccountExportJobs } from "./account-export";
+import { registerJournalImportJobs } from "./journal-import";
+import { registerSessionRegistryJobs } from "./session-registry";
 
 const app = express();
-app.use(express.json());
+app.use(express.json({
+  // Stripe signs the exact bytes it sent, so keep them for webhook verification
+  verify: (req, _res, buf) => {
+    if (req.url?.startsWith("/api/webhooks/stripe")) {
+      (req as Request).rawBody = buf;
+    }
+  },
+}));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -43,6 +61,21 @@ app.use((req, res, next) => {
 
   const server = await registerRoutes(app);
 
+  // Process background AI jobs (titles, sentiment, embeddings, suggestions)
+  // deliver scheduled notifications, reminders and weekly digests, send email,
+  // build account exports and import journals
+  registerJournalJobs();
+  registerNotificationJobs();
+  registerEmailJobs();
+  registerWeeklyDigestJobs();
+  registerPayPalWebhookJobs();
+  registerSubscriptionLifecycleJobs();
+  registerAuthThrottleJobs();
+  registerAccountExportJobs();
+  registerJournalImportJobs();
+  registerSessionRegistryJobs();
+  startJobWorker();
+
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
     const message = err.message || "Internal Server Error";
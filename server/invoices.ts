@@ -0,0 +1,538 @@
+import PDFDocument from "pdfkit";
+import { db } from "./db";
+import { storage } from "./storage";
+import { invoices, payments, subscriptions, subscriptionPlans, users, Invoice, Payment } from "@shared/schema";
+import { desc, eq, max, sql } from "drizzle-orm";
+import { queueUserEmail } from "./email";
+import { parseDbTimestamp } from "./schedule-utils";
+
+/**
+ * Invoices
+ *
+ * Every payment that went through gets one invoice, which doubles as its receipt.
+ * Invoice numbers are a prefix and a gapless counter (HL-000001, HL-000002, ...),
+ * handed out in the order invoices are issued under an advisory lock.
+ *
+ * Invoices are issued when a payment is recorded, or on first download for
+ * payments made before invoicing existed. Amounts are stored on the invoice, so
+ * it renders the same until an admin regenerates it from the payment and the
+ * current settings; regenerating keeps the number.
+ *
+ * Plan prices include tax. The tax on an invoice is the part of the amount paid
+ * that the tax rate accounts for.
+ *
+ * Seller details and tax are the system settings invoice_business_name,
+ * invoice_business_address, invoice_tax_id, invoice_tax_label, invoice_tax_rate
+ * and invoice_number_prefix.
+ */
+
+// Key for pg_advisory_xact_lock, so two invoices can't take the same number
+const INVOICE_NUMBER_LOCK = 7_340_114;
+
+export type InvoiceFormat = "pdf" | "html";
+
+export interface InvoiceSettings {
+  businessName: string;
+  businessAddress: string | null;
+  taxId: string | null;
+  taxLabel: string;
+  taxRate: number;
+  numberPrefix: string;
+}
+
+/**
+ * An invoice can't be produced for this payment, e.g. because it failed
+ */
+export class InvoiceUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvoiceUnavailableError";
+  }
+}
+
+const DEFAULT_SETTINGS: InvoiceSettings = {
+  businessName: "Hope Log",
+  businessAddress: null,
+  taxId: null,
+  taxLabel: "Tax",
+  taxRate: 0,
+  numberPrefix: "HL-",
+};
+
+// Payments that were never taken don't get an invoice
+const UNINVOICED_STATUSES = ["failed", "pending"];
+
+const STATUS_LABELS: Record<string, string> = {
+  completed: "Paid",
+  refunded: "Refunded",
+  partially_refunded: "Partially refunded",
+  disputed: "Disputed",
+};
+
+/**
+ * Seller details, tax and numbering used for new and regenerated invoices
+ */
+export async function getInvoiceSettings(): Promise<InvoiceSettings> {
+  const [businessName, businessAddress, taxId, taxLabel, taxRate, numberPrefix] = await Promise.all([
+    storage.getSystemSetting("invoice_business_name"),
+    storage.getSystemSetting("invoice_business_address"),
+    storage.getSystemSetting("invoice_tax_id"),
+    storage.getSystemSetting("invoice_tax_label"),
+    storage.getSystemSetting("invoice_tax_rate"),
+    storage.getSystemSetting("invoice_number_prefix"),
+  ]);
+
+  const rate = taxRate ? Number(taxRate) : NaN;
+  return {
+    businessName: businessName || DEFAULT_SETTINGS.businessName,
+    businessAddress: businessAddress || DEFAULT_SETTINGS.businessAddress,
+    taxId: taxId || DEFAULT_SETTINGS.taxId,
+    taxLabel: taxLabel || DEFAULT_SETTINGS.taxLabel,
+    taxRate: Number.isFinite(rate) && rate >= 0 ? rate : DEFAULT_SETTINGS.taxRate,
+    numberPrefix: numberPrefix ?? DEFAULT_SETTINGS.numberPrefix,
+  };
+}
+
+/**
+ * Save invoice settings. They apply to invoices issued or regenerated afterwards.
+ */
+export async function updateInvoiceSettings(settings: Partial<InvoiceSettings>): Promise<InvoiceSettings> {
+  const keys: Record<keyof InvoiceSettings, string> = {
+    businessName: "invoice_business_name",
+    businessAddress: "invoice_business_address",
+    taxId: "invoice_tax_id",
+    taxLabel: "invoice_tax_label",
+    taxRate: "invoice_tax_rate",
+    numberPrefix: "invoice_number_prefix",
+  };
+
+  for (const [field, key] of Object.entries(keys) as [keyof InvoiceSettings, string][]) {
+    const value = settings[field];
+    if (value !== undefined) {
+      await storage.setSystemSetting(key, value === null ? "" : String(value));
+    }
+  }
+  return await getInvoiceSettings();
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+export function formatInvoiceNumber(prefix: string, sequence: number): string {
+  return `${prefix}${String(sequence).padStart(6, "0")}`;
+}
+
+// The invoice's content, worked out from the payment and the current settings
+async function buildInvoiceFields(payment: Payment, settings: InvoiceSettings) {
+  // Payments outlive deleted accounts
+  const user = payment.userId ? await storage.getUser(payment.userId) : undefined;
+
+  const [subscription] = payment.subscriptionId
+    ? await db
+        .select({
+          startDate: subscriptions.startDate,
+          endDate: subscriptions.endDate,
+          planName: subscriptionPlans.displayName,
+          planInterval: subscriptionPlans.interval,
+        })
+        .from(subscriptions)
+        .leftJoin(subscriptionPlans, eq(subscriptionPlans.id, subscriptions.planId))
+        .where(eq(subscriptions.id, payment.subscriptionId))
+    : [];
+
+  // Renewals record the period they paid for; the first payment covers the subscription's own dates
+  const periodStart = payment.metadata?.periodStart ?? subscription?.startDate ?? null;
+  const periodEnd = payment.metadata?.periodEnd ?? subscription?.endDate ?? null;
+
+  const total = roundCurrency(payment.amount);
+  const discountAmount = roundCurrency(payment.discountAmount ?? 0);
+  const taxAmount = roundCurrency(total * settings.taxRate / (100 + settings.taxRate));
+
+  return {
+    userId: payment.userId,
+    subscriptionId: payment.subscriptionId,
+    currency: payment.currency,
+    planName: subscription?.planName ?? "Hope Log subscription",
+    planInterval: subscription?.planInterval ?? null,
+    periodStart: periodStart ? parseDbTimestamp(periodStart).toISOString() : null,
+    periodEnd: periodEnd ? parseDbTimestamp(periodEnd).toISOString() : null,
+    subtotal: roundCurrency(total + discountAmount),
+    discountAmount,
+    taxLabel: settings.taxLabel,
+    taxRate: settings.taxRate,
+    taxAmount,
+    total,
+    billedTo: {
+      name: user ? user.displayName || user.name : "Former customer",
+      email: user?.email ?? null,
+    },
+    seller: {
+      name: settings.businessName,
+      address: settings.businessAddress,
+      taxId: settings.taxId,
+    },
+  };
+}
+
+async function getPayment(paymentId: number): Promise<Payment> {
+  const [payment] = await db.select().from(payments).where(eq(payments.id, paymentId));
+  if (!payment) {
+    throw new InvoiceUnavailableError("Payment not found");
+  }
+  if (UNINVOICED_STATUSES.includes(payment.status)) {
+    throw new InvoiceUnavailableError(`There is no invoice for a ${payment.status} payment`);
+  }
+  return payment;
+}
+
+export async function getInvoiceForPayment(paymentId: number): Promise<Invoice | null> {
+  const [invoice] = await db.select().from(invoices).where(eq(invoices.paymentId, paymentId));
+  return invoice ?? null;
+}
+
+/**
+ * Get a payment's invoice, issuing it with the next number if it has none yet
+ * @throws InvoiceUnavailableError if the payment doesn't exist or wasn't taken
+ */
+export async function getOrIssueInvoice(paymentId: number): Promise<Invoice> {
+  const existing = await getInvoiceForPayment(paymentId);
+  if (existing) return existing;
+
+  const payment = await getPayment(paymentId);
+  const settings = await getInvoiceSettings();
+  const fields = await buildInvoiceFields(payment, settings);
+
+  return await db.transaction(async (tx) => {
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(${INVOICE_NUMBER_LOCK})`);
+
+    // Issued by a concurrent request while we waited for the lock
+    const [issued] = await tx.select().from(invoices).where(eq(invoices.paymentId, paymentId));
+    if (issued) return issued;
+
+    const [last] = await tx.select({ value: max(invoices.sequence) }).from(invoices);
+    const sequence = (last?.value ?? 0) + 1;
+
+    const [invoice] = await tx
+      .insert(invoices)
+      .values({
+        ...fields,
+        paymentId,
+        sequence,
+        invoiceNumber: formatInvoiceNumber(settings.numberPrefix, sequence),
+      })
+      .returning();
+    return invoice;
+  });
+}
+
+/**
+ * Rebuild a payment's invoice from the payment and the current settings, keeping its number
+ */
+export async function regenerateInvoice(paymentId: number): Promise<Invoice> {
+  const existing = await getInvoiceForPayment(paymentId);
+  if (!existing) return await getOrIssueInvoice(paymentId);
+
+  const payment = await getPayment(paymentId);
+  const fields = await buildInvoiceFields(payment, await getInvoiceSettings());
+
+  const [invoice] = await db
+    .update(invoices)
+    .set({ ...fields, regeneratedAt: new Date().toISOString() })
+    .where(eq(invoices.id, existing.id))
+    .returning();
+  return invoice;
+}
+
+/**
+ * Email a payment's invoice to its user with the PDF attached
+ * @returns Whether an email was queued; users without an email address, and
+ * deleted accounts, get none
+ */
+export async function emailInvoice(paymentId: number): Promise<boolean> {
+  const invoice = await getOrIssueInvoice(paymentId);
+  if (!invoice.userId) return false;
+  const payment = await getPayment(paymentId);
+  const pdf = await renderInvoicePdf(invoice, payment);
+
+  const delivery = await queueUserEmail(
+    invoice.userId,
+    "invoice",
+    {
+      invoiceNumber: invoice.invoiceNumber,
+      total: formatMoney(invoice.total, invoice.currency),
+      paymentDate: formatDate(payment.paymentDate),
+      paymentId,
+    },
+    { invoiceId: invoice.id },
+    [{ filename: `${invoice.invoiceNumber}.pdf`, content: pdf, contentType: "application/pdf" }]
+  );
+  if (!delivery) return false;
+
+  await db.update(invoices).set({ emailedAt: new Date().toISOString() }).where(eq(invoices.id, invoice.id));
+  return true;
+}
+
+/**
+ * Recent invoices with the username they were issued to, newest first
+ */
+export async function listInvoices(limit = 50) {
+  return await db
+    .select({
+      id: invoices.id,
+      invoiceNumber: invoices.invoiceNumber,
+      paymentId: invoices.paymentId,
+      userId: invoices.userId,
+      username: users.username,
+      planName: invoices.planName,
+      total: invoices.total,
+      currency: invoices.currency,
+      issuedAt: invoices.issuedAt,
+      regeneratedAt: invoices.regeneratedAt,
+      emailedAt: invoices.emailedAt,
+    })
+    .from(invoices)
+    .leftJoin(users, eq(users.id, invoices.userId))
+    .orderBy(desc(invoices.sequence))
+    .limit(limit);
+}
+
+export function formatMoney(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat("en-US", { style: "currency", currency }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
+
+function formatDate(value: string | null): string {
+  if (!value) return "—";
+  return parseDbTimestamp(value).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// The lines shared by the HTML and PDF layouts
+function describeInvoice(invoice: Invoice, payment: Payment) {
+  const money = (amount: number) => formatMoney(amount, invoice.currency);
+  const period = invoice.periodStart && invoice.periodEnd
+    ? `${formatDate(invoice.periodStart)} – ${formatDate(invoice.periodEnd)}`
+    : null;
+
+  const item = `${invoice.planName} plan${invoice.planInterval ? ` (billed ${invoice.planInterval}ly)` : ""}`;
+  const totals: [string, string][] = [["Subtotal", money(invoice.subtotal)]];
+  if (invoice.discountAmount > 0) {
+    totals.push(["Discount", `-${money(invoice.discountAmount)}`]);
+  }
+  if (invoice.taxRate > 0) {
+    totals.push([`${invoice.taxLabel} included (${invoice.taxRate}%)`, money(invoice.taxAmount)]);
+  }
+
+  return {
+    status: STATUS_LABELS[payment.status] ?? payment.status,
+    issued: formatDate(invoice.issuedAt),
+    paid: formatDate(payment.paymentDate),
+    item,
+    period,
+    totals,
+    total: money(invoice.total),
+    paymentReference: `${payment.paymentMethod === "paypal" ? "PayPal" : payment.paymentMethod}${payment.paymentId ? ` · ${payment.paymentId}` : ""}`,
+  };
+}
+
+/**
+ * A standalone HTML page for the invoice that prints cleanly
+ */
+export function renderInvoiceHtml(invoice: Invoice, payment: Payment): string {
+  const details = describeInvoice(invoice, payment);
+  const seller = [invoice.seller.name, invoice.seller.address, invoice.seller.taxId ? `${invoice.taxLabel} ID: ${invoice.seller.taxId}` : null]
+    .filter((line): line is string => !!line)
+    .map(line => escapeHtml(line).replace(/\n/g, "<br>"))
+    .join("<br>");
+  const billedTo = [invoice.billedTo.name, invoice.billedTo.email]
+    .filter((line): line is string => !!line)
+    .map(escapeHtml)
+    .join("<br>");
+
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <title>Invoice ${escapeHtml(invoice.invoiceNumber)}</title>
+    <style>
+      body { margin: 0; padding: 40px 24px; background: #f5f5f4; font-family: Arial, Helvetica, sans-serif; color: #1c1917; }
+      .invoice { max-width: 720px; margin: 0 auto; background: #ffffff; border-radius: 8px; padding: 40px; }
+      h1 { font-size: 22px; color: #f97316; margin: 0; }
+      h2 { font-size: 28px; margin: 0; text-align: right; }
+      table { width: 100%; border-collapse: collapse; }
+      .header td { vertical-align: top; }
+      .meta { text-align: right; font-size: 14px; line-height: 1.6; }
+      .label { color: #78716c; font-size: 12px; text-transform: uppercase; letter-spacing: 0.05em; margin: 32px 0 6px; }
+      .items th { text-align: left; font-size: 12px; color: #78716c; border-bottom: 1px solid #e7e5e4; padding: 8px 0; }
+      .items td { padding: 12px 0; border-bottom: 1px solid #e7e5e4; font-size: 14px; }
+      .amount { text-align: right; }
+      .totals { width: 320px; margin-left: auto; margin-top: 16px; font-size: 14px; }
+      .totals td { padding: 4px 0; }
+      .totals .grand td { font-weight: bold; font-size: 16px; border-top: 1px solid #1c1917; padding-top: 8px; }
+      .status { display: inline-block; padding: 4px 10px; border-radius: 999px; background: #dcfce7; color: #166534; font-size: 12px; font-weight: bold; }
+      .footer { margin-top: 40px; font-size: 12px; color: #78716c; line-height: 1.6; }
+      @media print { body { background: #ffffff; padding: 0; } .invoice { padding: 0; } }
+    </style>
+  </head>
+  <body>
+    <div class="invoice">
+      <table class="header">
+        <tr>
+          <td><h1>${escapeHtml(invoice.seller.name)}</h1></td>
+          <td><h2>Invoice</h2></td>
+        </tr>
+        <tr>
+          <td style="font-size:14px;line-height:1.6;padding-top:12px;">${seller}</td>
+          <td class="meta" style="padding-top:12px;">
+            <strong>${escapeHtml(invoice.invoiceNumber)}</strong><br>
+            Issued ${escapeHtml(details.issued)}<br>
+            <span class="status">${escapeHtml(details.status)}</span>
+          </td>
+        </tr>
+      </table>
+
+      <p class="label">Billed to</p>
+      <p style="margin:0;font-size:14px;line-height:1.6;">${billedTo}</p>
+
+      <table class="items" style="margin-top:32px;">
+        <tr><th>Description</th><th class="amount">Amount</th></tr>
+        <tr>
+          <td>
+            ${escapeHtml(details.item)}
+            ${details.period ? `<br><span style="color:#78716c;font-size:12px;">${escapeHtml(details.period)}</span>` : ""}
+          </td>
+          <td class="amount">${escapeHtml(formatMoney(invoice.subtotal, invoice.currency))}</td>
+        </tr>
+      </table>
+
+      <table class="totals">
+        ${details.totals.map(([label, value]) => `<tr><td>${escapeHtml(label)}</td><td class="amount">${escapeHtml(value)}</td></tr>`).join("\n        ")}
+        <tr class="grand"><td>Total paid (${escapeHtml(invoice.currency)})</td><td class="amount">${escapeHtml(details.total)}</td></tr>
+      </table>
+
+      <div class="footer">
+        Paid on ${escapeHtml(details.paid)} via ${escapeHtml(details.paymentReference)}.<br>
+        This invoice is your receipt. Prices include ${escapeHtml(invoice.taxLabel.toLowerCase())} where it applies.
+      </div>
+    </div>
+  </body>
+</html>`;
+}
+
+/**
+ * The invoice as a single-page A4 PDF
+ */
+export function renderInvoicePdf(invoice: Invoice, payment: Payment): Promise<Buffer> {
+  const details = describeInvoice(invoice, payment);
+
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: "A4",
+      margin: 50,
+      info: { Title: `Invoice ${invoice.invoiceNumber}`, Author: invoice.seller.name },
+    });
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    const left = doc.page.margins.left;
+    const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+    const muted = "#78716c";
+
+    // Header: seller on the left, invoice number and status on the right
+    doc.font("Helvetica-Bold").fontSize(20).fillColor("#f97316").text(invoice.seller.name, left, 50);
+    doc.font("Helvetica").fontSize(10).fillColor("#1c1917");
+    if (invoice.seller.address) doc.text(invoice.seller.address, { width: width / 2 });
+    if (invoice.seller.taxId) doc.text(`${invoice.taxLabel} ID: ${invoice.seller.taxId}`);
+    const sellerBottom = doc.y;
+
+    doc.font("Helvetica-Bold").fontSize(24).text("Invoice", left, 50, { width, align: "right" });
+    doc.font("Helvetica").fontSize(10)
+      .text(invoice.invoiceNumber, { width, align: "right" })
+      .text(`Issued ${details.issued}`, { width, align: "right" })
+      .text(details.status, { width, align: "right" });
+
+    // Billed to, below whichever header column is longer
+    const billedY = Math.max(sellerBottom, doc.y) + 30;
+    doc.fillColor(muted).fontSize(9).text("BILLED TO", left, billedY);
+    doc.fillColor("#1c1917").fontSize(11).text(invoice.billedTo.name);
+    if (invoice.billedTo.email) doc.text(invoice.billedTo.email);
+
+    // Line item
+    const tableY = doc.y + 30;
+    doc.fillColor(muted).fontSize(9)
+      .text("DESCRIPTION", left, tableY)
+      .text("AMOUNT", left, tableY, { width, align: "right" });
+    doc.moveTo(left, tableY + 14).lineTo(left + width, tableY + 14).strokeColor("#e7e5e4").stroke();
+
+    doc.fillColor("#1c1917").fontSize(11)
+      .text(details.item, left, tableY + 24, { width: width - 120 })
+      .text(formatMoney(invoice.subtotal, invoice.currency), left, tableY + 24, { width, align: "right" });
+    if (details.period) {
+      doc.fillColor(muted).fontSize(9).text(details.period, left, tableY + 40);
+    }
+    doc.moveTo(left, tableY + 60).lineTo(left + width, tableY + 60).strokeColor("#e7e5e4").stroke();
+
+    // Totals, right-aligned
+    let y = tableY + 76;
+    const totalsLeft = left + width - 240;
+    doc.fillColor("#1c1917").fontSize(10);
+    for (const [label, value] of details.totals) {
+      doc.text(label, totalsLeft, y).text(value, totalsLeft, y, { width: 240, align: "right" });
+      y += 16;
+    }
+    doc.moveTo(totalsLeft, y + 2).lineTo(left + width, y + 2).strokeColor("#1c1917").stroke();
+    doc.font("Helvetica-Bold").fontSize(12)
+      .text(`Total paid (${invoice.currency})`, totalsLeft, y + 10)
+      .text(details.total, totalsLeft, y + 10, { width: 240, align: "right" });
+
+    // Footer
+    doc.font("Helvetica").fontSize(9).fillColor(muted)
+      .text(`Paid on ${details.paid} via ${details.paymentReference}.`, left, y + 60, { width })
+      .text(`This invoice is your receipt. Prices include ${invoice.taxLabel.toLowerCase()} where it applies.`, { width });
+
+    doc.end();
+  });
+}
+
+/**
+ * Render a payment's invoice, issuing it first if needed
+ * @returns The file contents, content type and a file name for downloads
+ */
+export async function renderInvoiceForPayment(paymentId: number, format: InvoiceFormat) {
+  const invoice = await getOrIssueInvoice(paymentId);
+  const payment = await getPayment(paymentId);
+
+  if (format === "pdf") {
+    return {
+      invoice,
+      content: await renderInvoicePdf(invoice, payment),
+      contentType: "application/pdf",
+      fileName: `${invoice.invoiceNumber}.pdf`,
+    };
+  }
+  return {
+    invoice,
+    content: renderInvoiceHtml(invoice, payment),
+    contentType: "text/html; charset=utf-8",
+    fileName: `${invoice.invoiceNumber}.html`,
+  };
+}
@@ -0,0 +1,350 @@
+import { db } from "./db";
+import { backgroundJobs, BackgroundJob } from "@shared/schema";
+import { and, eq, desc, inArray, lt, sql } from "drizzle-orm";
+
+/**
+ * Background Job Queue
+ *
+ * A persistent, Postgres-backed queue for work that shouldn't block a request,
+ * such as AI processing of new journal entries. Jobs are claimed with
+ * FOR UPDATE SKIP LOCKED, so several server processes can share the queue.
+ *
+ * A failed job is retried with exponential backoff until it reaches maxAttempts,
+ * then moved to the "dead" state where an admin can inspect and retry it.
+ */
+
+export type JobType =
+  | "journal-title"
+  | "journal-sentiment"
+  | "journal-embedding"
+  | "journal-suggestions"
+  | "process-all-entries"
+  | "deliver-notifications"
+  | "daily-reminders"
+  | "send-email"
+  | "weekly-digests"
+  | "paypal-webhook"
+  | "subscription-lifecycle"
+  | "auth-throttle-cleanup"
+  | "account-export"
+  | "account-export-cleanup"
+  | "journal-import"
+  | "session-registry-cleanup";
+
+export type JobStatus = "pending" | "running" | "completed" | "dead";
+
+export type JobHandler = (payload: Record<string, any>, job: BackgroundJob) => Promise<void>;
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+
+// Retry delays: 30s, 1m, 2m, 4m... capped at one hour
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+// A running job whose worker hasn't renewed its lock in this time is assumed lost (e.g. a restart)
+const STALE_LOCK_MS = 10 * 60 * 1000;
+// How often a worker renews the lock on the job it is running, well within STALE_LOCK_MS
+const HEARTBEAT_INTERVAL_MS = 60 * 1000;
+
+// Recurring jobs leave a completed row per run, so old ones are cleared out periodically
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+const handlers = new Map<JobType, JobHandler>();
+const recurringJobs = new Map<JobType, { intervalMs: number; payload: Record<string, any> }>();
+
+let workerTimer: NodeJS.Timeout | null = null;
+let workerRunning = false;
+let lastPurgeAt = 0;
+
+/**
+ * Register the function that runs jobs of a given type
+ */
+export function registerJobHandler(type: JobType, handler: JobHandler): void {
+  handlers.set(type, handler);
+}
+
+/**
+ * Add a job to the queue
+ */
+export async function enqueueJob(
+  type: JobType,
+  payload: Record<string, any> = {},
+  options: { delayMs?: number; maxAttempts?: number } = {}
+): Promise<BackgroundJob> {
+  const [job] = await db
+    .insert(backgroundJobs)
+    .values({
+      type,
+      payload,
+      maxAttempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      runAt: sql<string>`now() + ${options.delayMs ?? 0} * interval '1 millisecond'`
+    })
+    .returning();
+
+  return job;
+}
+
+/**
+ * Run a job type on a fixed interval. The next run is queued when the previous
+ * one completes or dies, so only one instance is pending at a time.
+ */
+export function scheduleRecurringJob(type: JobType, intervalMs: number, payload: Record<string, any> = {}): void {
+  recurringJobs.set(type, { intervalMs, payload });
+}
+
+function retryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1)), MAX_RETRY_DELAY_MS);
+}
+
+// Queue the first run of any recurring job that has nothing pending
+async function ensureRecurringJobs(): Promise<void> {
+  for (const [type, { payload }] of Array.from(recurringJobs.entries())) {
+    const [existing] = await db
+      .select({ id: backgroundJobs.id })
+      .from(backgroundJobs)
+      .where(
+        and(
+          eq(backgroundJobs.type, type),
+          inArray(backgroundJobs.status, ["pending", "running"])
+        )
+      )
+      .limit(1);
+
+    if (!existing) {
+      await enqueueJob(type, payload);
+      console.log(`Scheduled recurring job '${type}'`);
+    }
+  }
+}
+
+async function scheduleNextRun(job: BackgroundJob): Promise<void> {
+  const recurring = recurringJobs.get(job.type as JobType);
+  if (recurring) {
+    await enqueueJob(job.type as JobType, recurring.payload, { delayMs: recurring.intervalMs });
+  }
+}
+
+// Return jobs abandoned by a crashed or restarted worker to the queue
+async function releaseStaleJobs(): Promise<void> {
+  await db
+    .update(backgroundJobs)
+    .set({
+      status: sql`CASE WHEN ${backgroundJobs.attempts} >= ${backgroundJobs.maxAttempts} THEN 'dead' ELSE 'pending' END`,
+      lockedAt: null,
+      lastError: "Worker stopped before the job finished",
+      updatedAt: sql`now()`
+    })
+    .where(
+      and(
+        eq(backgroundJobs.status, "running"),
+        lt(backgroundJobs.lockedAt, sql`now() - ${STALE_LOCK_MS} * interval '1 millisecond'`)
+      )
+    );
+}
+
+// Atomically claim the next due job, skipping jobs locked by other workers
+async function claimNextJob(): Promise<BackgroundJob | undefined> {
+  const [job] = await db
+    .update(backgroundJobs)
+    .set({
+      status: "running",
+      attempts: sql`${backgroundJobs.attempts} + 1`,
+      lockedAt: sql`now()`,
+      updatedAt: sql`now()`
+    })
+    .where(
+      eq(
+        backgroundJobs.id,
+        sql`(
+          SELECT id FROM background_jobs
+          WHERE status = 'pending' AND run_at <= now()
+          ORDER BY run_at
+          LIMIT 1
+          FOR UPDATE SKIP LOCKED
+        )`
+      )
+    )
+    .returning();
+
+  return job;
+}
+
+// Keep a long job's lock fresh so it isn't released to another worker while it runs
+function startHeartbeat(job: BackgroundJob): NodeJS.Timeout {
+  return setInterval(() => {
+    db.update(backgroundJobs)
+      .set({ lockedAt: sql`now()` })
+      .where(and(eq(backgroundJobs.id, job.id), eq(backgroundJobs.status, "running")))
+      .catch(error => console.error(`Failed to renew the lock on job ${job.id}:`, error));
+  }, HEARTBEAT_INTERVAL_MS);
+}
+
+async function runJob(job: BackgroundJob): Promise<void> {
+  const handler = handlers.get(job.type as JobType);
+  const heartbeat = startHeartbeat(job);
+
+  try {
+    if (!handler) {
+      throw new Error(`No handler registered for job type '${job.type}'`);
+    }
+
+    await handler(job.payload, job);
+
+    await db
+      .update(backgroundJobs)
+      .set({ status: "completed", lockedAt: null, completedAt: sql`now()`, updatedAt: sql`now()` })
+      .where(eq(backgroundJobs.id, job.id));
+
+    await scheduleNextRun(job);
+  } catch (error: any) {
+    const message = error?.message || String(error);
+
+    if (job.attempts >= job.maxAttempts) {
+      console.error(`❌ Job ${job.id} (${job.type}) failed permanently after ${job.attempts} attempts:`, error);
+      await db
+        .update(backgroundJobs)
+        .set({ status: "dead", lockedAt: null, lastError: message, updatedAt: sql`now()` })
+        .where(eq(backgroundJobs.id, job.id));
+
+      await scheduleNextRun(job);
+      return;
+    }
+
+    const delayMs = retryDelay(job.attempts);
+    console.error(`Job ${job.id} (${job.type}) failed on attempt ${job.attempts}, retrying in ${Math.round(delayMs / 1000)}s:`, message);
+    await db
+      .update(backgroundJobs)
+      .set({
+        status: "pending",
+        lockedAt: null,
+        lastError: message,
+        runAt: sql`now() + ${delayMs} * interval '1 millisecond'`,
+        updatedAt: sql`now()`
+      })
+      .where(eq(backgroundJobs.id, job.id));
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/**
+ * Run every job that is currently due, one at a time
+ * @returns Number of jobs run
+ */
+export async function runDueJobs(): Promise<number> {
+  await releaseStaleJobs();
+  await ensureRecurringJobs();
+
+  let count = 0;
+  let job = await claimNextJob();
+  while (job) {
+    await runJob(job);
+    count++;
+    job = await claimNextJob();
+  }
+
+  return count;
+}
+
+/**
+ * Start polling the queue in this process
+ */
+export function startJobWorker(pollIntervalMs: number = DEFAULT_POLL_INTERVAL_MS): void {
+  if (workerTimer || workerRunning) return;
+  workerRunning = true;
+
+  const poll = async () => {
+    try {
+      await runDueJobs();
+
+      if (Date.now() - lastPurgeAt > PURGE_INTERVAL_MS) {
+        lastPurgeAt = Date.now();
+        await purgeCompletedJobs();
+      }
+    } catch (error) {
+      console.error("Error polling background job queue:", error);
+    }
+
+    if (workerRunning) {
+      workerTimer = setTimeout(poll, pollIntervalMs);
+    }
+  };
+
+  console.log(`Background job worker started (polling every ${pollIntervalMs}ms)`);
+  poll();
+}
+
+/**
+ * Stop polling the queue. A job already running is allowed to finish.
+ */
+export function stopJobWorker(): void {
+  workerRunning = false;
+  if (workerTimer) {
+    clearTimeout(workerTimer);
+    workerTimer = null;
+  }
+}
+
+/**
+ * Get job counts grouped by type and status, for the admin view
+ */
+export async function getJobStats() {
+  return await db
+    .select({
+      type: backgroundJobs.type,
+      status: backgroundJobs.status,
+      count: sql<number>`COUNT(*)::int`
+    })
+    .from(backgroundJobs)
+    .groupBy(backgroundJobs.type, backgroundJobs.status)
+    .orderBy(backgroundJobs.type, backgroundJobs.status);
+}
+
+/**
+ * List jobs, newest first, optionally filtered by status and type
+ */
+export async function listJobs(filters: { status?: JobStatus; type?: JobType; limit?: number; offset?: number } = {}): Promise<BackgroundJob[]> {
+  const conditions = [];
+  if (filters.status) conditions.push(eq(backgroundJobs.status, filters.status));
+  if (filters.type) conditions.push(eq(backgroundJobs.type, filters.type));
+
+  return await db
+    .select()
+    .from(backgroundJobs)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(backgroundJobs.updatedAt))
+    .limit(filters.limit ?? 50)
+    .offset(filters.offset ?? 0);
+}
+
+/**
+ * Move a dead job back to the queue with a fresh set of attempts
+ */
+export async function retryJob(id: number): Promise<BackgroundJob | undefined> {
+  const [job] = await db
+    .update(backgroundJobs)
+    .set({ status: "pending", attempts: 0, runAt: sql`now()`, lockedAt: null, updatedAt: sql`now()` })
+    .where(and(eq(backgroundJobs.id, id), eq(backgroundJobs.status, "dead")))
+    .returning();
+
+  return job;
+}
+
+/**
+ * Delete completed jobs older than the given number of days
+ * @returns Number of jobs deleted
+ */
+export async function purgeCompletedJobs(olderThanDays: number = 7): Promise<number> {
+  const deleted = await db
+    .delete(backgroundJobs)
+    .where(
+      and(
+        eq(backgroundJobs.status, "completed"),
+        lt(backgroundJobs.completedAt, sql`now() - ${olderThanDays} * interval '1 day'`)
+      )
+    )
+    .returning({ id: backgroundJobs.id });
+
+  return deleted.length;
+}
@@ -0,0 +1,802 @@
+import * as crypto from "crypto";
+import JSZip from "jszip";
+import { db } from "./db";
+import { storage } from "./storage";
+import { backgroundJobs, journalEntries, journalImports, JournalImport, JournalImportItem } from "@shared/schema";
+import { and, desc, eq, inArray, isNull, sql } from "drizzle-orm";
+import { enqueueJob, registerJobHandler } from "./job-queue";
+import { enqueueJournalEntryProcessing } from "./journal-jobs";
+import { FeatureLimitService, QuotaExceededError } from "./hooks/use-feature-limits";
+import { publishToUser } from "./realtime";
+import { parseDbTimestamp, resolveTimeZone, zonedTimeToUtc } from "./schedule-utils";
+
+/**
+ * Journal Import
+ *
+ * Brings existing journals into Hope Log from:
+ *   Day One     the JSON export (Journal.json), or the zip it comes in
+ *   Journey     the zip of one JSON file per entry, or the files themselves
+ *   Markdown    .md files, with optional front matter (title, date); a leading
+ *               "# Heading" becomes the title. Hope Log's own Markdown export
+ *               imports back with its titles and chat transcripts.
+ *   Plain text  .txt files
+ *   CSV         a header row with a date column and a content column (text,
+ *               body, entry...), and optionally a title column
+ * Folders of files can be uploaded as a zip.
+ *
+ * Entries keep their original dates. Markdown and text files without a date in
+ * front matter take it from a YYYY-MM-DD at the start of the file name. Dates
+ * without a time zone are read in the user's time zone, and dates without a
+ * time are placed at noon.
+ *
+ * Files are parsed when uploaded; the 'journal-import' job then saves the
+ * entries, skipping any with the same content on the same day as an existing
+ * entry or one earlier in the import. Saved entries count towards the plan's
+ * journal entry limit and are queued for titles, sentiment and embeddings, but
+ * not suggestions. Every entry ends up in the import's report as imported,
+ * duplicate or failed, with the reason.
+ */
+
+export type ImportSource = "day-one" | "journey" | "markdown" | "text" | "csv";
+
+export const MAX_IMPORT_FILE_BYTES = 25 * 1024 * 1024;
+export const MAX_IMPORT_FILES = 20;
+// All the files in one upload together, as they are held in memory while parsed
+export const MAX_IMPORT_UPLOAD_BYTES = 50 * 1024 * 1024;
+// Total size of the files inside uploaded zips
+const MAX_EXTRACTED_BYTES = 100 * 1024 * 1024;
+const MAX_IMPORT_ENTRIES = 5000;
+const MAX_ENTRY_LENGTH = 100_000;
+// How often the job saves its progress, in entries
+const PROGRESS_INTERVAL = 50;
+// Runs of the import job; a run lost to a restart resumes, skipping entries already saved
+const IMPORT_JOB_ATTEMPTS = 3;
+
+const TEXT_EXTENSIONS: Record<string, ImportSource> = {
+  ".md": "markdown",
+  ".markdown": "markdown",
+  ".txt": "text",
+};
+
+/**
+ * An import can't be started, e.g. an upload is too large or another import is running
+ */
+export class JournalImportError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "JournalImportError";
+  }
+}
+
+export interface ImportFile {
+  name: string;
+  data: Buffer;
+}
+
+// An entry read from a file, saved by the import job
+export interface ParsedEntry {
+  file: string;
+  source: ImportSource;
+  date: string; // ISO 8601
+  title: string | null;
+  content: string;
+  transcript: string | null;
+  isAiResponse: boolean;
+}
+
+// An import's details without its report or pending entries
+export type JournalImportSummary = Omit<JournalImport, "items" | "pendingEntries">;
+// An import with its report
+export type JournalImportDetails = Omit<JournalImport, "pendingEntries">;
+
+const summaryColumns = {
+  id: journalImports.id,
+  userId: journalImports.userId,
+  status: journalImports.status,
+  fileNames: journalImports.fileNames,
+  sources: journalImports.sources,
+  totalCount: journalImports.totalCount,
+  importedCount: journalImports.importedCount,
+  duplicateCount: journalImports.duplicateCount,
+  failedCount: journalImports.failedCount,
+  error: journalImports.error,
+  jobId: journalImports.jobId,
+  completedAt: journalImports.completedAt,
+  createdAt: journalImports.createdAt,
+};
+
+const detailColumns = { ...summaryColumns, items: journalImports.items };
+
+// ------------------------
+// Dates and text
+// ------------------------
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/i;
+
+/**
+ * Read a date from an import. Numbers are Unix times (seconds or milliseconds);
+ * ISO-style dates without an offset are in the user's time zone.
+ */
+export function parseImportDate(value: unknown, timeZone: string): Date | null {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return new Date(value > 1e11 ? value : value * 1000);
+  }
+  if (typeof value !== "string" || !value.trim()) return null;
+
+  const text = value.trim();
+  const match = text.match(DATE_PATTERN);
+  if (match) {
+    const [, year, month, day, hour, minute, second, offset] = match;
+    if (offset) {
+      const date = new Date(text.replace(" ", "T"));
+      return isNaN(date.getTime()) ? null : date;
+    }
+    const date = zonedTimeToUtc({
+      year: Number(year),
+      month: Number(month),
+      day: Number(day),
+      hour: hour ? Number(hour) : 12,
+      minute: minute ? Number(minute) : 0,
+    }, timeZone);
+    date.setUTCSeconds(second ? Number(second) : 0);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  // Anything else the JavaScript parser understands, e.g. "January 5, 2021 9:30 PM"
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// The date at the start of a file name, e.g. 2021-03-04 or 2021-03-04 21.30
+function dateFromFileName(path: string, timeZone: string): Date | null {
+  const base = path.split("/").pop() ?? path;
+  const match = base.match(/^(\d{4}-\d{2}-\d{2})(?:[ T_](\d{2})[.:h-]?(\d{2}))?/);
+  if (!match) return null;
+  return parseImportDate(match[2] ? `${match[1]} ${match[2]}:${match[3]}` : match[1], timeZone);
+}
+
+function decodeText(data: Buffer): string {
+  return data.toString("utf8").replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+}
+
+function decodeHtmlEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&#(\d+);/g, (entity, code) => Number(code) <= 0x10ffff ? String.fromCodePoint(Number(code)) : entity)
+    .replace(/&amp;/g, "&");
+}
+
+// Journey stores entries as HTML in newer versions
+function htmlToText(html: string): string {
+  const text = html
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<li[^>]*>/gi, "- ")
+    .replace(/<\/(p|div|h[1-6]|li|blockquote)>/gi, "\n\n")
+    .replace(/<[^>]+>/g, "");
+  return decodeHtmlEntities(text).replace(/\n{3,}/g, "\n\n");
+}
+
+// Take a leading "# Heading" off Markdown as the title
+function splitHeading(content: string): { title: string | null; content: string } {
+  const match = content.match(/^\s*#\s+(.+)\n?/);
+  if (!match) return { title: null, content };
+  return { title: match[1].trim(), content: content.slice(match[0].length) };
+}
+
+function reportLabel(file: string, index: number, count: number): string {
+  return count > 1 ? `${file} #${index + 1}` : file;
+}
+
+// ------------------------
+// Formats
+// ------------------------
+
+interface FileResult {
+  entries: ParsedEntry[];
+  failures: JournalImportItem[];
+  source: ImportSource | null;
+}
+
+interface EntryFields {
+  date: unknown;
+  title?: string | null;
+  content: string;
+  transcript?: string | null;
+  isAiResponse?: boolean;
+}
+
+// Check one entry's fields, adding it to the result or recording why it failed
+function addEntry(result: FileResult, label: string, source: ImportSource, fields: EntryFields, timeZone: string, fallbackDate: Date | null = null) {
+  const content = fields.content.trim();
+  const date = parseImportDate(fields.date, timeZone) ?? fallbackDate;
+
+  let error: string | undefined;
+  if (!content) {
+    error = "The entry is empty";
+  } else if (content.length > MAX_ENTRY_LENGTH) {
+    error = `The entry is longer than ${MAX_ENTRY_LENGTH.toLocaleString("en-US")} characters`;
+  } else if (!date) {
+    error = fields.date
+      ? `Couldn't read the date "${String(fields.date).slice(0, 50)}"`
+      : source === "markdown" || source === "text"
+        ? "No date found. Add a date to the front matter or start the file name with YYYY-MM-DD."
+        : "No date found";
+  }
+
+  const title = fields.title?.trim().slice(0, 200) || null;
+  if (error || !date) {
+    result.failures.push({ file: label, status: "failed", title, error });
+    return;
+  }
+
+  result.entries.push({
+    file: label,
+    source,
+    date: date.toISOString(),
+    title,
+    content,
+    transcript: fields.transcript?.trim() || null,
+    isAiResponse: fields.isAiResponse ?? false,
+  });
+}
+
+// Day One escapes Markdown punctuation and links photos as dayone-moment:// images
+function cleanDayOneText(text: string): string {
+  return text
+    .replace(/!\[[^\]]*\]\(dayone-moment:[^)]*\)\n?/g, "")
+    .replace(/\\([\\`*_{}[\]()#+\-.!>~|])/g, "$1");
+}
+
+function parseDayOne(file: string, json: { entries: any[] }, timeZone: string): FileResult {
+  const result: FileResult = { entries: [], failures: [], source: "day-one" };
+  json.entries.forEach((entry, index) => {
+    const { title, content } = splitHeading(cleanDayOneText(String(entry?.text ?? "")));
+    addEntry(result, reportLabel(file, index, json.entries.length), "day-one", {
+      date: entry?.creationDate,
+      title,
+      content,
+    }, timeZone);
+  });
+  return result;
+}
+
+function parseJourney(file: string, entries: any[], timeZone: string): FileResult {
+  const result: FileResult = { entries: [], failures: [], source: "journey" };
+  entries.forEach((entry, index) => {
+    const text = String(entry?.text ?? "");
+    addEntry(result, reportLabel(file, index, entries.length), "journey", {
+      date: entry?.date_journal,
+      title: typeof entry?.title === "string" ? entry.title : null,
+      content: /<\/?(p|br|div|span|ul|ol|li|h[1-6]|strong|em)\b/i.test(text) ? htmlToText(text) : text,
+    }, timeZone);
+  });
+  return result;
+}
+
+function isJourneyEntry(value: any): boolean {
+  return value && typeof value === "object" && "text" in value && "date_journal" in value;
+}
+
+function parseJsonFile(file: string, data: Buffer, timeZone: string): FileResult {
+  let json: any;
+  try {
+    json = JSON.parse(decodeText(data));
+  } catch {
+    throw new JournalImportError("This isn't valid JSON");
+  }
+
+  if (json && Array.isArray(json.entries) && (json.metadata || json.entries.some((entry: any) => entry?.creationDate))) {
+    return parseDayOne(file, json, timeZone);
+  }
+  if (isJourneyEntry(json)) {
+    return parseJourney(file, [json], timeZone);
+  }
+  if (Array.isArray(json) && json.length > 0 && json.every(isJourneyEntry)) {
+    return parseJourney(file, json, timeZone);
+  }
+  throw new JournalImportError("This JSON file isn't a Day One or Journey export");
+}
+
+// Front matter between --- lines; values may be JSON or plain text
+function parseFrontMatter(text: string): { fields: Record<string, unknown> | null; body: string } {
+  const match = text.match(/^---\n([\s\S]*?)\n---\n?/);
+  if (!match) return { fields: null, body: text };
+
+  const fields: Record<string, unknown> = {};
+  for (const line of match[1].split("\n")) {
+    const field = line.match(/^([A-Za-z_][\w-]*):\s*(.*)$/);
+    if (!field) continue;
+    const raw = field[2].trim();
+    try {
+      fields[field[1].toLowerCase()] = JSON.parse(raw);
+    } catch {
+      fields[field[1].toLowerCase()] = raw.replace(/^(['"])(.*)\1$/, "$2");
+    }
+  }
+  return { fields, body: text.slice(match[0].length) };
+}
+
+function parseTextFile(file: string, data: Buffer, source: ImportSource, timeZone: string): FileResult {
+  const result: FileResult = { entries: [], failures: [], source };
+  const { fields, body } = parseFrontMatter(decodeText(data));
+
+  let { title, content } = source === "markdown" ? splitHeading(body) : { title: null, content: body };
+  if (typeof fields?.title === "string") title = fields.title;
+
+  // Hope Log's Markdown export puts the chat transcript under its own heading
+  let transcript: string | null = null;
+  const conversation = fields ? content.indexOf("\n## Conversation\n") : -1;
+  if (conversation >= 0) {
+    transcript = content.slice(conversation + "\n## Conversation\n".length);
+    content = content.slice(0, conversation);
+  }
+
+  addEntry(result, file, source, {
+    date: fields?.date ?? fields?.created ?? fields?.created_at,
+    title,
+    content,
+    transcript,
+    isAiResponse: fields?.type === "ai",
+  }, timeZone, dateFromFileName(file, timeZone));
+  return result;
+}
+
+/**
+ * Split CSV text into rows of fields (RFC 4180: quoted fields may hold commas,
+ * quotes as "" and line breaks)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n") {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+}
+
+const CSV_HEADERS = {
+  date: ["date", "created", "created_at", "createdat", "creation date", "timestamp", "datetime", "entry date", "time"],
+  content: ["content", "text", "body", "entry", "journal", "note", "notes", "message"],
+  title: ["title", "subject", "heading"],
+  transcript: ["transcript"],
+  type: ["type"],
+};
+
+function findColumn(headers: string[], names: string[]): number {
+  return headers.findIndex(header => names.includes(header));
+}
+
+// Hope Log's CSV export guards formula-like cells with a leading '
+function unguardCell(value: string): string {
+  return /^'[=+\-@\t\r]/.test(value) ? value.slice(1) : value;
+}
+
+function parseCsvFile(file: string, data: Buffer, timeZone: string): FileResult {
+  const [headerRow, ...rows] = parseCsv(decodeText(data));
+  if (!headerRow) throw new JournalImportError("This CSV file is empty");
+
+  const headers = headerRow.map(header => header.trim().toLowerCase());
+  const columns = {
+    date: findColumn(headers, CSV_HEADERS.date),
+    content: findColumn(headers, CSV_HEADERS.content),
+    title: findColumn(headers, CSV_HEADERS.title),
+    transcript: findColumn(headers, CSV_HEADERS.transcript),
+    type: findColumn(headers, CSV_HEADERS.type),
+  };
+  if (columns.content < 0) throw new JournalImportError("No content column found (e.g. content, text or body)");
+  if (columns.date < 0) throw new JournalImportError("No date column found (e.g. date or created_at)");
+
+  const result: FileResult = { entries: [], failures: [], source: "csv" };
+  const cell = (cells: string[], index: number) => index >= 0 ? unguardCell(cells[index] ?? "") : "";
+  rows.forEach((cells, index) => {
+    addEntry(result, `${file} row ${index + 2}`, "csv", {
+      date: cell(cells, columns.date),
+      title: cell(cells, columns.title),
+      content: cell(cells, columns.content),
+      transcript: cell(cells, columns.transcript),
+      isAiResponse: cell(cells, columns.type) === "ai",
+    }, timeZone);
+  });
+  return result;
+}
+
+function extensionOf(name: string): string {
+  const match = name.toLowerCase().match(/\.[a-z0-9]+$/);
+  return match ? match[0] : "";
+}
+
+function parseFile(file: ImportFile, timeZone: string): FileResult {
+  const extension = extensionOf(file.name);
+  if (extension === ".json") return parseJsonFile(file.name, file.data, timeZone);
+  if (extension === ".csv") return parseCsvFile(file.name, file.data, timeZone);
+  return parseTextFile(file.name, file.data, TEXT_EXTENSIONS[extension], timeZone);
+}
+
+function isSupported(name: string): boolean {
+  const extension = extensionOf(name);
+  return extension === ".json" || extension === ".csv" || extension in TEXT_EXTENSIONS;
+}
+
+// Read a file from a zip, stopping once the zip's total size limit is reached
+function readZipEntry(entry: JSZip.JSZipObject, budget: { remaining: number }): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    const stream = entry.nodeStream();
+    stream.on("data", (chunk: Buffer) => {
+      budget.remaining -= chunk.length;
+      if (budget.remaining < 0) {
+        stream.pause();
+        reject(new JournalImportError(`The zip files are larger than ${MAX_EXTRACTED_BYTES / (1024 * 1024)} MB when unpacked`, 413));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on("end", () => resolve(Buffer.concat(chunks)));
+    stream.on("error", reject);
+  });
+}
+
+/**
+ * Unpack zips into the files they hold. Files in a zip that can't be imported,
+ * such as Day One photos, are left out; other unsupported uploads are reported.
+ */
+async function expandFiles(files: ImportFile[]): Promise<{ files: ImportFile[]; failures: JournalImportItem[] }> {
+  const expanded: ImportFile[] = [];
+  const failures: JournalImportItem[] = [];
+  const budget = { remaining: MAX_EXTRACTED_BYTES };
+
+  for (const file of files) {
+    if (extensionOf(file.name) !== ".zip") {
+      if (isSupported(file.name)) {
+        expanded.push(file);
+      } else {
+        failures.push({
+          file: file.name,
+          status: "failed",
+          error: "Unsupported file type. Upload Day One or Journey JSON, Markdown, text or CSV files, or a zip of them.",
+        });
+      }
+      continue;
+    }
+
+    let zip: JSZip;
+    try {
+      zip = await JSZip.loadAsync(file.data);
+    } catch {
+      failures.push({ file: file.name, status: "failed", error: "This zip file couldn't be opened" });
+      continue;
+    }
+
+    const entries = Object.values(zip.files)
+      .filter(entry => !entry.dir && isSupported(entry.name))
+      .filter(entry => !entry.name.split("/").some(part => part.startsWith(".") || part === "__MACOSX"))
+      .sort((a, b) => a.name.localeCompare(b.name));
+    if (entries.length === 0) {
+      failures.push({ file: file.name, status: "failed", error: "No journal files found in this zip" });
+    }
+    for (const entry of entries) {
+      expanded.push({ name: `${file.name}/${entry.name}`, data: await readZipEntry(entry, budget) });
+    }
+  }
+
+  return { files: expanded, failures };
+}
+
+/**
+ * Read the entries from uploaded files, oldest first, with a failure for each
+ * file or entry that couldn't be read
+ * @throws JournalImportError if the upload is too large
+ */
+export async function parseImportFiles(
+  files: ImportFile[],
+  timeZone: string
+): Promise<{ entries: ParsedEntry[]; failures: JournalImportItem[]; sources: ImportSource[] }> {
+  const { files: expanded, failures } = await expandFiles(files);
+  const entries: ParsedEntry[] = [];
+  const sources = new Set<ImportSource>();
+
+  for (const file of expanded) {
+    try {
+      const result = parseFile(file, timeZone);
+      entries.push(...result.entries);
+      failures.push(...result.failures);
+      if (result.source && result.entries.length > 0) sources.add(result.source);
+    } catch (error) {
+      if (!(error instanceof JournalImportError)) throw error;
+      failures.push({ file: file.name, status: "failed", error: error.message });
+    }
+  }
+
+  if (entries.length > MAX_IMPORT_ENTRIES) {
+    throw new JournalImportError(
+      `These files hold ${entries.length.toLocaleString("en-US")} entries. Please import at most ${MAX_IMPORT_ENTRIES.toLocaleString("en-US")} at a time.`,
+      413
+    );
+  }
+
+  entries.sort((a, b) => a.date.localeCompare(b.date));
+  return { entries, failures, sources: Array.from(sources) };
+}
+
+// ------------------------
+// Requests and the import job
+// ------------------------
+
+// Entries with the same content on the same (UTC) day are duplicates
+// An entry's content with whitespace collapsed and lower-cased, hashed; must match contentHashSql.
+// Only ASCII whitespace and letters are normalized: what counts as Unicode whitespace or
+// case differs between JavaScript and the database's locale, and the hashes must agree.
+function contentHash(content: string): string {
+  const normalized = content
+    .replace(/[ \t\n\r\f\v]+/g, " ")
+    .replace(/^ | $/g, "")
+    .replace(/[A-Z]/g, letter => letter.toLowerCase());
+  return crypto.createHash("sha256").update(normalized).digest("hex");
+}
+
+// contentHash worked out in the database, so existing entries' content isn't loaded
+const contentHashSql = sql<string>`encode(sha256(convert_to(translate(btrim(regexp_replace(${journalEntries.content}, '[ \\t\\n\\r\\f\\v]+', ' ', 'g'), ' '), 'ABCDEFGHIJKLMNOPQRSTUVWXYZ', 'abcdefghijklmnopqrstuvwxyz'), 'UTF8')), 'hex')`;
+
+function duplicateKey(date: Date, hash: string): string {
+  return `${date.toISOString().slice(0, 10)}:${hash}`;
+}
+
+/**
+ * Parse uploaded files and queue their entries for import. An upload with
+ * nothing to import is reported as completed straight away.
+ * @throws JournalImportError if another import is running or the upload is too large
+ */
+export async function requestJournalImport(userId: number, files: ImportFile[]): Promise<JournalImportSummary> {
+  if (files.length === 0) {
+    throw new JournalImportError("Choose at least one file to import");
+  }
+
+  await failAbandonedImports(userId);
+  const [inProgress] = await db
+    .select({ id: journalImports.id })
+    .from(journalImports)
+    .where(and(eq(journalImports.userId, userId), inArray(journalImports.status, ["pending", "running"])))
+    .limit(1);
+  if (inProgress) {
+    throw new JournalImportError("An import is already running. Please wait for it to finish.", 409);
+  }
+
+  const preferences = await storage.getNotificationPreferencesByUserId(userId);
+  const { entries, failures, sources } = await parseImportFiles(files, resolveTimeZone(preferences?.timezone));
+  const nothingToImport = entries.length === 0;
+
+  const [created] = await db
+    .insert(journalImports)
+    .values({
+      userId,
+      status: nothingToImport ? "completed" : "pending",
+      fileNames: files.map(file => file.name),
+      sources,
+      pendingEntries: nothingToImport ? null : entries as unknown as Record<string, any>[],
+      totalCount: entries.length + failures.length,
+      failedCount: failures.length,
+      items: failures,
+      completedAt: nothingToImport ? new Date().toISOString() : null,
+    })
+    .returning(summaryColumns);
+
+  if (nothingToImport) return created;
+
+  const job = await enqueueJob("journal-import", { importId: created.id }, { maxAttempts: IMPORT_JOB_ATTEMPTS });
+  const [journalImport] = await db
+    .update(journalImports)
+    .set({ jobId: job.id })
+    .where(eq(journalImports.id, created.id))
+    .returning(summaryColumns);
+
+  return journalImport;
+}
+
+/**
+ * Mark a user's imports failed when their job died without finishing them,
+ * e.g. the server restarted during the last run
+ */
+async function failAbandonedImports(userId: number): Promise<void> {
+  const deadJobs = db
+    .select({ id: backgroundJobs.id })
+    .from(backgroundJobs)
+    .where(inArray(backgroundJobs.status, ["completed", "dead"]));
+
+  await db
+    .update(journalImports)
+    .set({ status: "failed", pendingEntries: null, error: "The import stopped before it finished" })
+    .where(and(
+      eq(journalImports.userId, userId),
+      inArray(journalImports.status, ["pending", "running"]),
+      inArray(journalImports.jobId, deadJobs)
+    ));
+}
+
+/**
+ * A user's imports, newest first
+ */
+export async function listJournalImports(userId: number, limit: number = 10): Promise<JournalImportSummary[]> {
+  await failAbandonedImports(userId);
+  return await db
+    .select(summaryColumns)
+    .from(journalImports)
+    .where(eq(journalImports.userId, userId))
+    .orderBy(desc(journalImports.createdAt))
+    .limit(limit);
+}
+
+/**
+ * An import with its report
+ */
+export async function getJournalImport(userId: number, importId: number): Promise<JournalImportDetails | undefined> {
+  const [journalImport] = await db
+    .select(detailColumns)
+    .from(journalImports)
+    .where(and(eq(journalImports.id, importId), eq(journalImports.userId, userId)));
+  return journalImport;
+}
+
+async function notifyImportFinished(journalImport: JournalImportSummary): Promise<void> {
+  const completed = journalImport.status === "completed";
+  const parts = [`${journalImport.importedCount} ${journalImport.importedCount === 1 ? "entry" : "entries"} imported`];
+  if (journalImport.duplicateCount > 0) parts.push(`${journalImport.duplicateCount} already in your journal`);
+  if (journalImport.failedCount > 0) parts.push(`${journalImport.failedCount} couldn't be imported`);
+
+  const notification = await storage.createNotification({
+    userId: journalImport.userId,
+    title: completed ? "Your journal import is finished" : "Your journal import stopped",
+    message: completed
+      ? `${parts.join(", ")}. See the full report in Settings → Data & Export.`
+      : `Something went wrong after ${parts[0]}. Please try the rest again.`,
+    type: "system",
+    status: "unread",
+    metadata: { journalImportId: journalImport.id },
+  });
+  publishToUser(journalImport.userId, { type: "notification-created", notification });
+}
+
+/**
+ * Save a queued import's entries, skipping duplicates, and queue their AI
+ * processing. Stops importing once the plan's journal entry limit is reached.
+ * An import left running by a lost job run starts over; the entries that run
+ * saved are found as duplicates.
+ */
+export async function runJournalImport(importId: number): Promise<void> {
+  const [journalImport] = await db
+    .update(journalImports)
+    .set({ status: "running" })
+    .where(and(eq(journalImports.id, importId), inArray(journalImports.status, ["pending", "running"])))
+    .returning();
+  if (!journalImport) return;
+
+  const { userId } = journalImport;
+  const entries = (journalImport.pendingEntries ?? []) as unknown as ParsedEntry[];
+  const items: JournalImportItem[] = [...journalImport.items];
+  const counts = { importedCount: 0, duplicateCount: 0, failedCount: journalImport.failedCount };
+
+  try {
+    const existing = await db
+      .select({ date: journalEntries.date, contentHash: contentHashSql })
+      .from(journalEntries)
+      .where(and(eq(journalEntries.userId, userId), isNull(journalEntries.deletedAt)));
+    const seen = new Set(existing.map(entry => duplicateKey(parseDbTimestamp(entry.date), entry.contentHash)));
+
+    let limitReached: string | null = null;
+    for (const [index, parsed] of Array.from(entries.entries())) {
+      const report = { file: parsed.file, date: parsed.date, title: parsed.title };
+      const key = duplicateKey(new Date(parsed.date), contentHash(parsed.content));
+
+      if (seen.has(key)) {
+        items.push({ ...report, status: "duplicate" });
+        counts.duplicateCount++;
+      } else if (limitReached) {
+        items.push({ ...report, status: "failed", error: limitReached });
+        counts.failedCount++;
+      } else {
+        try {
+          await FeatureLimitService.consume(userId, "journalEntries");
+        } catch (error) {
+          if (!(error instanceof QuotaExceededError)) throw error;
+          limitReached = error.message;
+        }
+
+        if (limitReached) {
+          items.push({ ...report, status: "failed", error: limitReached });
+          counts.failedCount++;
+        } else {
+          try {
+            const entry = await storage.createJournalEntry({
+              userId,
+              content: parsed.content,
+              date: parsed.date,
+              title: parsed.title,
+              isAiResponse: parsed.isAiResponse,
+              isJournal: true,
+              transcript: parsed.transcript,
+              analyzed: true, // Kept out of the suggestions sweep
+            });
+            seen.add(key);
+            items.push({ ...report, status: "imported", entryId: entry.id });
+            counts.importedCount++;
+
+            try {
+              await enqueueJournalEntryProcessing(entry, { suggestions: false });
+            } catch (queueError) {
+              console.error(`Failed to queue AI processing for imported entry ${entry.id}:`, queueError);
+            }
+          } catch (saveError) {
+            console.error(`Error saving imported entry from ${parsed.file}:`, saveError);
+            await FeatureLimitService.release(userId, "journalEntries");
+            items.push({ ...report, status: "failed", error: "This entry couldn't be saved" });
+            counts.failedCount++;
+          }
+        }
+      }
+
+      // Save progress so the report can be followed while the import runs
+      if ((index + 1) % PROGRESS_INTERVAL === 0) {
+        await db.update(journalImports).set(counts).where(eq(journalImports.id, importId));
+      }
+    }
+
+    const [completed] = await db
+      .update(journalImports)
+      .set({ ...counts, status: "completed", items, pendingEntries: null, completedAt: new Date().toISOString() })
+      .where(eq(journalImports.id, importId))
+      .returning(summaryColumns);
+
+    await notifyImportFinished(completed);
+  } catch (error: any) {
+    // Entries saved so far stay, so the import isn't retried; importing the same files again skips them
+    const [failed] = await db
+      .update(journalImports)
+      .set({ ...counts, status: "failed", items, pendingEntries: null, error: error?.message || String(error) })
+      .where(eq(journalImports.id, importId))
+      .returning(summaryColumns);
+
+    await notifyImportFinished(failed);
+    throw error;
+  }
+}
+
+/**
+ * Register the journal import job handler
+ */
+export function registerJournalImportJobs(): void {
+  registerJobHandler("journal-import", async (payload) => {
+    await runJournalImport(Number(payload.importId));
+  });
+}
@@ -0,0 +1,191 @@
+import { db } from "./db";
+import { storage } from "./storage";
+import { journalEmbeddings, JournalEntry } from "@shared/schema";
+import { eq } from "drizzle-orm";
+import { analyzeSentiment, generateJournalTitle, storeEmbedding } from "./openai";
+import { processSingleEntry, processAllEntries } from "./ai-suggestion-module";
+import { TokenLimitExceededError } from "./token-usage";
+import { registerJobHandler, scheduleRecurringJob, enqueueJob } from "./job-queue";
+
+/**
+ * Journal Processing Jobs
+ *
+ * AI work for a saved journal entry (title, sentiment, embedding and suggestions)
+ * runs through the background job queue so a slow or failing model call doesn't
+ * block the request, and failures are retried instead of lost.
+ */
+
+// How often unanalyzed entries for all users are swept up by processAllEntries
+const PROCESS_ALL_ENTRIES_INTERVAL_MS = 60 * 60 * 1000;
+
+// Entries shorter than this don't have enough content for useful suggestions
+const MIN_SUGGESTION_CONTENT_LENGTH = 100;
+
+interface JournalJobPayload {
+  journalEntryId: number;
+  // Create goals the sentiment analysis marks as new (chat transcripts only)
+  createNewGoals?: boolean;
+}
+
+// Load the entry a job refers to. Returns undefined if it was deleted in the meantime.
+async function getEntryForJob(payload: Record<string, any>): Promise<JournalEntry | undefined> {
+  const entry = await storage.getJournalEntryById(payload.journalEntryId);
+  if (!entry || entry.deletedAt) {
+    console.log(`Journal entry ${payload.journalEntryId} no longer exists, skipping job`);
+    return undefined;
+  }
+  return entry;
+}
+
+function textForEntry(entry: JournalEntry): string {
+  return entry.transcript || entry.content;
+}
+
+async function runTitleJob(payload: Record<string, any>): Promise<void> {
+  const entry = await getEntryForJob(payload);
+  if (!entry || entry.title) return;
+
+  try {
+    const title = await generateJournalTitle(textForEntry(entry), entry.userId);
+    await storage.updateJournalEntry(entry.id, { title });
+    console.log(`Generated title for journal entry ${entry.id}: ${title}`);
+  } catch (error) {
+    // Retrying won't help until the user's budget resets; the client shows a content preview instead
+    if (error instanceof TokenLimitExceededError) {
+      console.log(`Skipping title for entry ${entry.id}: ${error.message}`);
+      return;
+    }
+    throw error;
+  }
+}
+
+async function runSentimentJob(payload: Record<string, any>): Promise<void> {
+  const entry = await getEntryForJob(payload);
+  if (!entry) return;
+
+  let sentiment;
+  try {
+    sentiment = await analyzeSentiment(textForEntry(entry), entry.userId);
+  } catch (error) {
+    if (error instanceof TokenLimitExceededError) {
+      console.log(`Skipping sentiment for entry ${entry.id}: ${error.message}`);
+      return;
+    }
+    throw error;
+  }
+
+  await storage.updateJournalEntrySentiment(entry.id, sentiment);
+  console.log(`✅ Updated sentiment for entry ID: ${entry.id}`);
+
+  // Apply any goals mentioned in the entry
+  if (sentiment.goals && sentiment.goals.length > 0) {
+    const existingGoals = await storage.getGoalsByUserId(entry.userId);
+
+    for (const goal of sentiment.goals) {
+      try {
+        if (goal.isNew && payload.createNewGoals) {
+          await storage.createGoal({
+            userId: entry.userId,
+            name: goal.name,
+            target: 100, // Default target
+            progress: 0,
+            unit: "%",
+            colorScheme: 1
+          });
+        } else if (goal.completion !== undefined) {
+          const matchingGoal = existingGoals.find(g =>
+            g.name.toLowerCase() === goal.name.toLowerCase()
+          );
+
+          if (matchingGoal) {
+            await storage.updateGoalProgress(matchingGoal.id, goal.completion);
+            console.log(`Updated progress for goal "${goal.name}" to ${goal.completion}%`);
+          }
+        }
+      } catch (goalError) {
+        console.error(`Error processing goal "${goal.name}":`, goalError);
+      }
+    }
+  }
+}
+
+async function runEmbeddingJob(payload: Record<string, any>): Promise<void> {
+  const entry = await getEntryForJob(payload);
+  if (!entry) return;
+
+  // A retry after a successful insert shouldn't store a second embedding
+  const [existing] = await db
+    .select({ id: journalEmbeddings.id })
+    .from(journalEmbeddings)
+    .where(eq(journalEmbeddings.journalEntryId, entry.id))
+    .limit(1);
+  if (existing) return;
+
+  try {
+    await storeEmbedding(entry.id, textForEntry(entry), entry.userId);
+  } catch (error) {
+    if (error instanceof TokenLimitExceededError) {
+      console.log(`Skipping embedding for entry ${entry.id}: ${error.message}`);
+      return;
+    }
+    throw error;
+  }
+}
+
+async function runSuggestionsJob(payload: Record<string, any>): Promise<void> {
+  const entry = await getEntryForJob(payload);
+  if (!entry) return;
+
+  // Saves suggestions to the ai_goals, ai_tasks, ai_habits tables.
+  // Throws SuggestionGenerationError if the AI call fails, which retries the job.
+  const result = await processSingleEntry(entry);
+  console.log(`Suggestions for entry ${entry.id}: ${result.goalsCreated} goals, ${result.tasksCreated} tasks, ${result.habitsCreated} habits created`);
+}
+
+/**
+ * Register the journal job handlers and the recurring sweep of unanalyzed entries
+ */
+export function registerJournalJobs(): void {
+  registerJobHandler("journal-title", runTitleJob);
+  registerJobHandler("journal-sentiment", runSentimentJob);
+  registerJobHandler("journal-embedding", runEmbeddingJob);
+  registerJobHandler("journal-suggestions", runSuggestionsJob);
+  registerJobHandler("process-all-entries", async (payload) => {
+    await processAllEntries(payload.maxEntriesPerUser);
+  });
+
+  scheduleRecurringJob("process-all-entries", PROCESS_ALL_ENTRIES_INTERVAL_MS, { maxEntriesPerUser: 5 });
+}
+
+/**
+ * Queue the AI processing for a newly saved journal entry
+ * @param journalEntry The saved entry
+ * @param options.createNewGoals Create goals the sentiment analysis marks as new
+ * @param options.suggestions Queue goal, task and habit suggestions (default true)
+ */
+export async function enqueueJournalEntryProcessing(
+  journalEntry: JournalEntry,
+  options: { createNewGoals?: boolean; suggestions?: boolean } = {}
+): Promise<void> {
+  const payload: JournalJobPayload = {
+    journalEntryId: journalEntry.id,
+    createNewGoals: options.createNewGoals ?? false
+  };
+
+  if (!journalEntry.title) {
+    await enqueueJob("journal-title", payload);
+  }
+  await enqueueJob("journal-sentiment", payload);
+  await enqueueJob("journal-embedding", payload);
+
+  // Imported entries are marked analyzed when saved and don't get suggestions
+  if (options.suggestions === false) return;
+
+  if (textForEntry(journalEntry).length > MIN_SUGGESTION_CONTENT_LENGTH) {
+    await enqueueJob("journal-suggestions", payload);
+  } else {
+    console.log(`Journal entry ${journalEntry.id} too short for AI suggestion processing`);
+    // Mark as analyzed so the scheduled sweep doesn't pick it up
+    await storage.updateJournalEntry(journalEntry.id, { analyzed: true });
+  }
+}
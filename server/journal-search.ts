@@ -0,0 +1,368 @@
+import { db } from "./db";
+import { journalEntries, journalSearchDocument } from "@shared/schema";
+import { and, asc, desc, eq, gte, inArray, isNull, lte, sql, SQL } from "drizzle-orm";
+import { AnyPgColumn } from "drizzle-orm/pg-core";
+import { z } from "zod";
+import { searchJournalEmbeddings, answerJournalQuestion } from "./openai";
+import { TokenLimitExceededError } from "./token-usage";
+
+/**
+ * Journal Search
+ *
+ * Full-text search over a user's journal entries (title, content and chat
+ * transcript) using Postgres text search, so "quoted phrases", OR and -words
+ * work as they do in web search. Results can be narrowed by date and by the
+ * emotions and themes from sentiment analysis, and come back a page at a time
+ * with the matching words highlighted.
+ *
+ * "Ask my journal" takes a question in plain language instead, combines the
+ * keyword matches with the entries closest in meaning by embedding, and can
+ * answer the question from the top entries, citing them.
+ */
+
+const SEARCH_CONFIG = "english";
+// ts_headline options: up to two fragments of about 10-30 words, matches wrapped in <mark>
+const HEADLINE_OPTIONS = "StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=30, MinWords=10, FragmentDelimiter=\" … \"";
+
+const listParam = z
+  .union([z.string(), z.array(z.string())])
+  .transform(value => (Array.isArray(value) ? value : value.split(","))
+    .map(item => item.trim())
+    .filter(Boolean));
+
+export const journalSearchSchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  from: z.string().datetime({ offset: true }).optional(),
+  to: z.string().datetime({ offset: true }).optional(),
+  emotions: listParam.optional(),
+  themes: listParam.optional(),
+  type: z.enum(["all", "user", "ai"]).default("all"),
+  sort: z.enum(["relevance", "newest", "oldest"]).default("relevance"),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export type JournalSearchParams = z.infer<typeof journalSearchSchema>;
+
+export interface JournalSearchResult {
+  id: number;
+  date: string;
+  title: string | null;
+  isAiResponse: boolean;
+  sentiment: { score: number; emotions: string[]; themes: string[] } | null;
+  // HTML-escaped text with the matches wrapped in <mark>
+  titleHighlight: string | null;
+  snippet: string;
+  matchedIn: "title" | "content" | "transcript" | null;
+  rank: number;
+}
+
+// Escape before highlighting, so the only markup in a snippet is <mark>
+function escapedText(column: SQL | AnyPgColumn) {
+  return sql`replace(replace(replace(${column}, '&', '&amp;'), '<', '&lt;'), '>', '&gt;')`;
+}
+
+function headline(column: SQL | AnyPgColumn, query: SQL) {
+  return sql<string>`ts_headline(${SEARCH_CONFIG}::regconfig, ${escapedText(column)}, ${query}, ${HEADLINE_OPTIONS})`;
+}
+
+/**
+ * Search a user's journal entries
+ * @returns A page of results, most relevant (or newest/oldest) first, and the total number of matches
+ */
+export async function searchJournalEntries(userId: number, params: JournalSearchParams) {
+  const query = params.q
+    ? sql`websearch_to_tsquery(${SEARCH_CONFIG}::regconfig, ${params.q})`
+    : null;
+  const document = journalSearchDocument(journalEntries);
+
+  const conditions: (SQL | undefined)[] = [
+    eq(journalEntries.userId, userId),
+    isNull(journalEntries.deletedAt),
+  ];
+  if (query) conditions.push(sql`${document} @@ ${query}`);
+  if (params.from) conditions.push(gte(journalEntries.date, params.from));
+  if (params.to) conditions.push(lte(journalEntries.date, params.to));
+  if (params.type === "user") conditions.push(eq(journalEntries.isAiResponse, false));
+  if (params.type === "ai") conditions.push(eq(journalEntries.isAiResponse, true));
+  // Entries must have every emotion and theme asked for, spelled as stored (see getSearchFacets)
+  if (params.emotions?.length) {
+    conditions.push(sql`${journalEntries.sentiment} @> ${JSON.stringify({ emotions: params.emotions })}::jsonb`);
+  }
+  if (params.themes?.length) {
+    conditions.push(sql`${journalEntries.sentiment} @> ${JSON.stringify({ themes: params.themes })}::jsonb`);
+  }
+
+  const rank = query ? sql<number>`ts_rank_cd(${document}, ${query})` : sql<number>`0`;
+  const tsvectorOf = (column: AnyPgColumn) =>
+    sql`to_tsvector(${SEARCH_CONFIG}::regconfig, coalesce(${column}, ''))`;
+
+  const order = params.sort === "oldest"
+    ? [asc(journalEntries.date)]
+    : params.sort === "relevance" && query
+      ? [desc(rank), desc(journalEntries.date)]
+      : [desc(journalEntries.date)];
+
+  const rows = await db.select({
+    id: journalEntries.id,
+    date: journalEntries.date,
+    title: journalEntries.title,
+    isAiResponse: journalEntries.isAiResponse,
+    sentiment: journalEntries.sentiment,
+    rank,
+    titleHighlight: query
+      ? sql<string | null>`CASE WHEN ${journalEntries.title} IS NULL THEN NULL ELSE ${headline(journalEntries.title, query)} END`
+      : sql<string | null>`NULL`,
+    contentMatch: query ? sql<boolean>`${tsvectorOf(journalEntries.content)} @@ ${query}` : sql<boolean>`false`,
+    transcriptMatch: query ? sql<boolean>`${tsvectorOf(journalEntries.transcript)} @@ ${query}` : sql<boolean>`false`,
+    titleMatch: query ? sql<boolean>`${tsvectorOf(journalEntries.title)} @@ ${query}` : sql<boolean>`false`,
+    // Highlight the transcript only when the content itself doesn't match
+    snippet: query
+      ? sql<string>`CASE
+          WHEN ${tsvectorOf(journalEntries.content)} @@ ${query} OR ${journalEntries.transcript} IS NULL
+            THEN ${headline(journalEntries.content, query)}
+          ELSE ${headline(journalEntries.transcript, query)}
+        END`
+      : sql<string>`left(${escapedText(journalEntries.content)}, 240)`,
+    total: sql<number>`count(*) over ()`.mapWith(Number),
+  })
+    .from(journalEntries)
+    .where(and(...conditions))
+    .orderBy(...order)
+    .limit(params.limit)
+    .offset(params.offset);
+
+  const results: JournalSearchResult[] = rows.map(row => ({
+    id: row.id,
+    date: row.date,
+    title: row.title,
+    isAiResponse: row.isAiResponse,
+    sentiment: row.sentiment ?? null,
+    titleHighlight: row.titleHighlight,
+    snippet: row.snippet,
+    matchedIn: row.titleMatch ? "title" : row.contentMatch ? "content" : row.transcriptMatch ? "transcript" : null,
+    rank: Number(row.rank),
+  }));
+
+  return {
+    results,
+    // count(*) over () is on every row; a page past the end has none to read it from
+    total: rows[0]?.total ?? (params.offset > 0 ? await countMatches(conditions) : 0),
+    limit: params.limit,
+    offset: params.offset,
+  };
+}
+
+async function countMatches(conditions: (SQL | undefined)[]): Promise<number> {
+  const [result] = await db.select({ value: sql<number>`count(*)`.mapWith(Number) })
+    .from(journalEntries)
+    .where(and(...conditions));
+  return result?.value ?? 0;
+}
+
+/**
+ * The emotions and themes found in a user's entries, most common first, for search filters
+ */
+export async function getSearchFacets(userId: number) {
+  const facet = async (key: "emotions" | "themes") => {
+    const result = await db.execute(sql`
+      SELECT value, count(*)::int AS count
+      FROM ${journalEntries},
+        jsonb_array_elements_text(
+          CASE WHEN jsonb_typeof(${journalEntries.sentiment} -> ${key}) = 'array'
+            THEN ${journalEntries.sentiment} -> ${key}
+            ELSE '[]'::jsonb
+          END
+        ) AS value
+      WHERE ${journalEntries.userId} = ${userId}
+        AND ${journalEntries.deletedAt} IS NULL
+      GROUP BY value
+      ORDER BY count DESC, value
+      LIMIT 50
+    `);
+    return (result.rows as { value: string; count: number }[]).map(row => ({
+      value: row.value,
+      count: Number(row.count),
+    }));
+  };
+
+  return {
+    emotions: await facet("emotions"),
+    themes: await facet("themes"),
+  };
+}
+
+// Reciprocal rank fusion: an entry scores 1 / (RRF_K + rank) in each result list it appears in
+const RRF_K = 60;
+// Entries less similar than this are left out of the semantic matches
+const MIN_SIMILARITY = 0.2;
+// How many of the top entries the answer is drawn from
+const ANSWER_ENTRIES = 5;
+
+export const askJournalSchema = z.object({
+  question: z.string().trim().min(3).max(500),
+  answer: z.boolean().default(false),
+  limit: z.number().int().min(1).max(20).default(10),
+});
+
+export type AskJournalParams = z.infer<typeof askJournalSchema>;
+
+export interface AskJournalResult {
+  id: number;
+  date: string;
+  title: string | null;
+  // HTML-escaped text with any keyword matches wrapped in <mark>
+  snippet: string;
+  // Combined score from 0 to 1; 1 is the top match by both keyword and meaning
+  score: number;
+  // Cosine similarity to the question, when it was a semantic match
+  similarity: number | null;
+  // ts_rank_cd score, when it was a keyword match
+  keywordRank: number | null;
+  matchedBy: ("keyword" | "semantic")[];
+}
+
+export interface AskJournalAnswer {
+  text: string;
+  // The entries cited in the text, by the number used there
+  citations: { number: number; entryId: number; date: string; title: string | null }[];
+}
+
+// The same entries the chat draws on: the user's own journal entries, not AI responses or deleted ones
+function askableEntries(userId: number) {
+  return and(
+    eq(journalEntries.userId, userId),
+    eq(journalEntries.isAiResponse, false),
+    eq(journalEntries.isJournal, true),
+    isNull(journalEntries.deletedAt)
+  );
+}
+
+/**
+ * Match any of the question's words rather than all of them, since a question
+ * in plain language rarely has every word in one entry
+ */
+function anyWordQuery(question: string) {
+  return sql`replace(plainto_tsquery(${SEARCH_CONFIG}::regconfig, ${question})::text, '&', '|')::tsquery`;
+}
+
+async function keywordMatches(userId: number, question: string, limit: number) {
+  const query = anyWordQuery(question);
+  const document = journalSearchDocument(journalEntries);
+  const rank = sql<number>`ts_rank_cd(${document}, ${query})`;
+
+  return await db.select({ id: journalEntries.id, rank })
+    .from(journalEntries)
+    .where(and(askableEntries(userId), sql`${document} @@ ${query}`))
+    .orderBy(desc(rank), desc(journalEntries.date))
+    .limit(limit);
+}
+
+async function semanticMatches(userId: number, question: string, limit: number) {
+  try {
+    const matches = await searchJournalEmbeddings(question, userId, limit);
+    return matches.filter(match => Number.isFinite(match.similarity) && match.similarity >= MIN_SIMILARITY);
+  } catch (error) {
+    // Keyword matches still work without embeddings
+    if (!(error instanceof TokenLimitExceededError)) {
+      console.error("Semantic journal search unavailable:", error);
+    }
+    return [];
+  }
+}
+
+/**
+ * Find the entries that best answer a question, combining keyword and
+ * semantic matches, and optionally answer it from them
+ * @returns The entries, best first, and the answer if one was asked for
+ * @throws TokenLimitExceededError if an answer was asked for and the user's AI budget is used up
+ */
+export async function askJournal(userId: number, params: AskJournalParams) {
+  // Fetch more than needed from each side, so entries found by both can rise to the top
+  const candidates = params.limit * 2;
+  const [keyword, semantic] = await Promise.all([
+    keywordMatches(userId, params.question, candidates),
+    semanticMatches(userId, params.question, candidates),
+  ]);
+
+  const fused = new Map<number, { score: number; similarity: number | null; keywordRank: number | null }>();
+  const fuse = (id: number, position: number) => {
+    const match = fused.get(id) ?? { score: 0, similarity: null, keywordRank: null };
+    match.score += 1 / (RRF_K + position + 1);
+    fused.set(id, match);
+    return match;
+  };
+  keyword.forEach((match, position) => {
+    fuse(match.id, position).keywordRank = Number(match.rank);
+  });
+  semantic.forEach((match, position) => {
+    fuse(match.id, position).similarity = match.similarity;
+  });
+
+  const bestScore = 2 / (RRF_K + 1);
+  const top = Array.from(fused.entries())
+    .sort(([, a], [, b]) => b.score - a.score)
+    .slice(0, params.limit);
+  if (top.length === 0) {
+    return { question: params.question, results: [] as AskJournalResult[], answer: null };
+  }
+
+  // Scoped to the user again, though both kinds of match already are
+  const query = anyWordQuery(params.question);
+  const entries = await db.select({
+    id: journalEntries.id,
+    date: journalEntries.date,
+    title: journalEntries.title,
+    content: journalEntries.content,
+    snippet: sql<string>`CASE
+        WHEN to_tsvector(${SEARCH_CONFIG}::regconfig, ${journalEntries.content}) @@ ${query}
+          THEN ${headline(journalEntries.content, query)}
+        ELSE left(${escapedText(journalEntries.content)}, 240)
+      END`,
+  })
+    .from(journalEntries)
+    .where(and(askableEntries(userId), inArray(journalEntries.id, top.map(([id]) => id))));
+  const entriesById = new Map(entries.map(entry => [entry.id, entry]));
+
+  const ranked = top.flatMap(([id, match]) => {
+    const entry = entriesById.get(id);
+    return entry ? [{ entry, match }] : [];
+  });
+
+  const results: AskJournalResult[] = ranked.map(({ entry, match }) => ({
+    id: entry.id,
+    date: entry.date,
+    title: entry.title,
+    snippet: entry.snippet,
+    score: Math.round((match.score / bestScore) * 1000) / 1000,
+    similarity: match.similarity,
+    keywordRank: match.keywordRank,
+    matchedBy: [
+      ...(match.keywordRank !== null ? ["keyword" as const] : []),
+      ...(match.similarity !== null ? ["semantic" as const] : []),
+    ],
+  }));
+
+  let answer: AskJournalAnswer | null = null;
+  if (params.answer && ranked.length > 0) {
+    const sources = ranked.slice(0, ANSWER_ENTRIES).map(({ entry }) => entry);
+    const text = await answerJournalQuestion(params.question, sources, userId);
+
+    const cited = new Set<number>();
+    for (const [, number] of Array.from(text.matchAll(/\[(\d+)\]/g))) {
+      const index = Number(number) - 1;
+      if (index >= 0 && index < sources.length) cited.add(index);
+    }
+    answer = {
+      text,
+      citations: Array.from(cited).sort((a, b) => a - b).map(index => ({
+        number: index + 1,
+        entryId: sources[index].id,
+        date: sources[index].date,
+        title: sources[index].title,
+      })),
+    };
+  }
+
+  return { question: params.question, results, answer };
+}
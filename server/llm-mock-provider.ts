@@ -0,0 +1,238 @@
+import type {
+  LLMProvider,
+  LLMProviderName,
+  LLMChatRequest,
+  LLMChatResult,
+  LLMEmbeddingResult,
+  LLMUsage,
+} from "./llm-provider";
+import { EMBEDDING_DIMENSIONS } from "@shared/schema";
+
+/**
+ * Deterministic offline LLM provider
+ *
+ * Returns canned but content-aware responses for every AI feature so the whole
+ * journaling and suggestion flow can run in tests and local development without
+ * network access or API keys. The same input always produces the same output.
+ */
+
+// Keyword lexicons used to derive emotions and themes from the text
+const EMOTION_KEYWORDS: Record<string, string[]> = {
+  Happy: ["happy", "joy", "glad", "great", "excited", "smile", "fun", "love"],
+  Grateful: ["grateful", "thankful", "appreciate", "blessed", "gratitude"],
+  Calm: ["calm", "peace", "relaxed", "rest", "quiet", "meditat"],
+  Proud: ["proud", "accomplish", "achieved", "finished", "success"],
+  Anxious: ["anxious", "anxiety", "worried", "worry", "nervous", "stress"],
+  Sad: ["sad", "lonely", "down", "cry", "miss", "upset"],
+  Frustrated: ["frustrat", "angry", "annoyed", "irritat", "stuck"],
+  Tired: ["tired", "exhausted", "sleep", "drained", "fatigue"],
+};
+
+const THEME_KEYWORDS: Record<string, string[]> = {
+  Work: ["work", "job", "meeting", "project", "boss", "deadline", "career", "office"],
+  Relationships: ["friend", "family", "partner", "mom", "dad", "wife", "husband", "kids"],
+  Health: ["exercise", "run", "gym", "health", "doctor", "walk", "diet", "sleep"],
+  "Self-care": ["self-care", "rest", "relax", "meditat", "journal", "read", "bath"],
+  Learning: ["learn", "study", "course", "book", "class", "practice", "skill"],
+  Finances: ["money", "budget", "rent", "save", "saving", "bills", "finance"],
+};
+
+const POSITIVE_WORDS = ["good", "great", "happy", "grateful", "calm", "proud", "love", "better", "excited", "peace"];
+const NEGATIVE_WORDS = ["bad", "sad", "anxious", "stress", "worried", "angry", "tired", "lonely", "hard", "difficult"];
+
+// Rough token estimate (about four characters per token) for usage reporting
+function estimateTokens(text: string): number {
+  return Math.max(1, Math.ceil(text.length / 4));
+}
+
+// FNV-1a hash, used to spread words across embedding dimensions
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[a-z][a-z'-]+/g) || [];
+}
+
+function matchKeywords(text: string, lexicon: Record<string, string[]>, fallback: string[]): string[] {
+  const lower = text.toLowerCase();
+  const matches = Object.entries(lexicon)
+    .map(([label, keywords]) => ({
+      label,
+      hits: keywords.reduce((count, keyword) => count + (lower.includes(keyword) ? 1 : 0), 0),
+    }))
+    .filter(match => match.hits > 0)
+    .sort((a, b) => b.hits - a.hits || a.label.localeCompare(b.label))
+    .map(match => match.label);
+
+  return matches.length > 0 ? matches.slice(0, 3) : fallback;
+}
+
+function sentimentScore(text: string): number {
+  const words = tokenize(text);
+  const positive = words.filter(word => POSITIVE_WORDS.some(p => word.startsWith(p))).length;
+  const negative = words.filter(word => NEGATIVE_WORDS.some(n => word.startsWith(n))).length;
+  return Math.max(1, Math.min(5, 3 + Math.sign(positive - negative) * Math.min(2, Math.abs(positive - negative))));
+}
+
+function titleCase(words: string[]): string {
+  return words.map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(" ");
+}
+
+export class MockLLMProvider implements LLMProvider {
+  readonly name: LLMProviderName = "mock";
+  readonly chatModel = "mock-chat";
+  readonly embeddingModel = "mock-embedding";
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async createChatCompletion(request: LLMChatRequest): Promise<LLMChatResult> {
+    const content = this.respond(request);
+    return { content, usage: this.usageFor(request, content) };
+  }
+
+  async streamChatCompletion(
+    request: LLMChatRequest,
+    onToken: (token: string) => void,
+    signal?: AbortSignal
+  ): Promise<LLMChatResult> {
+    const content = this.respond(request);
+    let streamed = "";
+
+    // Emit word by word so clients exercise the same incremental rendering path
+    for (const token of content.match(/\S+\s*/g) || []) {
+      if (signal?.aborted) {
+        throw new Error("Request was aborted");
+      }
+      streamed += token;
+      onToken(token);
+      await new Promise(resolve => setImmediate(resolve));
+    }
+
+    return { content: streamed, usage: this.usageFor(request, streamed) };
+  }
+
+  async createEmbedding(text: string): Promise<LLMEmbeddingResult> {
+    // Bag-of-words hashing: texts sharing words get similar vectors
+    const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+    for (const word of tokenize(text)) {
+      const hash = hashString(word);
+      vector[hash % EMBEDDING_DIMENSIONS] += (hash & 1) === 0 ? 1 : -1;
+    }
+
+    const magnitude = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+    return {
+      embedding: vector.map(value => value / magnitude),
+      usage: { promptTokens: estimateTokens(text), completionTokens: 0 },
+    };
+  }
+
+  private usageFor(request: LLMChatRequest, content: string): LLMUsage {
+    const promptText = request.messages.map(message => message.content).join("\n");
+    return { promptTokens: estimateTokens(promptText), completionTokens: estimateTokens(content) };
+  }
+
+  private respond(request: LLMChatRequest): string {
+    const userText = [...request.messages].reverse().find(message => message.role === "user")?.content || "";
+    const emotions = matchKeywords(userText, EMOTION_KEYWORDS, ["Reflective"]);
+    const themes = matchKeywords(userText, THEME_KEYWORDS, ["Daily life"]);
+    const primaryTheme = themes[0];
+
+    switch (request.feature) {
+      case "title": {
+        // Use the journal content after the instruction line
+        const body = userText.split("\n\n").slice(1).join(" ") || userText;
+        const words = tokenize(body).filter(word => word.length > 3).slice(0, 5);
+        return words.length > 0 ? titleCase(words) : "Journal Entry";
+      }
+
+      case "sentiment":
+        return JSON.stringify({
+          score: sentimentScore(userText),
+          emotions,
+          themes,
+          goals: [],
+          tasks: [],
+        });
+
+      case "weekly-summary":
+        return JSON.stringify({
+          topEmotions: emotions,
+          commonThemes: themes,
+          insight: `${primaryTheme} came up often this week. Consider setting aside a few minutes each day to reflect on how it affects you.`,
+        });
+
+      case "custom-prompts":
+        return JSON.stringify({
+          prompts: [
+            `How has ${primaryTheme.toLowerCase()} been affecting you lately?`,
+            `What helped you feel ${emotions[0].toLowerCase()} recently, and why?`,
+            "What's one small step you can take tomorrow to feel better?",
+          ],
+        });
+
+      case "goal-suggestions":
+        return JSON.stringify({
+          goals: [{
+            name: `Build a steadier ${primaryTheme.toLowerCase()} routine`,
+            type: "goal",
+            description: `Create a consistent weekly routine around ${primaryTheme.toLowerCase()}.`,
+            category: "Personal",
+            explanation: `Your entries mention ${primaryTheme.toLowerCase()} frequently.`,
+          }],
+        });
+
+      case "task-suggestions":
+        return JSON.stringify({
+          tasks: [{
+            name: `Write down one ${primaryTheme.toLowerCase()} priority`,
+            description: "Naming a single priority makes the next step clearer.",
+          }],
+          goalSuggestions: [{
+            name: `Build a steadier ${primaryTheme.toLowerCase()} routine`,
+            description: `Create a consistent weekly routine around ${primaryTheme.toLowerCase()}.`,
+            relatedTasks: [`Write down one ${primaryTheme.toLowerCase()} priority`],
+          }],
+        });
+
+      case "combined-suggestions":
+        return JSON.stringify({
+          goals: [{
+            name: `Build a steadier ${primaryTheme.toLowerCase()} routine`,
+            description: `Create a consistent weekly routine around ${primaryTheme.toLowerCase()}.`,
+            category: "Personal",
+            explanation: `Your entries mention ${primaryTheme.toLowerCase()} frequently.`,
+          }],
+          tasks: [{
+            title: `Write down one ${primaryTheme.toLowerCase()} priority`,
+            description: "Naming a single priority makes the next step clearer.",
+            priority: "medium",
+            explanation: `Your entries suggest ${primaryTheme.toLowerCase()} is on your mind.`,
+          }],
+          habits: [{
+            title: "Evening reflection",
+            description: "Spend five minutes each evening noting how you felt today.",
+            frequency: "daily",
+            explanation: `You described feeling ${emotions[0].toLowerCase()}; a daily check-in helps track that.`,
+          }],
+        });
+
+      case "retrieval-ranking":
+        return JSON.stringify({ indices: [0, 1, 2] });
+
+      case "journal-answer":
+        return `Your entries about ${primaryTheme.toLowerCase()} come closest to this. You wrote about feeling ${emotions[0].toLowerCase()} [1].`;
+
+      case "chat":
+      default:
+        return `Thank you for sharing that. It sounds like ${primaryTheme.toLowerCase()} has been on your mind and you're feeling ${emotions[0].toLowerCase()}. What would you like to explore about it?`;
+    }
+  }
+}
@@ -0,0 +1,247 @@
+import OpenAI from "openai";
+import { MockLLMProvider } from "./llm-mock-provider";
+
+/**
+ * LLM Provider Layer
+ *
+ * Every AI feature in server/openai.ts talks to a language model through this
+ * interface instead of the OpenAI SDK, so the backing model can be switched with
+ * environment variables:
+ *
+ * - LLM_PROVIDER=openai (default) uses the OpenAI API with OPENAI_API_KEY
+ * - LLM_PROVIDER=openai-compatible uses any OpenAI-compatible server at LLM_BASE_URL
+ *   (e.g. Ollama, LM Studio, vLLM), with an optional LLM_API_KEY
+ * - LLM_PROVIDER=mock uses a deterministic offline provider for tests and development
+ *
+ * LLM_CHAT_MODEL and LLM_EMBEDDING_MODEL override the default model names.
+ */
+
+export type LLMProviderName = "openai" | "openai-compatible" | "mock";
+
+// The AI feature making the request, used to shape mock responses and for logging
+export type LLMFeature =
+  | "chat"
+  | "title"
+  | "sentiment"
+  | "weekly-summary"
+  | "custom-prompts"
+  | "goal-suggestions"
+  | "task-suggestions"
+  | "combined-suggestions"
+  | "retrieval-ranking"
+  | "journal-answer";
+
+export interface LLMChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface LLMChatRequest {
+  feature: LLMFeature;
+  messages: LLMChatMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  // Ask the model to return a single JSON object
+  jsonResponse?: boolean;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LLMChatResult {
+  content: string | null;
+  usage?: LLMUsage;
+}
+
+export interface LLMEmbeddingResult {
+  embedding: number[];
+  usage?: LLMUsage;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly chatModel: string;
+  readonly embeddingModel: string;
+
+  /**
+   * Whether the provider has the configuration it needs to make requests
+   */
+  isConfigured(): boolean;
+
+  /**
+   * Generate a complete chat response
+   */
+  createChatCompletion(request: LLMChatRequest): Promise<LLMChatResult>;
+
+  /**
+   * Generate a chat response, calling onToken for each chunk of text as it arrives.
+   * Rejects if the signal is aborted.
+   */
+  streamChatCompletion(
+    request: LLMChatRequest,
+    onToken: (token: string) => void,
+    signal?: AbortSignal
+  ): Promise<LLMChatResult>;
+
+  /**
+   * Generate an embedding vector for a piece of text
+   */
+  createEmbedding(text: string): Promise<LLMEmbeddingResult>;
+}
+
+const DEFAULT_CHAT_MODEL = "gpt-4o";
+const DEFAULT_EMBEDDING_MODEL = "text-embedding-3-small";
+
+/**
+ * Provider backed by the OpenAI SDK. Also used for OpenAI-compatible servers,
+ * which only differ in base URL, API key and model names.
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name: LLMProviderName;
+  readonly chatModel: string;
+  readonly embeddingModel: string;
+  private client: OpenAI;
+  private apiKey: string | undefined;
+
+  constructor(options: {
+    name: LLMProviderName;
+    apiKey?: string;
+    baseURL?: string;
+    chatModel?: string;
+    embeddingModel?: string;
+  }) {
+    this.name = options.name;
+    this.apiKey = options.apiKey;
+    this.chatModel = options.chatModel || DEFAULT_CHAT_MODEL;
+    this.embeddingModel = options.embeddingModel || DEFAULT_EMBEDDING_MODEL;
+    this.client = new OpenAI({
+      // Local OpenAI-compatible servers usually ignore the key, but the SDK requires one
+      apiKey: options.apiKey || "not-needed",
+      baseURL: options.baseURL,
+    });
+  }
+
+  isConfigured(): boolean {
+    // OpenAI-compatible servers may run without authentication
+    return this.name === "openai-compatible" || !!this.apiKey;
+  }
+
+  async createChatCompletion(request: LLMChatRequest): Promise<LLMChatResult> {
+    const response = await this.client.chat.completions.create({
+      model: this.chatModel,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      response_format: request.jsonResponse ? { type: "json_object" } : undefined,
+    });
+
+    return {
+      content: response.choices[0]?.message.content ?? null,
+      usage: response.usage
+        ? { promptTokens: response.usage.prompt_tokens, completionTokens: response.usage.completion_tokens }
+        : undefined,
+    };
+  }
+
+  async streamChatCompletion(
+    request: LLMChatRequest,
+    onToken: (token: string) => void,
+    signal?: AbortSignal
+  ): Promise<LLMChatResult> {
+    const stream = await this.client.chat.completions.create({
+      model: this.chatModel,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      stream: true,
+      stream_options: { include_usage: true },
+    }, { signal });
+
+    let content = "";
+    let usage: LLMUsage | undefined;
+
+    for await (const chunk of stream) {
+      const token = chunk.choices[0]?.delta?.content;
+      if (token) {
+        content += token;
+        onToken(token);
+      }
+      // The final chunk carries token usage when include_usage is set
+      if (chunk.usage) {
+        usage = { promptTokens: chunk.usage.prompt_tokens, completionTokens: chunk.usage.completion_tokens };
+      }
+    }
+
+    return { content, usage };
+  }
+
+  async createEmbedding(text: string): Promise<LLMEmbeddingResult> {
+    const response = await this.client.embeddings.create({
+      model: this.embeddingModel,
+      input: text,
+      encoding_format: "float",
+    });
+
+    return {
+      embedding: response.data[0].embedding,
+      usage: { promptTokens: response.usage.prompt_tokens, completionTokens: 0 },
+    };
+  }
+}
+
+/**
+ * Create a provider from the current environment variables
+ */
+export function createLLMProvider(name: string = process.env.LLM_PROVIDER || "openai"): LLMProvider {
+  switch (name) {
+    case "mock":
+      return new MockLLMProvider();
+
+    case "openai-compatible":
+      if (!process.env.LLM_BASE_URL) {
+        throw new Error("LLM_BASE_URL must be set when LLM_PROVIDER is 'openai-compatible'");
+      }
+      return new OpenAIProvider({
+        name: "openai-compatible",
+        apiKey: process.env.LLM_API_KEY,
+        baseURL: process.env.LLM_BASE_URL,
+        chatModel: process.env.LLM_CHAT_MODEL,
+        embeddingModel: process.env.LLM_EMBEDDING_MODEL,
+      });
+
+    case "openai":
+      return new OpenAIProvider({
+        name: "openai",
+        apiKey: process.env.OPENAI_API_KEY,
+        chatModel: process.env.LLM_CHAT_MODEL,
+        embeddingModel: process.env.LLM_EMBEDDING_MODEL,
+      });
+
+    default:
+      throw new Error(`Unknown LLM provider '${name}'. Expected 'openai', 'openai-compatible' or 'mock'.`);
+  }
+}
+
+let activeProvider: LLMProvider | null = null;
+
+/**
+ * Get the provider used by all AI features. Created lazily from the environment.
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!activeProvider) {
+    activeProvider = createLLMProvider();
+    console.log(`Using LLM provider '${activeProvider.name}' (chat model: ${activeProvider.chatModel})`);
+  }
+  return activeProvider;
+}
+
+/**
+ * Replace the active provider, e.g. with a mock in tests.
+ * Passing null makes the next call to getLLMProvider re-read the environment,
+ * which is needed after the OpenAI API key is changed at runtime.
+ */
+export function setLLMProvider(provider: LLMProvider | null): void {
+  activeProvider = provider;
+}
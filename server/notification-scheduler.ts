@@ -0,0 +1,332 @@
+import { db } from "./db";
+import { storage } from "./storage";
+import {
+  users,
+  journalEntries,
+  notifications,
+  notificationPreferences,
+  Notification,
+  NotificationPreferences,
+} from "@shared/schema";
+import { and, eq, desc, isNull, sql } from "drizzle-orm";
+import { registerJobHandler, scheduleRecurringJob } from "./job-queue";
+import { queueUserEmail } from "./email";
+import { sendPushToUser } from "./web-push";
+import { publishToUser } from "./realtime";
+import {
+  resolveTimeZone,
+  getZonedParts,
+  zonedTimeToUtc,
+  getLocalDateString,
+  parseTimeOfDay,
+  parseDbTimestamp,
+  isValidRecurringPattern,
+  nextRecurringOccurrence,
+} from "./schedule-utils";
+
+/**
+ * Notification Scheduler
+ *
+ * Delivers notifications with status "scheduled" once their scheduledFor time
+ * has passed, expands recurring notifications into individual occurrences, and
+ * sends the built-in daily journal and goal reminders at each user's reminder
+ * time in their own time zone. Both run as recurring jobs on the job queue.
+ * Delivered notifications are pushed to open browser tabs, and reminders are also
+ * sent by email and Web Push, per the user's preferences.
+ */
+
+// How often due scheduled notifications are delivered
+const DELIVERY_INTERVAL_MS = 60 * 1000;
+
+// How often the daily reminder sweep runs
+const REMINDER_INTERVAL_MS = 5 * 60 * 1000;
+
+// A reminder missed (e.g. during downtime) is still sent if we're this close to the reminder time
+const REMINDER_WINDOW_MS = 3 * 60 * 60 * 1000;
+
+// Goals with a target date this many days away are included in the goal reminder
+const GOAL_REMINDER_DAYS_AHEAD = 7;
+
+type PreferenceSettings = Pick<
+  NotificationPreferences,
+  "journalReminders" | "goalReminders" | "reminderTime" | "timezone"
+>;
+
+const DEFAULT_PREFERENCES: PreferenceSettings = {
+  journalReminders: true,
+  goalReminders: true,
+  reminderTime: "09:00",
+  timezone: null,
+};
+
+async function getPreferences(userId: number): Promise<PreferenceSettings> {
+  return (await storage.getNotificationPreferencesByUserId(userId)) || DEFAULT_PREFERENCES;
+}
+
+/**
+ * Whether the user's preferences allow a notification of this type
+ */
+export function isNotificationTypeEnabled(type: string, preferences: PreferenceSettings): boolean {
+  if (type === "reminder") return preferences.journalReminders;
+  if (type === "goal") return preferences.goalReminders;
+  return true;
+}
+
+/**
+ * Compute when a new scheduled or recurring notification should first be delivered.
+ * Named patterns without an explicit time default to the user's reminder time.
+ * @returns The first delivery time, or null if the pattern never fires
+ */
+export async function getFirstDeliveryTime(
+  userId: number,
+  pattern: string | null,
+  scheduledFor: string | null | undefined,
+  now: Date = new Date()
+): Promise<Date | null> {
+  if (scheduledFor) {
+    return new Date(scheduledFor);
+  }
+  if (!pattern) {
+    return now;
+  }
+
+  const preferences = await getPreferences(userId);
+  const timeZone = resolveTimeZone(preferences.timezone);
+
+  if (["daily", "weekly", "monthly"].includes(pattern)) {
+    // Anchor at the next reminder time, today or tomorrow
+    const today = getZonedParts(now, timeZone);
+    const time = parseTimeOfDay(preferences.reminderTime);
+    const anchor = zonedTimeToUtc({ ...today, ...time }, timeZone);
+    return nextRecurringOccurrence("daily", anchor, new Date(now.getTime() - 1), timeZone);
+  }
+
+  return nextRecurringOccurrence(pattern, now, now, timeZone);
+}
+
+// Announce a delivered notification to open browser tabs, and send reminders by
+// email and Web Push. A failure in either channel shouldn't hold up the in-app notification.
+async function dispatchNotification(notification: Notification): Promise<void> {
+  publishToUser(notification.userId, { type: "notification-created", notification });
+
+  const template = notification.type === "reminder"
+    ? "journal-reminder"
+    : notification.type === "goal" ? "goal-reminder" : null;
+  if (!template) return;
+
+  try {
+    await queueUserEmail(
+      notification.userId,
+      template,
+      { title: notification.title, message: notification.message },
+      { notificationId: notification.id }
+    );
+  } catch (error) {
+    console.error(`Error queueing email for notification ${notification.id}:`, error);
+  }
+
+  try {
+    await sendPushToUser(notification.userId, {
+      title: notification.title,
+      body: notification.message,
+      url: template === "journal-reminder" ? "/journal/new" : "/goals",
+      tag: template,
+      notificationId: notification.id,
+    });
+  } catch (error) {
+    console.error(`Error sending push for notification ${notification.id}:`, error);
+  }
+}
+
+// Deliver a single due notification
+async function deliverNotification(notification: Notification, now: Date): Promise<void> {
+  const preferences = await getPreferences(notification.userId);
+  const allowed = isNotificationTypeEnabled(notification.type, preferences);
+
+  if (!notification.isRecurring) {
+    const delivered = await storage.updateNotification(notification.id, {
+      status: allowed ? "unread" : "dismissed",
+      metadata: allowed
+        ? notification.metadata
+        : { ...notification.metadata, skippedReason: "preferences" },
+    });
+    if (allowed) await dispatchNotification(delivered);
+    return;
+  }
+
+  // Recurring notifications stay scheduled; each occurrence is delivered as its own notification
+  if (allowed) {
+    const { recurrenceAnchor, ...metadata } = notification.metadata || {};
+    const occurrence = await storage.createNotification({
+      userId: notification.userId,
+      title: notification.title,
+      message: notification.message,
+      type: notification.type,
+      status: "unread",
+      metadata: { ...metadata, sourceNotificationId: notification.id },
+    });
+    await dispatchNotification(occurrence);
+  }
+
+  const timeZone = resolveTimeZone(preferences.timezone);
+  const scheduledFor = parseDbTimestamp(notification.scheduledFor!);
+  const anchor = notification.metadata?.recurrenceAnchor
+    ? new Date(notification.metadata.recurrenceAnchor)
+    : scheduledFor;
+
+  const next = isValidRecurringPattern(notification.recurringPattern)
+    ? nextRecurringOccurrence(notification.recurringPattern!, anchor, now, timeZone)
+    : null;
+
+  if (next) {
+    await storage.updateNotification(notification.id, { scheduledFor: next.toISOString() });
+  } else {
+    console.warn(`Recurring notification ${notification.id} has no further occurrences, dismissing it`);
+    await storage.updateNotification(notification.id, { status: "dismissed" });
+  }
+}
+
+/**
+ * Deliver every scheduled notification that is due
+ * @returns Number of notifications processed
+ */
+export async function deliverDueNotifications(now: Date = new Date()): Promise<number> {
+  const due = await storage.getDueScheduledNotifications(now);
+
+  for (const notification of due) {
+    try {
+      await deliverNotification(notification, now);
+    } catch (error) {
+      // Leave it scheduled so the next run tries again
+      console.error(`Error delivering notification ${notification.id}:`, error);
+    }
+  }
+
+  if (due.length > 0) {
+    console.log(`Delivered ${due.length} scheduled notifications`);
+  }
+  return due.length;
+}
+
+async function hasReminder(userId: number, reminderKey: string): Promise<boolean> {
+  const [existing] = await db
+    .select({ id: notifications.id })
+    .from(notifications)
+    .where(
+      and(
+        eq(notifications.userId, userId),
+        sql`${notifications.metadata}->>'reminderKey' = ${reminderKey}`
+      )
+    )
+    .limit(1);
+
+  return !!existing;
+}
+
+async function sendJournalReminder(userId: number, localDate: string, timeZone: string): Promise<boolean> {
+  const reminderKey = `journal:${localDate}`;
+  if (await hasReminder(userId, reminderKey)) return false;
+
+  // No reminder needed if the user already wrote today
+  const [latestEntry] = await db
+    .select({ date: journalEntries.date })
+    .from(journalEntries)
+    .where(and(eq(journalEntries.userId, userId), isNull(journalEntries.deletedAt)))
+    .orderBy(desc(journalEntries.date))
+    .limit(1);
+
+  if (latestEntry && getLocalDateString(parseDbTimestamp(latestEntry.date), timeZone) === localDate) {
+    return false;
+  }
+
+  const notification = await storage.createNotification({
+    userId,
+    title: "Time to journal",
+    message: "Take a few minutes to reflect on your day.",
+    type: "reminder",
+    status: "unread",
+    metadata: { reminderKey },
+  });
+  await dispatchNotification(notification);
+  return true;
+}
+
+async function sendGoalReminder(userId: number, localDate: string, now: Date): Promise<boolean> {
+  const reminderKey = `goal:${localDate}`;
+  if (await hasReminder(userId, reminderKey)) return false;
+
+  const horizon = new Date(now.getTime() + GOAL_REMINDER_DAYS_AHEAD * 24 * 60 * 60 * 1000);
+  const upcomingGoals = (await storage.getGoalsByUserId(userId)).filter(goal =>
+    goal.status === "in_progress" &&
+    !goal.deletedAt &&
+    goal.targetDate &&
+    goal.progress < goal.target &&
+    parseDbTimestamp(goal.targetDate) <= horizon
+  );
+
+  if (upcomingGoals.length === 0) return false;
+
+  const names = upcomingGoals.map(goal => `"${goal.name}"`).join(", ");
+  const notification = await storage.createNotification({
+    userId,
+    title: upcomingGoals.length === 1 ? "Goal deadline approaching" : "Goal deadlines approaching",
+    message: `Keep going! ${names} ${upcomingGoals.length === 1 ? "is" : "are"} due within the next week.`,
+    type: "goal",
+    status: "unread",
+    metadata: { reminderKey, goalIds: upcomingGoals.map(goal => goal.id) },
+  });
+  await dispatchNotification(notification);
+  return true;
+}
+
+/**
+ * Send the built-in daily journal and goal reminders to users whose reminder
+ * time has passed today in their time zone
+ * @returns Number of reminders sent
+ */
+export async function sendDailyReminders(now: Date = new Date()): Promise<number> {
+  const rows = await db
+    .select({ userId: users.id, preferences: notificationPreferences })
+    .from(users)
+    .leftJoin(notificationPreferences, eq(notificationPreferences.userId, users.id));
+
+  let sent = 0;
+  for (const { userId, preferences: storedPreferences } of rows) {
+    const preferences = storedPreferences || DEFAULT_PREFERENCES;
+    if (!preferences.journalReminders && !preferences.goalReminders) continue;
+
+    try {
+      const timeZone = resolveTimeZone(preferences.timezone);
+      const today = getZonedParts(now, timeZone);
+      const reminderAt = zonedTimeToUtc({ ...today, ...parseTimeOfDay(preferences.reminderTime) }, timeZone);
+      const elapsed = now.getTime() - reminderAt.getTime();
+      if (elapsed < 0 || elapsed > REMINDER_WINDOW_MS) continue;
+
+      const localDate = getLocalDateString(now, timeZone);
+      if (preferences.journalReminders && await sendJournalReminder(userId, localDate, timeZone)) sent++;
+      if (preferences.goalReminders && await sendGoalReminder(userId, localDate, now)) sent++;
+    } catch (error) {
+      console.error(`Error sending daily reminders to user ${userId}:`, error);
+    }
+  }
+
+  if (sent > 0) {
+    console.log(`Sent ${sent} daily reminders`);
+  }
+  return sent;
+}
+
+/**
+ * Register the notification job handlers and their recurring schedules
+ */
+export function registerNotificationJobs(): void {
+  registerJobHandler("deliver-notifications", async () => {
+    await deliverDueNotifications();
+  });
+  registerJobHandler("daily-reminders", async () => {
+    await sendDailyReminders();
+  });
+
+  scheduleRecurringJob("deliver-notifications", DELIVERY_INTERVAL_MS);
+  scheduleRecurringJob("daily-reminders", REMINDER_INTERVAL_MS);
+}
@@ -1,18 +1,41 @@
-import OpenAI from "openai";
 import { db } from "./db";
-import { journalEntries, journalEmbeddings } from "@shared/schema";
-import { eq, desc, and } from "drizzle-orm";
+import { journalEntries, journalEmbeddings, EMBEDDING_DIMENSIONS } from "@shared/schema";
+import { eq, desc, and, isNotNull, isNull, cosineDistance, sql } from "drizzle-orm";
 import { storage } from "./storage";
+import { getLLMProvider, type LLMChatMessage, type LLMChatRequest, type LLMChatResult } from "./llm-provider";
+import { TokenUsageService, TokenLimitExceededError, estimateTokens } from "./token-usage";
 
-// the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+// All model calls go through the provider layer in llm-provider.ts.
+// The default OpenAI chat model is "gpt-4o"; override it with LLM_CHAT_MODEL.
+
+/**
+ * Run a chat completion for a user, enforcing their monthly token budget and
+ * recording the tokens used. Calls without a userId are recorded as system usage.
+ */
+async function createTrackedCompletion(request: LLMChatRequest, userId?: number): Promise<LLMChatResult> {
+  await TokenUsageService.assertWithinLimit(userId);
+
+  const provider = getLLMProvider();
+  const result = await provider.createChatCompletion(request);
+
+  await TokenUsageService.recordUsage({
+    userId,
+    feature: request.feature,
+    provider: provider.name,
+    model: provider.chatModel,
+    usage: result.usage
+  });
+
+  return result;
+}
 
 /**
  * Generate a concise, meaningful title for a journal entry based on its content
  */
-export async function generateJournalTitle(content: string): Promise<string> {
+export async function generateJournalTitle(content: string, userId?: number): Promise<string> {
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
+    const response = await createTrackedCompletion({
+      feature: "title",
       messages: [
         {
           role: "system",
@@ -23,57 +46,189 @@ export async function generateJournalTitle(content: string): Promise<string> {
           content: `Generate a concise, meaningful title for this journal entry: \n\n${content}`
         }
       ],
-      max_tokens: 30,
+      maxTokens: 30,
       temperature: 0.7,
-    });
+    }, userId);
 
-    const title = response.choices[0].message.content?.trim() || "Journal Entry";
+    const title = response.content?.trim() || "Journal Entry";
     return title;
   } catch (error) {
-    console.error("Error generating journal title:", error);
-    return "Journal Entry"; // Fallback title
+    // Callers decide on a fallback; background jobs retry instead
+    if (!(error instanceof TokenLimitExceededError)) {
+      console.error("Error generating journal title:", error);
+    }
+    throw error;
   }
 }
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
 
 // Generate embeddings for text
-export async function generateEmbedding(text: string): Promise<number[]> {
+export async function generateEmbedding(text: string, userId?: number): Promise<number[]> {
   try {
-    const response = await openai.embeddings.create({
-      model: "text-embedding-3-small",
-      input: text,
-      encoding_format: "float",
+    await TokenUsageService.assertWithinLimit(userId);
+
+    const provider = getLLMProvider();
+    const response = await provider.createEmbedding(text);
+
+    await TokenUsageService.recordUsage({
+      userId,
+      feature: "embedding",
+      provider: provider.name,
+      model: provider.embeddingModel,
+      usage: response.usage
     });
 
-    return response.data[0].embedding;
+    return response.embedding;
   } catch (error) {
+    if (error instanceof TokenLimitExceededError) throw error;
     console.error("Error generating embedding:", error);
     throw error;
   }
 }
 
-// Store embedding for a journal entry
-export async function storeEmbedding(journalEntryId: number, text: string): Promise<void> {
+// Store embedding for a journal entry. Throws if the embedding can't be generated
+// or stored, so the background job that calls it can retry.
+export async function storeEmbedding(journalEntryId: number, text: string, userId?: number): Promise<void> {
+  const embedding = await generateEmbedding(text, userId);
+
   try {
-    const embedding = await generateEmbedding(text);
+    // Try to insert into journal_embeddings table, filling the vector column when the
+    // embedding matches its dimensions (models with other sizes only get the JSON copy)
+    await db.insert(journalEmbeddings).values({
+      journalEntryId,
+      embeddingJson: embedding as any,
+      embedding: embedding.length === EMBEDDING_DIMENSIONS ? embedding : null
+    });
+
+    console.log(`Stored embedding for journal entry ${journalEntryId}`);
+  } catch (dbError) {
+    // The vector column may not exist yet if the pgvector migration hasn't run.
+    // Drizzle names every column in an insert, so write the JSON copy directly.
+    console.log(`Could not store embedding vector, storing JSON only: ${dbError}`);
+    await db.execute(sql`
+      INSERT INTO journal_embeddings (journal_entry_id, embedding_json)
+      VALUES (${journalEntryId}, ${JSON.stringify(embedding)}::jsonb)
+    `);
+    console.log(`Stored JSON-only embedding for journal entry ${journalEntryId}`);
+  }
+}
 
+type SimilarEntry = { id: number; content: string; date: string; transcript?: string | null; similarity: number };
+
+// Only retrieve from permanent journal entries, not temporary chat messages
+// or entries in the recycle bin
+function journalEntriesForUser(userId: number) {
+  return and(
+    eq(journalEntries.userId, userId),
+    eq(journalEntries.isAiResponse, false),
+    eq(journalEntries.isJournal, true),
+    isNull(journalEntries.deletedAt)
+  );
+}
+
+/**
+ * Nearest-neighbour search on the pgvector column, using the HNSW index.
+ * Throws if the vector extension or column isn't available.
+ */
+async function searchEmbeddingVectors(queryEmbedding: number[], userId: number, limit: number): Promise<SimilarEntry[]> {
+  const distance = cosineDistance(journalEmbeddings.embedding, queryEmbedding);
+
+  return await db.select({
+    id: journalEntries.id,
+    content: journalEntries.content,
+    date: journalEntries.date,
+    transcript: journalEntries.transcript,
+    similarity: sql<number>`1 - (${distance})`
+  })
+  .from(journalEmbeddings)
+  .innerJoin(
+    journalEntries,
+    eq(journalEntries.id, journalEmbeddings.journalEntryId)
+  )
+  .where(
+    and(
+      journalEntriesForUser(userId),
+      isNotNull(journalEmbeddings.embedding)
+    )
+  )
+  .orderBy(distance)
+  .limit(limit);
+}
+
+/**
+ * Cosine similarity over the JSON copies of the embeddings, computed in process.
+ * Used when pgvector isn't installed or the vector column hasn't been backfilled.
+ */
+async function scanEmbeddingsJson(queryEmbedding: number[], userId: number, limit: number): Promise<SimilarEntry[]> {
+  // Get all embeddings for the user's journal entries
+  const userEntries = await db.select({
+    id: journalEntries.id,
+    content: journalEntries.content,
+    date: journalEntries.date,
+    transcript: journalEntries.transcript,
+    embedding: journalEmbeddings.embeddingJson
+  })
+  .from(journalEntries)
+  .innerJoin(
+    journalEmbeddings,
+    eq(journalEntries.id, journalEmbeddings.journalEntryId)
+  )
+  .where(journalEntriesForUser(userId));
+
+  // Calculate similarity using cosine similarity
+  return userEntries
+    .map(entry => {
+      // Extract embedding
+      const entryEmbedding = entry.embedding as unknown as number[];
+
+      // Calculate cosine similarity
+      let dotProduct = 0;
+      let queryMagnitude = 0;
+      let entryMagnitude = 0;
+
+      for (let i = 0; i < queryEmbedding.length; i++) {
+        dotProduct += queryEmbedding[i] * entryEmbedding[i];
+        queryMagnitude += queryEmbedding[i] * queryEmbedding[i];
+        entryMagnitude += entryEmbedding[i] * entryEmbedding[i];
+      }
+
+      const similarity = dotProduct / (Math.sqrt(queryMagnitude) * Math.sqrt(entryMagnitude));
+
+      return {
+        id: entry.id,
+        content: entry.content,
+        date: entry.date,
+        transcript: entry.transcript,
+        similarity
+      };
+    })
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit);
+}
+
+/**
+ * The user's entries closest in meaning to the query, by cosine similarity of
+ * their embeddings. Returns no entries if none have been embedded yet.
+ * @throws If the query can't be embedded
+ */
+export async function searchJournalEmbeddings(
+  query: string,
+  userId: number,
+  limit: number
+): Promise<SimilarEntry[]> {
+  const queryEmbedding = await generateEmbedding(query, userId);
+
+  if (queryEmbedding.length === EMBEDDING_DIMENSIONS) {
     try {
-      // Try to insert into journal_embeddings table
-      await db.insert(journalEmbeddings).values({
-        journalEntryId,
-        embeddingJson: embedding as any
-      });
-
-      console.log(`Stored embedding for journal entry ${journalEntryId}`);
-    } catch (dbError) {
-      // If table doesn't exist yet, just log but don't fail
-      console.log(`Could not store embedding (table may not exist yet): ${dbError}`);
-
-      // We could queue this for later processing if needed
+      const vectorMatches = await searchEmbeddingVectors(queryEmbedding, userId, limit);
+      if (vectorMatches.length > 0) {
+        return vectorMatches;
+      }
+    } catch (vectorError) {
+      console.log("Vector search unavailable, falling back to JSON embedding scan:", vectorError);
     }
-  } catch (error) {
-    console.error("Error generating embedding:", error);
   }
+
+  return await scanEmbeddingsJson(queryEmbedding, userId, limit);
 }
 
 // Retrieve similar journal entries based on semantic search
@@ -81,69 +236,17 @@ export async function retrieveSimilarEntries(
   query: string, 
   userId: number, 
   limit: number = 3
-): Promise<{ id: number; content: string; date: string; transcript?: string | null; similarity: number }[]> {
+): Promise<SimilarEntry[]> {
   try {
     // First, try the optimized version with embeddings if that table exists
     try {
-      // Generate embedding for the query
-      const queryEmbedding = await generateEmbedding(query);
-
-      // Get all embeddings for the user's journal entries
-      const userEntries = await db.select({
-        id: journalEntries.id,
-        content: journalEntries.content,
-        date: journalEntries.date,
-        transcript: journalEntries.transcript,
-        embedding: journalEmbeddings.embeddingJson
-      })
-      .from(journalEntries)
-      .innerJoin(
-        journalEmbeddings,
-        eq(journalEntries.id, journalEmbeddings.journalEntryId)
-      )
-      .where(
-        and(
-          eq(journalEntries.userId, userId),
-          eq(journalEntries.isAiResponse, false),
-          eq(journalEntries.isJournal, true) // Only retrieve from permanent journal entries, not temporary chat messages
-        )
-      );
-
-      // If we successfully got entries with embeddings, calculate similarity
-      if (userEntries.length > 0) {
-        // Calculate similarity using cosine similarity
-        const similarEntries = userEntries
-          .map(entry => {
-            // Extract embedding
-            const entryEmbedding = entry.embedding as unknown as number[];
-
-            // Calculate cosine similarity
-            let dotProduct = 0;
-            let queryMagnitude = 0;
-            let entryMagnitude = 0;
-
-            for (let i = 0; i < queryEmbedding.length; i++) {
-              dotProduct += queryEmbedding[i] * entryEmbedding[i];
-              queryMagnitude += queryEmbedding[i] * queryEmbedding[i];
-              entryMagnitude += entryEmbedding[i] * entryEmbedding[i];
-            }
-
-            const similarity = dotProduct / (Math.sqrt(queryMagnitude) * Math.sqrt(entryMagnitude));
-
-            return {
-              id: entry.id,
-              content: entry.content,
-              date: entry.date,
-              transcript: entry.transcript,
-              similarity
-            };
-          })
-          .sort((a, b) => b.similarity - a.similarity)
-          .slice(0, limit);
-
+      // If we successfully got entries with embeddings, return the closest ones
+      const similarEntries = await searchJournalEmbeddings(query, userId, limit);
+      if (similarEntries.length > 0) {
         return similarEntries;
       }
     } catch (e) {
+      if (e instanceof TokenLimitExceededError) throw e;
       console.log("Embeddings table may not exist yet, falling back to keyword search:", e);
     }
 
@@ -156,13 +259,7 @@ export async function retrieveSimilarEntries(
       transcript: journalEntries.transcript,
     })
     .from(journalEntries)
-    .where(
-      and(
-        eq(journalEntries.userId, userId),
-        eq(journalEntries.isAiResponse, false),
-        eq(journalEntries.isJournal, true) // Only use saved journal entries, not temporary chats
-      )
-    )
+    .where(journalEntriesForUser(userId))
     .orderBy(desc(journalEntries.date))
     .limit(10);
 
@@ -183,8 +280,8 @@ export async function retrieveSimilarEntries(
 
     // Use OpenAI to rank the relevance of entries to the query
     try {
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
+      const response = await createTrackedCompletion({
+        feature: "retrieval-ranking",
         messages: [
           {
             role: "system",
@@ -200,12 +297,12 @@ export async function retrieveSimilarEntries(
                      ${userEntries.map((entry, i) => `[${i}] ${entry.content.substring(0, 200)}...`).join('\n\n')}`
           }
         ],
-        response_format: { type: "json_object" },
+        jsonResponse: true,
         temperature: 0.3,
-      });
+      }, userId);
 
       // Parse the response to get the indices
-      const jsonResponse = JSON.parse(response.choices[0].message.content || '{"indices":[0,1,2]}');
+      const jsonResponse = JSON.parse(response.content || '{"indices":[0,1,2]}');
       const relevantIndices = Array.isArray(jsonResponse.indices) ? jsonResponse.indices : 
                               Array.isArray(jsonResponse) ? jsonResponse : [0, 1, 2];
 
@@ -222,6 +319,7 @@ export async function retrieveSimilarEntries(
         .slice(0, limit);
 
     } catch (oaiError) {
+      if (oaiError instanceof TokenLimitExceededError) throw oaiError;
       console.error("OpenAI ranking failed, returning most recent entries:", oaiError);
 
       // If OpenAI fails, just return the most recent entries
@@ -235,127 +333,255 @@ export async function retrieveSimilarEntries(
     }
 
   } catch (error) {
+    if (error instanceof TokenLimitExceededError) throw error;
     console.error("Error retrieving similar entries:", error);
     return [];
   }
 }
 
-// Chat response generation with RAG
-export async function generateAIResponse(
+/**
+ * Answer a question about the user's journal from the given entries, citing
+ * the ones it draws on by their number in the list, e.g. [2]
+ */
+export async function answerJournalQuestion(
+  question: string,
+  entries: { date: string; title: string | null; content: string }[],
+  userId: number
+): Promise<string> {
+  const context = entries
+    .map((entry, index) => {
+      const date = new Date(entry.date).toDateString();
+      return `[${index + 1}] ${date}${entry.title ? ` - ${entry.title}` : ""}\n${entry.content.substring(0, 1000)}`;
+    })
+    .join("\n\n");
+
+  const response = await createTrackedCompletion({
+    feature: "journal-answer",
+    messages: [
+      {
+        role: "system",
+        content: "You answer questions about the user's own journal. Use only the numbered journal entries provided, and cite each entry you draw on by its number in square brackets, like [2]. If the entries don't answer the question, say so plainly instead of guessing. Speak to the user as \"you\" and keep the answer under 120 words."
+      },
+      {
+        role: "user",
+        content: `Question: ${question}\n\nJournal entries:\n${context}`
+      }
+    ],
+    maxTokens: 300,
+    temperature: 0.3,
+  }, userId);
+
+  return response.content?.trim() || "";
+}
+
+type ChatHistoryMessage = { role: "user" | "ai" | string; content: string };
+
+/**
+ * Build the chat completion messages for a journaling conversation,
+ * including RAG context from the user's past entries
+ */
+async function buildChatMessages(
   userMessage: string,
-  conversationHistory: { role: "user" | "ai" | string; content: string }[],
+  conversationHistory: ChatHistoryMessage[],
   username: string,
   userId?: number,
   isMultiPartPrompt: boolean = false
-): Promise<string> {
-  try {
-    // Get relevant past entries using RAG if userId is provided
-    let contextFromPastEntries = "";
-    if (userId) {
-      try {
-        const similarEntries = await retrieveSimilarEntries(userMessage, userId);
-        if (similarEntries.length > 0) {
-          contextFromPastEntries = "Here are some relevant past journal entries that may provide context:\n\n" +
-            similarEntries.map(entry => {
-              // Use transcript field if available (from saved conversations) otherwise fall back to content
-              const entryText = entry.transcript || entry.content;
-              return `Past entry from ${new Date(entry.date).toDateString()}: "${entryText}"`;
-            }).join("\n\n");
-        }
-      } catch (error) {
-        console.log("Error retrieving similar entries, continuing without RAG context:", error);
+): Promise<LLMChatMessage[]> {
+  // Get relevant past entries using RAG if userId is provided
+  let contextFromPastEntries = "";
+  if (userId) {
+    try {
+      const similarEntries = await retrieveSimilarEntries(userMessage, userId);
+      if (similarEntries.length > 0) {
+        contextFromPastEntries = "Here are some relevant past journal entries that may provide context:\n\n" +
+          similarEntries.map(entry => {
+            // Use transcript field if available (from saved conversations) otherwise fall back to content
+            const entryText = entry.transcript || entry.content;
+            return `Past entry from ${new Date(entry.date).toDateString()}: "${entryText}"`;
+          }).join("\n\n");
       }
+    } catch (error) {
+      if (error instanceof TokenLimitExceededError) throw error;
+      console.log("Error retrieving similar entries, continuing without RAG context:", error);
     }
+  }
 
-    // Check if the conversation history already contains a system message
-    const hasSystemMessage = conversationHistory.some(msg => msg.role === "system");
-
-    let systemContent = '';
-
-    // Use a different system prompt for multi-part prompts if no system message exists
-    if (!hasSystemMessage) {
-      if (isMultiPartPrompt) {
-        systemContent = `You are Hope Log, guiding ${username} through a structured journaling exercise.
-        Break down complex prompts into smaller steps and guide the user through them one by one.
-
-        ${contextFromPastEntries ? `\n\n${contextFromPastEntries}\n\n` : ""}
-
-        Guidelines for structured journaling:
-        - Ask about ONE part of the prompt at a time
-        - Wait for the user's response before moving to the next part
-        - For prompts asking for multiple items (like "three things"), address each item separately
-        - Ask follow-up questions about WHY or HOW to encourage deeper reflection
-        - Be patient, warm and supportive throughout the process
-        - After all parts are complete, provide a brief summary of the user's reflections
-        - Never claim to be a therapist or provide medical advice`;
-      } else {
-        systemContent = `You are Hope Log, an empathetic AI journal assistant. 
-        Your purpose is to help ${username} with mental wellness through supportive conversation.
-        Be warm, thoughtful, and encouraging. 
-
-        ${contextFromPastEntries ? `\n\n${contextFromPastEntries}\n\n` : ""}
-
-        VERY IMPORTANT: When the user selects a suggested prompt (like "How am I feeling today?"), 
-        do NOT treat this as if the user is asking YOU this question. Instead, recognize this is a 
-        journaling prompt the user wants to explore. Respond by asking THEM about it.
-
-        For example:
-        - If prompt is "How am I feeling today?" → respond with "How are you feeling today? Would you like to share more about your emotions?"
-        - If prompt is "What's something I'm grateful for?" → respond with "I'd love to hear about something you're grateful for today. What comes to mind?"
-
-        Guidelines:
-        - Keep responses concise (2-3 sentences)
-        - Be empathetic and supportive
-        - Ask questions directly to the user to encourage journaling
-        - Remember details from the conversation
-        - Never claim to be a therapist or provide medical advice
-        - If the user expresses severe distress, suggest professional help`;
-      }
-    }
+  // Check if the conversation history already contains a system message
+  const hasSystemMessage = conversationHistory.some(msg => msg.role === "system");
+
+  let systemContent = '';
+
+  // Use a different system prompt for multi-part prompts if no system message exists
+  if (!hasSystemMessage) {
+    if (isMultiPartPrompt) {
+      systemContent = `You are Hope Log, guiding ${username} through a structured journaling exercise.
+      Break down complex prompts into smaller steps and guide the user through them one by one.
+
+      ${contextFromPastEntries ? `\n\n${contextFromPastEntries}\n\n` : ""}
 
-    // Build messages array
-    let messages = [] as any[];
-
-    if (hasSystemMessage) {
-      // Use the existing system message from the history
-      messages = [
-        ...conversationHistory.map((entry) => ({
-          role: entry.role === "user" ? "user" : entry.role === "system" ? "system" : "assistant",
-          content: entry.content,
-        })),
-        { role: "user", content: userMessage },
-      ];
+      Guidelines for structured journaling:
+      - Ask about ONE part of the prompt at a time
+      - Wait for the user's response before moving to the next part
+      - For prompts asking for multiple items (like "three things"), address each item separately
+      - Ask follow-up questions about WHY or HOW to encourage deeper reflection
+      - Be patient, warm and supportive throughout the process
+      - After all parts are complete, provide a brief summary of the user's reflections
+      - Never claim to be a therapist or provide medical advice`;
     } else {
-      // Use our newly created system message
-      messages = [
-        {
-          role: "system",
-          content: systemContent,
-        },
-        ...conversationHistory.map((entry) => ({
-          role: entry.role === "user" ? "user" : "assistant",
-          content: entry.content,
-        })),
-        { role: "user", content: userMessage },
-      ];
+      systemContent = `You are Hope Log, an empathetic AI journal assistant. 
+      Your purpose is to help ${username} with mental wellness through supportive conversation.
+      Be warm, thoughtful, and encouraging. 
+
+      ${contextFromPastEntries ? `\n\n${contextFromPastEntries}\n\n` : ""}
+
+      VERY IMPORTANT: When the user selects a suggested prompt (like "How am I feeling today?"), 
+      do NOT treat this as if the user is asking YOU this question. Instead, recognize this is a 
+      journaling prompt the user wants to explore. Respond by asking THEM about it.
+
+      For example:
+      - If prompt is "How am I feeling today?" → respond with "How are you feeling today? Would you like to share more about your emotions?"
+      - If prompt is "What's something I'm grateful for?" → respond with "I'd love to hear about something you're grateful for today. What comes to mind?"
+
+      Guidelines:
+      - Keep responses concise (2-3 sentences)
+      - Be empathetic and supportive
+      - Ask questions directly to the user to encourage journaling
+      - Remember details from the conversation
+      - Never claim to be a therapist or provide medical advice
+      - If the user expresses severe distress, suggest professional help`;
     }
+  }
+
+  if (hasSystemMessage) {
+    // Use the existing system message from the history
+    return [
+      ...conversationHistory.map((entry) => ({
+        role: (entry.role === "user" ? "user" : entry.role === "system" ? "system" : "assistant") as LLMChatMessage["role"],
+        content: entry.content,
+      })),
+      { role: "user", content: userMessage },
+    ];
+  }
+
+  // Use our newly created system message
+  return [
+    {
+      role: "system",
+      content: systemContent,
+    },
+    ...conversationHistory.map((entry) => ({
+      role: (entry.role === "user" ? "user" : "assistant") as LLMChatMessage["role"],
+      content: entry.content,
+    })),
+    { role: "user", content: userMessage },
+  ];
+}
+
+// Chat response generation with RAG
+export async function generateAIResponse(
+  userMessage: string,
+  conversationHistory: ChatHistoryMessage[],
+  username: string,
+  userId?: number,
+  isMultiPartPrompt: boolean = false
+): Promise<string> {
+  try {
+    // Check the budget before spending tokens on RAG retrieval
+    await TokenUsageService.assertWithinLimit(userId);
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
+    const messages = await buildChatMessages(userMessage, conversationHistory, username, userId, isMultiPartPrompt);
+
+    const response = await createTrackedCompletion({
+      feature: "chat",
       messages: messages,
-      max_tokens: isMultiPartPrompt ? 350 : 200,
+      maxTokens: isMultiPartPrompt ? 350 : 200,
       temperature: 0.7,
-    });
+    }, userId);
 
-    return response.choices[0].message.content || "I'm not sure how to respond to that.";
+    return response.content || "I'm not sure how to respond to that.";
   } catch (error) {
+    if (error instanceof TokenLimitExceededError) throw error;
     console.error("Error generating AI response:", error);
     return "I'm having trouble processing your message right now. Please try again later.";
   }
 }
 
+/**
+ * Streaming variant of generateAIResponse. Calls onToken for every chunk of
+ * text as it arrives and resolves with the full reply once the stream ends.
+ * Aborting the signal stops the completion and resolves with the partial text.
+ */
+export async function streamAIResponse(
+  userMessage: string,
+  conversationHistory: ChatHistoryMessage[],
+  username: string,
+  onToken: (token: string) => void,
+  options: { userId?: number; isMultiPartPrompt?: boolean; signal?: AbortSignal } = {}
+): Promise<{ content: string; aborted: boolean }> {
+  const { userId, isMultiPartPrompt = false, signal } = options;
+  let content = "";
+  let messages: LLMChatMessage[] = [];
+
+  // Checked before any output so the route can still answer with a 429
+  await TokenUsageService.assertWithinLimit(userId);
+
+  const provider = getLLMProvider();
+
+  try {
+    messages = await buildChatMessages(userMessage, conversationHistory, username, userId, isMultiPartPrompt);
+
+    const result = await provider.streamChatCompletion({
+      feature: "chat",
+      messages: messages,
+      maxTokens: isMultiPartPrompt ? 350 : 200,
+      temperature: 0.7,
+    }, (token) => {
+      content += token;
+      onToken(token);
+    }, signal);
+
+    await TokenUsageService.recordUsage({
+      userId,
+      feature: "chat",
+      provider: provider.name,
+      model: provider.chatModel,
+      usage: result.usage
+    });
+
+    return { content, aborted: false };
+  } catch (error) {
+    if (error instanceof TokenLimitExceededError) throw error;
+
+    if (signal?.aborted) {
+      console.log(`AI response stream aborted after ${content.length} characters`);
+      // The provider doesn't report usage for a cancelled stream, so estimate it
+      if (content) {
+        await TokenUsageService.recordUsage({
+          userId,
+          feature: "chat",
+          provider: provider.name,
+          model: provider.chatModel,
+          usage: {
+            promptTokens: estimateTokens(messages.map(message => message.content).join("\n")),
+            completionTokens: estimateTokens(content)
+          }
+        });
+      }
+      return { content, aborted: true };
+    }
+
+    console.error("Error streaming AI response:", error);
+    // Only send the fallback message if nothing has been streamed yet
+    if (!content) {
+      content = "I'm having trouble processing your message right now. Please try again later.";
+      onToken(content);
+    }
+    return { content, aborted: false };
+  }
+}
+
 // Sentiment analysis
-export async function analyzeSentiment(text: string): Promise<{
+export async function analyzeSentiment(text: string, userId?: number): Promise<{
   score: number;
   emotions: string[];
   themes: string[];
@@ -363,8 +589,8 @@ export async function analyzeSentiment(text: string): Promise<{
   tasks: { name: string; description: string }[];
 }> {
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o", 
+    const response = await createTrackedCompletion({
+      feature: "sentiment",
       messages: [
         {
           role: "system",
@@ -387,10 +613,10 @@ For each identified task/goal, determine if it's a task (quick, single action) o
           content: text,
         },
       ],
-      response_format: { type: "json_object" },
-    });
+      jsonResponse: true,
+    }, userId);
 
-    const content = response.choices[0].message.content || '{"score":3,"emotions":[],"themes":[],"goals":[],"tasks":[]}';
+    const content = response.content || '{"score":3,"emotions":[],"themes":[],"goals":[],"tasks":[]}';
     const result = JSON.parse(content);
 
     return {
@@ -401,20 +627,18 @@ For each identified task/goal, determine if it's a task (quick, single action) o
       tasks: result.tasks || [],
     };
   } catch (error) {
-    console.error("Error analyzing sentiment:", error);
-    return {
-      score: 3, 
-      emotions: ["unknown"],
-      themes: ["unknown"],
-      goals: [],
-      tasks: [],
-    };
+    // Callers decide on a fallback; background jobs retry instead
+    if (!(error instanceof TokenLimitExceededError)) {
+      console.error("Error analyzing sentiment:", error);
+    }
+    throw error;
   }
 }
 
 // Weekly summary generation
 export async function generateWeeklySummary(
-  journalEntries: { content: string; sentiment?: { score: number; emotions: string[]; themes: string[] } }[]
+  journalEntries: { content: string; sentiment?: { score: number; emotions: string[]; themes: string[] } }[],
+  userId?: number
 ): Promise<{
   topEmotions: string[];
   commonThemes: string[];
@@ -431,8 +655,8 @@ export async function generateWeeklySummary(
       })
       .join("\n\n");
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
+    const response = await createTrackedCompletion({
+      feature: "weekly-summary",
       messages: [
         {
           role: "system",
@@ -444,10 +668,10 @@ export async function generateWeeklySummary(
           content: `Here are the journal entries for the past week:\n\n${entriesText}`,
         },
       ],
-      response_format: { type: "json_object" },
-    });
+      jsonResponse: true,
+    }, userId);
 
-    const content = response.choices[0].message.content || '{"topEmotions":["Calm","Reflective","Hopeful"],"commonThemes":["Self-care","Productivity","Relationships"],"insight":"Consider setting aside time each day for intentional relaxation."}';
+    const content = response.content || '{"topEmotions":["Calm","Reflective","Hopeful"],"commonThemes":["Self-care","Productivity","Relationships"],"insight":"Consider setting aside time each day for intentional relaxation."}';
     const result = JSON.parse(content);
 
     return {
@@ -456,6 +680,7 @@ export async function generateWeeklySummary(
       insights: result.insight || "Consider setting aside time each day for intentional relaxation.",
     };
   } catch (error) {
+    if (error instanceof TokenLimitExceededError) throw error;
     console.error("Error generating weekly summary:", error);
     return {
       topEmotions: ["Calm", "Reflective", "Hopeful"],
@@ -468,7 +693,8 @@ export async function generateWeeklySummary(
 // Generate prompts based on user's history
 export async function generateCustomPrompts(
   recentEntries: string[],
-  userMoods: number[]
+  userMoods: number[],
+  userId?: number
 ): Promise<string[]> {
   try {
     const avgMood = userMoods.length > 0
@@ -481,8 +707,8 @@ export async function generateCustomPrompts(
         ? "higher than average" 
         : "average";
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
+    const response = await createTrackedCompletion({
+      feature: "custom-prompts",
       messages: [
         {
           role: "system",
@@ -494,10 +720,10 @@ export async function generateCustomPrompts(
           content: `Recent journal entries: ${recentEntries.join("\n\n")}\n\nThe user's mood has been ${moodDescription} recently.`,
         },
       ],
-      response_format: { type: "json_object" },
-    });
+      jsonResponse: true,
+    }, userId);
 
-    const content = response.choices[0].message.content || '{"prompts":["What are three things that went well today, and why?","When did you feel most at peace this week?","What\'s one small step you can take tomorrow to feel better?"]}';
+    const content = response.content || '{"prompts":["What are three things that went well today, and why?","When did you feel most at peace this week?","What\'s one small step you can take tomorrow to feel better?"]}';
     const result = JSON.parse(content);
     return result.prompts || [
       "What are three things that went well today, and why?",
@@ -505,6 +731,7 @@ export async function generateCustomPrompts(
       "What's one small step you can take tomorrow to feel better?",
     ];
   } catch (error) {
+    if (error instanceof TokenLimitExceededError) throw error;
     console.error("Error generating prompts:", error);
     return [
       "What are three things that went well today, and why?",
@@ -517,7 +744,8 @@ export async function generateCustomPrompts(
 // Generate goal and habit suggestions based on journal entries
 export async function generateGoalSuggestions(
   recentEntries: { content: string; date: string; id?: number }[],
-  existingGoals: { name: string; targetDate?: string | null; progress: number }[] = []
+  existingGoals: { name: string; targetDate?: string | null; progress: number }[] = [],
+  userId?: number
 ): Promise<{ goals: { name: string; type: 'goal' | 'habit'; description: string; category?: string; explanation?: string }[] }> {
   try {
     // Extract the content of the journal entries
@@ -536,6 +764,7 @@ export async function generateGoalSuggestions(
           similarEntries = await retrieveSimilarEntries(recentEntries[0].content, firstEntry.userId, 5);
         }
       } catch (error) {
+        if (error instanceof TokenLimitExceededError) throw error;
         console.log("Error retrieving similar entries, continuing without RAG context:", error);
       }
     }
@@ -556,8 +785,8 @@ export async function generateGoalSuggestions(
         ).join('\n')}`
       : "The user currently has no active goals or habits.";
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
+    const response = await createTrackedCompletion({
+      feature: "goal-suggestions",
       messages: [
         {
           role: "system",
@@ -587,13 +816,14 @@ export async function generateGoalSuggestions(
           content: `Here are my recent journal entries:\n\n${entriesText}${similarEntriesText}\n\n${existingGoalsText}`
         }
       ],
-      response_format: { type: "json_object" },
+      jsonResponse: true,
       temperature: 0.7,
-    });
+    }, userId);
 
-    const content = response.choices[0].message.content || '{"goals":[]}';
+    const content = response.content || '{"goals":[]}';
     return JSON.parse(content);
   } catch (error) {
+    if (error instanceof TokenLimitExceededError) throw error;
     console.error("Error generating goal suggestions:", error);
     return { goals: [] };
   }
@@ -603,7 +833,8 @@ export async function generateGoalSuggestions(
 export async function generateTaskSuggestions(
   recentEntries: { content: string; date: string }[],
   existingTasks: { title: string; completed: boolean }[] = [],
-  existingGoals: { name: string; progress: number }[] = []
+  existingGoals: { name: string; progress: number }[] = [],
+  userId?: number
 ): Promise<{ tasks: { name: string; description: string }[]; goalSuggestions: { name: string; description: string; relatedTasks: string[] }[] }> {
   try {
     // Extract the content of the journal entries
@@ -623,8 +854,8 @@ export async function generateTaskSuggestions(
         ).join('\n')}`
       : "The user currently has no active goals.";
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
+    const response = await createTrackedCompletion({
+      feature: "task-suggestions",
       messages: [
         {
           role: "system",
@@ -676,13 +907,14 @@ export async function generateTaskSuggestions(
           content: `Here are my recent journal entries:\n\n${entriesText}\n\n${existingTasksText}\n\n${existingGoalsText}`
         }
       ],
-      response_format: { type: "json_object" },
+      jsonResponse: true,
       temperature: 0.7,
-    });
+    }, userId);
 
-    const content = response.choices[0].message.content || '{"tasks":[], "goalSuggestions":[]}';
+    const content = response.content || '{"tasks":[], "goalSuggestions":[]}';
     return JSON.parse(content);
   } catch (error) {
+    if (error instanceof TokenLimitExceededError) throw error;
     console.error("Error generating task suggestions:", error);
     return { tasks: [], goalSuggestions: [] };
   }
@@ -696,7 +928,8 @@ export async function generateCombinedSuggestions(
   recentEntries: { content: string; date: string; id?: number }[],
   existingGoals: { name: string; progress: number; targetDate?: string | null; id?: number }[] = [],
   existingTasks: { title: string; status: string }[] = [],
-  existingHabits: { title: string; frequency: string }[] = []
+  existingHabits: { title: string; frequency: string }[] = [],
+  userId?: number
 ): Promise<{ 
   goals: { 
     name: string; 
@@ -721,10 +954,10 @@ export async function generateCombinedSuggestions(
   try {
     console.log(`🔍 generateCombinedSuggestions called with ${recentEntries.length} entries`);
     
-    // Check if OpenAI API key is configured
-    if (!process.env.OPENAI_API_KEY) {
+    // Check if the LLM provider is configured
+    if (!getLLMProvider().isConfigured()) {
       console.error("⚠️ OPENAI_API_KEY is missing. Cannot generate suggestions.");
-      throw new Error("OpenAI API key is missing. Please add OPENAI_API_KEY to your environment variables.");
+      throw new Error("OpenAI API key is missing. Please add OPENAI_API_KEY to your environment variables or set LLM_PROVIDER.");
     }
     
     // Check if we have any entries to analyze
@@ -748,6 +981,7 @@ export async function generateCombinedSuggestions(
           similarEntries = await retrieveSimilarEntries(recentEntries[0].content, firstEntry.userId, 5);
         }
       } catch (error) {
+        if (error instanceof TokenLimitExceededError) throw error;
         console.log("Error retrieving similar entries, continuing without RAG context:", error);
       }
     }
@@ -780,8 +1014,8 @@ export async function generateCombinedSuggestions(
         ).join('\n')}`
       : "The user currently has no active habits.";
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
+    const response = await createTrackedCompletion({
+      feature: "combined-suggestions",
       messages: [
         {
           role: "system",
@@ -839,11 +1073,11 @@ Return a JSON object with:
           content: `Here are my recent journal entries:\n\n${entriesText}${similarEntriesText}\n\n${existingGoalsText}\n\n${existingTasksText}\n\n${existingHabitsText}`
         }
       ],
-      response_format: { type: "json_object" },
+      jsonResponse: true,
       temperature: 0.7,
-    });
+    }, userId);
 
-    const content = response.choices[0].message.content || '{"goals":[], "tasks":[], "habits":[]}';
+    const content = response.content || '{"goals":[], "tasks":[], "habits":[]}';
     const parsed = JSON.parse(content);
     
     // Process the tasks to match our expected format
@@ -885,7 +1119,10 @@ Return a JSON object with:
       habits: processedHabits
     };
   } catch (error) {
-    console.error("Error generating combined suggestions:", error);
-    return { goals: [], tasks: [], habits: [] };
+    // Rethrown so processSingleEntry's background job can retry
+    if (!(error instanceof TokenLimitExceededError)) {
+      console.error("Error generating combined suggestions:", error);
+    }
+    throw error;
   }
 }
\ No newline at end of file
@@ -0,0 +1,166 @@
+import { asc, desc, sql, SQL } from "drizzle-orm";
+import { AnyPgColumn } from "drizzle-orm/pg-core";
+import { z } from "zod";
+
+/**
+ * Cursor Pagination
+ *
+ * Keyset pagination for the journal, goal, task and habit lists. Rows are
+ * ordered by a sort key and then by id, and the cursor holds the sort key and
+ * id of the last row on a page, so the next page starts right after it even
+ * when rows are added or removed in between.
+ *
+ * List routes return a page ({ items, nextCursor }) when given a limit or
+ * cursor, and every row as before otherwise.
+ */
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export class PaginationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PaginationError";
+  }
+}
+
+export interface Page<T> {
+  items: T[];
+  // Pass back as ?cursor= for the next page; null on the last page
+  nextCursor: string | null;
+}
+
+/**
+ * Whether a list request asked for a page rather than every row
+ */
+export function isPageRequest(query: Record<string, unknown>): boolean {
+  return query.limit !== undefined || query.cursor !== undefined;
+}
+
+const pageParams = {
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+  cursor: z.string().max(500).optional(),
+};
+
+const dateParam = z.string().datetime({ offset: true }).optional();
+
+export const journalEntryListSchema = z.object({
+  ...pageParams,
+  order: z.enum(["asc", "desc"]).default("desc"),
+  from: dateParam,
+  to: dateParam,
+  type: z.enum(["all", "user", "ai"]).default("all"),
+});
+
+export const goalListSchema = z.object({
+  ...pageParams,
+  sort: z.enum(["createdAt", "targetDate", "progress", "name"]).default("createdAt"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  progress: z.enum(["all", "not-started", "in-progress", "completed"]).default("all"),
+  category: z.string().max(100).optional(),
+  targetFrom: dateParam,
+  targetTo: dateParam,
+});
+
+export const taskListSchema = z.object({
+  ...pageParams,
+  sort: z.enum(["createdAt", "dueDate", "priority"]).default("createdAt"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  status: z.enum(["all", "pending", "completed"]).default("all"),
+  // A goal's id, or "none" for tasks without a goal
+  goalId: z.union([z.literal("none"), z.coerce.number().int().positive()]).optional(),
+  dueFrom: dateParam,
+  dueTo: dateParam,
+});
+
+export const habitListSchema = z.object({
+  ...pageParams,
+  sort: z.enum(["createdAt", "title", "streak"]).default("createdAt"),
+  order: z.enum(["asc", "desc"]).default("asc"),
+  frequency: z.enum(["daily", "weekly", "monthly"]).optional(),
+  status: z.string().max(50).optional(),
+});
+
+export type JournalEntryListOptions = z.infer<typeof journalEntryListSchema>;
+export type GoalListOptions = z.infer<typeof goalListSchema>;
+export type TaskListOptions = z.infer<typeof taskListSchema>;
+export type HabitListOptions = z.infer<typeof habitListSchema>;
+
+/**
+ * How a list is ordered. The key must never be null (coalesce nullable
+ * columns), since rows are compared to the cursor with (key, id) > (...).
+ */
+export interface KeysetSort {
+  name: string;
+  key: SQL | AnyPgColumn;
+  id: AnyPgColumn;
+  direction: "asc" | "desc";
+}
+
+interface CursorData {
+  sort: string;
+  key: string;
+  id: number;
+}
+
+function encodeCursor(data: CursorData): string {
+  return Buffer.from(JSON.stringify([data.sort, data.key, data.id])).toString("base64url");
+}
+
+function decodeCursor(cursor: string, sort: KeysetSort): CursorData {
+  try {
+    const [name, key, id] = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (typeof name === "string" && typeof key === "string" && Number.isInteger(id)) {
+      if (name !== sort.name) {
+        throw new PaginationError("The cursor is for a different sort order; start again without it");
+      }
+      return { sort: name, key, id };
+    }
+  } catch (error) {
+    if (error instanceof PaginationError) throw error;
+  }
+  throw new PaginationError("Invalid cursor");
+}
+
+/**
+ * The sort key as text, selected with each row so the last one can be put in the cursor
+ */
+export function sortKeyText(sort: KeysetSort) {
+  return sql<string>`(${sort.key})::text`;
+}
+
+/**
+ * The condition for rows after the cursor, or undefined on the first page
+ * @throws PaginationError if the cursor is malformed or for another sort
+ */
+export function afterCursor(sort: KeysetSort, cursor?: string): SQL | undefined {
+  if (!cursor) return undefined;
+  const { key, id } = decodeCursor(cursor, sort);
+  return sort.direction === "asc"
+    ? sql`(${sort.key}, ${sort.id}) > (${key}, ${id})`
+    : sql`(${sort.key}, ${sort.id}) < (${key}, ${id})`;
+}
+
+export function keysetOrderBy(sort: KeysetSort): SQL[] {
+  const direction = sort.direction === "asc" ? asc : desc;
+  return [direction(sort.key), direction(sort.id)];
+}
+
+/**
+ * Build a page from rows fetched with a limit one higher than the page size;
+ * the extra row only shows that there is another page.
+ */
+export function toPage<T extends { id: number }>(
+  rows: { item: T; sortKey: string }[],
+  sort: KeysetSort,
+  limit: number
+): Page<T> {
+  const pageRows = rows.slice(0, limit);
+  const last = pageRows[pageRows.length - 1];
+  return {
+    items: pageRows.map(row => row.item),
+    nextCursor: rows.length > limit && last
+      ? encodeCursor({ sort: sort.name, key: last.sortKey, id: last.item.id })
+      : null,
+  };
+}
@@ -68,10 +68,32 @@ export async function getPayPalCredentials() {
   }
 }
 
+// Get the ID of the webhook registered in the PayPal dashboard, needed to verify event signatures
+export async function getPayPalWebhookId(): Promise<string> {
+  try {
+    const webhookIdRecord = await db.select()
+      .from(systemSettings)
+      .where(eq(systemSettings.key, "paypal_webhook_id"))
+      .limit(1);
+
+    if (webhookIdRecord.length > 0 && webhookIdRecord[0].value) {
+      return webhookIdRecord[0].value;
+    }
+  } catch (err) {
+    console.warn("[PayPal] Error fetching PayPal webhook ID from settings:", err);
+  }
+  return process.env.PAYPAL_WEBHOOK_ID || '';
+}
+
 /**
- * Get PayPal API URL based on mode (sandbox or live)
+ * Get PayPal API URL based on mode (sandbox or live).
+ * PAYPAL_API_URL overrides both, e.g. to point at the local stand-in in
+ * server/scripts/paypal-stand-in.ts during development.
  */
 export function getPayPalApiUrl(mode: string = 'sandbox'): string {
+  if (process.env.PAYPAL_API_URL) {
+    return process.env.PAYPAL_API_URL.replace(/\/$/, '');
+  }
   return mode === 'sandbox' 
     ? 'https://api-m.sandbox.paypal.com' 
     : 'https://api-m.paypal.com';
@@ -1,31 +1,17 @@
-import { makePayPalRequest, getPayPalAccessToken, getPayPalCallbackUrl } from './paypal-auth';
-import { db } from './db';
-import { subscriptionPlans, payments, subscriptions, users } from '@shared/schema';
-import { eq, and } from 'drizzle-orm';
-
-// Helper function to convert Date to ISO string for database
-function dateToISOString(date: Date): string {
-  return date.toISOString();
-}
+import { makePayPalRequest, getPayPalCallbackUrl, getPayPalCredentials } from './paypal-auth';
+import { SubscriptionPlan } from '@shared/schema';
+import { getPromoCode, calculateDiscount, PromoQuote } from './promo-codes';
+import { activateSubscription, BillingProvider } from './billing';
 
 export class PayPalRestService {
   /**
-   * Creates a PayPal order using the REST API with OAuth
+   * Creates a PayPal order using the REST API with OAuth.
+   * The order is for the plan price less any promo code discount; the promo
+   * code's ID travels with the order as custom_id so the capture can record it.
    */
-  static async createOrder(planName: string, userId: number) {
-    console.log(`[PayPal] Creating order for plan: ${planName}, userId: ${userId}`);
-    
-    // Get the subscription plan
-    const [plan] = await db.select()
-      .from(subscriptionPlans)
-      .where(eq(subscriptionPlans.name, planName));
-    
-    if (!plan) {
-      console.error(`[PayPal] Subscription plan '${planName}' not found`);
-      throw new Error(`Subscription plan '${planName}' not found`);
-    }
-    
-    console.log(`[PayPal] Found plan:`, plan);
+  static async createOrder(plan: SubscriptionPlan, userId: number, quote: PromoQuote | null) {
+    console.log(`[PayPal] Creating order for plan: ${plan.name}, userId: ${userId}`);
+    const amount = quote ? quote.finalAmount : plan.price;
     
     // Get callback URL
     const baseUrl = await getPayPalCallbackUrl();
@@ -33,7 +19,7 @@ export class PayPalRestService {
     
     // Create return and cancel URLs
     // Note: PayPal uses 'token' as the parameter name for the order ID
-    const returnUrl = `${baseUrl}?planName=${encodeURIComponent(planName)}`;
+    const returnUrl = `${baseUrl}?planName=${encodeURIComponent(plan.name)}`;
     const cancelUrl = `${baseUrl}?cancelled=true`;
     
     console.log(`[PayPal] Return URL: ${returnUrl}`);
@@ -44,10 +30,11 @@ export class PayPalRestService {
       intent: 'CAPTURE',
       purchase_units: [{
         reference_id: `plan_${plan.id}_user_${userId}`,
+        ...(quote ? { custom_id: `promo_${quote.promoCode.id}` } : {}),
         description: plan.description || `${plan.displayName} Subscription`,
         amount: {
           currency_code: 'USD',
-          value: plan.price.toString()
+          value: amount.toFixed(2)
         }
       }],
       application_context: {
@@ -83,7 +70,9 @@ export class PayPalRestService {
       return {
         orderId: order.id,
         status: order.status,
-        links: order.links
+        links: order.links,
+        amount,
+        discountAmount: quote?.discountAmount ?? 0
       };
     } catch (err: any) {
       console.error('[PayPal] Error creating order:', err);
@@ -102,8 +91,8 @@ export class PayPalRestService {
   /**
    * Captures a PayPal order after approval using REST API with OAuth
    */
-  static async captureOrder(orderId: string, userId: number, planName: string) {
-    console.log(`[PayPal] Capturing order: ${orderId} for user: ${userId}, plan: ${planName}`);
+  static async captureOrder(orderId: string, userId: number, plan: SubscriptionPlan) {
+    console.log(`[PayPal] Capturing order: ${orderId} for user: ${userId}, plan: ${plan.name}`);
     
     try {
       console.log(`[PayPal] Making REST API request to capture order`);
@@ -134,41 +123,14 @@ export class PayPalRestService {
       const amount = parseFloat(captureDetails.amount.value);
       console.log(`[PayPal] Capture ID: ${captureId}, Amount: ${amount}`);
       
-      // Get plan details
-      console.log(`[PayPal] Looking up plan: ${planName}`);
-      const [plan] = await db.select()
-        .from(subscriptionPlans)
-        .where(eq(subscriptionPlans.name, planName));
-      
-      if (!plan) {
-        console.error(`[PayPal] Subscription plan '${planName}' not found`);
-        throw new Error(`Subscription plan '${planName}' not found`);
-      }
-      console.log(`[PayPal] Found plan:`, plan);
-
-      // Insert a new subscription
-      const endDate = new Date();
-      if (plan.interval === 'month') {
-        endDate.setMonth(endDate.getMonth() + 1);
-      } else if (plan.interval === 'year') {
-        endDate.setFullYear(endDate.getFullYear() + 1);
+      // The promo code the order was created with, if any
+      const promoMatch = typeof captureDetails.custom_id === 'string'
+        ? captureDetails.custom_id.match(/^promo_(\d+)$/)
+        : null;
+      const promo = promoMatch ? await getPromoCode(Number(promoMatch[1])) : null;
+      if (promo) {
+        console.log(`[PayPal] Order was placed with promo code ${promo.code}`);
       }
-      console.log(`[PayPal] Subscription will end at: ${endDate.toISOString()}`);
-
-      // Insert the subscription
-      console.log(`[PayPal] Creating subscription record in database`);
-      const [subscription] = await db.insert(subscriptions)
-        .values({
-          userId,
-          planId: plan.id,
-          status: 'active',
-          startDate: dateToISOString(new Date()),
-          endDate: dateToISOString(endDate),
-          paypalSubscriptionId: null, // This is a one-time payment, not a recurring subscription
-        })
-        .returning();
-
-      console.log(`[PayPal] Created subscription record:`, subscription);
 
       // Record the payment
       const paymentMetadata = {};
@@ -178,43 +140,23 @@ export class PayPalRestService {
         Object.assign(paymentMetadata, {
           id: captureResult.id,
           status: captureResult.status,
-          payment_source: captureResult.payment_source || null
+          payment_source: captureResult.payment_source || null,
+          ...(promo ? { promoCode: promo.code } : {})
         });
       } catch (err) {
         console.warn('[PayPal] Could not extract all PayPal response details', err);
       }
 
-      console.log(`[PayPal] Creating payment record in database`);
-      await db.insert(payments)
-        .values({
-          userId,
-          subscriptionId: subscription.id,
-          amount,
-          paymentMethod: 'paypal',
-          paymentId: captureId,
-          status: 'completed',
-          paymentDate: dateToISOString(new Date()),
-          metadata: paymentMetadata
-        });
-
-      // Update user's subscription status
-      console.log(`[PayPal] Updating user subscription status`);
-      await db.update(users)
-        .set({
-          subscriptionTier: 'pro',
-          subscriptionStatus: 'active',
-          subscriptionExpiresAt: dateToISOString(endDate)
-        })
-        .where(eq(users.id, userId));
+      const result = await activateSubscription('paypal', userId, plan, {
+        amount,
+        paymentId: captureId,
+        promoCodeId: promo?.id ?? null,
+        discountAmount: promo ? calculateDiscount(promo, plan.price) : null,
+        metadata: paymentMetadata
+      });
 
       console.log(`[PayPal] Payment successfully processed and subscription activated`);
-      return {
-        subscriptionId: subscription.id,
-        status: 'active',
-        paymentStatus: 'completed',
-        startDate: subscription.startDate,
-        endDate: subscription.endDate
-      };
+      return result;
     } catch (err: any) {
       console.error('[PayPal] Error capturing order:', err);
       
@@ -236,4 +178,39 @@ export class PayPalRestService {
       throw new Error(errorMessage);
     }
   }
-}
\ No newline at end of file
+}
+
+export const paypalBillingProvider: BillingProvider = {
+  name: 'paypal',
+  displayName: 'PayPal',
+
+  async isConfigured() {
+    const { clientId, clientSecret } = await getPayPalCredentials();
+    return !!clientId && !!clientSecret;
+  },
+
+  async createCheckout(userId, plan, quote) {
+    const order = await PayPalRestService.createOrder(plan, userId, quote);
+    const approvalLink = (order.links || []).find((link: any) => link.rel === 'approve');
+    return {
+      provider: 'paypal',
+      reference: order.orderId,
+      redirectUrl: approvalLink?.href ?? null,
+      amount: order.amount,
+      discountAmount: order.discountAmount
+    };
+  },
+
+  completeCheckout(userId, reference, plan) {
+    return PayPalRestService.captureOrder(reference, userId, plan);
+  },
+
+  // Orders are one-off payments; only subscriptions PayPal bills itself need cancelling there
+  async cancelSubscription(subscription) {
+    if (!subscription.paypalSubscriptionId) return;
+    console.log(`[PayPal] Cancelling PayPal subscription ${subscription.paypalSubscriptionId}`);
+    await makePayPalRequest('post', `/v1/billing/subscriptions/${subscription.paypalSubscriptionId}/cancel`, {
+      reason: 'Cancelled by the subscriber'
+    });
+  }
+};
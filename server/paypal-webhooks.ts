@@ -0,0 +1,579 @@
+import type { IncomingHttpHeaders } from "http";
+import { db } from "./db";
+import {
+  backgroundJobs,
+  paypalWebhookEvents,
+  subscriptions,
+  subscriptionPlans,
+  payments,
+  users,
+  PaypalWebhookEvent,
+  Payment,
+  Subscription,
+} from "@shared/schema";
+import { and, desc, eq, sql } from "drizzle-orm";
+import { makePayPalRequest, getPayPalWebhookId } from "./paypal-auth";
+import { enqueueJob, registerJobHandler } from "./job-queue";
+import { parseDbTimestamp } from "./schedule-utils";
+import { syncUserSubscription } from "./subscription-lifecycle";
+import { getOrIssueInvoice } from "./invoices";
+
+/**
+ * PayPal Webhooks
+ *
+ * PayPal reports renewals, failed payments, suspensions, refunds and disputes
+ * through webhooks. Each event's signature is checked with PayPal's
+ * verify-webhook-signature API, then the event is stored once by its event ID
+ * (PayPal redelivers until it gets a 2xx) and applied by a "paypal-webhook" job,
+ * so a failure is retried by the job queue rather than by PayPal.
+ *
+ * Applying an event moves the matching row in subscriptions through
+ * active → past_due → suspended, or to cancelled, refunded or expired, records
+ * the payment, and keeps users.subscriptionTier and subscriptionStatus in step
+ * through syncUserSubscription.
+ *
+ * Recorded events live in server/fixtures/paypal-webhooks and can be replayed
+ * against a local stand-in for PayPal with server/scripts/paypal-stand-in.ts.
+ */
+
+export interface PayPalWebhookEventBody {
+  id: string;
+  event_type: string;
+  resource_type?: string;
+  summary?: string;
+  create_time?: string;
+  resource: Record<string, any>;
+}
+
+export interface WebhookTransmission {
+  transmissionId: string;
+  transmissionTime: string;
+  transmissionSig: string;
+  certUrl: string;
+  authAlgo: string;
+}
+
+interface EventOutcome {
+  status: "processed" | "ignored";
+  subscriptionId?: number;
+  detail?: string;
+}
+
+export class WebhookNotConfiguredError extends Error {
+  constructor() {
+    super("PayPal webhook ID is not configured");
+    this.name = "WebhookNotConfiguredError";
+  }
+}
+
+/**
+ * The PayPal-Transmission-* headers of a webhook request, or null if any are missing
+ */
+export function getWebhookTransmission(headers: IncomingHttpHeaders): WebhookTransmission | null {
+  const header = (name: string) => {
+    const value = headers[name];
+    return Array.isArray(value) ? value[0] : value;
+  };
+
+  const transmission = {
+    transmissionId: header("paypal-transmission-id"),
+    transmissionTime: header("paypal-transmission-time"),
+    transmissionSig: header("paypal-transmission-sig"),
+    certUrl: header("paypal-cert-url"),
+    authAlgo: header("paypal-auth-algo"),
+  };
+
+  if (Object.values(transmission).some(value => !value)) return null;
+  return transmission as WebhookTransmission;
+}
+
+/**
+ * Ask PayPal whether an event was signed for our webhook
+ * @throws WebhookNotConfiguredError if no webhook ID is set
+ */
+export async function verifyWebhookSignature(
+  transmission: WebhookTransmission,
+  event: PayPalWebhookEventBody
+): Promise<boolean> {
+  const webhookId = await getPayPalWebhookId();
+  if (!webhookId) {
+    throw new WebhookNotConfiguredError();
+  }
+
+  const result = await makePayPalRequest("post", "/v1/notifications/verify-webhook-signature", {
+    auth_algo: transmission.authAlgo,
+    cert_url: transmission.certUrl,
+    transmission_id: transmission.transmissionId,
+    transmission_sig: transmission.transmissionSig,
+    transmission_time: transmission.transmissionTime,
+    webhook_id: webhookId,
+    webhook_event: event,
+  });
+
+  return result?.verification_status === "SUCCESS";
+}
+
+/**
+ * Store a verified event and queue it for processing. An event PayPal has
+ * already delivered is not stored again; one that failed is queued again
+ * unless a retry is already waiting in the queue.
+ * @returns The stored event and whether it had been received before
+ */
+export async function receiveWebhookEvent(
+  event: PayPalWebhookEventBody
+): Promise<{ webhookEvent: PaypalWebhookEvent; duplicate: boolean }> {
+  const [inserted] = await db
+    .insert(paypalWebhookEvents)
+    .values({
+      eventId: event.id,
+      eventType: event.event_type,
+      resourceType: event.resource_type ?? null,
+      resourceId: typeof event.resource?.id === "string" ? event.resource.id : null,
+      payload: event as unknown as Record<string, any>,
+      status: "received",
+    })
+    .onConflictDoNothing({ target: paypalWebhookEvents.eventId })
+    .returning();
+
+  if (inserted) {
+    await enqueueJob("paypal-webhook", { webhookEventId: inserted.id });
+    return { webhookEvent: inserted, duplicate: false };
+  }
+
+  // Claim the failed event in the same statement that checks for a queued retry,
+  // so concurrent deliveries queue it once
+  const [requeued] = await db
+    .update(paypalWebhookEvents)
+    .set({ status: "received", detail: null })
+    .where(and(
+      eq(paypalWebhookEvents.eventId, event.id),
+      eq(paypalWebhookEvents.status, "failed"),
+      sql`NOT EXISTS (
+        SELECT 1 FROM ${backgroundJobs}
+        WHERE ${backgroundJobs.type} = 'paypal-webhook'
+          AND ${backgroundJobs.status} IN ('pending', 'running')
+          AND (${backgroundJobs.payload}->>'webhookEventId')::int = ${paypalWebhookEvents.id}
+      )`
+    ))
+    .returning();
+
+  if (requeued) {
+    await enqueueJob("paypal-webhook", { webhookEventId: requeued.id });
+    return { webhookEvent: requeued, duplicate: true };
+  }
+
+  const [existing] = await db
+    .select()
+    .from(paypalWebhookEvents)
+    .where(eq(paypalWebhookEvents.eventId, event.id));
+  return { webhookEvent: existing, duplicate: true };
+}
+
+function addPlanInterval(from: Date, interval: string): Date {
+  const date = new Date(from);
+  if (interval === "year") {
+    date.setFullYear(date.getFullYear() + 1);
+  } else {
+    date.setMonth(date.getMonth() + 1);
+  }
+  return date;
+}
+
+function isInFuture(value: string | null, now: Date): boolean {
+  return !!value && parseDbTimestamp(value).getTime() > now.getTime();
+}
+
+/**
+ * Update a subscription's status, then bring the user's tier and status in line
+ */
+async function setSubscriptionStatus(
+  subscription: Subscription,
+  status: string,
+  changes: Partial<Pick<Subscription, "endDate" | "cancelledAt" | "cancelAtPeriodEnd" | "paypalSubscriptionId">> = {}
+): Promise<Subscription> {
+  const [updated] = await db
+    .update(subscriptions)
+    .set({ ...changes, status, updatedAt: new Date().toISOString() })
+    .where(eq(subscriptions.id, subscription.id))
+    .returning();
+
+  await syncUserSubscription(updated.userId);
+  return updated;
+}
+
+async function findSubscriptionByPayPalId(paypalSubscriptionId: string | undefined): Promise<Subscription | null> {
+  if (!paypalSubscriptionId) return null;
+  const [subscription] = await db
+    .select()
+    .from(subscriptions)
+    .where(eq(subscriptions.paypalSubscriptionId, paypalSubscriptionId))
+    .orderBy(desc(subscriptions.id))
+    .limit(1);
+  return subscription ?? null;
+}
+
+async function findPayment(paymentId: string | undefined): Promise<Payment | null> {
+  if (!paymentId) return null;
+  const [payment] = await db
+    .select()
+    .from(payments)
+    .where(and(eq(payments.paymentMethod, "paypal"), eq(payments.paymentId, paymentId)))
+    .limit(1);
+  return payment ?? null;
+}
+
+async function findSubscriptionById(id: number | null): Promise<Subscription | null> {
+  if (!id) return null;
+  const [subscription] = await db.select().from(subscriptions).where(eq(subscriptions.id, id));
+  return subscription ?? null;
+}
+
+// The capture a refund belongs to, from its "up" link (/v2/payments/captures/{id})
+function getRefundedCaptureId(refund: Record<string, any>): string | undefined {
+  const up = (refund.links || []).find((link: any) => link.rel === "up");
+  const match = typeof up?.href === "string" ? up.href.match(/\/captures\/([^/]+)$/) : null;
+  return match ? match[1] : undefined;
+}
+
+/**
+ * A newly activated PayPal subscription is linked to our subscription with the
+ * same PayPal ID, or created from a custom_id of the form plan_{planId}_user_{userId}
+ */
+async function handleSubscriptionActivated(event: PayPalWebhookEventBody): Promise<EventOutcome> {
+  const resource = event.resource;
+  const nextBillingTime: string | undefined = resource.billing_info?.next_billing_time;
+  let subscription = await findSubscriptionByPayPalId(resource.id);
+
+  if (!subscription) {
+    const match = typeof resource.custom_id === "string" ? resource.custom_id.match(/^plan_(\d+)_user_(\d+)$/) : null;
+    if (!match) {
+      return { status: "ignored", detail: `No subscription found for PayPal subscription ${resource.id}` };
+    }
+
+    const [plan] = await db.select().from(subscriptionPlans).where(eq(subscriptionPlans.id, Number(match[1])));
+    const [user] = await db.select({ id: users.id }).from(users).where(eq(users.id, Number(match[2])));
+    if (!plan || !user) {
+      return { status: "ignored", detail: `Unknown plan or user in custom_id ${resource.custom_id}` };
+    }
+
+    const startDate = resource.start_time ? new Date(resource.start_time) : new Date();
+    [subscription] = await db
+      .insert(subscriptions)
+      .values({
+        userId: user.id,
+        planId: plan.id,
+        status: "active",
+        provider: "paypal",
+        startDate: startDate.toISOString(),
+        endDate: (nextBillingTime ? new Date(nextBillingTime) : addPlanInterval(startDate, plan.interval)).toISOString(),
+        paypalSubscriptionId: resource.id,
+      })
+      .returning();
+  }
+
+  const updated = await setSubscriptionStatus(subscription, "active", {
+    ...(nextBillingTime ? { endDate: new Date(nextBillingTime).toISOString() } : {}),
+    cancelAtPeriodEnd: false,
+    cancelledAt: null,
+  });
+  return { status: "processed", subscriptionId: updated.id };
+}
+
+/**
+ * A recurring payment went through: record it and extend the subscription by one period
+ */
+async function handleSaleCompleted(event: PayPalWebhookEventBody): Promise<EventOutcome> {
+  const sale = event.resource;
+  if (!sale.billing_agreement_id) {
+    return { status: "ignored", detail: "Sale is not part of a PayPal subscription" };
+  }
+
+  const subscription = await findSubscriptionByPayPalId(sale.billing_agreement_id);
+  if (!subscription) {
+    return { status: "ignored", detail: `No subscription found for PayPal subscription ${sale.billing_agreement_id}` };
+  }
+
+  if (await findPayment(sale.id)) {
+    return { status: "ignored", subscriptionId: subscription.id, detail: `Payment ${sale.id} is already recorded` };
+  }
+
+  const [plan] = await db.select().from(subscriptionPlans).where(eq(subscriptionPlans.id, subscription.planId));
+  const now = new Date();
+  const periodStart = isInFuture(subscription.endDate, now) ? parseDbTimestamp(subscription.endDate!) : now;
+  const endDate = addPlanInterval(periodStart, plan?.interval ?? "month");
+
+  const [payment] = await db.insert(payments).values({
+    userId: subscription.userId,
+    subscriptionId: subscription.id,
+    amount: parseFloat(sale.amount?.total ?? "0"),
+    currency: sale.amount?.currency ?? "USD",
+    paymentMethod: "paypal",
+    paymentId: sale.id,
+    status: "completed",
+    paymentDate: sale.create_time ? new Date(sale.create_time).toISOString() : now.toISOString(),
+    metadata: {
+      eventId: event.id,
+      billingAgreementId: sale.billing_agreement_id,
+      periodStart: periodStart.toISOString(),
+      periodEnd: endDate.toISOString(),
+    },
+  }).returning();
+
+  const updated = await setSubscriptionStatus(subscription, "active", { endDate: endDate.toISOString() });
+  await getOrIssueInvoice(payment.id).catch(error => {
+    console.error(`Failed to issue invoice for payment ${payment.id}:`, error);
+  });
+  return { status: "processed", subscriptionId: updated.id };
+}
+
+/**
+ * A recurring payment failed: record it and mark the subscription past due.
+ * PayPal retries the payment and suspends the subscription if it keeps failing.
+ */
+async function handlePaymentFailed(event: PayPalWebhookEventBody): Promise<EventOutcome> {
+  const resource = event.resource;
+  const subscription = await findSubscriptionByPayPalId(resource.id);
+  if (!subscription) {
+    return { status: "ignored", detail: `No subscription found for PayPal subscription ${resource.id}` };
+  }
+
+  // A retried event has already recorded its payment
+  const [recorded] = await db
+    .select({ id: payments.id })
+    .from(payments)
+    .where(and(eq(payments.paymentMethod, "paypal"), sql`${payments.metadata}->>'eventId' = ${event.id}`))
+    .limit(1);
+
+  if (!recorded) {
+    const failed = resource.billing_info?.last_failed_payment;
+    await db.insert(payments).values({
+      userId: subscription.userId,
+      subscriptionId: subscription.id,
+      amount: parseFloat(failed?.amount?.value ?? "0"),
+      currency: failed?.amount?.currency_code ?? "USD",
+      paymentMethod: "paypal",
+      paymentId: null,
+      status: "failed",
+      paymentDate: failed?.time ? new Date(failed.time).toISOString() : new Date().toISOString(),
+      metadata: { eventId: event.id, reason: failed?.reason_code ?? null },
+    });
+  }
+
+  const updated = await setSubscriptionStatus(subscription, "past_due");
+  return { status: "processed", subscriptionId: updated.id };
+}
+
+async function handleSubscriptionStatusChange(event: PayPalWebhookEventBody, status: string): Promise<EventOutcome> {
+  const subscription = await findSubscriptionByPayPalId(event.resource.id);
+  if (!subscription) {
+    return { status: "ignored", detail: `No subscription found for PayPal subscription ${event.resource.id}` };
+  }
+
+  const changes = status === "cancelled"
+    ? { cancelledAt: new Date().toISOString(), cancelAtPeriodEnd: true }
+    : {};
+  const updated = await setSubscriptionStatus(subscription, status, changes);
+  return { status: "processed", subscriptionId: updated.id };
+}
+
+/**
+ * A payment was refunded or reversed. A full refund ends the subscription it
+ * paid for straight away; a partial refund only updates the payment.
+ */
+async function handleRefund(event: PayPalWebhookEventBody): Promise<EventOutcome> {
+  const resource = event.resource;
+  let paymentId: string | undefined;
+  let refundedAmount: number | null;
+
+  if (event.event_type === "PAYMENT.SALE.REFUNDED") {
+    paymentId = resource.sale_id;
+    refundedAmount = resource.amount?.total ? parseFloat(resource.amount.total) : null;
+  } else if (event.event_type === "PAYMENT.CAPTURE.REVERSED") {
+    // The resource is the reversed capture itself
+    paymentId = resource.id;
+    refundedAmount = null;
+  } else {
+    paymentId = getRefundedCaptureId(resource);
+    refundedAmount = resource.amount?.value ? parseFloat(resource.amount.value) : null;
+  }
+
+  const payment = await findPayment(paymentId);
+  if (!payment) {
+    return { status: "ignored", detail: `No payment found for PayPal transaction ${paymentId}` };
+  }
+
+  const fullRefund = refundedAmount === null || refundedAmount >= payment.amount;
+  // A retried event has already added its refund to the payment
+  const recorded = (payment.metadata?.refunds || []).some((refund: any) => refund.eventId === event.id);
+  if (!recorded) {
+    const refunds = [...(payment.metadata?.refunds || []), { eventId: event.id, refundId: resource.id, amount: refundedAmount }];
+    await db
+      .update(payments)
+      .set({
+        status: fullRefund ? "refunded" : "partially_refunded",
+        metadata: { ...payment.metadata, refunds },
+        updatedAt: new Date().toISOString(),
+      })
+      .where(eq(payments.id, payment.id));
+  }
+
+  const subscription = await findSubscriptionById(payment.subscriptionId);
+  if (!subscription || !fullRefund) {
+    return { status: "processed", subscriptionId: subscription?.id };
+  }
+
+  const updated = await setSubscriptionStatus(subscription, "refunded", { endDate: new Date().toISOString() });
+  return { status: "processed", subscriptionId: updated.id };
+}
+
+/**
+ * A buyer opened a dispute: access is suspended until it is resolved. If PayPal
+ * decides for the buyer the payment is treated as refunded, otherwise the
+ * subscription is restored for whatever remains of its period.
+ */
+async function handleDispute(event: PayPalWebhookEventBody): Promise<EventOutcome> {
+  const resource = event.resource;
+  const transactionId = resource.disputed_transactions?.[0]?.seller_transaction_id;
+  const payment = await findPayment(transactionId);
+  if (!payment) {
+    return { status: "ignored", detail: `No payment found for PayPal transaction ${transactionId}` };
+  }
+
+  const resolved = event.event_type === "CUSTOMER.DISPUTE.RESOLVED";
+  const buyerWon = resolved && resource.dispute_outcome?.outcome_code === "RESOLVED_BUYER_FAVOUR";
+  const paymentStatus = !resolved ? "disputed" : buyerWon ? "refunded" : "completed";
+
+  await db
+    .update(payments)
+    .set({
+      status: paymentStatus,
+      metadata: { ...payment.metadata, disputeId: resource.dispute_id, disputeStatus: resource.status },
+      updatedAt: new Date().toISOString(),
+    })
+    .where(eq(payments.id, payment.id));
+
+  const subscription = await findSubscriptionById(payment.subscriptionId);
+  if (!subscription) {
+    return { status: "processed" };
+  }
+
+  let updated: Subscription;
+  if (!resolved) {
+    updated = await setSubscriptionStatus(subscription, "suspended");
+  } else if (buyerWon) {
+    updated = await setSubscriptionStatus(subscription, "refunded", { endDate: new Date().toISOString() });
+  } else {
+    updated = await setSubscriptionStatus(subscription, isInFuture(subscription.endDate, new Date()) ? "active" : "expired");
+  }
+  return { status: "processed", subscriptionId: updated.id };
+}
+
+async function applyEvent(event: PayPalWebhookEventBody): Promise<EventOutcome> {
+  switch (event.event_type) {
+    case "BILLING.SUBSCRIPTION.ACTIVATED":
+    case "BILLING.SUBSCRIPTION.RE-ACTIVATED":
+      return handleSubscriptionActivated(event);
+    case "PAYMENT.SALE.COMPLETED":
+      return handleSaleCompleted(event);
+    case "BILLING.SUBSCRIPTION.PAYMENT.FAILED":
+      return handlePaymentFailed(event);
+    case "BILLING.SUBSCRIPTION.SUSPENDED":
+      return handleSubscriptionStatusChange(event, "suspended");
+    case "BILLING.SUBSCRIPTION.CANCELLED":
+      return handleSubscriptionStatusChange(event, "cancelled");
+    case "BILLING.SUBSCRIPTION.EXPIRED":
+      return handleSubscriptionStatusChange(event, "expired");
+    case "PAYMENT.SALE.REFUNDED":
+    case "PAYMENT.CAPTURE.REFUNDED":
+    case "PAYMENT.CAPTURE.REVERSED":
+      return handleRefund(event);
+    case "CUSTOMER.DISPUTE.CREATED":
+    case "CUSTOMER.DISPUTE.RESOLVED":
+      return handleDispute(event);
+    default:
+      return { status: "ignored", detail: `Unhandled event type ${event.event_type}` };
+  }
+}
+
+/**
+ * Apply a stored event to subscriptions, payments and users. Events that were
+ * already processed or ignored are left alone.
+ */
+export async function processWebhookEvent(webhookEventId: number): Promise<PaypalWebhookEvent | null> {
+  const [webhookEvent] = await db
+    .select()
+    .from(paypalWebhookEvents)
+    .where(eq(paypalWebhookEvents.id, webhookEventId));
+
+  if (!webhookEvent) return null;
+  if (webhookEvent.status === "processed" || webhookEvent.status === "ignored") {
+    return webhookEvent;
+  }
+
+  try {
+    const outcome = await applyEvent(webhookEvent.payload as PayPalWebhookEventBody);
+    const [updated] = await db
+      .update(paypalWebhookEvents)
+      .set({
+        status: outcome.status,
+        subscriptionId: outcome.subscriptionId ?? null,
+        detail: outcome.detail ?? null,
+        processedAt: new Date().toISOString(),
+      })
+      .where(eq(paypalWebhookEvents.id, webhookEvent.id))
+      .returning();
+
+    console.log(`[PayPal] Webhook ${webhookEvent.eventType} (${webhookEvent.eventId}) ${outcome.status}${outcome.detail ? `: ${outcome.detail}` : ""}`);
+    return updated;
+  } catch (error: any) {
+    await db
+      .update(paypalWebhookEvents)
+      .set({ status: "failed", detail: error?.message || String(error) })
+      .where(eq(paypalWebhookEvents.id, webhookEvent.id));
+    throw error;
+  }
+}
+
+/**
+ * Reset a stored event and queue it to be applied again, e.g. after fixing the
+ * data it referred to
+ */
+export async function reprocessWebhookEvent(webhookEventId: number): Promise<PaypalWebhookEvent | null> {
+  const [webhookEvent] = await db
+    .update(paypalWebhookEvents)
+    .set({ status: "received", detail: null, processedAt: null })
+    .where(eq(paypalWebhookEvents.id, webhookEventId))
+    .returning();
+
+  if (!webhookEvent) return null;
+  await enqueueJob("paypal-webhook", { webhookEventId: webhookEvent.id });
+  return webhookEvent;
+}
+
+/**
+ * Stored events, newest first
+ */
+export async function listWebhookEvents(
+  options: { status?: string; eventType?: string; limit?: number; offset?: number } = {}
+): Promise<PaypalWebhookEvent[]> {
+  const conditions = [];
+  if (options.status) conditions.push(eq(paypalWebhookEvents.status, options.status));
+  if (options.eventType) conditions.push(eq(paypalWebhookEvents.eventType, options.eventType));
+
+  return await db
+    .select()
+    .from(paypalWebhookEvents)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(paypalWebhookEvents.createdAt))
+    .limit(options.limit ?? 50)
+    .offset(options.offset ?? 0);
+}
+
+/**
+ * Register the job handler that applies received webhook events
+ */
+export function registerPayPalWebhookJobs(): void {
+  registerJobHandler("paypal-webhook", async (payload) => {
+    await processWebhookEvent(payload.webhookEventId);
+  });
+}
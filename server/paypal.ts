@@ -1,7 +1,7 @@
 import checkoutNodeJssdk from '@paypal/checkout-server-sdk';
 import { db } from './db';
-import { subscriptionPlans, payments, subscriptions, users, systemSettings } from '@shared/schema';
-import { eq, and } from 'drizzle-orm';
+import { subscriptionPlans, payments, subscriptions, users, systemSettings, invoices } from '@shared/schema';
+import { eq, and, inArray } from 'drizzle-orm';
 import { getPayPalCallbackUrl } from './paypal-auth';
 
 // Helper function to convert Date to ISO string for database
@@ -154,6 +154,7 @@ class PayPalService {
           userId,
           planId: plan.id,
           status: 'active',
+          provider: 'paypal',
           startDate: dateToISOString(new Date()),
           endDate: dateToISOString(endDate),
           paypalSubscriptionId: null, // One-time payment, not recurring
@@ -208,55 +209,17 @@ class PayPalService {
     throw new Error('Subscription API not implemented yet');
   }
 
-  /**
-   * Cancel a subscription
-   */
-  static async cancelSubscription(subscriptionId: number, userId: number) {
-    try {
-      // Find the subscription
-      const [subscription] = await db.select()
-        .from(subscriptions)
-        .where(and(
-          eq(subscriptions.id, subscriptionId),
-          eq(subscriptions.userId, userId)
-        ));
-      
-      if (!subscription) {
-        throw new Error('Subscription not found');
-      }
-      
-      // Update the subscription status
-      const [updatedSubscription] = await db.update(subscriptions)
-        .set({
-          status: 'cancelled',
-        })
-        .where(eq(subscriptions.id, subscriptionId))
-        .returning();
-      
-      // Don't immediately update the user's subscription status
-      // as they should still have access until the end date
-      
-      return {
-        subscriptionId: updatedSubscription.id,
-        status: updatedSubscription.status
-      };
-    } catch (err) {
-      console.error('[PayPal] Error cancelling subscription:', err);
-      throw new Error(`Failed to cancel subscription: ${err.message}`);
-    }
-  }
-
   /**
    * Get active subscription for a user
    */
   static async getActiveSubscription(userId: number) {
     try {
-      // Find the user's active subscription
+      // Find the user's active subscription, including a trial or one in its grace period
       const [subscription] = await db.select()
         .from(subscriptions)
         .where(and(
           eq(subscriptions.userId, userId),
-          eq(subscriptions.status, 'active')
+          inArray(subscriptions.status, ['trial', 'active', 'past_due'])
         ))
         .orderBy(subscriptions.createdAt, 'desc');
       
@@ -301,13 +264,25 @@ class PayPalService {
       const plans = planIds.length > 0
         ? await db.select()
             .from(subscriptionPlans)
-            .where(eq(subscriptionPlans.id, planIds[0])) // Adding just first one for now as a workaround
+            .where(inArray(subscriptionPlans.id, planIds))
+        : [];
+      
+      // Invoice numbers for payments that have been invoiced
+      const paymentInvoices = subscriptionPayments.length > 0
+        ? await db.select({ paymentId: invoices.paymentId, invoiceNumber: invoices.invoiceNumber })
+            .from(invoices)
+            .where(eq(invoices.userId, userId))
         : [];
       
       // Map plans to subscriptions
       const formattedSubscriptions = userSubscriptions.map(subscription => {
         const plan = plans.find(p => p.id === subscription.planId);
-        const subPayments = subscriptionPayments.filter(p => p.subscriptionId === subscription.id);
+        const subPayments = subscriptionPayments
+          .filter(p => p.subscriptionId === subscription.id)
+          .map(p => ({
+            ...p,
+            invoiceNumber: paymentInvoices.find(invoice => invoice.paymentId === p.id)?.invoiceNumber ?? null
+          }));
         
         return {
           ...subscription,
@@ -0,0 +1,274 @@
+import { db } from "./db";
+import {
+  featureLimits,
+  subscriptionPlans,
+  planAuditLog,
+  users,
+  userUsage,
+  journalEntries,
+  goals,
+  FeatureLimit,
+  InsertFeatureLimit,
+  SubscriptionPlan,
+  PlanAuditLogEntry,
+} from "@shared/schema";
+import { and, asc, count, desc, eq, gt, isNull, sql, SQL } from "drizzle-orm";
+
+/**
+ * Plan Catalog
+ *
+ * Admin editing of subscription plans and of the feature limits each tier gets.
+ * Every create and update is written to plan_audit_log together with the fields
+ * it changed. Limit changes can be previewed first to see how many users on the
+ * tier are already past the new limits.
+ *
+ * A tier's name and a plan's name can't change once created: users, checkouts
+ * and invoices refer to them by name.
+ */
+
+export class PlanCatalogError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PlanCatalogError";
+  }
+}
+
+export type AuditEntityType = "feature_limit" | "subscription_plan";
+
+export type FeatureLimitUpdate = Partial<Omit<InsertFeatureLimit, "subscriptionTier">>;
+// From the table rather than insertSubscriptionPlanSchema, whose jsonb features type doesn't round-trip
+export type SubscriptionPlanValues = typeof subscriptionPlans.$inferInsert;
+export type SubscriptionPlanUpdate = Partial<Omit<SubscriptionPlanValues, "id" | "name" | "createdAt" | "updatedAt">>;
+
+// The access flags of a tier, for reporting which ones a change takes away
+const ACCESS_FLAGS = [
+  "insightsAccess",
+  "customPromptsAccess",
+  "weeklyDigestAccess",
+  "moodTrackingAccess",
+  "exportAccess",
+  "communityAccess",
+] as const;
+
+export interface LimitImpact {
+  tier: string;
+  usersInTier: number;
+  // Users already past each proposed limit; they keep what they have but can't add more
+  overLimit: {
+    journalEntries: number;
+    goals: number;
+    aiResponses: number;
+  };
+  // Access flags the change turns off for everyone on the tier
+  losingAccess: Array<typeof ACCESS_FLAGS[number]>;
+}
+
+type DbExecutor = Pick<typeof db, "insert">;
+
+// Bookkeeping columns that change on every update and say nothing about the edit
+const UNAUDITED_FIELDS = new Set(["id", "createdAt", "updatedAt"]);
+
+/**
+ * The fields that differ between two versions of a row
+ */
+function diffFields(before: Record<string, unknown> | null, after: Record<string, unknown>) {
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+  for (const [field, value] of Object.entries(after)) {
+    if (UNAUDITED_FIELDS.has(field)) continue;
+    const previous = before ? before[field] ?? null : null;
+    if (JSON.stringify(previous) !== JSON.stringify(value ?? null)) {
+      changes[field] = { from: previous, to: value ?? null };
+    }
+  }
+  return changes;
+}
+
+async function recordChange(
+  executor: DbExecutor,
+  adminId: number,
+  entityType: AuditEntityType,
+  before: Record<string, unknown> | null,
+  after: { id: number } & Record<string, unknown>,
+  entityName: string
+): Promise<void> {
+  const changes = diffFields(before, after);
+  if (before && Object.keys(changes).length === 0) return;
+
+  await executor.insert(planAuditLog).values({
+    adminId,
+    entityType,
+    entityId: after.id,
+    entityName,
+    action: before ? "update" : "create",
+    changes,
+  });
+}
+
+/**
+ * Every tier's limits, in the order they were created
+ */
+export async function listFeatureLimits(): Promise<FeatureLimit[]> {
+  return await db.select().from(featureLimits).orderBy(asc(featureLimits.id));
+}
+
+/**
+ * Add limits for a new tier
+ * @throws PlanCatalogError if the tier already has limits
+ */
+export async function createFeatureLimit(values: InsertFeatureLimit, adminId: number): Promise<FeatureLimit> {
+  const [existing] = await db.select({ id: featureLimits.id })
+    .from(featureLimits)
+    .where(eq(featureLimits.subscriptionTier, values.subscriptionTier));
+  if (existing) {
+    throw new PlanCatalogError(`The ${values.subscriptionTier} tier already has limits`);
+  }
+
+  return await db.transaction(async (tx) => {
+    const [created] = await tx.insert(featureLimits).values(values).returning();
+    await recordChange(tx, adminId, "feature_limit", null, created, created.subscriptionTier);
+    return created;
+  });
+}
+
+/**
+ * Change a tier's limits and access flags
+ */
+export async function updateFeatureLimit(id: number, updates: FeatureLimitUpdate, adminId: number): Promise<FeatureLimit | null> {
+  const [current] = await db.select().from(featureLimits).where(eq(featureLimits.id, id));
+  if (!current) return null;
+
+  return await db.transaction(async (tx) => {
+    const [updated] = await tx.update(featureLimits)
+      .set({ ...updates, updatedAt: new Date().toISOString() })
+      .where(eq(featureLimits.id, id))
+      .returning();
+    await recordChange(tx, adminId, "feature_limit", current, updated, updated.subscriptionTier);
+    return updated;
+  });
+}
+
+/**
+ * How a change to a tier's limits would land on the users on it today. Users
+ * are counted by their stored tier; one whose Pro lapsed but hasn't been moved
+ * down by the lifecycle job yet still counts as Pro.
+ */
+export async function previewFeatureLimitImpact(id: number, updates: FeatureLimitUpdate): Promise<LimitImpact | null> {
+  const [current] = await db.select().from(featureLimits).where(eq(featureLimits.id, id));
+  if (!current) return null;
+
+  const proposed = { ...current, ...updates };
+  const tier = current.subscriptionTier;
+
+  const [tierUsers] = await db.select({ value: count() })
+    .from(users)
+    .where(eq(users.subscriptionTier, tier));
+
+  // Users with more than `limit` live rows in a table
+  const countOverLimit = async (limit: number | null | undefined, table: typeof journalEntries | typeof goals, ...conditions: SQL[]) => {
+    if (limit === null || limit === undefined) return 0;
+    const overLimit = db.select({ userId: table.userId })
+      .from(table)
+      .innerJoin(users, eq(users.id, table.userId))
+      .where(and(eq(users.subscriptionTier, tier), isNull(table.deletedAt), ...conditions))
+      .groupBy(table.userId)
+      .having(sql`count(*) > ${limit}`)
+      .as("over_limit");
+    const [result] = await db.select({ value: count() }).from(overLimit);
+    return Number(result?.value ?? 0);
+  };
+
+  // Today's AI responses, for usage rows reset within the last day
+  const countOverDailyLimit = async (limit: number | null | undefined) => {
+    if (limit === null || limit === undefined) return 0;
+    const dayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+    const [result] = await db.select({ value: count() })
+      .from(userUsage)
+      .innerJoin(users, eq(users.id, userUsage.userId))
+      .where(and(
+        eq(users.subscriptionTier, tier),
+        gt(userUsage.aiResponsesResetDate, dayAgo),
+        gt(userUsage.aiResponsesCount, limit)
+      ));
+    return Number(result?.value ?? 0);
+  };
+
+  return {
+    tier,
+    usersInTier: Number(tierUsers?.value ?? 0),
+    overLimit: {
+      journalEntries: await countOverLimit(proposed.maxJournalEntries, journalEntries, eq(journalEntries.isJournal, true)),
+      goals: await countOverLimit(proposed.maxGoals, goals),
+      aiResponses: await countOverDailyLimit(proposed.aiResponsesPerDay),
+    },
+    losingAccess: ACCESS_FLAGS.filter(flag => current[flag] && proposed[flag] === false),
+  };
+}
+
+/**
+ * Every plan, including ones no longer offered, cheapest first
+ */
+export async function listPlans(): Promise<SubscriptionPlan[]> {
+  return await db.select().from(subscriptionPlans).orderBy(asc(subscriptionPlans.price), asc(subscriptionPlans.id));
+}
+
+/**
+ * Add a plan users can subscribe to
+ * @throws PlanCatalogError if the name is taken
+ */
+export async function createPlan(values: SubscriptionPlanValues, adminId: number): Promise<SubscriptionPlan> {
+  const [existing] = await db.select({ id: subscriptionPlans.id })
+    .from(subscriptionPlans)
+    .where(eq(subscriptionPlans.name, values.name));
+  if (existing) {
+    throw new PlanCatalogError(`A plan named ${values.name} already exists`);
+  }
+
+  return await db.transaction(async (tx) => {
+    const [created] = await tx.insert(subscriptionPlans).values(values).returning();
+    await recordChange(tx, adminId, "subscription_plan", null, created, created.name);
+    return created;
+  });
+}
+
+/**
+ * Change a plan's details or price. A new price applies to checkouts from now
+ * on; running subscriptions keep what they paid. Deactivate a plan instead of
+ * removing it, since subscriptions and invoices refer to it.
+ */
+export async function updatePlan(id: number, updates: SubscriptionPlanUpdate, adminId: number): Promise<SubscriptionPlan | null> {
+  const [current] = await db.select().from(subscriptionPlans).where(eq(subscriptionPlans.id, id));
+  if (!current) return null;
+
+  return await db.transaction(async (tx) => {
+    const [updated] = await tx.update(subscriptionPlans)
+      .set({ ...updates, updatedAt: new Date().toISOString() })
+      .where(eq(subscriptionPlans.id, id))
+      .returning();
+    await recordChange(tx, adminId, "subscription_plan", current, updated, updated.name);
+    return updated;
+  });
+}
+
+/**
+ * Recent changes to plans and limits, newest first, with the admin who made them
+ */
+export async function listAuditLog(filter: {
+  entityType?: AuditEntityType;
+  entityId?: number;
+  limit: number;
+  offset: number;
+}): Promise<Array<PlanAuditLogEntry & { adminUsername: string | null }>> {
+  const conditions = [];
+  if (filter.entityType) conditions.push(eq(planAuditLog.entityType, filter.entityType));
+  if (filter.entityId !== undefined) conditions.push(eq(planAuditLog.entityId, filter.entityId));
+
+  const rows = await db.select({ entry: planAuditLog, adminUsername: users.username })
+    .from(planAuditLog)
+    .leftJoin(users, eq(users.id, planAuditLog.adminId))
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(planAuditLog.createdAt), desc(planAuditLog.id))
+    .limit(filter.limit)
+    .offset(filter.offset);
+
+  return rows.map(row => ({ ...row.entry, adminUsername: row.adminUsername }));
+}
@@ -0,0 +1,179 @@
+import { db } from "./db";
+import { promoCodes, payments, users, subscriptions, subscriptionPlans, PromoCode, InsertPromoCode, SubscriptionPlan } from "@shared/schema";
+import { and, count, desc, eq, inArray, ne } from "drizzle-orm";
+import { parseDbTimestamp } from "./schedule-utils";
+
+/**
+ * Promo Codes
+ *
+ * Admin-managed discounts applied when a user checks out a plan. A code takes a
+ * percentage or a fixed amount off the plan price, and can be limited to some
+ * plans, to a number of redemptions overall and per user, and by an expiry date.
+ *
+ * A code counts as redeemed once a payment is recorded with it (payments.promoCodeId),
+ * so codes are checked again when the PayPal order is captured.
+ */
+
+export class PromoCodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PromoCodeError";
+  }
+}
+
+export interface PromoQuote {
+  promoCode: PromoCode;
+  originalAmount: number;
+  discountAmount: number;
+  finalAmount: number;
+}
+
+export interface PromoCodeWithUsage extends PromoCode {
+  redemptionCount: number;
+}
+
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * The discount a code gives on a price, never more than the price itself
+ */
+export function calculateDiscount(promoCode: Pick<PromoCode, "discountType" | "discountValue">, price: number): number {
+  const discount = promoCode.discountType === "percent"
+    ? price * Math.min(promoCode.discountValue, 100) / 100
+    : promoCode.discountValue;
+  return roundCurrency(Math.min(Math.max(discount, 0), price));
+}
+
+// Payments that used up a redemption; failed payments give it back
+async function countRedemptions(promoCodeId: number, userId?: number): Promise<number> {
+  const conditions = [eq(payments.promoCodeId, promoCodeId), ne(payments.status, "failed")];
+  if (userId !== undefined) conditions.push(eq(payments.userId, userId));
+
+  const [result] = await db.select({ value: count() }).from(payments).where(and(...conditions));
+  return Number(result?.value ?? 0);
+}
+
+/**
+ * Check that a user can redeem a code on a plan and work out the price
+ * @throws PromoCodeError with a message that can be shown to the user
+ */
+export async function quotePromoCode(code: string, userId: number, plan: SubscriptionPlan): Promise<PromoQuote> {
+  const [promoCode] = await db
+    .select()
+    .from(promoCodes)
+    .where(eq(promoCodes.code, normalizePromoCode(code)));
+
+  if (!promoCode || !promoCode.isActive) {
+    throw new PromoCodeError("This promo code isn't valid");
+  }
+  if (promoCode.expiresAt && parseDbTimestamp(promoCode.expiresAt) <= new Date()) {
+    throw new PromoCodeError("This promo code has expired");
+  }
+  if (promoCode.planIds && promoCode.planIds.length > 0 && !promoCode.planIds.includes(plan.id)) {
+    throw new PromoCodeError(`This promo code can't be used for the ${plan.displayName} plan`);
+  }
+  if (promoCode.maxRedemptions !== null && (await countRedemptions(promoCode.id)) >= promoCode.maxRedemptions) {
+    throw new PromoCodeError("This promo code has been fully redeemed");
+  }
+  if ((await countRedemptions(promoCode.id, userId)) >= promoCode.maxRedemptionsPerUser) {
+    throw new PromoCodeError("You've already used this promo code");
+  }
+
+  const discountAmount = calculateDiscount(promoCode, plan.price);
+  return {
+    promoCode,
+    originalAmount: plan.price,
+    discountAmount,
+    finalAmount: roundCurrency(plan.price - discountAmount),
+  };
+}
+
+/**
+ * Look up a code by ID, e.g. from the custom_id of a captured PayPal order
+ */
+export async function getPromoCode(id: number): Promise<PromoCode | null> {
+  const [promoCode] = await db.select().from(promoCodes).where(eq(promoCodes.id, id));
+  return promoCode ?? null;
+}
+
+/**
+ * All codes with how many times each has been redeemed, newest first
+ */
+export async function listPromoCodes(): Promise<PromoCodeWithUsage[]> {
+  const codes = await db.select().from(promoCodes).orderBy(desc(promoCodes.createdAt));
+  if (codes.length === 0) return [];
+
+  const usage = await db
+    .select({ promoCodeId: payments.promoCodeId, value: count() })
+    .from(payments)
+    .where(and(inArray(payments.promoCodeId, codes.map(code => code.id)), ne(payments.status, "failed")))
+    .groupBy(payments.promoCodeId);
+
+  return codes.map(code => ({
+    ...code,
+    redemptionCount: Number(usage.find(row => row.promoCodeId === code.id)?.value ?? 0),
+  }));
+}
+
+/**
+ * Create a code
+ * @throws PromoCodeError if the code is already taken
+ */
+export async function createPromoCode(values: InsertPromoCode): Promise<PromoCode> {
+  const code = normalizePromoCode(values.code);
+  const [existing] = await db.select({ id: promoCodes.id }).from(promoCodes).where(eq(promoCodes.code, code));
+  if (existing) {
+    throw new PromoCodeError(`Promo code ${code} already exists`);
+  }
+
+  const [created] = await db
+    .insert(promoCodes)
+    .values({ ...values, code })
+    .returning();
+  return created;
+}
+
+/**
+ * Update a code's settings. The code itself can't change once it may have been shared.
+ */
+export async function updatePromoCode(
+  id: number,
+  updates: Partial<Omit<InsertPromoCode, "code" | "createdBy">>
+): Promise<PromoCode | null> {
+  const [updated] = await db
+    .update(promoCodes)
+    .set({ ...updates, updatedAt: new Date().toISOString() })
+    .where(eq(promoCodes.id, id))
+    .returning();
+  return updated ?? null;
+}
+
+/**
+ * The payments a code was redeemed with, newest first
+ */
+export async function listPromoCodeRedemptions(promoCodeId: number) {
+  return await db
+    .select({
+      paymentId: payments.id,
+      userId: payments.userId,
+      username: users.username,
+      email: users.email,
+      planName: subscriptionPlans.displayName,
+      amount: payments.amount,
+      discountAmount: payments.discountAmount,
+      status: payments.status,
+      paymentDate: payments.paymentDate,
+    })
+    .from(payments)
+    .innerJoin(users, eq(users.id, payments.userId))
+    .leftJoin(subscriptions, eq(subscriptions.id, payments.subscriptionId))
+    .leftJoin(subscriptionPlans, eq(subscriptionPlans.id, subscriptions.planId))
+    .where(eq(payments.promoCodeId, promoCodeId))
+    .orderBy(desc(payments.paymentDate));
+}
@@ -0,0 +1,140 @@
+import type { Response } from "express";
+import type { Notification } from "@shared/schema";
+
+/**
+ * Real-time Events
+ *
+ * Pushes events to signed-in browsers over Server-Sent Events (GET /api/events),
+ * so the client can update its cached queries instead of polling. Connections are
+ * held in this process; events published by the job worker reach the same process
+ * because the worker runs alongside the web server. Each stream remembers the
+ * session that opened it, so signing a session out can end its streams.
+ */
+
+export type RealtimeEvent =
+  | { type: "notification-created"; notification: Notification }
+  | { type: "notification-updated"; notification: Notification }
+  | {
+      type: "suggestion-ready";
+      journalEntryId: number;
+      goalsCreated: number;
+      tasksCreated: number;
+      habitsCreated: number;
+    };
+
+// Proxies close connections that are idle for too long, so send a comment periodically
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+interface RealtimeConnection {
+  res: Response;
+  userId: number;
+  sessionId: string;
+}
+
+// The same connections, by user (to publish events) and by session (to end them on sign-out)
+const clients = new Map<number, Set<RealtimeConnection>>();
+const sessionClients = new Map<string, Set<RealtimeConnection>>();
+let heartbeatTimer: NodeJS.Timeout | null = null;
+let nextEventId = 1;
+
+function startHeartbeat(): void {
+  if (heartbeatTimer) return;
+  heartbeatTimer = setInterval(() => {
+    for (const connections of Array.from(clients.values())) {
+      for (const { res } of Array.from(connections)) {
+        res.write(": heartbeat\n\n");
+      }
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+}
+
+function stopHeartbeatIfIdle(): void {
+  if (clients.size === 0 && heartbeatTimer) {
+    clearInterval(heartbeatTimer);
+    heartbeatTimer = null;
+  }
+}
+
+function addToIndex<K>(index: Map<K, Set<RealtimeConnection>>, key: K, connection: RealtimeConnection): void {
+  let connections = index.get(key);
+  if (!connections) {
+    connections = new Set();
+    index.set(key, connections);
+  }
+  connections.add(connection);
+}
+
+function removeFromIndex<K>(index: Map<K, Set<RealtimeConnection>>, key: K, connection: RealtimeConnection): void {
+  const connections = index.get(key);
+  if (connections) {
+    connections.delete(connection);
+    if (connections.size === 0) index.delete(key);
+  }
+}
+
+function removeConnection(connection: RealtimeConnection): void {
+  removeFromIndex(clients, connection.userId, connection);
+  removeFromIndex(sessionClients, connection.sessionId, connection);
+  stopHeartbeatIfIdle();
+}
+
+/**
+ * Open an event stream on the response for a user's session
+ * @returns A function that closes the stream
+ */
+export function addRealtimeClient(userId: number, sessionId: string, res: Response): () => void {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    "Connection": "keep-alive",
+    // Stop nginx and similar proxies from buffering the stream
+    "X-Accel-Buffering": "no",
+  });
+  // Tell the browser how long to wait before reconnecting
+  res.write("retry: 5000\n\n");
+
+  const connection = { res, userId, sessionId };
+  addToIndex(clients, userId, connection);
+  addToIndex(sessionClients, sessionId, connection);
+  startHeartbeat();
+
+  return () => removeConnection(connection);
+}
+
+/**
+ * End every open stream of a session, e.g. once it has been signed out
+ */
+export function closeSessionStreams(sessionId: string): void {
+  const connections = sessionClients.get(sessionId);
+  if (!connections) return;
+
+  for (const connection of Array.from(connections)) {
+    removeConnection(connection);
+    connection.res.end();
+  }
+}
+
+/**
+ * Send an event to every open stream for a user
+ */
+export function publishToUser(userId: number, event: RealtimeEvent): void {
+  const connections = clients.get(userId);
+  if (!connections) return;
+
+  const { type, ...data } = event;
+  const message = `id: ${nextEventId++}\nevent: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+  for (const { res } of Array.from(connections)) {
+    res.write(message);
+  }
+}
+
+/**
+ * Number of open streams, for monitoring
+ */
+export function getRealtimeClientCount(): number {
+  let count = 0;
+  for (const connections of Array.from(clients.values())) {
+    count += connections.size;
+  }
+  return count;
+}
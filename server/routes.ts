@@ -2,35 +2,150 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { z } from "zod";
 import * as crypto from "crypto";
-import { setupAuth, hashPassword } from "./auth";
+import { setupAuth, hashPassword, comparePasswords } from "./auth";
+import { requireTwoFactorChallenge } from "./two-factor";
+import { revokeOtherSessions } from "./session-registry";
+import { cancelProviderSubscriptions } from "./billing";
 import { storage } from "./storage";
+import { isPageRequest, journalEntryListSchema, goalListSchema, PaginationError } from "./pagination";
 import { db } from "./db";
 import { 
   generateAIResponse, 
-  analyzeSentiment, 
+  streamAIResponse,
   generateWeeklySummary, 
   generateCustomPrompts, 
-  storeEmbedding,
   generateJournalTitle
 } from "./openai";
-import {
-  processSingleEntry,
-  processAllEntriesForUser,
-  processAllEntries
-} from "./ai-suggestion-module";
+import { processAllEntriesForUser } from "./ai-suggestion-module";
+import { enqueueJob } from "./job-queue";
+import { enqueueJournalEntryProcessing } from "./journal-jobs";
+import { getFirstDeliveryTime } from "./notification-scheduler";
+import { isValidRecurringPattern } from "./schedule-utils";
+import { queueUserEmail } from "./email";
+import { addRealtimeClient, publishToUser } from "./realtime";
+import { getLLMProvider } from "./llm-provider";
+import { TokenLimitExceededError } from "./token-usage";
+import { FeatureLimitService, meterFeature, QuotaExceededError } from "./hooks/use-feature-limits";
 import { journalEntries } from "@shared/schema";
 import { eq, desc } from "drizzle-orm";
 import oauthSettingsRoutes from "./routes/oauth-settings";
 import openaiSettingsRoutes from "./routes/openai-settings";
 import adminStatsRoutes from "./routes/admin-stats";
+import adminJobsRoutes from "./routes/admin-jobs";
+import adminEmailRoutes from "./routes/admin-email";
+import adminSubscriptionRoutes from "./routes/admin-subscriptions";
+import adminInvoiceRoutes from "./routes/admin-invoices";
+import adminPlanRoutes from "./routes/admin-plans";
+import adminSecurityRoutes from "./routes/admin-security";
+import pushRoutes from "./routes/push";
+import weeklyDigestRoutes from "./routes/weekly-digests";
+import paypalWebhookRoutes from "./routes/paypal-webhooks";
+import stripeWebhookRoutes from "./routes/stripe-webhooks";
+import stripeCheckoutRoutes from "./routes/stripe-checkout";
 import subscriptionRoutes from "./routes/subscription";
 import paypalSettingsRoutes from "./routes/paypal-settings";
+import twoFactorRoutes from "./routes/two-factor";
+import sessionRoutes from "./routes/sessions";
+import journalSearchRoutes from "./routes/journal-search";
+import accountExportRoutes from "./routes/account-export";
+import journalImportRoutes from "./routes/journal-imports";
 import { setupHabitRoutes } from "./routes/habits";
 import { setupTaskRoutes } from "./routes/tasks";
 import { registerAvatarRoutes } from "./routes/avatar";
 import supportRoutes from "./routes/support";
 import { User } from "@shared/schema";
 
+type ChatHistoryEntry = { role: "user" | "ai" | "system"; content: string };
+
+/**
+ * Translate a chat request from the client into the prompt, history and mode
+ * passed to the AI. Handles the special multi-part and "ask me about" prompts
+ * sent by the journal prompt UI.
+ */
+function prepareChatPrompt(
+  content: string,
+  history: { role: string; content: string }[]
+): { prompt: string; history: ChatHistoryEntry[]; isMultiPartPrompt: boolean } {
+  // Convert history to the format expected by the OpenAI function
+  const conversationHistory: ChatHistoryEntry[] = history.map((entry) => ({
+    role: entry.role as "user" | "ai",
+    content: entry.content
+  }));
+
+  // Check for special prompt types
+  if (content.startsWith('__MULTI_PART_PROMPT__:')) {
+    // This is a multi-part prompt from the Journal Prompts section
+    // Extract the actual prompt from the prefix
+    const promptContent = content.replace('__MULTI_PART_PROMPT__:', '').trim();
+    console.log("Server received multi-part prompt:", promptContent);
+    
+    // Create a special system message for multi-part prompts
+    const systemMessage = {
+      role: "system" as "system", 
+      content: `You are helping the user with a multi-part journaling prompt: "${promptContent}". 
+          
+This is not a simple question but a structured journaling exercise that requires detailed, reflective responses.
+
+For this exercise:
+1. Break down the prompt into individual questions or parts
+2. Ask the user about each part ONE AT A TIME, waiting for their response before moving to the next part
+3. If the prompt requires listing multiple items (like "three things that went well"), ask about each item separately
+4. Encourage deep reflection by asking follow-up questions about WHY or HOW
+5. After the user has completed all parts, provide a brief summary of their responses
+6. Your tone should be warm, supportive and encouraging
+          
+Example of good breakdown for "What are three things that went well today and why?":
+- First ask: "Let's reflect on your day. What's one thing that went well today?"
+- After they respond, ask: "That's wonderful. And why do you think that particular thing went well?"
+- Then: "Great reflection. What's a second thing that went well today?"
+- And so on until all three items and their "why" explanations are explored.`
+    };
+    
+    // Add the system message to guide the AI's response strategy
+    return {
+      prompt: promptContent,
+      history: [systemMessage, ...conversationHistory],
+      isMultiPartPrompt: true
+    };
+  }
+
+  // Check if this is a direct one-shot prompt from suggested prompts
+  if (content.startsWith('ASK_ME_ABOUT:')) {
+    // Remove the prefix to get the clean prompt
+    const promptContent = content.replace('ASK_ME_ABOUT:', '').trim();
+    console.log("Server received direct prompt:", promptContent);
+    
+    // Create a special system message that tells the AI to ask the user about this topic
+    const systemMessage = {
+      role: "system" as "system",
+      content: `You are a warm and empathetic journaling assistant. The user has selected a journaling topic: "${promptContent}".
+          
+IMPORTANT: Instead of answering this as if the user asked YOU this question, you need to turn this into a question FOR the user.
+
+For example:
+- If the topic is "How am I feeling today?" → Ask the user "How are you feeling today? I'd love to hear about your current emotions."
+- If the topic is "What's something I'm grateful for?" → Ask "What's something you're feeling grateful for today? It can be something small or significant."
+
+Your role is to:
+1. Turn the topic into an engaging question directed TO the user
+2. Make your question open-ended and inviting
+3. Sound warm, caring and genuinely interested
+4. Keep your response brief (1-2 sentences)
+5. Avoid answering the question yourself or making assumptions`
+    };
+    
+    // Create a conversation history with just our system message
+    return {
+      prompt: promptContent,
+      history: [systemMessage],
+      isMultiPartPrompt: false
+    };
+  }
+
+  // Regular conversation
+  return { prompt: content, history: conversationHistory, isMultiPartPrompt: false };
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Set up authentication routes
   await setupAuth(app);
@@ -62,7 +177,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.patch("/api/users/:id", async (req, res) => {
+  // Changing the email address needs a 2FA challenge, as it can be used to reset the password
+  app.patch("/api/users/:id", (req, res, next) => {
+    if (req.body?.email !== undefined && req.body.email !== req.user?.email) {
+      return requireTwoFactorChallenge(req, res, next);
+    }
+    next();
+  }, async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     const userId = Number(req.params.id);
@@ -89,13 +210,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         updateData.isVerified = false;
         // Generate new verification token
         updateData.verificationToken = crypto.randomBytes(20).toString('hex');
-        
-        // Send verification email
-        // This will be implemented later
       }
       
       const updatedUser = await storage.updateUser(userId, updateData);
       
+      // Send verification email to the new address
+      if (updateData.verificationToken) {
+        await queueUserEmail(userId, "verification", { token: updateData.verificationToken });
+      }
+      
       // Don't send password back
       const { password, ...userWithoutPassword } = updatedUser;
       res.json(userWithoutPassword);
@@ -105,6 +228,68 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Change password; users with 2FA must have passed a challenge first
+  app.post("/api/users/:id/password", requireTwoFactorChallenge, async (req, res) => {
+    const userId = Number(req.params.id);
+    if (req.user?.id !== userId) return res.sendStatus(403);
+    
+    try {
+      const { currentPassword, newPassword } = z.object({
+        currentPassword: z.string().min(1),
+        newPassword: z.string().min(6, "Password must be at least 6 characters"),
+      }).parse(req.body);
+      
+      if (!(await comparePasswords(currentPassword, req.user.password))) {
+        return res.status(400).json({ error: "Your current password is incorrect" });
+      }
+      
+      await storage.updateUser(userId, { password: await hashPassword(newPassword) });
+      res.json({ message: "Password updated" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors[0]?.message || "Invalid password" });
+      }
+      console.error("Error changing password:", error);
+      res.status(500).json({ error: "Failed to change password" });
+    }
+  });
+  
+  // Delete the current user's account and all their data. Accounts with a
+  // password confirm it; users with 2FA must have passed a challenge first.
+  app.delete("/api/user", requireTwoFactorChallenge, async (req, res, next) => {
+    const user = req.user!;
+    
+    try {
+      const hasPassword = !user.provider || user.provider === "local";
+      if (hasPassword && !(await comparePasswords(String(req.body?.password ?? ""), user.password))) {
+        return res.status(400).json({ error: "Your password is incorrect" });
+      }
+      
+      // Stop provider renewals first; the account stays if any of them can't be cancelled
+      try {
+        await cancelProviderSubscriptions(user.id);
+      } catch (error) {
+        console.error(`Error cancelling subscriptions before deleting user ${user.id}:`, error);
+        return res.status(502).json({
+          error: "We couldn't cancel your subscription, so your account wasn't deleted. Please try again, or cancel it from the subscription page first.",
+        });
+      }
+      
+      // Sign out everywhere else before the user disappears from under those sessions
+      await revokeOtherSessions(user.id, req.sessionID);
+      await storage.deleteUser(user.id);
+      console.log(`Deleted account for user ${user.id}`);
+      
+      req.logout((err) => {
+        if (err) return next(err);
+        req.session.destroy(() => res.json({ deleted: true }));
+      });
+    } catch (error) {
+      console.error("Error deleting account:", error);
+      res.status(500).json({ error: "Failed to delete account" });
+    }
+  });
+  
   // Email verification
   app.get("/api/verify-email/:token", async (req, res) => {
     try {
@@ -129,44 +314,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Forgot password
-  app.post("/api/forgot-password", async (req, res) => {
-    try {
-      const { email } = req.body;
-      
-      if (!email) {
-        return res.status(400).json({ error: "Email is required" });
-      }
-      
-      // Find user by email
-      const user = await storage.getUserByEmail(email);
-      
-      if (!user) {
-        // Don't reveal that the user doesn't exist
-        return res.status(200).json({ message: "If the email exists, a reset link has been sent" });
-      }
-      
-      // Generate reset token and expiry
-      const resetToken = crypto.randomBytes(20).toString('hex');
-      const resetExpiry = new Date();
-      resetExpiry.setHours(resetExpiry.getHours() + 1); // Token valid for 1 hour
-      
-      // Update user with reset token and expiry
-      await storage.updateUser(user.id, {
-        resetPasswordToken: resetToken,
-        resetPasswordExpires: resetExpiry.toISOString()
-      });
-      
-      // Send password reset email
-      // This will be implemented later
-      
-      res.status(200).json({ message: "If the email exists, a reset link has been sent" });
-    } catch (error) {
-      console.error("Error processing forgot password:", error);
-      res.status(500).json({ error: "Failed to process forgot password request" });
-    }
-  });
-  
   // Reset password
   app.post("/api/reset-password/:token", async (req, res) => {
     try {
@@ -209,6 +356,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Journal Entries API
+  // With ?limit or ?cursor, returns a page of entries (see server/pagination.ts)
   app.get("/api/journal-entries/:userId", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
@@ -216,9 +364,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     if (req.user?.id !== userId) return res.sendStatus(403);
     
     try {
+      if (isPageRequest(req.query)) {
+        const options = journalEntryListSchema.parse(req.query);
+        return res.json(await storage.getJournalEntriesPage(userId, options));
+      }
       const entries = await storage.getJournalEntriesByUserId(userId);
       res.json(entries);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      if (error instanceof PaginationError) {
+        return res.status(400).json({ error: error.message });
+      }
       res.status(500).json({ error: "Failed to fetch journal entries" });
     }
   });
@@ -249,7 +407,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Save Chat Transcript - collects all chat messages and saves them as a single journal entry
-  app.post("/api/journal-entries/save-chat", async (req, res) => {
+  app.post("/api/journal-entries/save-chat", meterFeature("journalEntries"), async (req, res) => {
     console.log(`⭐ POST /api/journal-entries/save-chat authentication check - isAuthenticated: ${req.isAuthenticated()}`);
     if (!req.isAuthenticated()) {
       console.log(`❌ POST /api/journal-entries/save-chat failed authentication check`);
@@ -291,27 +449,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       console.log(`Generated transcript with ${transcript.length} characters`);
       
-      // Generate meaningful title for the chat journal entry
-      let title;
-      try {
-        title = await generateJournalTitle(transcript);
-        console.log(`Generated title for chat transcript: ${title}`);
-      } catch (titleError) {
-        console.error("Failed to generate title for chat, using default:", titleError);
-        title = "Chat Transcript";
-      }
-      
-      // Generate summary and analyze sentiment with goal extraction
-      let sentiment: any = { score: 0, emotions: [], themes: [], goals: [], tasks: [] };
-      try {
-        console.log(`Analyzing sentiment for chat transcript`);
-        sentiment = await analyzeSentiment(transcript);
-        console.log(`✅ Sentiment analysis complete for chat transcript`);
-      } catch (sentimentError) {
-        console.error("Error analyzing sentiment:", sentimentError);
-        // Default sentiment already set
-      }
-      
       // Use provided date if available, otherwise use current time
       // The client should provide the date in the user's local timezone
       let entryDate;
@@ -331,7 +468,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         journalEntry = await storage.createJournalEntry({
           userId,
           content: content,
-          title: title,
+          title: null, // Generated by a background job
           date: entryDate,
           isAiResponse: false,
           isJournal: true,
@@ -344,57 +481,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(500).json({ error: "Failed to create journal entry from chat" });
       }
       
-      // Update with sentiment analysis
-      const updatedEntry = await storage.updateJournalEntrySentiment(
-        journalEntry.id, 
-        sentiment
-      );
-      
-      // Extract and process any goals
-      if (sentiment.goals && sentiment.goals.length > 0) {
-        for (const goal of sentiment.goals) {
-          if (goal.isNew) {
-            // Create a new goal
-            await storage.createGoal({
-              userId,
-              name: goal.name,
-              target: 100, // Default target
-              progress: 0,
-              unit: "%",
-              colorScheme: 1
-            });
-          } else if (goal.completion !== undefined) {
-            // Find the existing goal to update
-            const existingGoals = await storage.getGoalsByUserId(userId);
-            const matchingGoal = existingGoals.find(g => 
-              g.name.toLowerCase() === goal.name.toLowerCase()
-            );
-            
-            if (matchingGoal) {
-              // Update the goal progress
-              await storage.updateGoalProgress(matchingGoal.id, goal.completion);
-            }
-          }
-        }
-      }
-      
-      // Store embedding for RAG
-      await storeEmbedding(journalEntry.id, transcript);
-      
-      // Process with the unified AI suggestion module to generate AI suggestions
+      // Title, sentiment (including new goals), embedding and suggestions run as background jobs
       try {
-        // Process in the background - don't wait for it to complete
-        // This will save suggestions to the ai_goals, ai_tasks, ai_habits tables
-        processSingleEntry(journalEntry).catch(error => {
-          console.error(`Background AI suggestion processing for chat entry ${journalEntry.id} failed:`, error);
-        });
-        
-        console.log(`Started background AI suggestion processing for chat entry ${journalEntry.id} using new AI tables`);
-      } catch (suggestError) {
-        console.error("Error initiating AI suggestion processing for chat:", suggestError);
-        // This shouldn't fail the whole request
-        // Still mark as analyzed to avoid repeated processing attempts
-        await storage.updateJournalEntry(journalEntry.id, { analyzed: true });
+        await enqueueJournalEntryProcessing(journalEntry, { createNewGoals: true });
+      } catch (queueError) {
+        // The scheduled sweep still picks up unanalyzed entries for suggestions
+        console.error(`Failed to queue AI processing for chat entry ${journalEntry.id}:`, queueError);
       }
       
       // Delete individual chat entries to clear the chat
@@ -403,7 +495,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         await storage.deleteJournalEntry(entry.id);
       }
       
-      res.status(201).json(updatedEntry);
+      res.status(201).json(journalEntry);
     } catch (error) {
       console.error("Error saving chat transcript:", error);
       res.status(500).json({ error: "Failed to save chat transcript" });
@@ -411,113 +503,102 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Endpoint for getting AI chat responses without saving to DB
-  app.post("/api/chat-response", async (req, res) => {
+  app.post("/api/chat-response", meterFeature("aiResponses"), async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     const { content, userId, history = [] } = req.body;
     if (req.user?.id !== userId) return res.sendStatus(403);
     
     try {
-      // Convert history to the format expected by the OpenAI function
-      const conversationHistory = history.map((entry: {role: string, content: string}) => ({
-        role: entry.role as "user" | "ai",
-        content: entry.content
-      }));
-      
-      let aiResponse;
-      
-      // Check for special prompt types
-      if (content.startsWith('__MULTI_PART_PROMPT__:')) {
-        // This is a multi-part prompt from the Journal Prompts section
-        // Extract the actual prompt from the prefix
-        const promptContent = content.replace('__MULTI_PART_PROMPT__:', '').trim();
-        console.log("Server received multi-part prompt:", promptContent);
-        
-        // Create a special system message for multi-part prompts
-        const systemMessage = {
-          role: "system" as "system", 
-          content: `You are helping the user with a multi-part journaling prompt: "${promptContent}". 
-          
-This is not a simple question but a structured journaling exercise that requires detailed, reflective responses.
-
-For this exercise:
-1. Break down the prompt into individual questions or parts
-2. Ask the user about each part ONE AT A TIME, waiting for their response before moving to the next part
-3. If the prompt requires listing multiple items (like "three things that went well"), ask about each item separately
-4. Encourage deep reflection by asking follow-up questions about WHY or HOW
-5. After the user has completed all parts, provide a brief summary of their responses
-6. Your tone should be warm, supportive and encouraging
-          
-Example of good breakdown for "What are three things that went well today and why?":
-- First ask: "Let's reflect on your day. What's one thing that went well today?"
-- After they respond, ask: "That's wonderful. And why do you think that particular thing went well?"
-- Then: "Great reflection. What's a second thing that went well today?"
-- And so on until all three items and their "why" explanations are explored.`
-        };
-        
-        // Add the system message to guide the AI's response strategy
-        const enhancedHistory = [systemMessage, ...conversationHistory];
-        
-        // Generate the special AI response for multi-part prompts
-        aiResponse = await generateAIResponse(
-          promptContent, 
-          enhancedHistory, 
-          req.user.username || "User", 
-          userId,
-          true // Flag that this is a multi-part prompt
-        );
-      } 
-      // Check if this is a direct one-shot prompt from suggested prompts
-      else if (content.startsWith('ASK_ME_ABOUT:')) {
-        // Remove the prefix to get the clean prompt
-        const promptContent = content.replace('ASK_ME_ABOUT:', '').trim();
-        console.log("Server received direct prompt:", promptContent);
-        
-        // Create a special system message that tells the AI to ask the user about this topic
-        const systemMessage = {
-          role: "system" as "system",
-          content: `You are a warm and empathetic journaling assistant. The user has selected a journaling topic: "${promptContent}".
-          
-IMPORTANT: Instead of answering this as if the user asked YOU this question, you need to turn this into a question FOR the user.
-
-For example:
-- If the topic is "How am I feeling today?" → Ask the user "How are you feeling today? I'd love to hear about your current emotions."
-- If the topic is "What's something I'm grateful for?" → Ask "What's something you're feeling grateful for today? It can be something small or significant."
-
-Your role is to:
-1. Turn the topic into an engaging question directed TO the user
-2. Make your question open-ended and inviting
-3. Sound warm, caring and genuinely interested
-4. Keep your response brief (1-2 sentences)
-5. Avoid answering the question yourself or making assumptions`
-        };
-        
-        // Create a conversation history with just our system message
-        const specialHistory = [systemMessage];
-        
-        // Generate a response that will be a question to the user about the topic
-        aiResponse = await generateAIResponse(
-          promptContent,
-          specialHistory,
-          req.user.username || "User",
-          userId,
-          false
-        );
-      } 
-      // Regular conversation
-      else {
-        // Normal conversation handling
-        aiResponse = await generateAIResponse(content, conversationHistory, req.user.username || "User", userId);
-      }
+      const chat = prepareChatPrompt(content, history);
+      
+      const aiResponse = await generateAIResponse(
+        chat.prompt,
+        chat.history,
+        req.user.username || "User",
+        userId,
+        chat.isMultiPartPrompt
+      );
       
       // Return only the AI response
       res.status(200).json({ content: aiResponse });
     } catch (error) {
+      if (error instanceof TokenLimitExceededError) {
+        return res.status(error.status).json(error.toJSON());
+      }
       console.error("Error generating AI response:", error);
       res.status(500).json({ error: "Failed to generate AI response" });
     }
   });
 
+  // Streaming variant of /api/chat-response. Sends the reply as chunked plain
+  // text while it is generated; closing the request cancels the completion.
+  app.post("/api/chat-response/stream", meterFeature("aiResponses"), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    const { content, userId, history = [] } = req.body;
+    if (req.user?.id !== userId) return res.sendStatus(403);
+    
+    if (!content || typeof content !== "string") {
+      return res.status(400).json({ error: "Content is required" });
+    }
+    
+    // Abort the completion if the client disconnects or cancels mid-reply
+    const abortController = new AbortController();
+    res.on("close", () => {
+      if (!res.writableEnded) {
+        abortController.abort();
+      }
+    });
+    
+    try {
+      const chat = prepareChatPrompt(content, history);
+      
+      // Headers are sent with the first token, so errors raised before any
+      // output (e.g. the monthly token limit) can still be returned as JSON
+      const startStream = () => {
+        if (res.headersSent) return;
+        res.status(200);
+        res.setHeader("Content-Type", "text/plain; charset=utf-8");
+        res.setHeader("Cache-Control", "no-cache, no-transform");
+        res.setHeader("X-Accel-Buffering", "no");
+        res.flushHeaders();
+      };
+      
+      const result = await streamAIResponse(
+        chat.prompt,
+        chat.history,
+        req.user.username || "User",
+        (token) => {
+          startStream();
+          res.write(token);
+        },
+        {
+          userId,
+          isMultiPartPrompt: chat.isMultiPartPrompt,
+          signal: abortController.signal
+        }
+      );
+      
+      if (result.aborted) {
+        console.log(`Chat response stream for user ${userId} cancelled by client`);
+        return;
+      }
+      
+      startStream();
+      res.end();
+    } catch (error) {
+      if (error instanceof TokenLimitExceededError && !res.headersSent) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      console.error("Error streaming AI response:", error);
+      if (!res.headersSent) {
+        return res.status(500).json({ error: "Failed to generate AI response" });
+      }
+      res.end();
+    }
+  });
+
   // Delete a journal entry
   app.delete("/api/journal-entries/:id", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
@@ -538,6 +619,9 @@ Your role is to:
       }
       
       await storage.deleteJournalEntry(entryId);
+      if (entry.isJournal && !entry.deletedAt) {
+        await FeatureLimitService.release(entry.userId, "journalEntries");
+      }
       res.status(200).json({ message: "Journal entry deleted successfully" });
     } catch (error) {
       console.error("Error deleting journal entry:", error);
@@ -580,9 +664,17 @@ Your role is to:
         return res.status(403).json({ error: "You don't have permission to restore this entry" });
       }
       
+      // A restored entry counts towards the journal entry limit again
+      if (entry.isJournal && entry.deletedAt) {
+        await FeatureLimitService.consume(entry.userId, "journalEntries");
+      }
+      
       const restoredEntry = await storage.restoreJournalEntry(entryId);
       res.json(restoredEntry);
     } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        return res.status(error.status).json(error.toJSON());
+      }
       console.error("Error restoring journal entry:", error);
       res.status(500).json({ error: "Failed to restore journal entry" });
     }
@@ -608,6 +700,9 @@ Your role is to:
       }
       
       await storage.permanentlyDeleteJournalEntry(entryId);
+      if (entry.isJournal && !entry.deletedAt) {
+        await FeatureLimitService.release(entry.userId, "journalEntries");
+      }
       res.status(200).json({ message: "Journal entry permanently deleted" });
     } catch (error) {
       console.error("Error permanently deleting journal entry:", error);
@@ -615,7 +710,7 @@ Your role is to:
     }
   });
 
-  app.post("/api/journal-entries", async (req, res) => {
+  app.post("/api/journal-entries", meterFeature("journalEntries"), async (req, res) => {
     console.log(`⭐ POST /api/journal-entries authentication check - isAuthenticated: ${req.isAuthenticated()}`);
     if (!req.isAuthenticated()) {
       console.log(`❌ POST /api/journal-entries failed authentication check`);
@@ -655,17 +750,7 @@ Your role is to:
         console.log(`⚠️ No date provided, using current date: ${entryDate}`);
       }
       
-      // Generate a meaningful title for the journal entry
-      let title;
-      try {
-        title = await generateJournalTitle(content);
-        console.log(`Generated title for journal entry: ${title}`);
-      } catch (titleError) {
-        console.error("Failed to generate title, using default:", titleError);
-        title = "Journal Entry";
-      }
-
-      console.log(`Creating journal entry with title: "${title}" for user ${userId}`);
+      console.log(`Creating journal entry for user ${userId}`);
       
       // Save as permanent journal entry
       let journalEntry;
@@ -674,7 +759,7 @@ Your role is to:
           userId,
           content,
           date: entryDate, // Already an ISO string from client
-          title, // Add the AI-generated title
+          title: null, // Generated by a background job
           isAiResponse: false,
           isJournal: true, // This is a permanent journal entry
           transcript: transcript || content, // Use provided transcript if available, otherwise use content
@@ -686,73 +771,12 @@ Your role is to:
         return res.status(500).json({ error: "Failed to create journal entry" });
       }
       
-      // Get sentiment analysis
-      let sentiment: any = { score: 0, emotions: [], themes: [], goals: [], tasks: [] };
+      // Title, sentiment (including goal progress), embedding and suggestions run as background jobs
       try {
-        console.log(`Getting sentiment analysis for entry ID: ${journalEntry.id}`);
-        sentiment = await analyzeSentiment(content);
-        await storage.updateJournalEntrySentiment(journalEntry.id, sentiment);
-        console.log(`✅ Updated sentiment for entry ID: ${journalEntry.id}`);
-      } catch (sentimentError) {
-        console.error(`❌ Error analyzing sentiment for entry ${journalEntry.id}:`, sentimentError);
-        // Continue with the process - sentiment analysis is not critical
-      }
-      
-      // Process with the unified AI suggestion module to generate AI suggestions
-      try {
-        // Process journal entries if they are substantial
-        if (content.length > 100) {
-          // Process in the background - don't wait for it to complete
-          // This will now save suggestions to the ai_goals, ai_tasks, ai_habits tables
-          processSingleEntry(journalEntry).catch(error => {
-            console.error(`Background AI suggestion processing for entry ${journalEntry.id} failed:`, error);
-          });
-          
-          console.log(`Started background AI suggestion processing for entry ${journalEntry.id} using new AI tables`);
-        } else {
-          console.log(`Journal entry ${journalEntry.id} too short for AI suggestion processing (${content.length} chars)`);
-          // Still mark as analyzed to avoid processing it later
-          await storage.updateJournalEntry(journalEntry.id, { analyzed: true });
-        }
-      } catch (suggestError) {
-        console.error("Error initiating AI suggestion processing:", suggestError);
-        // This shouldn't fail the whole request
-        // Still mark as analyzed to avoid repeated processing attempts
-        await storage.updateJournalEntry(journalEntry.id, { analyzed: true });
-      }
-      
-      // Process goal progress updates if needed
-      if (sentiment && sentiment.goals && sentiment.goals.length > 0) {
-        console.log(`Processing ${sentiment.goals.length} goals from sentiment analysis`);
-        for (const goal of sentiment.goals) {
-          try {
-            if (goal.completion !== undefined) {
-              // Find the existing goal to update
-              const existingGoals = await storage.getGoalsByUserId(userId);
-              const matchingGoal = existingGoals.find(g => 
-                g.name.toLowerCase() === goal.name.toLowerCase()
-              );
-              
-              if (matchingGoal) {
-                // Update the goal progress
-                await storage.updateGoalProgress(matchingGoal.id, goal.completion);
-                console.log(`Updated progress for goal "${goal.name}" to ${goal.completion}%`);
-              }
-            }
-          } catch (goalError) {
-            console.error(`Error processing goal "${goal.name}":`, goalError);
-          }
-        }
-      } else {
-        console.log(`No goals found in sentiment analysis`);
-      }
-      
-      // Store embedding for RAG functionality
-      try {
-        await storeEmbedding(journalEntry.id, content);
-        console.log(`✅ Stored embedding for journal entry ${journalEntry.id}`);
-      } catch (embeddingError) {
-        console.error("Failed to store embedding, but continuing:", embeddingError);
+        await enqueueJournalEntryProcessing(journalEntry);
+      } catch (queueError) {
+        // The scheduled sweep still picks up unanalyzed entries for suggestions
+        console.error(`Failed to queue AI processing for entry ${journalEntry.id}:`, queueError);
       }
       
       // Return the journal entry
@@ -803,6 +827,7 @@ Your role is to:
   });
 
   // Goals API
+  // With ?limit or ?cursor, returns a page of goals (see server/pagination.ts)
   app.get("/api/goals/:userId", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
@@ -810,16 +835,26 @@ Your role is to:
     if (req.user?.id !== userId) return res.sendStatus(403);
     
     try {
+      if (isPageRequest(req.query)) {
+        const options = goalListSchema.parse(req.query);
+        return res.json(await storage.getGoalsPage(userId, options));
+      }
       const goals = await storage.getGoalsByUserId(userId);
       res.json(goals);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      if (error instanceof PaginationError) {
+        return res.status(400).json({ error: error.message });
+      }
       res.status(500).json({ error: "Failed to fetch goals" });
     }
   });
   
   // Get AI-suggested goals, tasks, and habits based on journal entries
   // This endpoint generates new AI suggestions and stores them in the database
-  app.get("/api/goals/:userId/generate-suggestions", async (req, res) => {
+  app.get("/api/goals/:userId/generate-suggestions", meterFeature("aiResponses"), async (req, res) => {
     console.log(`⭐ GET /api/goals/:userId/generate-suggestions called for userId: ${req.params.userId}`);
     console.log(`⭐ Is authenticated: ${req.isAuthenticated()}`);
     
@@ -836,8 +871,8 @@ Your role is to:
       return res.sendStatus(403);
     }
     
-    // Check if OpenAI API key is configured
-    if (!process.env.OPENAI_API_KEY) {
+    // Check if the LLM provider is configured
+    if (!getLLMProvider().isConfigured()) {
       console.error("⚠️ OPENAI_API_KEY is missing. Cannot generate suggestions.");
       return res.status(500).json({ 
         error: "OpenAI API key is missing. Please contact support to enable AI features." 
@@ -949,7 +984,7 @@ Your role is to:
   });
   
   // New endpoint for accepting an AI suggested goal
-  app.post("/api/ai-goals/:id/accept", async (req, res) => {
+  app.post("/api/ai-goals/:id/accept", meterFeature("goals"), async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
@@ -1195,6 +1230,9 @@ Your role is to:
       
       // Delete the suggested goal
       await storage.deleteGoal(goalId);
+      if (!goal.deletedAt) {
+        await FeatureLimitService.release(goal.userId, "goals");
+      }
       
       res.json({ success: true });
     } catch (error) {
@@ -1203,14 +1241,14 @@ Your role is to:
     }
   });
   
-  app.get("/api/tasks/:userId/suggestions", async (req, res) => {
+  app.get("/api/tasks/:userId/suggestions", meterFeature("aiResponses"), async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     const userId = Number(req.params.userId);
     if (req.user?.id !== userId) return res.sendStatus(403);
     
-    // Check if OpenAI API key is configured
-    if (!process.env.OPENAI_API_KEY) {
+    // Check if the LLM provider is configured
+    if (!getLLMProvider().isConfigured()) {
       console.error("⚠️ OPENAI_API_KEY is missing. Cannot generate task suggestions.");
       return res.status(500).json({ 
         error: "OpenAI API key is missing. Please contact support to enable AI features." 
@@ -1306,9 +1344,17 @@ Your role is to:
         return res.status(403).json({ error: "You don't have permission to restore this goal" });
       }
       
+      // A restored goal counts towards the goal limit again
+      if (goal.deletedAt) {
+        await FeatureLimitService.consume(goal.userId, "goals");
+      }
+      
       const restoredGoal = await storage.restoreGoal(goalId);
       res.status(200).json(restoredGoal);
     } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        return res.status(error.status).json(error.toJSON());
+      }
       console.error("Error restoring goal:", error);
       res.status(500).json({ error: "Failed to restore goal" });
     }
@@ -1356,7 +1402,7 @@ Your role is to:
   });
   
   // Endpoint to convert a task to a goal
-  app.post("/api/tasks/:id/convert-to-goal", async (req, res) => {
+  app.post("/api/tasks/:id/convert-to-goal", meterFeature("goals"), async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     const taskId = Number(req.params.id);
@@ -1421,7 +1467,7 @@ Your role is to:
     }
   });
   
-  app.get("/api/habits/:userId/suggestions", async (req, res) => {
+  app.get("/api/habits/:userId/suggestions", meterFeature("aiResponses"), async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     const userId = Number(req.params.userId);
@@ -1490,7 +1536,7 @@ Your role is to:
     }
   });
 
-  app.post("/api/goals", async (req, res) => {
+  app.post("/api/goals", meterFeature("goals"), async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     const { userId, name, description, category, targetDate, target, unit, colorScheme } = req.body;
@@ -1583,6 +1629,9 @@ Your role is to:
       if (goal.userId !== req.user?.id) return res.sendStatus(403);
       
       await storage.deleteGoal(goalId);
+      if (!goal.deletedAt) {
+        await FeatureLimitService.release(goal.userId, "goals");
+      }
       res.sendStatus(200);
     } catch (error) {
       console.error("Goal deletion error:", error);
@@ -1608,6 +1657,9 @@ Your role is to:
       }
       
       const newTask = await storage.convertGoalToTask(goalId);
+      if (!goal.deletedAt) {
+        await FeatureLimitService.release(goal.userId, "goals");
+      }
       res.status(200).json(newTask);
     } catch (error) {
       console.error("Error converting goal to task:", error);
@@ -1634,7 +1686,16 @@ Your role is to:
         const moodRatings = recentMoods.map(mood => mood.rating);
         
         if (userEntries.length > 0) {
-          const customPromptTexts = await generateCustomPrompts(userEntries, moodRatings);
+          let customPromptTexts: string[] = [];
+          try {
+            await FeatureLimitService.consume(req.user.id, "aiResponses");
+            customPromptTexts = await generateCustomPrompts(userEntries, moodRatings, req.user.id);
+          } catch (promptError) {
+            // Users over their daily AI quota or monthly token limit get the default prompts
+            if (!(promptError instanceof TokenLimitExceededError) && !(promptError instanceof QuotaExceededError)) {
+              throw promptError;
+            }
+          }
           
           // Create custom prompts in storage
           const customPrompts = [];
@@ -1685,7 +1746,17 @@ Your role is to:
           sentiment: entry.sentiment || undefined
         }));
         
-        const weeklySummary = await generateWeeklySummary(formattedEntries);
+        // Once the daily AI quota is used up, the last summary is shown until it resets
+        try {
+          await FeatureLimitService.consume(userId, "aiResponses");
+        } catch (quotaError) {
+          if (quotaError instanceof QuotaExceededError && summary) {
+            return res.json(summary);
+          }
+          throw quotaError;
+        }
+        
+        const weeklySummary = await generateWeeklySummary(formattedEntries, userId);
         
         // Ensure arrays are properly formatted
         const formattedSummary = {
@@ -1701,34 +1772,14 @@ Your role is to:
       
       res.json(summary);
     } catch (error) {
+      if (error instanceof TokenLimitExceededError || error instanceof QuotaExceededError) {
+        return res.status(error.status).json(error.toJSON());
+      }
       console.error(error);
       res.status(500).json({ error: "Failed to generate summary" });
     }
   });
 
-  // Export journal entries (PDF not implemented in MVP)
-  app.get("/api/export/:userId", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    
-    const userId = Number(req.params.userId);
-    if (req.user?.id !== userId) return res.sendStatus(403);
-    
-    try {
-      const entries = await storage.getJournalEntriesByUserId(userId);
-      
-      // For MVP, just return JSON
-      res.json({
-        username: req.user.username,
-        exportDate: new Date().toISOString(),
-        entries: entries
-      });
-      
-      // TODO: Add PDF generation in future versions
-    } catch (error) {
-      res.status(500).json({ error: "Failed to export journal entries" });
-    }
-  });
-
   // ------------------------
   // Notification System API
   // ------------------------
@@ -1759,15 +1810,67 @@ Your role is to:
     }
   });
   
-  // Create a new notification (admin or system use)
+  // Stream notification and suggestion events to the browser (Server-Sent Events)
+  app.get("/api/events", (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    const close = addRealtimeClient(req.user.id, req.sessionID, res);
+    req.on("close", close);
+  });
+  
+  // Get scheduled and recurring notifications that haven't been delivered yet
+  app.get("/api/notifications/scheduled", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const scheduledNotifications = await storage.getScheduledNotificationsByUserId(req.user.id);
+      res.json(scheduledNotifications);
+    } catch (error) {
+      console.error("Error fetching scheduled notifications:", error);
+      res.status(500).json({ error: "Failed to fetch scheduled notifications" });
+    }
+  });
+  
+  // Create a new notification (admin or system use).
+  // Notifications with a future scheduledFor or a recurringPattern are held
+  // as "scheduled" and delivered by the notification scheduler.
   app.post("/api/notifications", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
+      const isRecurring = Boolean(req.body.isRecurring);
+      const recurringPattern = isRecurring ? req.body.recurringPattern : null;
+      
+      if (isRecurring && !isValidRecurringPattern(recurringPattern)) {
+        return res.status(400).json({ 
+          error: "recurringPattern must be 'daily', 'weekly', 'monthly' or a five-field cron expression" 
+        });
+      }
+      if (req.body.scheduledFor && isNaN(new Date(req.body.scheduledFor).getTime())) {
+        return res.status(400).json({ error: "scheduledFor must be a valid date" });
+      }
+      
+      const deliverAt = await getFirstDeliveryTime(req.user.id, recurringPattern, req.body.scheduledFor);
+      if (!deliverAt) {
+        return res.status(400).json({ error: "recurringPattern never occurs" });
+      }
+      
+      const isScheduled = isRecurring || deliverAt.getTime() > Date.now();
       const notification = await storage.createNotification({
         ...req.body,
-        userId: req.user.id
+        userId: req.user.id,
+        isRecurring,
+        recurringPattern,
+        status: isScheduled ? "scheduled" : "unread",
+        scheduledFor: isScheduled ? deliverAt.toISOString() : req.body.scheduledFor,
+        metadata: isRecurring
+          ? { ...req.body.metadata, recurrenceAnchor: deliverAt.toISOString() }
+          : req.body.metadata
       });
+      
+      if (notification.status === "unread") {
+        publishToUser(req.user.id, { type: "notification-created", notification });
+      }
       res.status(201).json(notification);
     } catch (error) {
       console.error("Error creating notification:", error);
@@ -1797,6 +1900,8 @@ Your role is to:
         req.body.status
       );
       
+      // Keep the user's other tabs in sync
+      publishToUser(req.user.id, { type: "notification-updated", notification: updatedNotification });
       res.json(updatedNotification);
     } catch (error) {
       console.error("Error updating notification:", error);
@@ -1894,20 +1999,32 @@ Your role is to:
   app.use("/api/settings", oauthSettingsRoutes);
   app.use("/api/settings", openaiSettingsRoutes);
   app.use("/api/admin", adminStatsRoutes);
+  app.use("/api/admin", adminJobsRoutes);
+  app.use("/api/admin", adminEmailRoutes);
+  app.use("/api/admin", adminSubscriptionRoutes);
+  app.use("/api/admin", adminInvoiceRoutes);
+  app.use("/api/admin", adminPlanRoutes);
+  app.use("/api/admin", adminSecurityRoutes);
+  app.use("/api/push", pushRoutes);
+  app.use("/api/2fa", twoFactorRoutes);
+  app.use("/api/sessions", sessionRoutes);
+  app.use("/api/journal-search", journalSearchRoutes);
+  app.use("/api/weekly-digests", weeklyDigestRoutes);
+  app.use("/api/export", accountExportRoutes);
+  app.use("/api/journal-imports", journalImportRoutes);
   
   // Trigger AI suggestion processing for all users (admin only)
   app.post("/api/admin/process-all-journal-entries", async (req, res) => {
     if (!req.isAuthenticated() || !req.user?.isAdmin) return res.sendStatus(403);
     
     try {
-      // This is a non-blocking operation - it will run in the background
-      processAllEntries().catch(error => {
-        console.error("Background processing of all journal entries failed:", error);
-      });
+      // Queued rather than run inline so it is retried if it fails
+      const job = await enqueueJob("process-all-entries", { maxEntriesPerUser: 5 });
       
       res.json({ 
         success: true, 
-        message: "AI suggestion processing has been triggered for all users and will run in the background."
+        message: "AI suggestion processing has been triggered for all users and will run in the background.",
+        jobId: job.id
       });
     } catch (error) {
       console.error("Error starting AI suggestion processing:", error);
@@ -1940,6 +2057,9 @@ Your role is to:
     }
   });
   app.use("/api/subscription", subscriptionRoutes);
+  app.use("/api/webhooks/paypal", paypalWebhookRoutes);
+  app.use("/api/webhooks/stripe", stripeWebhookRoutes);
+  app.use("/api", stripeCheckoutRoutes);
   app.use("/api", paypalSettingsRoutes);
 
   // Register avatar routes
@@ -0,0 +1,106 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { FeatureLimitService } from "../hooks/use-feature-limits";
+import {
+  requestAccountExport,
+  requestAccountExportSchema,
+  listAccountExports,
+  getAccountExport,
+  getAccountExportArchive,
+  AccountExportError,
+} from "../account-export";
+
+const router = Router();
+
+// The current user's recent exports, and whether their plan allows exporting
+router.get("/", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+
+  try {
+    const [access, exports] = await Promise.all([
+      FeatureLimitService.canExportData(req.user.id),
+      listAccountExports(req.user.id),
+    ]);
+    return res.json({ access, exports });
+  } catch (error) {
+    console.error("Error fetching data exports:", error);
+    return res.status(500).json({ error: "Failed to fetch data exports" });
+  }
+});
+
+// Start an export in the chosen formats; the archive is built in the background
+router.post("/", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+
+  try {
+    const access = await FeatureLimitService.canExportData(req.user.id);
+    if (!access.allowed) {
+      return res.status(403).json({ error: access.reason, upgradeRequired: true });
+    }
+
+    const { formats } = requestAccountExportSchema.parse(req.body ?? {});
+    const exportRow = await requestAccountExport(req.user.id, formats);
+    return res.status(202).json(exportRow);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    if (error instanceof AccountExportError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error("Error starting data export:", error);
+    return res.status(500).json({ error: "Failed to start data export" });
+  }
+});
+
+// An export's progress
+router.get("/:id", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+
+  const exportId = Number(req.params.id);
+  if (!Number.isInteger(exportId)) {
+    return res.status(400).json({ error: "Invalid export ID" });
+  }
+
+  try {
+    const exportRow = await getAccountExport(req.user.id, exportId);
+    if (!exportRow) {
+      return res.status(404).json({ error: "Export not found" });
+    }
+    return res.json(exportRow);
+  } catch (error) {
+    console.error("Error fetching data export:", error);
+    return res.status(500).json({ error: "Failed to fetch data export" });
+  }
+});
+
+// Download a finished export as a zip
+router.get("/:id/download", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+
+  const exportId = Number(req.params.id);
+  if (!Number.isInteger(exportId)) {
+    return res.status(400).json({ error: "Invalid export ID" });
+  }
+
+  try {
+    const access = await FeatureLimitService.canExportData(req.user.id);
+    if (!access.allowed) {
+      return res.status(403).json({ error: access.reason, upgradeRequired: true });
+    }
+
+    const { archive, fileName } = await getAccountExportArchive(req.user.id, exportId);
+    res.setHeader("Content-Type", "application/zip");
+    res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+    res.setHeader("Cache-Control", "private, no-store");
+    return res.send(archive);
+  } catch (error) {
+    if (error instanceof AccountExportError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error("Error downloading data export:", error);
+    return res.status(500).json({ error: "Failed to download data export" });
+  }
+});
+
+export default router;
@@ -0,0 +1,81 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { getEmailDeliveryStats, listEmailDeliveries, recordBounce } from "../email";
+import { EMAIL_TEMPLATES } from "../email-templates";
+
+const router = Router();
+
+const listDeliveriesSchema = z.object({
+  status: z.enum(["queued", "sent", "failed", "bounced", "suppressed"]).optional(),
+  template: z.enum(EMAIL_TEMPLATES as [string, ...string[]]).optional(),
+  to: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const bounceSchema = z.object({
+  messageId: z.string().optional(),
+  email: z.string().email().optional(),
+  reason: z.string().optional(),
+}).refine(data => data.messageId || data.email, {
+  message: "messageId or email is required",
+});
+
+// Get delivery counts by template and status
+router.get("/email/stats", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated() || !req.user?.isAdmin) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  try {
+    const stats = await getEmailDeliveryStats();
+    return res.json(stats);
+  } catch (error) {
+    console.error("Error fetching email stats:", error);
+    return res.status(500).json({ error: "Failed to fetch email statistics" });
+  }
+});
+
+// List the email delivery log
+router.get("/email/deliveries", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated() || !req.user?.isAdmin) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  try {
+    const filters = listDeliveriesSchema.parse(req.query);
+    const deliveries = await listEmailDeliveries(filters as Parameters<typeof listEmailDeliveries>[0]);
+    return res.json(deliveries);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    console.error("Error fetching email deliveries:", error);
+    return res.status(500).json({ error: "Failed to fetch email deliveries" });
+  }
+});
+
+// Record a bounce, either by an admin or by the mail provider's webhook
+// (authenticated with the EMAIL_WEBHOOK_SECRET header)
+router.post("/email/bounces", async (req: Request, res: Response) => {
+  const webhookSecret = process.env.EMAIL_WEBHOOK_SECRET;
+  const fromWebhook = !!webhookSecret && req.get("x-email-webhook-secret") === webhookSecret;
+
+  if (!fromWebhook && (!req.isAuthenticated() || !req.user?.isAdmin)) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  try {
+    const report = bounceSchema.parse(req.body);
+    const updated = await recordBounce(report);
+    return res.json({ success: true, updated });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    console.error("Error recording email bounce:", error);
+    return res.status(500).json({ error: "Failed to record bounce" });
+  }
+});
+
+export default router;
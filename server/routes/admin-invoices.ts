@@ -0,0 +1,164 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import {
+  getInvoiceSettings,
+  updateInvoiceSettings,
+  listInvoices,
+  renderInvoiceForPayment,
+  regenerateInvoice,
+  emailInvoice,
+  InvoiceUnavailableError,
+} from "../invoices";
+
+const router = Router();
+
+const invoiceSettingsSchema = z.object({
+  businessName: z.string().trim().min(1).max(120).optional(),
+  businessAddress: z.string().max(500).nullable().optional(),
+  taxId: z.string().max(60).nullable().optional(),
+  taxLabel: z.string().trim().min(1).max(20).optional(),
+  taxRate: z.number().min(0).max(100).optional(),
+  numberPrefix: z.string().max(12).regex(/^[A-Za-z0-9_-]*$/, "Use letters, numbers, dashes and underscores").optional(),
+});
+
+const listInvoicesSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+const invoiceFormatSchema = z.object({
+  format: z.enum(["pdf", "html"]).default("pdf"),
+});
+
+function parsePaymentId(req: Request): number | null {
+  const paymentId = parseInt(req.params.paymentId);
+  return isNaN(paymentId) ? null : paymentId;
+}
+
+// Get the seller details, tax and numbering used on invoices
+router.get("/invoices/settings", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated() || !req.user?.isAdmin) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  try {
+    return res.json(await getInvoiceSettings());
+  } catch (error) {
+    console.error("Error fetching invoice settings:", error);
+    return res.status(500).json({ error: "Failed to fetch invoice settings" });
+  }
+});
+
+// Change the seller details, tax and numbering for new and regenerated invoices
+router.put("/invoices/settings", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated() || !req.user?.isAdmin) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  try {
+    const settings = invoiceSettingsSchema.parse(req.body);
+    return res.json(await updateInvoiceSettings(settings));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    console.error("Error updating invoice settings:", error);
+    return res.status(500).json({ error: "Failed to update invoice settings" });
+  }
+});
+
+// List recent invoices
+router.get("/invoices", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated() || !req.user?.isAdmin) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  try {
+    const { limit } = listInvoicesSchema.parse(req.query);
+    return res.json(await listInvoices(limit));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    console.error("Error listing invoices:", error);
+    return res.status(500).json({ error: "Failed to list invoices" });
+  }
+});
+
+// Download any payment's invoice, issuing it if needed
+router.get("/payments/:paymentId/invoice", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated() || !req.user?.isAdmin) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  const paymentId = parsePaymentId(req);
+  if (paymentId === null) {
+    return res.status(400).json({ error: "Invalid payment ID" });
+  }
+
+  try {
+    const { format } = invoiceFormatSchema.parse(req.query);
+    const file = await renderInvoiceForPayment(paymentId, format);
+    res.setHeader("Content-Type", file.contentType);
+    res.setHeader("Content-Disposition", `${format === "pdf" ? "attachment" : "inline"}; filename="${file.fileName}"`);
+    return res.send(file.content);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    if (error instanceof InvoiceUnavailableError) {
+      return res.status(404).json({ error: error.message });
+    }
+    console.error("Error rendering invoice:", error);
+    return res.status(500).json({ error: "Failed to render invoice" });
+  }
+});
+
+// Rebuild a payment's invoice from the payment and current settings, keeping its number
+router.post("/payments/:paymentId/invoice/regenerate", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated() || !req.user?.isAdmin) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  const paymentId = parsePaymentId(req);
+  if (paymentId === null) {
+    return res.status(400).json({ error: "Invalid payment ID" });
+  }
+
+  try {
+    return res.json(await regenerateInvoice(paymentId));
+  } catch (error) {
+    if (error instanceof InvoiceUnavailableError) {
+      return res.status(404).json({ error: error.message });
+    }
+    console.error("Error regenerating invoice:", error);
+    return res.status(500).json({ error: "Failed to regenerate invoice" });
+  }
+});
+
+// Email a payment's invoice to its user
+router.post("/payments/:paymentId/invoice/email", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated() || !req.user?.isAdmin) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  const paymentId = parsePaymentId(req);
+  if (paymentId === null) {
+    return res.status(400).json({ error: "Invalid payment ID" });
+  }
+
+  try {
+    const sent = await emailInvoice(paymentId);
+    if (!sent) {
+      return res.status(422).json({ error: "The user has no email address" });
+    }
+    return res.json({ sent });
+  } catch (error) {
+    if (error instanceof InvoiceUnavailableError) {
+      return res.status(404).json({ error: error.message });
+    }
+    console.error("Error emailing invoice:", error);
+    return res.status(500).json({ error: "Failed to email invoice" });
+  }
+});
+
+export default router;
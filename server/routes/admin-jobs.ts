@@ -0,0 +1,98 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { getJobStats, listJobs, retryJob, purgeCompletedJobs } from "../job-queue";
+
+const router = Router();
+
+const listJobsSchema = z.object({
+  status: z.enum(["pending", "running", "completed", "dead"]).optional(),
+  type: z.enum([
+    "journal-title",
+    "journal-sentiment",
+    "journal-embedding",
+    "journal-suggestions",
+    "process-all-entries",
+    "deliver-notifications",
+    "daily-reminders",
+    "send-email",
+    "weekly-digests",
+    "paypal-webhook",
+    "subscription-lifecycle",
+    "auth-throttle-cleanup",
+    "account-export",
+    "account-export-cleanup",
+    "journal-import",
+    "session-registry-cleanup"
+  ]).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// Get job counts by type and status
+router.get("/jobs/stats", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated() || !req.user?.isAdmin) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  try {
+    const stats = await getJobStats();
+    return res.json(stats);
+  } catch (error) {
+    console.error("Error fetching job stats:", error);
+    return res.status(500).json({ error: "Failed to fetch job statistics" });
+  }
+});
+
+// List jobs, optionally filtered by status and type
+router.get("/jobs", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated() || !req.user?.isAdmin) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  try {
+    const filters = listJobsSchema.parse(req.query);
+    const jobs = await listJobs(filters);
+    return res.json(jobs);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    console.error("Error fetching jobs:", error);
+    return res.status(500).json({ error: "Failed to fetch jobs" });
+  }
+});
+
+// Move a dead job back to the queue
+router.post("/jobs/:id/retry", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated() || !req.user?.isAdmin) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  try {
+    const job = await retryJob(Number(req.params.id));
+    if (!job) {
+      return res.status(404).json({ error: "Dead job not found" });
+    }
+    return res.json(job);
+  } catch (error) {
+    console.error("Error retrying job:", error);
+    return res.status(500).json({ error: "Failed to retry job" });
+  }
+});
+
+// Delete completed jobs older than a week
+router.delete("/jobs/completed", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated() || !req.user?.isAdmin) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  try {
+    const deleted = await purgeCompletedJobs();
+    return res.json({ success: true, deleted });
+  } catch (error) {
+    console.error("Error purging completed jobs:", error);
+    return res.status(500).json({ error: "Failed to purge completed jobs" });
+  }
+});
+
+export default router;
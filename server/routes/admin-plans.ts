@@ -0,0 +1,210 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import {
+  listFeatureLimits,
+  createFeatureLimit,
+  updateFeatureLimit,
+  previewFeatureLimitImpact,
+  listPlans,
+  createPlan,
+  updatePlan,
+  listAuditLog,
+  PlanCatalogError,
+} from "../plan-catalog";
+
+const router = Router();
+
+// null means unlimited
+const limitValue = z.number().int().min(0).nullable();
+
+const featureLimitFields = {
+  maxJournalEntries: limitValue,
+  maxGoals: limitValue,
+  aiResponsesPerDay: limitValue,
+  insightsAccess: z.boolean(),
+  customPromptsAccess: z.boolean(),
+  weeklyDigestAccess: z.boolean(),
+  moodTrackingAccess: z.boolean(),
+  exportAccess: z.boolean(),
+  communityAccess: z.boolean(),
+};
+
+const createFeatureLimitSchema = z.object({
+  subscriptionTier: z.string().trim().toLowerCase().min(1).max(32).regex(/^[a-z0-9_-]+$/, "Use letters, numbers, dashes and underscores"),
+  ...featureLimitFields,
+});
+
+const updateFeatureLimitSchema = z.object(featureLimitFields).partial();
+
+const planFields = {
+  displayName: z.string().trim().min(1).max(100),
+  description: z.string().trim().max(500),
+  price: z.number().min(0),
+  interval: z.enum(["month", "year"]),
+  features: z.array(z.string().trim().min(1)),
+  isActive: z.boolean(),
+};
+
+const createPlanSchema = z.object({
+  name: z.string().trim().toLowerCase().min(1).max(32).regex(/^[a-z0-9_-]+$/, "Use letters, numbers, dashes and underscores"),
+  ...planFields,
+});
+
+const updatePlanSchema = z.object(planFields).partial();
+
+const auditLogQuerySchema = z.object({
+  entityType: z.enum(["feature_limit", "subscription_plan"]).optional(),
+  entityId: z.coerce.number().int().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+function handleError(res: Response, error: unknown, action: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: "Validation error", details: error.errors });
+  }
+  if (error instanceof PlanCatalogError) {
+    return res.status(409).json({ error: error.message });
+  }
+  console.error(`Error trying to ${action}:`, error);
+  return res.status(500).json({ error: `Failed to ${action}` });
+}
+
+// Get every tier's feature limits
+router.get("/feature-limits", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated() || !req.user?.isAdmin) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  try {
+    return res.json(await listFeatureLimits());
+  } catch (error) {
+    return handleError(res, error, "fetch feature limits");
+  }
+});
+
+// Add limits for a new tier
+router.post("/feature-limits", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated() || !req.user?.isAdmin) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  try {
+    const values = createFeatureLimitSchema.parse(req.body);
+    return res.status(201).json(await createFeatureLimit(values, req.user.id));
+  } catch (error) {
+    return handleError(res, error, "create feature limits");
+  }
+});
+
+// See how many users a change to a tier's limits would affect, without saving it
+router.post("/feature-limits/:id/preview", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated() || !req.user?.isAdmin) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: "Invalid feature limit ID" });
+    }
+
+    const updates = updateFeatureLimitSchema.parse(req.body);
+    const impact = await previewFeatureLimitImpact(id, updates);
+    if (!impact) {
+      return res.status(404).json({ error: "Feature limits not found" });
+    }
+    return res.json(impact);
+  } catch (error) {
+    return handleError(res, error, "preview feature limit change");
+  }
+});
+
+// Change a tier's limits and access flags
+router.patch("/feature-limits/:id", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated() || !req.user?.isAdmin) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: "Invalid feature limit ID" });
+    }
+
+    const updates = updateFeatureLimitSchema.parse(req.body);
+    const updated = await updateFeatureLimit(id, updates, req.user.id);
+    if (!updated) {
+      return res.status(404).json({ error: "Feature limits not found" });
+    }
+    return res.json(updated);
+  } catch (error) {
+    return handleError(res, error, "update feature limits");
+  }
+});
+
+// Get every subscription plan, including inactive ones
+router.get("/plans", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated() || !req.user?.isAdmin) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  try {
+    return res.json(await listPlans());
+  } catch (error) {
+    return handleError(res, error, "fetch subscription plans");
+  }
+});
+
+// Add a subscription plan
+router.post("/plans", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated() || !req.user?.isAdmin) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  try {
+    const values = createPlanSchema.parse(req.body);
+    return res.status(201).json(await createPlan(values, req.user.id));
+  } catch (error) {
+    return handleError(res, error, "create subscription plan");
+  }
+});
+
+// Change a plan's details, price or whether it's offered
+router.patch("/plans/:id", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated() || !req.user?.isAdmin) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: "Invalid plan ID" });
+    }
+
+    const updates = updatePlanSchema.parse(req.body);
+    const updated = await updatePlan(id, updates, req.user.id);
+    if (!updated) {
+      return res.status(404).json({ error: "Plan not found" });
+    }
+    return res.json(updated);
+  } catch (error) {
+    return handleError(res, error, "update subscription plan");
+  }
+});
+
+// Get the history of changes to plans and limits
+router.get("/plan-audit-log", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated() || !req.user?.isAdmin) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  try {
+    const filter = auditLogQuerySchema.parse(req.query);
+    return res.json(await listAuditLog(filter));
+  } catch (error) {
+    return handleError(res, error, "fetch plan audit log");
+  }
+});
+
+export default router;
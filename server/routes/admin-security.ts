@@ -0,0 +1,43 @@
+import { Router, Request, Response } from "express";
+import { listActiveBlocks, clearBlock } from "../auth-throttle";
+
+const router = Router();
+
+// Accounts and IP addresses currently locked out or rate limited
+router.get("/lockouts", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated() || !req.user?.isAdmin) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  try {
+    return res.json(await listActiveBlocks());
+  } catch (error) {
+    console.error("Error fetching lockouts:", error);
+    return res.status(500).json({ error: "Failed to fetch lockouts" });
+  }
+});
+
+// Lift a lockout and forget its failed attempts
+router.delete("/lockouts/:id", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated() || !req.user?.isAdmin) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    return res.status(400).json({ error: "Invalid lockout ID" });
+  }
+
+  try {
+    if (!(await clearBlock(id))) {
+      return res.status(404).json({ error: "Lockout not found" });
+    }
+    console.log(`[Auth] Admin ${req.user.id} cleared lockout ${id}`);
+    return res.json({ cleared: true });
+  } catch (error) {
+    console.error("Error clearing lockout:", error);
+    return res.status(500).json({ error: "Failed to clear lockout" });
+  }
+});
+
+export default router;
@@ -1,5 +1,6 @@
 import { Router, Request, Response } from "express";
 import { storage } from "../storage";
+import { countActiveSessions } from "../session-registry";
 import { User, JournalEntry } from "@shared/schema";
 
 const router = Router();
@@ -20,11 +21,13 @@ router.get("/stats", async (req: Request, res: Response) => {
     }
     const totalUsers = users.length;
     
-    // Count of active sessions from the session store
-    let activeSessions = 2; // Default fallback value
-    
-    // Skip session counting due to TypeScript issues
-    // In a production environment, we would implement proper session counting with typed interfaces
+    // Count of signed-in sessions from the session registry
+    let activeSessions = 0;
+    try {
+      activeSessions = await countActiveSessions();
+    } catch (err) {
+      console.error("Error counting active sessions:", err);
+    }
     
     // Count of journal entries
     const allEntries: JournalEntry[] = [];
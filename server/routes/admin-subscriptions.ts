@@ -0,0 +1,64 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import {
+  getLifecycleSettings,
+  updateLifecycleSettings,
+  runSubscriptionLifecycle,
+} from "../subscription-lifecycle";
+
+const router = Router();
+
+const lifecycleSettingsSchema = z.object({
+  gracePeriodDays: z.number().int().min(0).max(60).optional(),
+  reminderDays: z.number().int().min(0).max(30).optional(),
+  trialDays: z.number().int().min(0).max(90).optional(),
+});
+
+// Get the grace period, reminder lead time and trial length
+router.get("/subscriptions/lifecycle-settings", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated() || !req.user?.isAdmin) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  try {
+    return res.json(await getLifecycleSettings());
+  } catch (error) {
+    console.error("Error fetching subscription lifecycle settings:", error);
+    return res.status(500).json({ error: "Failed to fetch subscription lifecycle settings" });
+  }
+});
+
+// Change the grace period, reminder lead time and trial length
+router.put("/subscriptions/lifecycle-settings", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated() || !req.user?.isAdmin) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  try {
+    const settings = lifecycleSettingsSchema.parse(req.body);
+    return res.json(await updateLifecycleSettings(settings));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    console.error("Error updating subscription lifecycle settings:", error);
+    return res.status(500).json({ error: "Failed to update subscription lifecycle settings" });
+  }
+});
+
+// Run the lifecycle sweep now instead of waiting for the hourly job
+router.post("/subscriptions/lifecycle/run", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated() || !req.user?.isAdmin) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  try {
+    const changed = await runSubscriptionLifecycle();
+    return res.json({ changed });
+  } catch (error) {
+    console.error("Error running subscription lifecycle:", error);
+    return res.status(500).json({ error: "Failed to run subscription lifecycle" });
+  }
+});
+
+export default router;
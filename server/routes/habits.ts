@@ -1,10 +1,11 @@
 import { Express } from "express";
 import { storage } from "../storage";
 import { insertHabitSchema } from "@shared/schema";
+import { isPageRequest, habitListSchema, PaginationError } from "../pagination";
 import { z } from "zod";
 
 export function setupHabitRoutes(app: Express) {
-  // Get all habits for a user
+  // Get all habits for a user, or a page of them with ?limit or ?cursor
   app.get("/api/habits/:userId", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
@@ -12,9 +13,19 @@ export function setupHabitRoutes(app: Express) {
     if (req.user?.id !== userId) return res.sendStatus(403);
     
     try {
+      if (isPageRequest(req.query)) {
+        const options = habitListSchema.parse(req.query);
+        return res.json(await storage.getHabitsPage(userId, options));
+      }
       const habits = await storage.getHabitsByUserId(userId);
       res.json(habits);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      if (error instanceof PaginationError) {
+        return res.status(400).json({ error: error.message });
+      }
       console.error("Error fetching habits:", error);
       res.status(500).json({ error: "Failed to fetch habits" });
     }
@@ -0,0 +1,105 @@
+import { Router, Request, Response, NextFunction } from "express";
+import multer from "multer";
+import {
+  requestJournalImport,
+  listJournalImports,
+  getJournalImport,
+  JournalImportError,
+  MAX_IMPORT_FILE_BYTES,
+  MAX_IMPORT_FILES,
+  MAX_IMPORT_UPLOAD_BYTES,
+} from "../journal-import";
+
+const router = Router();
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_IMPORT_FILE_BYTES,
+    files: MAX_IMPORT_FILES,
+  },
+});
+
+// Answer upload limit errors with a 400 rather than the generic error handler.
+// The whole upload is capped by its declared length before any of it is read.
+function uploadFiles(req: Request, res: Response, next: NextFunction) {
+  const contentLength = Number(req.headers["content-length"]);
+  if (!Number.isFinite(contentLength)) {
+    return res.status(411).json({ error: "The upload's size must be given" });
+  }
+  if (contentLength > MAX_IMPORT_UPLOAD_BYTES) {
+    return res.status(413).json({ error: `Uploads can be at most ${MAX_IMPORT_UPLOAD_BYTES / (1024 * 1024)} MB in total` });
+  }
+
+  upload.array("files", MAX_IMPORT_FILES)(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      const message = error.code === "LIMIT_FILE_SIZE"
+        ? `Files can be at most ${MAX_IMPORT_FILE_BYTES / (1024 * 1024)} MB`
+        : error.code === "LIMIT_FILE_COUNT" || error.code === "LIMIT_UNEXPECTED_FILE"
+          ? `Upload at most ${MAX_IMPORT_FILES} files at a time, or put them in a zip`
+          : error.message;
+      return res.status(400).json({ error: message });
+    }
+    if (error) return next(error);
+    next();
+  });
+}
+
+// The current user's recent imports
+router.get("/", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+
+  try {
+    return res.json(await listJournalImports(req.user.id));
+  } catch (error) {
+    console.error("Error fetching journal imports:", error);
+    return res.status(500).json({ error: "Failed to fetch journal imports" });
+  }
+});
+
+// Upload files to import; the entries are saved in the background
+router.post("/", (req: Request, res: Response, next: NextFunction) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  next();
+}, uploadFiles, async (req: Request, res: Response) => {
+  try {
+    const uploaded = (req.files as Express.Multer.File[] | undefined) ?? [];
+    const files = uploaded.map(file => ({
+      // Multer reads file names as Latin-1
+      name: Buffer.from(file.originalname, "latin1").toString("utf8"),
+      data: file.buffer,
+    }));
+
+    const journalImport = await requestJournalImport(req.user!.id, files);
+    return res.status(202).json(journalImport);
+  } catch (error) {
+    if (error instanceof JournalImportError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error("Error starting journal import:", error);
+    return res.status(500).json({ error: "Failed to import your files" });
+  }
+});
+
+// An import's progress and report
+router.get("/:id", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+
+  const importId = Number(req.params.id);
+  if (!Number.isInteger(importId)) {
+    return res.status(400).json({ error: "Invalid import ID" });
+  }
+
+  try {
+    const journalImport = await getJournalImport(req.user.id, importId);
+    if (!journalImport) {
+      return res.status(404).json({ error: "Import not found" });
+    }
+    return res.json(journalImport);
+  } catch (error) {
+    console.error("Error fetching journal import:", error);
+    return res.status(500).json({ error: "Failed to fetch journal import" });
+  }
+});
+
+export default router;
@@ -0,0 +1,68 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import {
+  searchJournalEntries,
+  getSearchFacets,
+  journalSearchSchema,
+  askJournal,
+  askJournalSchema,
+} from "../journal-search";
+import { meterFeature } from "../hooks/use-feature-limits";
+import { TokenLimitExceededError } from "../token-usage";
+
+const router = Router();
+
+// Search the current user's journal entries
+router.get("/", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+
+  try {
+    const params = journalSearchSchema.parse(req.query);
+    return res.json(await searchJournalEntries(req.user.id, params));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    console.error("Error searching journal entries:", error);
+    return res.status(500).json({ error: "Failed to search journal entries" });
+  }
+});
+
+// Emotions and themes to filter by
+router.get("/facets", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+
+  try {
+    return res.json(await getSearchFacets(req.user.id));
+  } catch (error) {
+    console.error("Error fetching search facets:", error);
+    return res.status(500).json({ error: "Failed to fetch search filters" });
+  }
+});
+
+// Only questions that want an AI answer use up an AI response
+const meterAnswers = meterFeature("aiResponses");
+function meterIfAnswering(req: Request, res: Response, next: NextFunction) {
+  return req.body?.answer === true ? meterAnswers(req, res, next) : next();
+}
+
+// Ask a question in plain language; finds entries by keyword and by meaning
+router.post("/ask", meterIfAnswering, async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+
+  try {
+    const params = askJournalSchema.parse(req.body);
+    return res.json(await askJournal(req.user.id, params));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    if (error instanceof TokenLimitExceededError) {
+      return res.status(error.status).json(error.toJSON());
+    }
+    console.error("Error asking journal:", error);
+    return res.status(500).json({ error: "Failed to search your journal" });
+  }
+});
+
+export default router;
@@ -1,8 +1,17 @@
 import express from "express";
 import { db } from "../db";
-import { systemSettings, payments, users, subscriptions, subscriptionPlans } from "@shared/schema";
-import { eq, and, desc } from "drizzle-orm";
+import { systemSettings, payments, users, subscriptions, subscriptionPlans, promoCodes, invoices } from "@shared/schema";
+import { eq, and, desc, isNotNull } from "drizzle-orm";
 import { z } from "zod";
+import { listWebhookEvents, reprocessWebhookEvent } from "../paypal-webhooks";
+import {
+  listPromoCodes,
+  createPromoCode,
+  updatePromoCode,
+  listPromoCodeRedemptions,
+  getPromoCode,
+  PromoCodeError,
+} from "../promo-codes";
 
 const router = express.Router();
 
@@ -14,6 +23,40 @@ const paypalSettingsSchema = z.object({
     required_error: "Mode is required",
   }),
   callbackUrl: z.string().url("Must be a valid URL").optional(),
+  webhookId: z.string().optional(),
+});
+
+// Schema for filtering the webhook event log
+const listWebhookEventsSchema = z.object({
+  status: z.enum(["received", "processed", "ignored", "failed"]).optional(),
+  eventType: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// Schema for creating and editing promo codes
+const promoCodeSchema = z.object({
+  code: z.string().trim().min(3, "Code must be at least 3 characters").max(32).regex(/^[A-Za-z0-9_-]+$/, "Use letters, numbers, dashes and underscores"),
+  description: z.string().max(200).nullable().optional(),
+  discountType: z.enum(["percent", "fixed"]),
+  discountValue: z.number().positive("Discount must be greater than 0"),
+  planIds: z.array(z.number().int()).nullable().optional(),
+  maxRedemptions: z.number().int().positive().nullable().optional(),
+  maxRedemptionsPerUser: z.number().int().positive().default(1),
+  expiresAt: z.string().datetime().nullable().optional(),
+  isActive: z.boolean().default(true),
+}).refine(data => data.discountType !== "percent" || data.discountValue <= 100, {
+  message: "A percentage discount can't be more than 100",
+  path: ["discountValue"],
+});
+
+const updatePromoCodeSchema = z.object({
+  description: z.string().max(200).nullable().optional(),
+  planIds: z.array(z.number().int()).nullable().optional(),
+  maxRedemptions: z.number().int().positive().nullable().optional(),
+  maxRedemptionsPerUser: z.number().int().positive().optional(),
+  expiresAt: z.string().datetime().nullable().optional(),
+  isActive: z.boolean().optional(),
 });
 
 // Middleware to ensure only admins can access these endpoints
@@ -49,11 +92,17 @@ router.get("/admin/paypal-settings", requireAdmin, async (req, res) => {
       .where(eq(systemSettings.key, "paypal_callback_url"))
       .then(rows => rows[0]?.value || "");
     
+    const paypalWebhookId = await db.select()
+      .from(systemSettings)
+      .where(eq(systemSettings.key, "paypal_webhook_id"))
+      .then(rows => rows[0]?.value || "");
+    
     res.json({
       clientId: paypalClientId,
       clientSecret: paypalClientSecret,
       mode: paypalMode,
       callbackUrl: paypalCallbackUrl,
+      webhookId: paypalWebhookId,
     });
   } catch (error) {
     console.error("Error retrieving PayPal settings:", error);
@@ -113,6 +162,19 @@ router.post("/admin/paypal-settings", requireAdmin, async (req, res) => {
         });
     }
     
+    // Update webhook ID setting (if provided)
+    if (validatedData.webhookId !== undefined) {
+      await db.insert(systemSettings)
+        .values({
+          key: "paypal_webhook_id",
+          value: validatedData.webhookId,
+        })
+        .onConflictDoUpdate({
+          target: systemSettings.key,
+          set: { value: validatedData.webhookId }
+        });
+    }
+    
     // Set environment variables for immediate use
     process.env.PAYPAL_CLIENT_ID = validatedData.clientId;
     process.env.PAYPAL_CLIENT_SECRET = validatedData.clientSecret;
@@ -141,12 +203,21 @@ router.get("/admin/paypal-transactions", requireAdmin, async (req, res) => {
     
     // Format transaction data for frontend with additional lookups as needed
     const formattedTransactions = await Promise.all(paymentsList.map(async (payment) => {
-      // Get user data
-      const userResult = await db.select().from(users)
-        .where(eq(users.id, payment.userId))
-        .limit(1);
+      // Get user data; payments of deleted accounts have none
+      const userResult = payment.userId
+        ? await db.select().from(users).where(eq(users.id, payment.userId)).limit(1)
+        : [];
       const user = userResult[0];
       
+      // Get the promo code redeemed with the payment, if any
+      const promoCode = payment.promoCodeId
+        ? (await db.select({ code: promoCodes.code }).from(promoCodes).where(eq(promoCodes.id, payment.promoCodeId)))[0]?.code ?? null
+        : null;
+      
+      // Get the payment's invoice number, if it has been invoiced
+      const invoiceNumber = (await db.select({ invoiceNumber: invoices.invoiceNumber }).from(invoices)
+        .where(eq(invoices.paymentId, payment.id)))[0]?.invoiceNumber ?? null;
+      
       // Get subscription and plan data if available
       let planName = "Unknown Plan";
       if (payment.subscriptionId) {
@@ -173,7 +244,10 @@ router.get("/admin/paypal-transactions", requireAdmin, async (req, res) => {
         status: payment.status,
         date: payment.paymentDate,
         planName: planName,
-        paymentId: payment.paymentId
+        paymentId: payment.paymentId,
+        promoCode,
+        discountAmount: payment.discountAmount,
+        invoiceNumber
       };
     }));
     
@@ -184,4 +258,140 @@ router.get("/admin/paypal-transactions", requireAdmin, async (req, res) => {
   }
 });
 
-export default router;
\ No newline at end of file
+// Get the log of webhook events received from PayPal
+router.get("/admin/paypal-webhook-events", requireAdmin, async (req, res) => {
+  try {
+    const options = listWebhookEventsSchema.parse(req.query);
+    const events = await listWebhookEvents(options);
+    res.json(events);
+  } catch (error) {
+    console.error("Error retrieving PayPal webhook events:", error);
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: error.errors });
+    } else {
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+});
+
+// Apply a stored webhook event again
+router.post("/admin/paypal-webhook-events/:id/reprocess", requireAdmin, async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: "Invalid event ID" });
+    }
+
+    const event = await reprocessWebhookEvent(id);
+    if (!event) {
+      return res.status(404).json({ error: "Webhook event not found" });
+    }
+    res.json(event);
+  } catch (error) {
+    console.error("Error reprocessing PayPal webhook event:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Get all promo codes with their redemption counts
+router.get("/admin/promo-codes", requireAdmin, async (req, res) => {
+  try {
+    res.json(await listPromoCodes());
+  } catch (error) {
+    console.error("Error retrieving promo codes:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Create a promo code
+router.post("/admin/promo-codes", requireAdmin, async (req, res) => {
+  try {
+    const data = promoCodeSchema.parse(req.body);
+    const promoCode = await createPromoCode({
+      ...data,
+      planIds: data.planIds && data.planIds.length > 0 ? data.planIds : null,
+      expiresAt: data.expiresAt ?? null,
+      createdBy: req.user!.id,
+    });
+    res.status(201).json(promoCode);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: error.errors });
+    } else if (error instanceof PromoCodeError) {
+      res.status(409).json({ error: error.message });
+    } else {
+      console.error("Error creating promo code:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+});
+
+// Update a promo code, e.g. to deactivate it or change its limits
+router.patch("/admin/promo-codes/:id", requireAdmin, async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: "Invalid promo code ID" });
+    }
+
+    const data = updatePromoCodeSchema.parse(req.body);
+    const promoCode = await updatePromoCode(id, {
+      ...data,
+      ...(data.planIds !== undefined ? { planIds: data.planIds && data.planIds.length > 0 ? data.planIds : null } : {}),
+    });
+    if (!promoCode) {
+      return res.status(404).json({ error: "Promo code not found" });
+    }
+    res.json(promoCode);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: error.errors });
+    } else {
+      console.error("Error updating promo code:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+});
+
+// Get the payments a promo code was redeemed with
+router.get("/admin/promo-codes/:id/redemptions", requireAdmin, async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: "Invalid promo code ID" });
+    }
+
+    if (!(await getPromoCode(id))) {
+      return res.status(404).json({ error: "Promo code not found" });
+    }
+    res.json(await listPromoCodeRedemptions(id));
+  } catch (error) {
+    console.error("Error retrieving promo code redemptions:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Get free trials that have been started, newest first
+router.get("/admin/trials", requireAdmin, async (req, res) => {
+  try {
+    const trials = await db.select({
+      userId: users.id,
+      username: users.username,
+      email: users.email,
+      trialUsedAt: users.trialUsedAt,
+      subscriptionTier: users.subscriptionTier,
+      subscriptionStatus: users.subscriptionStatus,
+    })
+      .from(users)
+      .where(isNotNull(users.trialUsedAt))
+      .orderBy(desc(users.trialUsedAt))
+      .limit(100);
+    
+    res.json(trials);
+  } catch (error) {
+    console.error("Error retrieving trials:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+export default router;
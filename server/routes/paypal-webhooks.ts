@@ -0,0 +1,43 @@
+import { Router, Request, Response } from "express";
+import {
+  getWebhookTransmission,
+  verifyWebhookSignature,
+  receiveWebhookEvent,
+  WebhookNotConfiguredError,
+  PayPalWebhookEventBody,
+} from "../paypal-webhooks";
+
+const router = Router();
+
+// Receive a webhook event from PayPal. Anything other than a 2xx makes PayPal
+// redeliver the event, so only reject events that can never be accepted.
+router.post("/", async (req: Request, res: Response) => {
+  const event = req.body as PayPalWebhookEventBody;
+  if (!event || typeof event.id !== "string" || typeof event.event_type !== "string" || !event.resource) {
+    return res.status(400).json({ error: "Invalid webhook event" });
+  }
+
+  const transmission = getWebhookTransmission(req.headers);
+  if (!transmission) {
+    return res.status(400).json({ error: "Missing PayPal signature headers" });
+  }
+
+  try {
+    const verified = await verifyWebhookSignature(transmission, event);
+    if (!verified) {
+      console.warn(`[PayPal] Rejected webhook ${event.event_type} (${event.id}): invalid signature`);
+      return res.status(400).json({ error: "Invalid signature" });
+    }
+
+    const { duplicate } = await receiveWebhookEvent(event);
+    return res.status(200).json({ received: true, duplicate });
+  } catch (error) {
+    if (error instanceof WebhookNotConfiguredError) {
+      return res.status(503).json({ error: error.message });
+    }
+    console.error("[PayPal] Error receiving webhook:", error);
+    return res.status(500).json({ error: "Failed to receive webhook" });
+  }
+});
+
+export default router;
@@ -0,0 +1,110 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import {
+  getVapidPublicKey,
+  savePushSubscription,
+  listPushSubscriptions,
+  deletePushSubscription,
+  sendPushToUser,
+} from "../web-push";
+
+const router = Router();
+
+const subscriptionSchema = z.object({
+  subscription: z.object({
+    endpoint: z.string().url(),
+    keys: z.object({
+      p256dh: z.string().min(1),
+      auth: z.string().min(1),
+    }),
+  }),
+  deviceName: z.string().max(100).optional(),
+});
+
+// The public VAPID key browsers subscribe with
+router.get("/vapid-public-key", (req: Request, res: Response) => {
+  const publicKey = getVapidPublicKey();
+  if (!publicKey) {
+    return res.status(503).json({ error: "Push notifications are not configured" });
+  }
+  return res.json({ publicKey });
+});
+
+// List the current user's subscribed devices
+router.get("/subscriptions", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+
+  try {
+    const subscriptions = await listPushSubscriptions(req.user.id);
+    // The endpoint and keys are only needed by the server
+    return res.json(subscriptions.map(({ id, deviceName, endpoint, createdAt, lastUsedAt }) => ({
+      id,
+      deviceName,
+      endpoint,
+      createdAt,
+      lastUsedAt,
+    })));
+  } catch (error) {
+    console.error("Error fetching push subscriptions:", error);
+    return res.status(500).json({ error: "Failed to fetch devices" });
+  }
+});
+
+// Subscribe this browser
+router.post("/subscriptions", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+
+  try {
+    const { subscription, deviceName } = subscriptionSchema.parse(req.body);
+    const saved = await savePushSubscription(req.user.id, subscription, req.get("user-agent"), deviceName);
+    return res.status(201).json({
+      id: saved.id,
+      deviceName: saved.deviceName,
+      endpoint: saved.endpoint,
+      createdAt: saved.createdAt,
+      lastUsedAt: saved.lastUsedAt,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    console.error("Error saving push subscription:", error);
+    return res.status(500).json({ error: "Failed to save subscription" });
+  }
+});
+
+// Revoke a device
+router.delete("/subscriptions/:id", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+
+  try {
+    const deleted = await deletePushSubscription(req.user.id, Number(req.params.id));
+    if (!deleted) {
+      return res.status(404).json({ error: "Device not found" });
+    }
+    return res.status(204).end();
+  } catch (error) {
+    console.error("Error deleting push subscription:", error);
+    return res.status(500).json({ error: "Failed to revoke device" });
+  }
+});
+
+// Send a test notification to all of the current user's devices
+router.post("/test", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+
+  try {
+    const delivered = await sendPushToUser(req.user.id, {
+      title: "Hope Log",
+      body: "Push notifications are working on this device.",
+      url: "/settings/notifications",
+      tag: "test",
+    });
+    return res.json({ delivered });
+  } catch (error) {
+    console.error("Error sending test push:", error);
+    return res.status(500).json({ error: "Failed to send test notification" });
+  }
+});
+
+export default router;
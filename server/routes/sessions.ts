@@ -0,0 +1,57 @@
+import { Router, Request, Response } from "express";
+import {
+  listUserSessions,
+  revokeSession,
+  revokeOtherSessions,
+  SessionRegistryError,
+} from "../session-registry";
+
+const router = Router();
+
+// Where the current user is signed in
+router.get("/", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+
+  try {
+    return res.json(await listUserSessions(req.user.id, req.sessionID));
+  } catch (error) {
+    console.error("Error fetching sessions:", error);
+    return res.status(500).json({ error: "Failed to fetch sessions" });
+  }
+});
+
+// Sign out every session except this one
+router.post("/revoke-others", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+
+  try {
+    const revoked = await revokeOtherSessions(req.user.id, req.sessionID);
+    return res.json({ revoked });
+  } catch (error) {
+    console.error("Error signing out other sessions:", error);
+    return res.status(500).json({ error: "Failed to sign out other sessions" });
+  }
+});
+
+// Sign out one session remotely
+router.delete("/:id", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    return res.status(400).json({ error: "Invalid session ID" });
+  }
+
+  try {
+    await revokeSession(req.user.id, id, req.sessionID);
+    return res.json({ revoked: true });
+  } catch (error) {
+    if (error instanceof SessionRegistryError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error("Error signing out session:", error);
+    return res.status(500).json({ error: "Failed to sign out session" });
+  }
+});
+
+export default router;
@@ -0,0 +1,77 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { findActivePlan, findDefaultPaidPlan } from '../billing';
+import { getStripeCredentials, StripeService, StripePaymentIncompleteError } from '../stripe';
+
+const router = Router();
+
+// Schema for the plan a payment intent is created for; the cheapest paid plan if none is named
+const paymentIntentSchema = z.object({
+  planName: z.string().optional(),
+});
+
+// Schema for activating a plan once the client has confirmed the payment
+const createSubscriptionSchema = z.object({
+  payment_intent_id: z.string().min(1),
+});
+
+// Create a Stripe payment intent for clients that take card details with Stripe Elements
+router.get('/create-payment-intent', async (req, res) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: 'You must be logged in to subscribe' });
+  }
+
+  try {
+    const { planName } = paymentIntentSchema.parse(req.query);
+    const plan = planName ? await findActivePlan(planName) : await findDefaultPaidPlan();
+    if (!plan || plan.price <= 0) {
+      return res.status(404).json({ message: 'Subscription plan not found' });
+    }
+
+    const { secretKey, publishableKey } = await getStripeCredentials();
+    if (!secretKey) {
+      return res.status(503).json({ message: 'Card payments are not available right now' });
+    }
+
+    const intent = await StripeService.createPaymentIntent(plan, req.user.id, null);
+    return res.status(200).json({
+      ...intent,
+      publishableKey,
+      plan: {
+        name: plan.name,
+        displayName: plan.displayName,
+        interval: plan.interval
+      }
+    });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ message: 'Invalid request data', errors: error.errors });
+    }
+    console.error('Error creating payment intent:', error);
+    return res.status(500).json({ message: error?.message || 'Failed to create payment intent' });
+  }
+});
+
+// Start the subscription a confirmed payment intent paid for
+router.post('/create-subscription', async (req, res) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: 'You must be logged in to subscribe' });
+  }
+
+  try {
+    const data = createSubscriptionSchema.parse(req.body);
+    const result = await StripeService.completePaymentIntent(data.payment_intent_id, req.user.id);
+    return res.status(200).json(result);
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ message: 'Invalid request data', errors: error.errors });
+    }
+    if (error instanceof StripePaymentIncompleteError) {
+      return res.status(402).json({ message: error.message, status: error.paymentStatus });
+    }
+    console.error('Error creating subscription:', error);
+    return res.status(500).json({ message: error?.message || 'Failed to create subscription' });
+  }
+});
+
+export default router;
@@ -0,0 +1,47 @@
+import { Router, Request, Response } from "express";
+import { getStripeCredentials, verifyStripeSignature, handleStripeEvent, StripeEvent } from "../stripe";
+
+// Kept by the JSON body parser in server/index.ts for webhook signatures
+declare global {
+  namespace Express {
+    interface Request {
+      rawBody?: Buffer;
+    }
+  }
+}
+
+const router = Router();
+
+// Receive a webhook event from Stripe. Anything other than a 2xx makes Stripe
+// redeliver the event, so only reject events that can never be accepted.
+router.post("/", async (req: Request, res: Response) => {
+  const event = req.body as StripeEvent;
+  if (!event || typeof event.id !== "string" || typeof event.type !== "string" || !event.data?.object) {
+    return res.status(400).json({ error: "Invalid webhook event" });
+  }
+
+  const signature = req.headers["stripe-signature"];
+  if (typeof signature !== "string" || !req.rawBody) {
+    return res.status(400).json({ error: "Missing Stripe signature header" });
+  }
+
+  try {
+    const { webhookSecret } = await getStripeCredentials();
+    if (!webhookSecret) {
+      return res.status(503).json({ error: "Stripe webhook secret is not configured" });
+    }
+
+    if (!verifyStripeSignature(req.rawBody, signature, webhookSecret)) {
+      console.warn(`[Stripe] Rejected webhook ${event.type} (${event.id}): invalid signature`);
+      return res.status(400).json({ error: "Invalid signature" });
+    }
+
+    await handleStripeEvent(event);
+    return res.status(200).json({ received: true });
+  } catch (error) {
+    console.error("[Stripe] Error handling webhook:", error);
+    return res.status(500).json({ error: "Failed to handle webhook" });
+  }
+});
+
+export default router;
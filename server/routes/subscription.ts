@@ -1,16 +1,54 @@
 import { Router } from 'express';
 import { db } from '../db';
-import { subscriptionPlans, featureLimits } from '@shared/schema';
+import { subscriptionPlans, featureLimits, payments } from '@shared/schema';
 import PayPalService from '../paypal';
-import { PayPalRestService } from '../paypal-rest'; // Import new REST-based PayPal service
 import { z } from 'zod';
 import { eq } from 'drizzle-orm';
+import { quotePromoCode, PromoCodeError } from '../promo-codes';
+import { getTrialEligibility, startFreeTrial, TrialUnavailableError } from '../subscription-lifecycle';
+import { renderInvoiceForPayment, InvoiceUnavailableError } from '../invoices';
+import {
+  BILLING_PROVIDERS,
+  BillingProviderUnavailableError,
+  cancelSubscription,
+  completeCheckout,
+  findActivePlan,
+  listAvailableProviders,
+  startCheckout,
+} from '../billing';
+import { StripePaymentIncompleteError } from '../stripe';
+import { FeatureLimitService } from '../hooks/use-feature-limits';
 
 const router = Router();
 
 // Schema for creating an order
 const createOrderSchema = z.object({
   planName: z.string(),
+  promoCode: z.string().trim().min(1).optional(),
+  provider: z.enum(BILLING_PROVIDERS).default('paypal'),
+});
+
+// Schema for completing an order once the user is back from the provider
+const captureOrderSchema = z.object({
+  orderId: z.string().min(1),
+  planName: z.string(),
+  provider: z.enum(BILLING_PROVIDERS).default('paypal'),
+});
+
+// Schema for checking a promo code before checkout
+const validatePromoSchema = z.object({
+  planName: z.string(),
+  code: z.string().trim().min(1),
+});
+
+// Schema for starting a free trial
+const startTrialSchema = z.object({
+  planName: z.string(),
+});
+
+// Schema for downloading an invoice
+const invoiceFormatSchema = z.object({
+  format: z.enum(['pdf', 'html']).default('pdf'),
 });
 
 // Get available subscription plans
@@ -45,7 +83,17 @@ router.get('/plans', async (req, res) => {
   }
 });
 
-// Create a PayPal order for subscription checkout
+// The payment providers checkout can use
+router.get('/providers', async (req, res) => {
+  try {
+    return res.status(200).json(await listAvailableProviders());
+  } catch (error: any) {
+    console.error('Error fetching payment providers:', error);
+    return res.status(500).json({ message: error?.message || 'Failed to fetch payment providers' });
+  }
+});
+
+// Start checkout for a plan with PayPal or Stripe
 router.post('/create-order', async (req, res) => {
   if (!req.isAuthenticated()) {
     return res.status(401).json({ message: 'You must be logged in to subscribe' });
@@ -53,9 +101,14 @@ router.post('/create-order', async (req, res) => {
 
   try {
     const data = createOrderSchema.parse(req.body);
-    
-    // Use the REST-based PayPal service with OAuth authentication
-    const order = await PayPalRestService.createOrder(data.planName, req.user.id);
+    const plan = await findActivePlan(data.planName);
+    if (!plan) {
+      return res.status(404).json({ message: `Subscription plan '${data.planName}' not found` });
+    }
+
+    // Apply the promo code, if any (throws PromoCodeError if it can't be used)
+    const quote = data.promoCode ? await quotePromoCode(data.promoCode, req.user.id, plan) : null;
+    const order = await startCheckout(data.provider, req.user.id, plan, quote);
     
     return res.status(200).json(order);
   } catch (error: any) {
@@ -65,29 +118,129 @@ router.post('/create-order', async (req, res) => {
       return res.status(400).json({ message: 'Invalid request data', errors: error.errors });
     }
     
+    if (error instanceof PromoCodeError) {
+      return res.status(400).json({ message: error.message });
+    }
+
+    if (error instanceof BillingProviderUnavailableError) {
+      return res.status(503).json({ message: error.message });
+    }
+    
     return res.status(500).json({ message: error?.message || 'Failed to create order' });
   }
 });
 
-// Capture a PayPal order after approval
+// Check a promo code and show the discounted price before checkout
+router.post('/validate-promo', async (req, res) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: 'You must be logged in to use a promo code' });
+  }
+
+  try {
+    const data = validatePromoSchema.parse(req.body);
+    const plan = await findActivePlan(data.planName);
+    if (!plan) {
+      return res.status(404).json({ message: `Subscription plan '${data.planName}' not found` });
+    }
+
+    const quote = await quotePromoCode(data.code, req.user.id, plan);
+    return res.status(200).json({
+      code: quote.promoCode.code,
+      description: quote.promoCode.description,
+      originalAmount: quote.originalAmount,
+      discountAmount: quote.discountAmount,
+      finalAmount: quote.finalAmount
+    });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ message: 'Invalid request data', errors: error.errors });
+    }
+    if (error instanceof PromoCodeError) {
+      return res.status(400).json({ message: error.message });
+    }
+    console.error('Error validating promo code:', error);
+    return res.status(500).json({ message: error?.message || 'Failed to validate promo code' });
+  }
+});
+
+// Whether the user can start a free trial
+router.get('/trial', async (req, res) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: 'You must be logged in to view trial eligibility' });
+  }
+
+  try {
+    const eligibility = await getTrialEligibility(req.user.id);
+    return res.status(200).json(eligibility);
+  } catch (error: any) {
+    console.error('Error checking trial eligibility:', error);
+    return res.status(500).json({ message: error?.message || 'Failed to check trial eligibility' });
+  }
+});
+
+// Start the user's one free trial of a plan
+router.post('/start-trial', async (req, res) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: 'You must be logged in to start a trial' });
+  }
+
+  try {
+    const data = startTrialSchema.parse(req.body);
+    const plan = await findActivePlan(data.planName);
+    if (!plan || plan.price <= 0) {
+      return res.status(404).json({ message: `Subscription plan '${data.planName}' not found` });
+    }
+
+    const subscription = await startFreeTrial(req.user.id, plan.id);
+    return res.status(200).json({
+      subscriptionId: subscription.id,
+      status: subscription.status,
+      startDate: subscription.startDate,
+      endDate: subscription.endDate
+    });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ message: 'Invalid request data', errors: error.errors });
+    }
+    if (error instanceof TrialUnavailableError) {
+      return res.status(409).json({ message: error.message });
+    }
+    console.error('Error starting trial:', error);
+    return res.status(500).json({ message: error?.message || 'Failed to start trial' });
+  }
+});
+
+// Complete an order after the user has paid with the provider
 router.post('/capture-order', async (req, res) => {
   if (!req.isAuthenticated()) {
     return res.status(401).json({ message: 'You must be logged in to complete subscription' });
   }
 
   try {
-    const { orderId, planName } = req.body;
-    
-    if (!orderId || !planName) {
-      return res.status(400).json({ message: 'Missing orderId or planName' });
+    const data = captureOrderSchema.parse(req.body);
+    const plan = await findActivePlan(data.planName);
+    if (!plan) {
+      return res.status(404).json({ message: `Subscription plan '${data.planName}' not found` });
     }
     
-    // Use the REST-based PayPal service with OAuth authentication
-    const result = await PayPalRestService.captureOrder(orderId, req.user.id, planName);
+    const result = await completeCheckout(data.provider, req.user.id, data.orderId, plan);
     
     return res.status(200).json(result);
   } catch (error: any) {
     console.error('Error capturing order:', error);
+
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ message: 'Missing orderId or planName', errors: error.errors });
+    }
+
+    if (error instanceof StripePaymentIncompleteError) {
+      return res.status(402).json({ message: error.message, status: error.paymentStatus });
+    }
+
+    if (error instanceof BillingProviderUnavailableError) {
+      return res.status(503).json({ message: error.message });
+    }
+
     return res.status(500).json({ message: error?.message || 'Failed to capture order' });
   }
 });
@@ -105,7 +258,7 @@ router.post('/cancel', async (req, res) => {
       return res.status(400).json({ message: 'Missing subscriptionId' });
     }
     
-    const result = await PayPalService.cancelSubscription(subscriptionId, req.user.id);
+    const result = await cancelSubscription(subscriptionId, req.user.id);
     
     return res.status(200).json(result);
   } catch (error: any) {
@@ -133,6 +286,22 @@ router.get('/current', async (req, res) => {
   }
 });
 
+// Get how much of each metered quota the user has used
+router.get('/usage', async (req, res) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: 'You must be logged in to view usage' });
+  }
+
+  try {
+    const usage = await FeatureLimitService.getQuotaStatus(req.user.id);
+
+    return res.status(200).json(usage);
+  } catch (error: any) {
+    console.error('Error fetching usage:', error);
+    return res.status(500).json({ message: error?.message || 'Failed to fetch usage' });
+  }
+});
+
 // Get subscription history
 router.get('/history', async (req, res) => {
   if (!req.isAuthenticated()) {
@@ -149,4 +318,40 @@ router.get('/history', async (req, res) => {
   }
 });
 
+// Download the invoice for one of the user's payments as PDF or HTML
+router.get('/payments/:paymentId/invoice', async (req, res) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: 'You must be logged in to view invoices' });
+  }
+
+  try {
+    const paymentId = parseInt(req.params.paymentId);
+    if (isNaN(paymentId)) {
+      return res.status(400).json({ message: 'Invalid payment ID' });
+    }
+    const { format } = invoiceFormatSchema.parse(req.query);
+
+    const [payment] = await db.select({ userId: payments.userId })
+      .from(payments)
+      .where(eq(payments.id, paymentId));
+    if (!payment || payment.userId !== req.user.id) {
+      return res.status(404).json({ message: 'Payment not found' });
+    }
+
+    const file = await renderInvoiceForPayment(paymentId, format);
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `${format === 'pdf' ? 'attachment' : 'inline'}; filename="${file.fileName}"`);
+    return res.send(file.content);
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ message: 'Invalid request data', errors: error.errors });
+    }
+    if (error instanceof InvoiceUnavailableError) {
+      return res.status(404).json({ message: error.message });
+    }
+    console.error('Error rendering invoice:', error);
+    return res.status(500).json({ message: error?.message || 'Failed to render invoice' });
+  }
+});
+
 export default router;
\ No newline at end of file
@@ -2,20 +2,36 @@ import { Router } from 'express';
 import { z } from 'zod';
 import { insertTaskSchema } from '@shared/schema';
 import { storage } from '../storage';
+import { isPageRequest, taskListSchema, PaginationError } from '../pagination';
 import { Express } from 'express';
 import { generateTaskSuggestions } from '../openai';
+import { TokenLimitExceededError } from '../token-usage';
 
 // Setup function that will be called from main routes.ts
 export function setupTaskRoutes(app: Express) {
   const router = Router();
 
-  // Get all tasks for a user
+  // Get all tasks for a user, or a page of them with ?limit or ?cursor
   router.get('/:userId', async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const userId = parseInt(req.params.userId);
+    if (req.user?.id !== userId) return res.sendStatus(403);
+
     try {
-      const userId = parseInt(req.params.userId);
+      if (isPageRequest(req.query)) {
+        const options = taskListSchema.parse(req.query);
+        return res.json(await storage.getTasksPage(userId, options));
+      }
       const tasks = await storage.getTasksByUserId(userId);
       res.json(tasks);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Validation error', details: error.errors });
+      }
+      if (error instanceof PaginationError) {
+        return res.status(400).json({ error: error.message });
+      }
       console.error('Error fetching tasks:', error);
       res.status(500).json({ error: 'Failed to fetch tasks' });
     }
@@ -115,11 +131,15 @@ export function setupTaskRoutes(app: Express) {
       const suggestions = await generateTaskSuggestions(
         formattedEntries, 
         formattedTasks,
-        formattedGoals
+        formattedGoals,
+        userId
       );
       
       res.json(suggestions);
     } catch (error) {
+      if (error instanceof TokenLimitExceededError) {
+        return res.status(error.status).json(error.toJSON());
+      }
       console.error("Error generating task suggestions:", error);
       res.status(500).json({ error: "Failed to generate task suggestions" });
     }
@@ -0,0 +1,115 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import {
+  getTwoFactorStatus,
+  startEnrollment,
+  confirmEnrollment,
+  regenerateRecoveryCodes,
+  disableTwoFactor,
+  verifySecondFactor,
+  markChallengePassed,
+  requireTwoFactorChallenge,
+  secondFactorSchema,
+  TwoFactorError,
+} from "../two-factor";
+import { throttleAuth, recordAuthFailure, clearAuthFailures } from "../auth-throttle";
+
+const router = Router();
+
+const codeSchema = z.object({
+  code: z.string().trim().min(6).max(10),
+});
+
+// Whether the current user has 2FA on
+router.get("/status", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+
+  try {
+    return res.json(await getTwoFactorStatus(req.user.id));
+  } catch (error) {
+    console.error("Error fetching two-factor status:", error);
+    return res.status(500).json({ error: "Failed to fetch two-factor status" });
+  }
+});
+
+// Start enrollment: a new secret and QR code for an authenticator app
+router.post("/setup", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+
+  try {
+    return res.json(await startEnrollment(req.user));
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return res.status(409).json({ error: error.message });
+    }
+    console.error("Error starting two-factor setup:", error);
+    return res.status(500).json({ error: "Failed to start two-factor setup" });
+  }
+});
+
+// Finish enrollment with a code from the app; returns the recovery codes once
+router.post("/enable", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+
+  try {
+    const { code } = codeSchema.parse(req.body);
+    const recoveryCodes = await confirmEnrollment(req.user.id, code);
+    markChallengePassed(req);
+    return res.json({ enabled: true, recoveryCodes });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    if (error instanceof TwoFactorError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error("Error enabling two-factor authentication:", error);
+    return res.status(500).json({ error: "Failed to enable two-factor authentication" });
+  }
+});
+
+// Prove the second factor before a sensitive action. Wrong codes count
+// towards the same limits and lockout as failed sign-ins.
+router.post("/challenge", throttleAuth("login", req => req.user ? { userId: req.user.id } : undefined), async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+
+  try {
+    const factor = secondFactorSchema.parse(req.body);
+    if (!(await verifySecondFactor(req.user.id, factor))) {
+      await recordAuthFailure(req, "login", { userId: req.user.id });
+      return res.status(401).json({ error: "That code isn't valid" });
+    }
+    await clearAuthFailures("login", { userId: req.user.id });
+    markChallengePassed(req);
+    return res.json({ verified: true });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    console.error("Error verifying two-factor challenge:", error);
+    return res.status(500).json({ error: "Failed to verify code" });
+  }
+});
+
+// Replace the recovery codes, e.g. once most have been used
+router.post("/recovery-codes", requireTwoFactorChallenge, async (req: Request, res: Response) => {
+  try {
+    return res.json({ recoveryCodes: await regenerateRecoveryCodes(req.user!.id) });
+  } catch (error) {
+    console.error("Error regenerating recovery codes:", error);
+    return res.status(500).json({ error: "Failed to regenerate recovery codes" });
+  }
+});
+
+// Turn 2FA off
+router.post("/disable", requireTwoFactorChallenge, async (req: Request, res: Response) => {
+  try {
+    await disableTwoFactor(req.user!.id);
+    return res.json({ enabled: false });
+  } catch (error) {
+    console.error("Error disabling two-factor authentication:", error);
+    return res.status(500).json({ error: "Failed to disable two-factor authentication" });
+  }
+});
+
+export default router;
@@ -0,0 +1,88 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { db } from "../db";
+import { storage } from "../storage";
+import { weeklyDigests } from "@shared/schema";
+import { and, eq } from "drizzle-orm";
+import { FeatureLimitService } from "../hooks/use-feature-limits";
+import { TokenLimitExceededError } from "../token-usage";
+import { resolveTimeZone } from "../schedule-utils";
+import {
+  getPreviousWeek,
+  generateWeeklyDigest,
+  deliverWeeklyDigest,
+  getWeeklyDigestHistory,
+} from "../weekly-digest";
+
+const router = Router();
+
+const historySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(52).default(12),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// List the current user's past digests, newest first
+router.get("/", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+
+  try {
+    const { limit, offset } = historySchema.parse(req.query);
+    const digests = await getWeeklyDigestHistory(req.user.id, limit, offset);
+    return res.json(digests);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    console.error("Error fetching weekly digests:", error);
+    return res.status(500).json({ error: "Failed to fetch weekly digests" });
+  }
+});
+
+// Generate last week's digest now, if it hasn't been already
+router.post("/generate", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+
+  try {
+    const access = await FeatureLimitService.canAccessWeeklyDigest(req.user.id);
+    if (!access.allowed) {
+      return res.status(403).json({ error: access.reason, upgradeRequired: true });
+    }
+
+    const preferences = await storage.getNotificationPreferencesByUserId(req.user.id);
+    const week = getPreviousWeek(new Date(), resolveTimeZone(preferences?.timezone));
+    const { digest, created } = await generateWeeklyDigest(req.user.id, week);
+
+    if (created) {
+      await deliverWeeklyDigest(digest);
+    }
+    return res.status(created ? 201 : 200).json(digest);
+  } catch (error) {
+    if (error instanceof TokenLimitExceededError) {
+      return res.status(error.status).json(error.toJSON());
+    }
+    console.error("Error generating weekly digest:", error);
+    return res.status(500).json({ error: "Failed to generate weekly digest" });
+  }
+});
+
+// Get a single digest
+router.get("/:id", async (req: Request, res: Response) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+
+  try {
+    const [digest] = await db
+      .select()
+      .from(weeklyDigests)
+      .where(and(eq(weeklyDigests.id, Number(req.params.id)), eq(weeklyDigests.userId, req.user.id)));
+
+    if (!digest) {
+      return res.status(404).json({ error: "Weekly digest not found" });
+    }
+    return res.json(digest);
+  } catch (error) {
+    console.error("Error fetching weekly digest:", error);
+    return res.status(500).json({ error: "Failed to fetch weekly digest" });
+  }
+});
+
+export default router;
@@ -0,0 +1,359 @@
+/**
+ * Scheduling Utilities
+ *
+ * Time zone conversion (using the Intl API, so no time zone database is bundled)
+ * and expansion of recurring notification patterns: "daily", "weekly", "monthly"
+ * or a standard five-field cron expression ("minute hour day-of-month month day-of-week").
+ */
+
+export const DEFAULT_TIME_ZONE = "UTC";
+
+export interface ZonedDateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0 = Sunday
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      weekday: "short",
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Whether the time zone is a valid IANA name such as "Europe/London"
+ */
+export function isValidTimeZone(timeZone: string | null | undefined): timeZone is string {
+  if (!timeZone) return false;
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolve a user's time zone preference, falling back to UTC if unset or invalid
+ */
+export function resolveTimeZone(timeZone: string | null | undefined): string {
+  return isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE;
+}
+
+/**
+ * The wall-clock date and time of an instant in a time zone
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedDateParts {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+}
+
+/**
+ * The instant at which a wall-clock time occurs in a time zone. Times skipped by a
+ * daylight saving change resolve to the equivalent time after the change.
+ */
+export function zonedTimeToUtc(
+  parts: { year: number; month: number; day: number; hour: number; minute: number },
+  timeZone: string
+): Date {
+  const wallClockAsUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+
+  // Correct the guess by the zone's offset, twice to settle across offset changes
+  let guess = wallClockAsUtc;
+  for (let i = 0; i < 2; i++) {
+    const actual = getZonedParts(new Date(guess), timeZone);
+    const actualAsUtc = Date.UTC(actual.year, actual.month - 1, actual.day, actual.hour, actual.minute);
+    guess += wallClockAsUtc - actualAsUtc;
+  }
+
+  return new Date(guess);
+}
+
+/**
+ * Parse a timestamp read from the database. Columns are "timestamp without time zone"
+ * holding UTC, so values without an offset are read as UTC rather than server-local time.
+ */
+export function parseDbTimestamp(value: string): Date {
+  const normalized = value.includes("T") ? value : value.replace(" ", "T");
+  return new Date(/(Z|[+-]\d{2}(:?\d{2})?)$/.test(normalized) ? normalized : `${normalized}Z`);
+}
+
+/**
+ * The user's local calendar date as YYYY-MM-DD
+ */
+export function getLocalDateString(date: Date, timeZone: string): string {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/**
+ * Parse a 24-hour "HH:MM" time, as stored in notification_preferences.reminderTime
+ */
+export function parseTimeOfDay(value: string | null | undefined): { hour: number; minute: number } {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value || "");
+  if (!match) return { hour: 9, minute: 0 };
+
+  return {
+    hour: Math.min(23, Number(match[1])),
+    minute: Math.min(59, Number(match[2])),
+  };
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * Add days to a calendar date without involving time zones
+ */
+export function addDays(date: { year: number; month: number; day: number }, days: number) {
+  const result = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return { year: result.getUTCFullYear(), month: result.getUTCMonth() + 1, day: result.getUTCDate() };
+}
+
+// Cron expressions
+
+interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Standard cron matches either day field when both are restricted
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const MONTH_NAMES = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+const DAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+const CRON_MACROS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+};
+
+function parseCronValue(value: string, names: string[] | null, offset: number): number {
+  const upper = value.toUpperCase();
+  if (names && names.includes(upper)) {
+    return names.indexOf(upper) + offset;
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid cron value '${value}'`);
+  }
+  return Number(value);
+}
+
+function parseCronField(field: string, min: number, max: number, names: string[] | null = null, nameOffset = 0): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron step in '${part}'`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = min;
+      end = max;
+    } else if (range.includes("-")) {
+      const [from, to] = range.split("-");
+      start = parseCronValue(from, names, nameOffset);
+      end = parseCronValue(to, names, nameOffset);
+    } else {
+      start = parseCronValue(range, names, nameOffset);
+      // "5/15" means every 15 starting at 5
+      end = stepText === undefined ? start : max;
+    }
+
+    if (start < min || end > max || start > end) {
+      throw new Error(`Cron value out of range in '${part}' (expected ${min}-${max})`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a five-field cron expression or macro such as "@daily".
+ * Throws if the expression is invalid.
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const normalized = CRON_MACROS[expression.trim().toLowerCase()] || expression.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields, got ${fields.length}`);
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+  const daysOfWeek = parseCronField(dayOfWeek, 0, 7, DAY_NAMES, 0);
+  // Both 0 and 7 mean Sunday
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes: parseCronField(minute, 0, 59),
+    hours: parseCronField(hour, 0, 23),
+    daysOfMonth: parseCronField(dayOfMonth, 1, 31),
+    months: parseCronField(month, 1, 12, MONTH_NAMES, 1),
+    daysOfWeek,
+    dayOfMonthRestricted: dayOfMonth !== "*",
+    dayOfWeekRestricted: dayOfWeek !== "*",
+  };
+}
+
+function cronMatchesDay(schedule: CronSchedule, date: { year: number; month: number; day: number }): boolean {
+  if (!schedule.months.has(date.month)) return false;
+
+  const weekday = new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+  const domMatch = schedule.daysOfMonth.has(date.day);
+  const dowMatch = schedule.daysOfWeek.has(weekday);
+
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return domMatch || dowMatch;
+  }
+  if (schedule.dayOfMonthRestricted) return domMatch;
+  if (schedule.dayOfWeekRestricted) return dowMatch;
+  return true;
+}
+
+// Search up to this many days ahead, enough for any valid expression (e.g. "0 0 29 2 *")
+const MAX_CRON_SEARCH_DAYS = 366 * 8;
+
+/**
+ * The first time after `after` that a cron expression fires, evaluated in the time zone
+ */
+export function nextCronOccurrence(expression: string, after: Date, timeZone: string): Date | null {
+  const schedule = parseCronExpression(expression);
+  const hours = Array.from(schedule.hours).sort((a, b) => a - b);
+  const minutes = Array.from(schedule.minutes).sort((a, b) => a - b);
+
+  let date: { year: number; month: number; day: number } = getZonedParts(after, timeZone);
+  for (let i = 0; i < MAX_CRON_SEARCH_DAYS; i++, date = addDays(date, 1)) {
+    if (!cronMatchesDay(schedule, date)) continue;
+
+    for (const hour of hours) {
+      for (const minute of minutes) {
+        const candidate = zonedTimeToUtc({ ...date, hour, minute }, timeZone);
+        if (candidate.getTime() > after.getTime()) {
+          return candidate;
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+export type SimpleRecurringPattern = "daily" | "weekly" | "monthly";
+
+/**
+ * Whether a recurring pattern is one of the named patterns or a valid cron expression
+ */
+export function isValidRecurringPattern(pattern: string | null | undefined): boolean {
+  if (!pattern) return false;
+  if (["daily", "weekly", "monthly"].includes(pattern)) return true;
+  try {
+    parseCronExpression(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The first occurrence of a recurring pattern after `after`.
+ *
+ * Named patterns repeat the local wall-clock time of `anchor` (the first occurrence),
+ * so a 9:00 reminder stays at 9:00 across daylight saving changes. Monthly patterns
+ * keep the anchor's day of the month, using the last day in shorter months.
+ */
+export function nextRecurringOccurrence(pattern: string, anchor: Date, after: Date, timeZone: string): Date | null {
+  if (!["daily", "weekly", "monthly"].includes(pattern)) {
+    return nextCronOccurrence(pattern, after, timeZone);
+  }
+
+  const start = getZonedParts(anchor, timeZone);
+  const time = { hour: start.hour, minute: start.minute };
+
+  if (pattern === "monthly") {
+    const afterParts = getZonedParts(after, timeZone);
+    let year = afterParts.year;
+    let month = afterParts.month;
+    // At most two months ahead are needed to pass `after`
+    for (let i = 0; i < 3; i++) {
+      const day = Math.min(start.day, daysInMonth(year, month));
+      const candidate = zonedTimeToUtc({ year, month, day, ...time }, timeZone);
+      if (candidate.getTime() > after.getTime() && candidate.getTime() >= anchor.getTime()) {
+        return candidate;
+      }
+      month++;
+      if (month > 12) {
+        month = 1;
+        year++;
+      }
+    }
+    return null;
+  }
+
+  const stepDays = pattern === "weekly" ? 7 : 1;
+  let date: { year: number; month: number; day: number } = getZonedParts(after, timeZone);
+
+  // Move to the anchor's weekday for weekly patterns
+  if (pattern === "weekly") {
+    const weekday = new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+    date = addDays(date, (start.weekday - weekday + 7) % 7);
+  }
+
+  for (let i = 0; i < 3; i++, date = addDays(date, stepDays)) {
+    const candidate = zonedTimeToUtc({ ...date, ...time }, timeZone);
+    if (candidate.getTime() > after.getTime() && candidate.getTime() >= anchor.getTime()) {
+      return candidate;
+    }
+  }
+
+  return null;
+}
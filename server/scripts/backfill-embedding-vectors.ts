@@ -0,0 +1,114 @@
+import { db } from "../db";
+import { journalEntries, journalEmbeddings, EMBEDDING_DIMENSIONS } from "@shared/schema";
+import { sql, and, eq, isNull } from "drizzle-orm";
+import { storeEmbedding } from "../openai";
+
+/**
+ * Script to fill the pgvector embedding column for existing journal_embeddings rows
+ * from their JSON copies. Run after the add-journal-embeddings-vector migration.
+ *
+ * Pass --missing to also generate embeddings for journal entries that have none
+ * (this calls the LLM provider for each entry).
+ */
+const BATCH_SIZE = 500;
+
+async function backfillVectorColumn() {
+  let updatedCount = 0;
+  
+  // Convert in batches so a large table doesn't hold one long-running transaction.
+  // A JSON array of numbers is valid pgvector input once cast to text.
+  while (true) {
+    const result = await db.execute(sql`
+      UPDATE journal_embeddings
+      SET embedding = embedding_json::text::vector
+      WHERE id IN (
+        SELECT id FROM journal_embeddings
+        WHERE embedding IS NULL
+          AND jsonb_typeof(embedding_json) = 'array'
+          AND jsonb_array_length(embedding_json) = ${EMBEDDING_DIMENSIONS}
+        LIMIT ${BATCH_SIZE}
+      )
+    `);
+    
+    const batchCount = result.rowCount ?? 0;
+    if (batchCount === 0) break;
+    
+    updatedCount += batchCount;
+    console.log(`Backfilled ${updatedCount} embedding vectors so far...`);
+  }
+  
+  // Rows from models with a different embedding size can't go in the vector column
+  const [skipped] = await db
+    .select({ count: sql<number>`COUNT(*)::int` })
+    .from(journalEmbeddings)
+    .where(isNull(journalEmbeddings.embedding));
+  
+  return { updatedCount, skippedCount: skipped?.count ?? 0 };
+}
+
+async function embedMissingEntries() {
+  const entriesWithoutEmbeddings = await db
+    .select({
+      id: journalEntries.id,
+      userId: journalEntries.userId,
+      content: journalEntries.content,
+      transcript: journalEntries.transcript
+    })
+    .from(journalEntries)
+    .leftJoin(journalEmbeddings, eq(journalEntries.id, journalEmbeddings.journalEntryId))
+    .where(
+      and(
+        isNull(journalEmbeddings.id),
+        eq(journalEntries.isJournal, true),
+        eq(journalEntries.isAiResponse, false)
+      )
+    )
+    .orderBy(journalEntries.id);
+  
+  console.log(`Found ${entriesWithoutEmbeddings.length} journal entries without embeddings.`);
+  
+  let embeddedCount = 0;
+  for (const entry of entriesWithoutEmbeddings) {
+    try {
+      await storeEmbedding(entry.id, entry.transcript || entry.content);
+      embeddedCount++;
+    } catch (error) {
+      console.error(`Error embedding entry ${entry.id}:`, error);
+    }
+    
+    // Add a small delay to avoid rate limiting
+    await new Promise(resolve => setTimeout(resolve, 200));
+  }
+  
+  return embeddedCount;
+}
+
+async function backfillEmbeddingVectors() {
+  console.log("Backfilling journal embedding vectors...");
+  
+  const { updatedCount, skippedCount } = await backfillVectorColumn();
+  
+  let embeddedCount = 0;
+  if (process.argv.includes("--missing")) {
+    embeddedCount = await embedMissingEntries();
+  }
+  
+  console.log("Embedding backfill complete!");
+  console.log("Stats:");
+  console.log(`  Vectors backfilled from JSON: ${updatedCount}`);
+  console.log(`  Rows left without a vector (wrong dimensions): ${skippedCount}`);
+  if (process.argv.includes("--missing")) {
+    console.log(`  Entries embedded: ${embeddedCount}`);
+  }
+}
+
+// Run the script
+backfillEmbeddingVectors()
+  .then(() => {
+    console.log("Script execution completed.");
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error("Script execution failed:", error);
+    process.exit(1);
+  });
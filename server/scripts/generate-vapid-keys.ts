@@ -0,0 +1,15 @@
+/**
+ * Generate a VAPID key pair for Web Push notifications.
+ *
+ * Usage: npx tsx server/scripts/generate-vapid-keys.ts
+ *
+ * Add the printed values to .env. Changing the keys invalidates every existing
+ * browser subscription, so generate them once per deployment.
+ */
+import webpush from "web-push";
+
+const { publicKey, privateKey } = webpush.generateVAPIDKeys();
+
+console.log(`VAPID_PUBLIC_KEY=${publicKey}`);
+console.log(`VAPID_PRIVATE_KEY=${privateKey}`);
+console.log(`VAPID_SUBJECT=mailto:you@example.com`);
@@ -0,0 +1,134 @@
+/**
+ * A local stand-in for PayPal, for testing the webhook receiver against the
+ * recorded events in server/fixtures/paypal-webhooks.
+ *
+ * Start the stand-in, and point the app at it:
+ *   npx tsx server/scripts/paypal-stand-in.ts serve [port]
+ *   PAYPAL_API_URL=http://localhost:8089 PAYPAL_WEBHOOK_ID=WH-STAND-IN npm run dev
+ *
+ * Then replay fixtures (all of them when none are named) at the app:
+ *   PAYPAL_WEBHOOK_ID=WH-STAND-IN npx tsx server/scripts/paypal-stand-in.ts replay \
+ *     http://localhost:5000/api/webhooks/paypal payment-sale-completed [--fresh-ids] [--replace FROM=TO ...]
+ *
+ * The stand-in answers the OAuth token and verify-webhook-signature calls the app
+ * makes. Replayed events are signed with an HMAC of the transmission ID, time,
+ * webhook ID and event ID, which the stand-in checks in place of PayPal's
+ * certificate signatures. --fresh-ids gives each event a new ID, so it isn't
+ * treated as a redelivery; --replace swaps IDs in the fixtures (such as
+ * I-BW452GLLEP1G or plan_2_user_1) for ones in your database.
+ */
+import express from "express";
+import axios from "axios";
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+
+const FIXTURES_DIR = path.resolve(import.meta.dirname, "../fixtures/paypal-webhooks");
+const SECRET = process.env.PAYPAL_STAND_IN_SECRET || "paypal-stand-in";
+const CERT_URL = "https://api.sandbox.paypal.com/v1/notifications/certs/CERT-360caa42-fca2a594-stand-in";
+
+function sign(transmissionId: string, transmissionTime: string, webhookId: string, eventId: string): string {
+  return crypto
+    .createHmac("sha256", SECRET)
+    .update(`${transmissionId}|${transmissionTime}|${webhookId}|${eventId}`)
+    .digest("base64");
+}
+
+function serve(port: number) {
+  const app = express();
+  app.use(express.json({ limit: "1mb" }));
+  app.use(express.urlencoded({ extended: false }));
+
+  app.post("/v1/oauth2/token", (_req, res) => {
+    res.json({ access_token: "stand-in-access-token", token_type: "Bearer", expires_in: 32400 });
+  });
+
+  app.post("/v1/notifications/verify-webhook-signature", (req, res) => {
+    const { transmission_id, transmission_time, transmission_sig, webhook_id, webhook_event } = req.body || {};
+    const expected = sign(transmission_id, transmission_time, webhook_id, webhook_event?.id);
+    const verified = typeof transmission_sig === "string"
+      && transmission_sig.length === expected.length
+      && crypto.timingSafeEqual(Buffer.from(transmission_sig), Buffer.from(expected));
+
+    console.log(`verify ${webhook_event?.event_type} (${webhook_event?.id}): ${verified ? "SUCCESS" : "FAILURE"}`);
+    res.json({ verification_status: verified ? "SUCCESS" : "FAILURE" });
+  });
+
+  app.use((req, res) => {
+    console.log(`Not handled by the stand-in: ${req.method} ${req.path}`);
+    res.status(404).json({ name: "RESOURCE_NOT_FOUND", message: "Not handled by the PayPal stand-in" });
+  });
+
+  app.listen(port, () => {
+    console.log(`PayPal stand-in listening on http://localhost:${port}`);
+  });
+}
+
+async function replay(url: string, args: string[]) {
+  const webhookId = process.env.PAYPAL_WEBHOOK_ID;
+  if (!webhookId) {
+    throw new Error("Set PAYPAL_WEBHOOK_ID to the webhook ID the app is configured with");
+  }
+
+  const names: string[] = [];
+  const replacements: [string, string][] = [];
+  let freshIds = false;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--fresh-ids") {
+      freshIds = true;
+    } else if (args[i] === "--replace") {
+      const [from, to] = (args[++i] || "").split("=");
+      if (!from || to === undefined) throw new Error("--replace expects FROM=TO");
+      replacements.push([from, to]);
+    } else {
+      names.push(args[i].replace(/\.json$/, ""));
+    }
+  }
+
+  const fixtures = names.length > 0
+    ? names
+    : fs.readdirSync(FIXTURES_DIR).filter(file => file.endsWith(".json")).map(file => file.replace(/\.json$/, "")).sort();
+
+  for (const name of fixtures) {
+    let body = fs.readFileSync(path.join(FIXTURES_DIR, `${name}.json`), "utf8");
+    for (const [from, to] of replacements) {
+      body = body.split(from).join(to);
+    }
+
+    const event = JSON.parse(body);
+    if (freshIds) {
+      event.id = `WH-STAND-IN-${crypto.randomUUID()}`;
+    }
+
+    const transmissionId = crypto.randomUUID();
+    const transmissionTime = new Date().toISOString();
+    const response = await axios.post(url, event, {
+      headers: {
+        "Content-Type": "application/json",
+        "PAYPAL-TRANSMISSION-ID": transmissionId,
+        "PAYPAL-TRANSMISSION-TIME": transmissionTime,
+        "PAYPAL-TRANSMISSION-SIG": sign(transmissionId, transmissionTime, webhookId, event.id),
+        "PAYPAL-CERT-URL": CERT_URL,
+        "PAYPAL-AUTH-ALGO": "SHA256withRSA",
+      },
+      validateStatus: () => true,
+    });
+
+    console.log(`${name} (${event.id}): ${response.status} ${JSON.stringify(response.data)}`);
+  }
+}
+
+const [command, ...rest] = process.argv.slice(2);
+
+if (command === "serve") {
+  serve(parseInt(rest[0] || process.env.PORT || "8089"));
+} else if (command === "replay" && rest[0]) {
+  replay(rest[0], rest.slice(1)).catch((error) => {
+    console.error("Replay failed:", error.message);
+    process.exit(1);
+  });
+} else {
+  console.log("Usage: npx tsx server/scripts/paypal-stand-in.ts serve [port]");
+  console.log("       npx tsx server/scripts/paypal-stand-in.ts replay <webhook-url> [fixture...] [--fresh-ids] [--replace FROM=TO]");
+  process.exit(1);
+}
@@ -0,0 +1,251 @@
+import { Request, Response, NextFunction } from "express";
+import { db } from "./db";
+import { storage } from "./storage";
+import { userSessions, UserSession } from "@shared/schema";
+import { closeSessionStreams } from "./realtime";
+import { registerJobHandler, scheduleRecurringJob } from "./job-queue";
+import { and, eq, gt, inArray, lt, ne } from "drizzle-orm";
+
+/**
+ * Session Registry
+ *
+ * Sessions live in the session store, which can't be listed by user. Each
+ * signed-in session is also recorded here with its device, IP address and
+ * when it was last seen, so users can see where they're signed in and sign
+ * out remotely, and admins can count active sessions.
+ */
+
+// Matches the session cookie's maxAge; a session unseen for this long has expired
+export const SESSION_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+// lastSeenAt is written at most this often per session
+const TOUCH_INTERVAL_MS = 60 * 1000;
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+export class SessionRegistryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SessionRegistryError";
+  }
+}
+
+// When each session's lastSeenAt was last written by this process
+const lastTouched = new Map<string, number>();
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/SamsungBrowser\//, "Samsung Internet"],
+  [/Firefox\/|FxiOS\//, "Firefox"],
+  [/Chrome\/|CriOS\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const PLATFORMS: [RegExp, string][] = [
+  [/iPhone|iPad|iPod/, "iOS"],
+  [/Android/, "Android"],
+  [/Windows/, "Windows"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/CrOS/, "ChromeOS"],
+  [/Linux/, "Linux"],
+];
+
+/**
+ * A short description of the device a session is on, e.g. "Chrome on macOS"
+ */
+export function describeDevice(userAgent: string | undefined): string {
+  if (!userAgent) return "Unknown device";
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser || platform || "Unknown device";
+}
+
+function storeHasSession(sessionId: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    storage.sessionStore.get(sessionId, (err, session) => resolve(!err && !!session));
+  });
+}
+
+function destroyStoredSession(sessionId: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    storage.sessionStore.destroy(sessionId, (err) => (err ? reject(err) : resolve()));
+  });
+}
+
+/**
+ * Middleware that records authenticated sessions and keeps lastSeenAt current.
+ * Registry errors are logged rather than failing the request.
+ */
+export async function trackSession(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated() || !req.sessionID) {
+    return next();
+  }
+
+  const sessionId = req.sessionID;
+  const now = Date.now();
+  const touchedAt = lastTouched.get(sessionId);
+  if (touchedAt && now - touchedAt < TOUCH_INTERVAL_MS) {
+    return next();
+  }
+  // Expired sessions are never forgotten explicitly, so start over rather than grow forever
+  if (lastTouched.size > 10000) {
+    lastTouched.clear();
+  }
+  lastTouched.set(sessionId, now);
+
+  try {
+    const userAgent = req.get("user-agent");
+    const seenAt = new Date(now).toISOString();
+    await db.insert(userSessions)
+      .values({
+        userId: req.user.id,
+        sessionId,
+        device: describeDevice(userAgent),
+        userAgent: userAgent ?? null,
+        ipAddress: req.ip ?? null,
+        lastSeenAt: seenAt,
+      })
+      .onConflictDoUpdate({
+        target: userSessions.sessionId,
+        set: { ipAddress: req.ip ?? null, lastSeenAt: seenAt },
+      });
+  } catch (error) {
+    lastTouched.delete(sessionId);
+    console.error("Error recording session:", error);
+  }
+
+  next();
+}
+
+/**
+ * Drop a session from the registry and end its live event streams, e.g. once
+ * it has signed out
+ */
+export async function forgetSession(sessionId: string): Promise<void> {
+  lastTouched.delete(sessionId);
+  closeSessionStreams(sessionId);
+  await db.delete(userSessions).where(eq(userSessions.sessionId, sessionId));
+}
+
+/**
+ * A user's signed-in sessions, most recently seen first. Sessions that have
+ * expired or are no longer in the session store are removed on the way.
+ */
+export async function listUserSessions(userId: number, currentSessionId: string) {
+  const records = await db.select()
+    .from(userSessions)
+    .where(eq(userSessions.userId, userId))
+    .orderBy(userSessions.lastSeenAt);
+
+  const active: UserSession[] = [];
+  for (const record of records) {
+    if (record.sessionId === currentSessionId || await storeHasSession(record.sessionId)) {
+      active.push(record);
+    } else {
+      await forgetSession(record.sessionId);
+    }
+  }
+
+  return active.reverse().map(record => ({
+    id: record.id,
+    device: record.device,
+    userAgent: record.userAgent,
+    ipAddress: record.ipAddress,
+    createdAt: record.createdAt,
+    lastSeenAt: record.lastSeenAt,
+    current: record.sessionId === currentSessionId,
+  }));
+}
+
+/**
+ * Sign out one of a user's other sessions
+ * @throws SessionRegistryError if it isn't theirs or is the current session
+ */
+export async function revokeSession(userId: number, id: number, currentSessionId: string): Promise<void> {
+  const [record] = await db.select()
+    .from(userSessions)
+    .where(and(eq(userSessions.id, id), eq(userSessions.userId, userId)));
+
+  if (!record) {
+    throw new SessionRegistryError("Session not found");
+  }
+  if (record.sessionId === currentSessionId) {
+    throw new SessionRegistryError("Use sign out to end the session you're using");
+  }
+
+  await destroyStoredSession(record.sessionId);
+  await forgetSession(record.sessionId);
+  console.log(`[Sessions] User ${userId} signed out session ${id} (${record.device})`);
+}
+
+/**
+ * Sign out all of a user's sessions except the current one
+ * @returns How many sessions were signed out
+ */
+export async function revokeOtherSessions(userId: number, currentSessionId: string): Promise<number> {
+  const records = await db.select()
+    .from(userSessions)
+    .where(and(eq(userSessions.userId, userId), ne(userSessions.sessionId, currentSessionId)));
+
+  for (const record of records) {
+    await destroyStoredSession(record.sessionId);
+    await forgetSession(record.sessionId);
+  }
+
+  if (records.length > 0) {
+    console.log(`[Sessions] User ${userId} signed out ${records.length} other sessions`);
+  }
+  return records.length;
+}
+
+/**
+ * Sessions seen within the session lifetime that are still in the session
+ * store, across all users
+ */
+export async function countActiveSessions(): Promise<number> {
+  const cutoff = new Date(Date.now() - SESSION_MAX_AGE_MS).toISOString();
+  const records = await db.select({ sessionId: userSessions.sessionId })
+    .from(userSessions)
+    .where(gt(userSessions.lastSeenAt, cutoff));
+
+  const inStore = await Promise.all(records.map(record => storeHasSession(record.sessionId)));
+  return inStore.filter(Boolean).length;
+}
+
+/**
+ * Delete records of expired sessions, and of sessions missing from the
+ * session store because they were regenerated (e.g. by signing in again) or
+ * lost in a restart
+ */
+export async function pruneSessionRecords(): Promise<number> {
+  const cutoff = new Date(Date.now() - SESSION_MAX_AGE_MS).toISOString();
+  const expired = await db.delete(userSessions)
+    .where(lt(userSessions.lastSeenAt, cutoff))
+    .returning({ id: userSessions.id });
+
+  const records = await db.select({ sessionId: userSessions.sessionId }).from(userSessions);
+  const inStore = await Promise.all(records.map(record => storeHasSession(record.sessionId)));
+  const missing = records.filter((_, i) => !inStore[i]).map(record => record.sessionId);
+  if (missing.length > 0) {
+    await db.delete(userSessions).where(inArray(userSessions.sessionId, missing));
+    missing.forEach(sessionId => lastTouched.delete(sessionId));
+  }
+
+  return expired.length + missing.length;
+}
+
+/**
+ * Register the cleanup job handler and its hourly schedule
+ */
+export function registerSessionRegistryJobs(): void {
+  registerJobHandler("session-registry-cleanup", async () => {
+    const deleted = await pruneSessionRecords();
+    if (deleted > 0) {
+      console.log(`[Sessions] Cleared ${deleted} expired session records`);
+    }
+  });
+
+  scheduleRecurringJob("session-registry-cleanup", CLEANUP_INTERVAL_MS);
+}
@@ -15,11 +15,15 @@ import {
   AISuggestedHabit, InsertAiHabit,
   users, journalEntries, moods, goals, tasks, habits, prompts, summaries,
   notifications, notificationPreferences, systemSettings,
-  aiGoals, aiTasks, aiHabits
+  aiGoals, aiTasks, aiHabits, payments, invoices, supportRequests
 } from "@shared/schema";
 import session from "express-session";
 import { db, pool } from "./db";
-import { eq, and, gte, desc, sql, isNull, not } from "drizzle-orm";
+import { eq, and, gte, lte, desc, sql, isNull, isNotNull, not, SQL } from "drizzle-orm";
+import {
+  Page, KeysetSort, afterCursor, keysetOrderBy, sortKeyText, toPage,
+  JournalEntryListOptions, GoalListOptions, TaskListOptions, HabitListOptions
+} from "./pagination";
 import createMemoryStore from "memorystore";
 import connectPg from "connect-pg-simple";
 
@@ -31,6 +35,7 @@ export interface IStorage {
   getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: number, userData: Partial<User>): Promise<User>;
+  deleteUser(id: number): Promise<void>;
   verifyUser(id: number): Promise<User>;
   resetPassword(email: string, newPassword: string): Promise<boolean>;
   getAllUsers(): Promise<User[]>;
@@ -41,6 +46,7 @@ export interface IStorage {
   
   // Journal methods
   getJournalEntriesByUserId(userId: number): Promise<JournalEntry[]>;
+  getJournalEntriesPage(userId: number, options: JournalEntryListOptions): Promise<Page<JournalEntry>>;
   getJournalEntryById(id: number): Promise<JournalEntry | undefined>;
   getRecentJournalEntriesByUserId(userId: number, limit: number): Promise<JournalEntry[]>;
   getJournalEntriesForLastWeek(userId: number): Promise<JournalEntry[]>;
@@ -60,6 +66,7 @@ export interface IStorage {
   
   // Goal methods
   getGoalsByUserId(userId: number): Promise<Goal[]>;
+  getGoalsPage(userId: number, options: GoalListOptions): Promise<Page<Goal>>;
   getGoalById(id: number): Promise<Goal | undefined>;
   createGoal(goal: InsertGoal): Promise<Goal>;
   updateGoalProgress(id: number, progress: number): Promise<Goal>;
@@ -76,6 +83,7 @@ export interface IStorage {
   
   // Task methods
   getTasksByUserId(userId: number): Promise<Task[]>;
+  getTasksPage(userId: number, options: TaskListOptions): Promise<Page<Task>>;
   getTaskById(id: number): Promise<Task | undefined>;
   createTask(task: InsertTask): Promise<Task>;
   updateTask(id: number, task: Partial<Task>): Promise<Task>;
@@ -93,6 +101,7 @@ export interface IStorage {
   
   // Habit methods
   getHabitsByUserId(userId: number): Promise<Habit[]>;
+  getHabitsPage(userId: number, options: HabitListOptions): Promise<Page<Habit>>;
   getHabitById(id: number): Promise<Habit | undefined>;
   createHabit(habit: InsertHabit): Promise<Habit>;
   updateHabit(id: number, habit: Partial<Habit>): Promise<Habit>;
@@ -122,7 +131,10 @@ export interface IStorage {
   getNotificationsByUserId(userId: number): Promise<Notification[]>;
   getUnreadNotificationsByUserId(userId: number): Promise<Notification[]>;
   getNotificationById(id: number): Promise<Notification | undefined>;
+  getScheduledNotificationsByUserId(userId: number): Promise<Notification[]>;
+  getDueScheduledNotifications(now: Date, limit?: number): Promise<Notification[]>;
   createNotification(notification: InsertNotification): Promise<Notification>;
+  updateNotification(id: number, updates: Partial<Notification>): Promise<Notification>;
   updateNotificationStatus(id: number, status: string): Promise<Notification>;
   deleteNotification(id: number): Promise<void>;
   deleteAllNotificationsByUserId(userId: number): Promise<void>;
@@ -219,6 +231,31 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
   
+  /**
+   * Delete a user and everything they created. Tables that reference users
+   * with ON DELETE CASCADE are cleared by the final delete; the rest are
+   * cleared here first.
+   */
+  async deleteUser(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      // Embeddings go with their entries
+      await tx.delete(journalEntries).where(eq(journalEntries.userId, id));
+      await tx.delete(moods).where(eq(moods.userId, id));
+      // Tasks can point at goals, so they go first
+      await tx.delete(tasks).where(eq(tasks.userId, id));
+      await tx.delete(habits).where(eq(habits.userId, id));
+      await tx.delete(goals).where(eq(goals.userId, id));
+      await tx.delete(summaries).where(eq(summaries.userId, id));
+      await tx.delete(notifications).where(eq(notifications.userId, id));
+      // Payments and invoices are financial records: they're kept, no longer tied to the account
+      await tx.update(payments).set({ userId: null, subscriptionId: null }).where(eq(payments.userId, id));
+      await tx.update(invoices).set({ userId: null, subscriptionId: null }).where(eq(invoices.userId, id));
+      // An admin's assigned support requests go back to the unassigned queue
+      await tx.update(supportRequests).set({ assignedTo: null }).where(eq(supportRequests.assignedTo, id));
+      await tx.delete(users).where(eq(users.id, id));
+    });
+  }
+  
   async verifyUser(id: number): Promise<User> {
     const result = await db
       .update(users)
@@ -272,6 +309,33 @@ export class DatabaseStorage implements IStorage {
       )
       .orderBy(desc(journalEntries.date));
   }
+
+  async getJournalEntriesPage(userId: number, options: JournalEntryListOptions): Promise<Page<JournalEntry>> {
+    const sort: KeysetSort = {
+      name: `date:${options.order}`,
+      key: journalEntries.date,
+      id: journalEntries.id,
+      direction: options.order
+    };
+
+    const conditions: (SQL | undefined)[] = [
+      eq(journalEntries.userId, userId),
+      isNull(journalEntries.deletedAt),
+      afterCursor(sort, options.cursor)
+    ];
+    if (options.from) conditions.push(gte(journalEntries.date, options.from));
+    if (options.to) conditions.push(lte(journalEntries.date, options.to));
+    if (options.type === "user") conditions.push(eq(journalEntries.isAiResponse, false));
+    if (options.type === "ai") conditions.push(eq(journalEntries.isAiResponse, true));
+
+    const rows = await db
+      .select({ item: journalEntries, sortKey: sortKeyText(sort) })
+      .from(journalEntries)
+      .where(and(...conditions))
+      .orderBy(...keysetOrderBy(sort))
+      .limit(options.limit + 1);
+    return toPage(rows, sort, options.limit);
+  }
   
   async getJournalEntryById(id: number): Promise<JournalEntry | undefined> {
     const result = await db
@@ -442,6 +506,43 @@ export class DatabaseStorage implements IStorage {
       )
       .orderBy(desc(goals.id));
   }
+
+  async getGoalsPage(userId: number, options: GoalListOptions): Promise<Page<Goal>> {
+    // Goals without a target date sort last in ascending order
+    const keys: Record<GoalListOptions["sort"], KeysetSort["key"]> = {
+      createdAt: goals.id,
+      targetDate: sql`coalesce(${goals.targetDate}, 'infinity'::timestamp)`,
+      progress: goals.progress,
+      name: goals.name
+    };
+    const sort: KeysetSort = {
+      name: `${options.sort}:${options.order}`,
+      key: keys[options.sort],
+      id: goals.id,
+      direction: options.order
+    };
+
+    const conditions: (SQL | undefined)[] = [
+      eq(goals.userId, userId),
+      isNull(goals.deletedAt),
+      afterCursor(sort, options.cursor)
+    ];
+    if (options.progress === "not-started") conditions.push(eq(goals.progress, 0));
+    if (options.progress === "in-progress") conditions.push(sql`${goals.progress} > 0 AND ${goals.progress} < ${goals.target}`);
+    if (options.progress === "completed") conditions.push(sql`${goals.progress} >= ${goals.target}`);
+    if (options.category) conditions.push(eq(goals.category, options.category));
+    if (options.targetFrom || options.targetTo) conditions.push(isNotNull(goals.targetDate));
+    if (options.targetFrom) conditions.push(gte(goals.targetDate, options.targetFrom));
+    if (options.targetTo) conditions.push(lte(goals.targetDate, options.targetTo));
+
+    const rows = await db
+      .select({ item: goals, sortKey: sortKeyText(sort) })
+      .from(goals)
+      .where(and(...conditions))
+      .orderBy(...keysetOrderBy(sort))
+      .limit(options.limit + 1);
+    return toPage(rows, sort, options.limit);
+  }
   
   async getGoalById(id: number): Promise<Goal | undefined> {
     const result = await db
@@ -687,6 +788,42 @@ export class DatabaseStorage implements IStorage {
       )
       .orderBy(desc(tasks.createdAt));
   }
+
+  async getTasksPage(userId: number, options: TaskListOptions): Promise<Page<Task>> {
+    // Tasks without a due date sort last in ascending order
+    const keys: Record<TaskListOptions["sort"], KeysetSort["key"]> = {
+      createdAt: tasks.id,
+      dueDate: sql`coalesce(${tasks.dueDate}, 'infinity'::timestamp)`,
+      priority: sql`(CASE lower(${tasks.priority}) WHEN 'high' THEN 3 WHEN 'medium' THEN 2 WHEN 'low' THEN 1 ELSE 0 END)`
+    };
+    const sort: KeysetSort = {
+      name: `${options.sort}:${options.order}`,
+      key: keys[options.sort],
+      id: tasks.id,
+      direction: options.order
+    };
+
+    const conditions: (SQL | undefined)[] = [
+      eq(tasks.userId, userId),
+      isNull(tasks.deletedAt),
+      afterCursor(sort, options.cursor)
+    ];
+    if (options.status === "pending") conditions.push(eq(tasks.completed, false));
+    if (options.status === "completed") conditions.push(eq(tasks.completed, true));
+    if (options.goalId === "none") conditions.push(isNull(tasks.goalId));
+    if (typeof options.goalId === "number") conditions.push(eq(tasks.goalId, options.goalId));
+    if (options.dueFrom || options.dueTo) conditions.push(isNotNull(tasks.dueDate));
+    if (options.dueFrom) conditions.push(gte(tasks.dueDate, options.dueFrom));
+    if (options.dueTo) conditions.push(lte(tasks.dueDate, options.dueTo));
+
+    const rows = await db
+      .select({ item: tasks, sortKey: sortKeyText(sort) })
+      .from(tasks)
+      .where(and(...conditions))
+      .orderBy(...keysetOrderBy(sort))
+      .limit(options.limit + 1);
+    return toPage(rows, sort, options.limit);
+  }
   
   async getTaskById(id: number): Promise<Task | undefined> {
     const result = await db
@@ -985,6 +1122,36 @@ export class DatabaseStorage implements IStorage {
       )
       .orderBy(habits.id);
   }
+
+  async getHabitsPage(userId: number, options: HabitListOptions): Promise<Page<Habit>> {
+    const keys: Record<HabitListOptions["sort"], KeysetSort["key"]> = {
+      createdAt: habits.id,
+      title: habits.title,
+      streak: habits.streak
+    };
+    const sort: KeysetSort = {
+      name: `${options.sort}:${options.order}`,
+      key: keys[options.sort],
+      id: habits.id,
+      direction: options.order
+    };
+
+    const conditions: (SQL | undefined)[] = [
+      eq(habits.userId, userId),
+      isNull(habits.deletedAt),
+      afterCursor(sort, options.cursor)
+    ];
+    if (options.frequency) conditions.push(eq(habits.frequency, options.frequency));
+    if (options.status) conditions.push(eq(habits.status, options.status));
+
+    const rows = await db
+      .select({ item: habits, sortKey: sortKeyText(sort) })
+      .from(habits)
+      .where(and(...conditions))
+      .orderBy(...keysetOrderBy(sort))
+      .limit(options.limit + 1);
+    return toPage(rows, sort, options.limit);
+  }
   
   async getHabitById(id: number): Promise<Habit | undefined> {
     const result = await db
@@ -1269,11 +1436,17 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Notification methods
+  // Scheduled notifications (status 'scheduled') aren't shown until the scheduler delivers them
   async getNotificationsByUserId(userId: number): Promise<Notification[]> {
     return await db
       .select()
       .from(notifications)
-      .where(eq(notifications.userId, userId))
+      .where(
+        and(
+          eq(notifications.userId, userId),
+          not(eq(notifications.status, "scheduled"))
+        )
+      )
       .orderBy(desc(notifications.createdAt));
   }
 
@@ -1299,6 +1472,33 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
+  async getScheduledNotificationsByUserId(userId: number): Promise<Notification[]> {
+    return await db
+      .select()
+      .from(notifications)
+      .where(
+        and(
+          eq(notifications.userId, userId),
+          eq(notifications.status, "scheduled")
+        )
+      )
+      .orderBy(notifications.scheduledFor);
+  }
+
+  async getDueScheduledNotifications(now: Date, limit: number = 500): Promise<Notification[]> {
+    return await db
+      .select()
+      .from(notifications)
+      .where(
+        and(
+          eq(notifications.status, "scheduled"),
+          lte(notifications.scheduledFor, now.toISOString())
+        )
+      )
+      .orderBy(notifications.scheduledFor)
+      .limit(limit);
+  }
+
   async createNotification(notification: InsertNotification): Promise<Notification> {
     const result = await db
       .insert(notifications)
@@ -1312,6 +1512,23 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
+  async updateNotification(id: number, updates: Partial<Notification>): Promise<Notification> {
+    const result = await db
+      .update(notifications)
+      .set({
+        ...updates,
+        updatedAt: new Date().toISOString()
+      })
+      .where(eq(notifications.id, id))
+      .returning();
+      
+    if (result.length === 0) {
+      throw new Error(`Notification with id ${id} not found`);
+    }
+    
+    return result[0];
+  }
+
   async updateNotificationStatus(id: number, status: string): Promise<Notification> {
     const result = await db
       .update(notifications)
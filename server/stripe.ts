@@ -0,0 +1,363 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import { db } from './db';
+import { payments, subscriptionPlans, subscriptions, systemSettings, users, SubscriptionPlan } from '@shared/schema';
+import { eq, and } from 'drizzle-orm';
+import { getPromoCode, calculateDiscount, PromoQuote } from './promo-codes';
+import { syncUserSubscription } from './subscription-lifecycle';
+import { activateSubscription, ActivationResult, BillingProvider } from './billing';
+import { getAppUrl } from './email-templates';
+
+// How old a webhook signature may be before it's treated as a replay
+const WEBHOOK_TOLERANCE_SECONDS = 300;
+
+export class StripePaymentIncompleteError extends Error {
+  constructor(public paymentStatus: string) {
+    super(`Payment has not been completed (status: ${paymentStatus})`);
+    this.name = 'StripePaymentIncompleteError';
+  }
+}
+
+export interface StripeEvent {
+  id: string;
+  type: string;
+  data: { object: Record<string, any> };
+}
+
+async function getSetting(key: string): Promise<string> {
+  try {
+    const [record] = await db.select()
+      .from(systemSettings)
+      .where(eq(systemSettings.key, key))
+      .limit(1);
+    return record?.value || '';
+  } catch (err) {
+    console.warn(`[Stripe] Error fetching ${key} from settings:`, err);
+    return '';
+  }
+}
+
+/**
+ * Stripe keys from system settings, falling back to STRIPE_SECRET_KEY,
+ * STRIPE_PUBLISHABLE_KEY and STRIPE_WEBHOOK_SECRET
+ */
+export async function getStripeCredentials() {
+  return {
+    secretKey: (await getSetting('stripe_secret_key')) || process.env.STRIPE_SECRET_KEY || '',
+    publishableKey: (await getSetting('stripe_publishable_key')) || process.env.STRIPE_PUBLISHABLE_KEY || '',
+    webhookSecret: (await getSetting('stripe_webhook_secret')) || process.env.STRIPE_WEBHOOK_SECRET || '',
+  };
+}
+
+/**
+ * STRIPE_API_URL overrides the API base URL, e.g. to point at stripe-mock
+ */
+export function getStripeApiUrl(): string {
+  return (process.env.STRIPE_API_URL || 'https://api.stripe.com').replace(/\/$/, '');
+}
+
+// Stripe takes form-encoded bodies with nested keys written as a[b][0]=c
+function encodeStripeParams(params: Record<string, any>, prefix = ''): string[] {
+  const pairs: string[] = [];
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || value === null) continue;
+    const name = prefix ? `${prefix}[${key}]` : key;
+    if (typeof value === 'object') {
+      pairs.push(...encodeStripeParams(value, name));
+    } else {
+      pairs.push(`${encodeURIComponent(name)}=${encodeURIComponent(String(value))}`);
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Make an authenticated request to the Stripe API
+ */
+export async function makeStripeRequest(
+  method: 'get' | 'post' | 'delete',
+  endpoint: string,
+  params?: Record<string, any>
+) {
+  const { secretKey } = await getStripeCredentials();
+  if (!secretKey) {
+    throw new Error('Stripe secret key not found');
+  }
+
+  const body = params ? encodeStripeParams(params).join('&') : undefined;
+  try {
+    const response = await axios({
+      method,
+      url: method === 'get' && body ? `${getStripeApiUrl()}${endpoint}?${body}` : `${getStripeApiUrl()}${endpoint}`,
+      headers: {
+        'Authorization': `Bearer ${secretKey}`,
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      data: method === 'get' ? undefined : body
+    });
+    return response.data;
+  } catch (error: any) {
+    const message = error.response?.data?.error?.message || error.message;
+    console.error(`[Stripe] Error making ${method.toUpperCase()} request to ${endpoint}:`, message);
+    throw new Error(`Stripe API request failed: ${message}`);
+  }
+}
+
+// Stripe amounts are in cents
+function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+function paymentMetadata(userId: number, plan: SubscriptionPlan, quote: PromoQuote | null) {
+  return {
+    userId,
+    planId: plan.id,
+    ...(quote ? { promoCodeId: quote.promoCode.id } : {})
+  };
+}
+
+export class StripeService {
+  /**
+   * Creates a hosted Checkout Session for a plan. Stripe sends the user back
+   * to /subscription with the session ID once they have paid.
+   */
+  static async createCheckoutSession(plan: SubscriptionPlan, userId: number, quote: PromoQuote | null) {
+    const amount = quote ? quote.finalAmount : plan.price;
+    const [user] = await db.select({ email: users.email }).from(users).where(eq(users.id, userId));
+    const returnUrl = `${getAppUrl()}/subscription`;
+    const metadata = paymentMetadata(userId, plan, quote);
+
+    console.log(`[Stripe] Creating checkout session for plan: ${plan.name}, userId: ${userId}`);
+    const session = await makeStripeRequest('post', '/v1/checkout/sessions', {
+      mode: 'payment',
+      client_reference_id: String(userId),
+      customer_email: user?.email || undefined,
+      // Stripe fills in {CHECKOUT_SESSION_ID} itself
+      success_url: `${returnUrl}?provider=stripe&planName=${encodeURIComponent(plan.name)}&session_id={CHECKOUT_SESSION_ID}`,
+      cancel_url: `${returnUrl}?cancelled=true`,
+      line_items: [{
+        quantity: 1,
+        price_data: {
+          currency: 'usd',
+          unit_amount: toCents(amount),
+          product_data: {
+            name: `${plan.displayName} Subscription`,
+            ...(plan.description ? { description: plan.description } : {})
+          }
+        }
+      }],
+      metadata,
+      // Copied onto the payment intent so its webhook can activate the plan too
+      payment_intent_data: { metadata }
+    });
+
+    return {
+      sessionId: session.id as string,
+      url: session.url as string | null,
+      amount,
+      discountAmount: quote?.discountAmount ?? 0
+    };
+  }
+
+  /**
+   * Creates a payment intent for a plan, for clients that collect card
+   * details themselves with Stripe Elements
+   */
+  static async createPaymentIntent(plan: SubscriptionPlan, userId: number, quote: PromoQuote | null) {
+    const amount = quote ? quote.finalAmount : plan.price;
+
+    console.log(`[Stripe] Creating payment intent for plan: ${plan.name}, userId: ${userId}`);
+    const intent = await makeStripeRequest('post', '/v1/payment_intents', {
+      amount: toCents(amount),
+      currency: 'usd',
+      description: `${plan.displayName} Subscription`,
+      automatic_payment_methods: { enabled: true },
+      metadata: paymentMetadata(userId, plan, quote)
+    });
+
+    return {
+      paymentIntentId: intent.id as string,
+      clientSecret: intent.client_secret as string,
+      amount,
+      currency: 'usd',
+      discountAmount: quote?.discountAmount ?? 0
+    };
+  }
+
+  /**
+   * Activates the plan paid for by a checkout session the user came back from
+   * @throws StripePaymentIncompleteError if the session has not been paid
+   */
+  static async completeCheckoutSession(sessionId: string, userId: number): Promise<ActivationResult> {
+    const session = await makeStripeRequest('get', `/v1/checkout/sessions/${encodeURIComponent(sessionId)}`, {
+      expand: ['payment_intent']
+    });
+    if (session.client_reference_id !== String(userId)) {
+      throw new Error('Checkout session not found');
+    }
+    if (session.payment_status !== 'paid' || !session.payment_intent) {
+      throw new StripePaymentIncompleteError(session.payment_status);
+    }
+
+    return this.activateFromPaymentIntent(session.payment_intent, { checkoutSessionId: session.id });
+  }
+
+  /**
+   * Activates the plan paid for by a payment intent the client confirmed
+   * @throws StripePaymentIncompleteError if the payment has not succeeded
+   */
+  static async completePaymentIntent(paymentIntentId: string, userId: number): Promise<ActivationResult> {
+    const intent = await makeStripeRequest('get', `/v1/payment_intents/${encodeURIComponent(paymentIntentId)}`);
+    if (intent.metadata?.userId !== String(userId)) {
+      throw new Error('Payment not found');
+    }
+    if (intent.status !== 'succeeded') {
+      throw new StripePaymentIncompleteError(intent.status);
+    }
+
+    return this.activateFromPaymentIntent(intent);
+  }
+
+  /**
+   * Records a succeeded payment intent and starts the plan named in its metadata
+   */
+  static async activateFromPaymentIntent(intent: Record<string, any>, extraMetadata: Record<string, any> = {}): Promise<ActivationResult> {
+    const userId = Number(intent.metadata?.userId);
+    const planId = Number(intent.metadata?.planId);
+    const [plan] = planId
+      ? await db.select().from(subscriptionPlans).where(eq(subscriptionPlans.id, planId))
+      : [];
+    if (!userId || !plan) {
+      throw new Error(`Payment ${intent.id} is not for a subscription plan`);
+    }
+
+    const promo = intent.metadata?.promoCodeId ? await getPromoCode(Number(intent.metadata.promoCodeId)) : null;
+
+    return activateSubscription('stripe', userId, plan, {
+      amount: (intent.amount_received ?? intent.amount) / 100,
+      paymentId: intent.id,
+      promoCodeId: promo?.id ?? null,
+      discountAmount: promo ? calculateDiscount(promo, plan.price) : null,
+      metadata: {
+        paymentIntentId: intent.id,
+        status: intent.status,
+        paymentMethodTypes: intent.payment_method_types || [],
+        ...extraMetadata,
+        ...(promo ? { promoCode: promo.code } : {})
+      }
+    });
+  }
+}
+
+/**
+ * Check a Stripe-Signature header (t=timestamp,v1=signature,...) against the
+ * raw request body, as described in Stripe's webhook documentation
+ */
+export function verifyStripeSignature(rawBody: Buffer, header: string, secret: string): boolean {
+  const parts = header.split(',').map(part => part.split('='));
+  const timestamp = parts.find(([key]) => key === 't')?.[1];
+  const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value);
+  if (!timestamp || signatures.length === 0) return false;
+
+  if (Math.abs(Date.now() / 1000 - Number(timestamp)) > WEBHOOK_TOLERANCE_SECONDS) return false;
+
+  const expected = crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${rawBody.toString('utf8')}`)
+    .digest('hex');
+
+  return signatures.some(signature =>
+    signature.length === expected.length &&
+    crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+  );
+}
+
+/**
+ * A payment was refunded. A full refund ends the subscription it paid for
+ * straight away; a partial refund only updates the payment.
+ */
+async function handleChargeRefunded(event: StripeEvent): Promise<void> {
+  const charge = event.data.object;
+  const [payment] = await db.select()
+    .from(payments)
+    .where(and(eq(payments.paymentMethod, 'stripe'), eq(payments.paymentId, String(charge.payment_intent))))
+    .limit(1);
+  if (!payment) {
+    console.log(`[Stripe] No payment found for payment intent ${charge.payment_intent}`);
+    return;
+  }
+  if ((payment.metadata?.refunds || []).some((refund: any) => refund.eventId === event.id)) return;
+
+  const fullRefund = charge.amount_refunded >= charge.amount;
+  const refunds = [...(payment.metadata?.refunds || []), { eventId: event.id, amount: charge.amount_refunded / 100 }];
+  await db.update(payments)
+    .set({
+      status: fullRefund ? 'refunded' : 'partially_refunded',
+      metadata: { ...payment.metadata, refunds },
+      updatedAt: new Date().toISOString()
+    })
+    .where(eq(payments.id, payment.id));
+
+  if (fullRefund && payment.subscriptionId) {
+    const [subscription] = await db.update(subscriptions)
+      .set({ status: 'refunded', endDate: new Date().toISOString(), updatedAt: new Date().toISOString() })
+      .where(eq(subscriptions.id, payment.subscriptionId))
+      .returning();
+    if (subscription) {
+      await syncUserSubscription(subscription.userId);
+    }
+  }
+}
+
+/**
+ * Apply a verified webhook event. Payments are activated here as well as when
+ * the user comes back, in case they never do; activation only happens once.
+ */
+export async function handleStripeEvent(event: StripeEvent): Promise<void> {
+  console.log(`[Stripe] Received webhook ${event.type} (${event.id})`);
+
+  switch (event.type) {
+    case 'payment_intent.succeeded': {
+      const intent = event.data.object;
+      if (intent.metadata?.planId) {
+        await StripeService.activateFromPaymentIntent(intent);
+      }
+      return;
+    }
+    case 'charge.refunded':
+      return handleChargeRefunded(event);
+    default:
+      return;
+  }
+}
+
+export const stripeBillingProvider: BillingProvider = {
+  name: 'stripe',
+  displayName: 'Card (Stripe)',
+
+  async isConfigured() {
+    const { secretKey } = await getStripeCredentials();
+    return !!secretKey;
+  },
+
+  async createCheckout(userId, plan, quote) {
+    const session = await StripeService.createCheckoutSession(plan, userId, quote);
+    return {
+      provider: 'stripe',
+      reference: session.sessionId,
+      redirectUrl: session.url,
+      amount: session.amount,
+      discountAmount: session.discountAmount
+    };
+  },
+
+  // The plan comes from the payment's own metadata rather than the return URL
+  completeCheckout(userId, reference) {
+    return reference.startsWith('pi_')
+      ? StripeService.completePaymentIntent(reference, userId)
+      : StripeService.completeCheckoutSession(reference, userId);
+  },
+
+  // Stripe payments are one-off, so there is no renewal to stop
+  async cancelSubscription() {}
+};
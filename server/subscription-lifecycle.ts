@@ -0,0 +1,417 @@
+import { db } from "./db";
+import { storage } from "./storage";
+import { subscriptions, subscriptionPlans, users, notifications, Subscription, User } from "@shared/schema";
+import { and, desc, eq, inArray, isNotNull, isNull, sql } from "drizzle-orm";
+import { registerJobHandler, scheduleRecurringJob } from "./job-queue";
+import { queueUserEmail } from "./email";
+import { sendPushToUser } from "./web-push";
+import { publishToUser } from "./realtime";
+import { parseDbTimestamp, resolveTimeZone } from "./schedule-utils";
+
+/**
+ * Subscription Lifecycle
+ *
+ * An hourly job that moves subscriptions along once their period ends:
+ * - A free trial, or a subscription that was cancelled or set to cancel at period
+ *   end, expires at its end date.
+ * - Any other subscription whose end date passes without a renewal becomes past_due
+ *   for a grace period, keeping Pro, and then expires.
+ * Users are told ahead of a renewal or expiry, when the grace period starts and
+ * when Pro ends, in-app, by email and by Web Push.
+ *
+ * users.subscriptionTier, subscriptionStatus and subscriptionExpiresAt are derived
+ * from the user's subscriptions by syncUserSubscription, which everything that
+ * changes a subscription calls afterwards.
+ *
+ * Each account can start one free trial of a plan, recorded in users.trialUsedAt.
+ *
+ * The grace period, reminder lead time and trial length are the system settings
+ * subscription_grace_period_days, subscription_reminder_days and
+ * subscription_trial_days, falling back to SUBSCRIPTION_GRACE_PERIOD_DAYS,
+ * SUBSCRIPTION_REMINDER_DAYS and SUBSCRIPTION_TRIAL_DAYS. A trial length of 0
+ * turns trials off.
+ */
+
+// How often the lifecycle sweep runs
+const LIFECYCLE_INTERVAL_MS = 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_GRACE_PERIOD_DAYS = 3;
+const DEFAULT_REMINDER_DAYS = 3;
+const DEFAULT_TRIAL_DAYS = 7;
+
+export interface LifecycleSettings {
+  gracePeriodDays: number;
+  reminderDays: number;
+  trialDays: number;
+}
+
+export interface TrialEligibility {
+  eligible: boolean;
+  trialDays: number;
+  reason?: string;
+}
+
+export class TrialUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TrialUnavailableError";
+  }
+}
+
+function parseDays(value: string | null | undefined, fallback: number): number {
+  const days = value === null || value === undefined || value === "" ? NaN : Number(value);
+  return Number.isFinite(days) && days >= 0 ? days : fallback;
+}
+
+/**
+ * The grace period, reminder lead time and trial length, in days
+ */
+export async function getLifecycleSettings(): Promise<LifecycleSettings> {
+  const [grace, reminder, trial] = await Promise.all([
+    storage.getSystemSetting("subscription_grace_period_days"),
+    storage.getSystemSetting("subscription_reminder_days"),
+    storage.getSystemSetting("subscription_trial_days"),
+  ]);
+
+  return {
+    gracePeriodDays: parseDays(grace, parseDays(process.env.SUBSCRIPTION_GRACE_PERIOD_DAYS, DEFAULT_GRACE_PERIOD_DAYS)),
+    reminderDays: parseDays(reminder, parseDays(process.env.SUBSCRIPTION_REMINDER_DAYS, DEFAULT_REMINDER_DAYS)),
+    trialDays: parseDays(trial, parseDays(process.env.SUBSCRIPTION_TRIAL_DAYS, DEFAULT_TRIAL_DAYS)),
+  };
+}
+
+/**
+ * Save the grace period, reminder lead time and trial length
+ */
+export async function updateLifecycleSettings(settings: Partial<LifecycleSettings>): Promise<LifecycleSettings> {
+  if (settings.gracePeriodDays !== undefined) {
+    await storage.setSystemSetting("subscription_grace_period_days", String(settings.gracePeriodDays));
+  }
+  if (settings.reminderDays !== undefined) {
+    await storage.setSystemSetting("subscription_reminder_days", String(settings.reminderDays));
+  }
+  if (settings.trialDays !== undefined) {
+    await storage.setSystemSetting("subscription_trial_days", String(settings.trialDays));
+  }
+  return await getLifecycleSettings();
+}
+
+/**
+ * Whether a subscription currently gives its user Pro. Active and past-due
+ * subscriptions do until the job expires them; trials and cancelled ones until
+ * their end date.
+ */
+export function grantsPro(subscription: Subscription, now: Date = new Date()): boolean {
+  if (subscription.status === "active" || subscription.status === "past_due") return true;
+  if (subscription.status === "trial" || subscription.status === "cancelled") {
+    return !!subscription.endDate && parseDbTimestamp(subscription.endDate) > now;
+  }
+  return false;
+}
+
+/**
+ * The tier a user's features should follow. A Pro user whose subscription ran out
+ * more than the grace period ago is treated as free even before the job catches up.
+ */
+export async function getEffectiveTier(user: User, now: Date = new Date()): Promise<string> {
+  const tier = user.subscriptionTier || "free";
+  if (tier === "free" || !user.subscriptionExpiresAt) return tier;
+
+  const { gracePeriodDays } = await getLifecycleSettings();
+  const graceEndsAt = parseDbTimestamp(user.subscriptionExpiresAt).getTime() + gracePeriodDays * DAY_MS;
+  return graceEndsAt <= now.getTime() ? "free" : tier;
+}
+
+/**
+ * Set a user's tier, status and expiry from their subscriptions: the one giving
+ * Pro if any, otherwise the most recent. Users without subscriptions (e.g. Pro
+ * granted by an admin) are only downgraded once their expiry and grace period pass.
+ */
+export async function syncUserSubscription(userId: number, now: Date = new Date()): Promise<void> {
+  const userSubscriptions = await db
+    .select()
+    .from(subscriptions)
+    .where(eq(subscriptions.userId, userId))
+    .orderBy(desc(subscriptions.createdAt), desc(subscriptions.id));
+
+  if (userSubscriptions.length === 0) {
+    const user = await storage.getUser(userId);
+    if (user && user.subscriptionTier !== "free" && (await getEffectiveTier(user, now)) === "free") {
+      await db
+        .update(users)
+        .set({ subscriptionTier: "free", subscriptionStatus: "expired" })
+        .where(eq(users.id, userId));
+    }
+    return;
+  }
+
+  const current = userSubscriptions.find(subscription => grantsPro(subscription, now)) ?? userSubscriptions[0];
+  await db
+    .update(users)
+    .set({
+      subscriptionTier: grantsPro(current, now) ? "pro" : "free",
+      subscriptionStatus: current.status,
+      subscriptionExpiresAt: current.endDate,
+    })
+    .where(eq(users.id, userId));
+}
+
+/**
+ * Whether a user can start a free trial, and if not, why
+ */
+export async function getTrialEligibility(userId: number, now: Date = new Date()): Promise<TrialEligibility> {
+  const { trialDays } = await getLifecycleSettings();
+  if (trialDays === 0) {
+    return { eligible: false, trialDays, reason: "Free trials aren't available right now" };
+  }
+
+  const user = await storage.getUser(userId);
+  if (!user) {
+    return { eligible: false, trialDays, reason: "User not found" };
+  }
+  if (user.trialUsedAt) {
+    return { eligible: false, trialDays, reason: "You've already used your free trial" };
+  }
+
+  const userSubscriptions = await db.select().from(subscriptions).where(eq(subscriptions.userId, userId));
+  if (userSubscriptions.some(subscription => grantsPro(subscription, now))) {
+    return { eligible: false, trialDays, reason: "You already have an active subscription" };
+  }
+
+  return { eligible: true, trialDays };
+}
+
+/**
+ * Start a user's one free trial of a plan
+ * @throws TrialUnavailableError if the user can't start a trial
+ */
+export async function startFreeTrial(userId: number, planId: number, now: Date = new Date()): Promise<Subscription> {
+  const eligibility = await getTrialEligibility(userId, now);
+  if (!eligibility.eligible) {
+    throw new TrialUnavailableError(eligibility.reason!);
+  }
+
+  // Claim the trial first, so two requests at once can't both start one
+  const claimed = await db
+    .update(users)
+    .set({ trialUsedAt: now.toISOString() })
+    .where(and(eq(users.id, userId), isNull(users.trialUsedAt)))
+    .returning({ id: users.id });
+  if (claimed.length === 0) {
+    throw new TrialUnavailableError("You've already used your free trial");
+  }
+
+  const [subscription] = await db
+    .insert(subscriptions)
+    .values({
+      userId,
+      planId,
+      status: "trial",
+      startDate: now.toISOString(),
+      endDate: new Date(now.getTime() + eligibility.trialDays * DAY_MS).toISOString(),
+    })
+    .returning();
+
+  await syncUserSubscription(userId, now);
+  return subscription;
+}
+
+/**
+ * End any running trial, e.g. once the user has paid for a plan
+ */
+export async function endTrials(userId: number, now: Date = new Date()): Promise<void> {
+  await db
+    .update(subscriptions)
+    .set({ status: "expired", endDate: now.toISOString(), updatedAt: now.toISOString() })
+    .where(and(eq(subscriptions.userId, userId), eq(subscriptions.status, "trial")));
+}
+
+async function hasNotice(userId: number, noticeKey: string): Promise<boolean> {
+  const [existing] = await db
+    .select({ id: notifications.id })
+    .from(notifications)
+    .where(
+      and(
+        eq(notifications.userId, userId),
+        sql`${notifications.metadata}->>'subscriptionNoticeKey' = ${noticeKey}`
+      )
+    )
+    .limit(1);
+
+  return !!existing;
+}
+
+/**
+ * Tell a user about their subscription in-app, by email and by Web Push, once per notice key
+ * @returns Whether the notice was sent
+ */
+async function sendSubscriptionNotice(
+  subscription: Subscription,
+  noticeKey: string,
+  title: string,
+  message: string
+): Promise<boolean> {
+  if (await hasNotice(subscription.userId, noticeKey)) return false;
+
+  const notification = await storage.createNotification({
+    userId: subscription.userId,
+    title,
+    message,
+    type: "system",
+    status: "unread",
+    metadata: { subscriptionNoticeKey: noticeKey, subscriptionId: subscription.id },
+  });
+  publishToUser(subscription.userId, { type: "notification-created", notification });
+
+  try {
+    await queueUserEmail(subscription.userId, "subscription-notice", { title, message }, { notificationId: notification.id });
+  } catch (error) {
+    console.error(`Error queueing subscription email for user ${subscription.userId}:`, error);
+  }
+
+  try {
+    await sendPushToUser(subscription.userId, {
+      title,
+      body: message,
+      url: "/subscription",
+      tag: "subscription",
+      notificationId: notification.id,
+    });
+  } catch (error) {
+    console.error(`Error sending subscription push for user ${subscription.userId}:`, error);
+  }
+
+  return true;
+}
+
+async function formatDateForUser(userId: number, date: Date): Promise<string> {
+  const preferences = await storage.getNotificationPreferencesByUserId(userId);
+  return date.toLocaleDateString("en-US", {
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+    timeZone: resolveTimeZone(preferences?.timezone),
+  });
+}
+
+async function setStatus(subscription: Subscription, status: string, now: Date): Promise<void> {
+  await db
+    .update(subscriptions)
+    .set({ status, updatedAt: now.toISOString() })
+    .where(eq(subscriptions.id, subscription.id));
+  await syncUserSubscription(subscription.userId, now);
+}
+
+/**
+ * Expire ended subscriptions, start grace periods and send renewal and expiry reminders
+ * @returns Number of subscriptions whose status changed
+ */
+export async function runSubscriptionLifecycle(now: Date = new Date()): Promise<number> {
+  const { gracePeriodDays, reminderDays } = await getLifecycleSettings();
+
+  const rows = await db
+    .select({ subscription: subscriptions, planName: subscriptionPlans.displayName })
+    .from(subscriptions)
+    .innerJoin(subscriptionPlans, eq(subscriptionPlans.id, subscriptions.planId))
+    .where(and(
+      inArray(subscriptions.status, ["trial", "active", "past_due", "cancelled"]),
+      isNotNull(subscriptions.endDate)
+    ));
+
+  let changed = 0;
+  for (const { subscription, planName } of rows) {
+    try {
+      const endsAt = parseDbTimestamp(subscription.endDate!);
+      const isTrial = subscription.status === "trial";
+      const endingForGood = isTrial || subscription.status === "cancelled" || !!subscription.cancelAtPeriodEnd;
+      const renews = !endingForGood && !!subscription.paypalSubscriptionId;
+
+      if (endsAt <= now) {
+        const graceEndsAt = new Date(endsAt.getTime() + gracePeriodDays * DAY_MS);
+
+        if (endingForGood || graceEndsAt <= now) {
+          await setStatus(subscription, "expired", now);
+          await sendSubscriptionNotice(
+            subscription,
+            `subscription:${subscription.id}:expired`,
+            isTrial ? `Your ${planName} trial has ended` : `Your ${planName} subscription has ended`,
+            isTrial
+              ? "You're now on the free plan. Your journal and goals are safe; subscribe any time to get your Pro features back."
+              : "You're now on the free plan. Your journal and goals are safe, and you can resubscribe any time to get your Pro features back."
+          );
+          changed++;
+        } else if (subscription.status !== "past_due") {
+          await setStatus(subscription, "past_due", now);
+          const graceEnd = await formatDateForUser(subscription.userId, graceEndsAt);
+          await sendSubscriptionNotice(
+            subscription,
+            `subscription:${subscription.id}:grace:${subscription.endDate}`,
+            `Your ${planName} subscription needs attention`,
+            `We couldn't renew your subscription. You'll keep your Pro features until ${graceEnd}; renew before then to avoid losing them.`
+          );
+          changed++;
+        }
+        continue;
+      }
+
+      // Reminders ahead of the end date, once per billing period
+      if (subscription.status !== "past_due" && endsAt.getTime() - now.getTime() <= reminderDays * DAY_MS) {
+        const endDate = await formatDateForUser(subscription.userId, endsAt);
+        if (isTrial) {
+          await sendSubscriptionNotice(
+            subscription,
+            `subscription:${subscription.id}:trial-ending`,
+            `Your ${planName} trial ends soon`,
+            `Your free trial ends on ${endDate}. Subscribe before then to keep unlimited journaling and AI insights.`
+          );
+        } else if (renews) {
+          await sendSubscriptionNotice(
+            subscription,
+            `subscription:${subscription.id}:renewal:${subscription.endDate}`,
+            `Your ${planName} subscription renews soon`,
+            `Your subscription will renew automatically on ${endDate}.`
+          );
+        } else {
+          await sendSubscriptionNotice(
+            subscription,
+            `subscription:${subscription.id}:expiry:${subscription.endDate}`,
+            `Your ${planName} subscription ends soon`,
+            `Your Pro features end on ${endDate}. Renew to keep unlimited journaling and AI insights.`
+          );
+        }
+      }
+    } catch (error) {
+      console.error(`Error updating lifecycle of subscription ${subscription.id}:`, error);
+    }
+  }
+
+  // Users marked Pro without a subscription row, such as admin grants with an expiry
+  const orphaned = await db
+    .select({ id: users.id })
+    .from(users)
+    .where(and(
+      eq(users.subscriptionTier, "pro"),
+      isNotNull(users.subscriptionExpiresAt),
+      sql`NOT EXISTS (SELECT 1 FROM ${subscriptions} WHERE ${subscriptions.userId} = ${users.id})`
+    ));
+  for (const { id } of orphaned) {
+    await syncUserSubscription(id, now);
+  }
+
+  if (changed > 0) {
+    console.log(`Subscription lifecycle updated ${changed} subscriptions`);
+  }
+  return changed;
+}
+
+/**
+ * Register the lifecycle job handler and its hourly schedule
+ */
+export function registerSubscriptionLifecycleJobs(): void {
+  registerJobHandler("subscription-lifecycle", async () => {
+    await runSubscriptionLifecycle();
+  });
+
+  scheduleRecurringJob("subscription-lifecycle", LIFECYCLE_INTERVAL_MS);
+}
@@ -0,0 +1,208 @@
+import { db } from "./db";
+import { storage } from "./storage";
+import { aiTokenUsage, users } from "@shared/schema";
+import { and, eq, gte, sql, desc } from "drizzle-orm";
+import type { LLMFeature, LLMUsage } from "./llm-provider";
+
+// System setting keys for the limits saved by /api/settings/update-openai
+const ENABLE_TOKEN_LIMIT_KEY = "OPENAI_ENABLE_TOKEN_LIMIT";
+const MONTHLY_TOKEN_LIMIT_KEY = "OPENAI_MONTHLY_TOKEN_LIMIT";
+
+const DEFAULT_MONTHLY_TOKEN_LIMIT = 100000;
+
+export type TokenUsageFeature = LLMFeature | "embedding";
+
+export interface TokenLimitSettings {
+  enableTokenLimit: boolean;
+  monthlyTokenLimit: number;
+}
+
+/**
+ * Thrown before a model call when the user has used up their monthly token budget
+ */
+export class TokenLimitExceededError extends Error {
+  readonly status = 429;
+  readonly code = "TOKEN_LIMIT_EXCEEDED";
+
+  constructor(
+    readonly userId: number,
+    readonly tokensUsed: number,
+    readonly monthlyTokenLimit: number,
+    readonly resetsAt: string
+  ) {
+    super(
+      `You've reached your monthly AI usage limit of ${monthlyTokenLimit.toLocaleString()} tokens. ` +
+      `AI features will be available again on ${new Date(resetsAt).toDateString()}.`
+    );
+    this.name = "TokenLimitExceededError";
+  }
+
+  toJSON() {
+    return {
+      error: this.message,
+      code: this.code,
+      tokensUsed: this.tokensUsed,
+      monthlyTokenLimit: this.monthlyTokenLimit,
+      resetsAt: this.resetsAt,
+    };
+  }
+}
+
+// Budgets run per calendar month (UTC)
+function startOfMonth(date: Date = new Date()): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+function startOfNextMonth(date: Date = new Date()): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1));
+}
+
+/**
+ * Rough token estimate (about four characters per token), used when a provider
+ * does not report usage, e.g. for a stream cancelled before it finished
+ */
+export function estimateTokens(text: string): number {
+  return text ? Math.ceil(text.length / 4) : 0;
+}
+
+/**
+ * Service for recording AI token usage and enforcing monthly token budgets
+ */
+export class TokenUsageService {
+
+  /**
+   * Gets the token limit settings, falling back to the defaults
+   */
+  static async getSettings(): Promise<TokenLimitSettings> {
+    const enabled = await storage.getSystemSetting(ENABLE_TOKEN_LIMIT_KEY);
+    const limit = await storage.getSystemSetting(MONTHLY_TOKEN_LIMIT_KEY);
+    const parsedLimit = limit !== null ? parseInt(limit, 10) : NaN;
+
+    return {
+      enableTokenLimit: enabled === null ? true : enabled === "true",
+      monthlyTokenLimit: Number.isNaN(parsedLimit) ? DEFAULT_MONTHLY_TOKEN_LIMIT : parsedLimit,
+    };
+  }
+
+  /**
+   * Saves the token limit settings
+   */
+  static async updateSettings(settings: TokenLimitSettings): Promise<void> {
+    await storage.setSystemSetting(ENABLE_TOKEN_LIMIT_KEY, String(settings.enableTokenLimit));
+    await storage.setSystemSetting(MONTHLY_TOKEN_LIMIT_KEY, String(settings.monthlyTokenLimit));
+  }
+
+  /**
+   * Gets the total tokens a user has used in the current month
+   */
+  static async getMonthlyUsage(userId: number): Promise<number> {
+    const [result] = await db
+      .select({ total: sql<number>`COALESCE(SUM(${aiTokenUsage.totalTokens}), 0)::int` })
+      .from(aiTokenUsage)
+      .where(
+        and(
+          eq(aiTokenUsage.userId, userId),
+          gte(aiTokenUsage.createdAt, startOfMonth().toISOString())
+        )
+      );
+
+    return result?.total ?? 0;
+  }
+
+  /**
+   * Throws TokenLimitExceededError if the user is over their monthly budget.
+   * Calls without a user (system jobs) are never limited.
+   */
+  static async assertWithinLimit(userId?: number): Promise<void> {
+    if (!userId) return;
+
+    const settings = await this.getSettings();
+    if (!settings.enableTokenLimit) return;
+
+    const tokensUsed = await this.getMonthlyUsage(userId);
+    if (tokensUsed >= settings.monthlyTokenLimit) {
+      throw new TokenLimitExceededError(
+        userId,
+        tokensUsed,
+        settings.monthlyTokenLimit,
+        startOfNextMonth().toISOString()
+      );
+    }
+  }
+
+  /**
+   * Records the tokens used by a model call. Never throws, so a failure to record
+   * usage doesn't break the AI feature that made the call.
+   */
+  static async recordUsage(data: {
+    userId?: number;
+    feature: TokenUsageFeature;
+    provider: string;
+    model: string;
+    usage?: LLMUsage;
+  }): Promise<void> {
+    if (!data.usage) return;
+
+    try {
+      await db.insert(aiTokenUsage).values({
+        userId: data.userId ?? null,
+        feature: data.feature,
+        provider: data.provider,
+        model: data.model,
+        promptTokens: data.usage.promptTokens,
+        completionTokens: data.usage.completionTokens,
+        totalTokens: data.usage.promptTokens + data.usage.completionTokens,
+      });
+    } catch (error) {
+      console.error(`Failed to record token usage for ${data.feature}:`, error);
+    }
+  }
+
+  /**
+   * Gets per-user token totals for the current month, highest usage first
+   */
+  static async getUsageByUser() {
+    return await db
+      .select({
+        userId: aiTokenUsage.userId,
+        username: sql<string>`COALESCE(${users.username}, ${users.email})`,
+        promptTokens: sql<number>`SUM(${aiTokenUsage.promptTokens})::int`,
+        completionTokens: sql<number>`SUM(${aiTokenUsage.completionTokens})::int`,
+        tokensUsed: sql<number>`SUM(${aiTokenUsage.totalTokens})::int`,
+        lastUsed: sql<string>`MAX(${aiTokenUsage.createdAt})`,
+      })
+      .from(aiTokenUsage)
+      .innerJoin(users, eq(aiTokenUsage.userId, users.id))
+      .where(gte(aiTokenUsage.createdAt, startOfMonth().toISOString()))
+      .groupBy(aiTokenUsage.userId, users.username, users.email)
+      .orderBy(desc(sql`SUM(${aiTokenUsage.totalTokens})`));
+  }
+
+  /**
+   * Gets per-feature token totals for the current month, across all users
+   */
+  static async getUsageByFeature() {
+    return await db
+      .select({
+        feature: aiTokenUsage.feature,
+        calls: sql<number>`COUNT(*)::int`,
+        tokensUsed: sql<number>`SUM(${aiTokenUsage.totalTokens})::int`,
+      })
+      .from(aiTokenUsage)
+      .where(gte(aiTokenUsage.createdAt, startOfMonth().toISOString()))
+      .groupBy(aiTokenUsage.feature)
+      .orderBy(desc(sql`SUM(${aiTokenUsage.totalTokens})`));
+  }
+
+  /**
+   * Gets the total tokens used by everyone, including system calls, this month
+   */
+  static async getTotalMonthlyUsage(): Promise<number> {
+    const [result] = await db
+      .select({ total: sql<number>`COALESCE(SUM(${aiTokenUsage.totalTokens}), 0)::int` })
+      .from(aiTokenUsage)
+      .where(gte(aiTokenUsage.createdAt, startOfMonth().toISOString()));
+
+    return result?.total ?? 0;
+  }
+}
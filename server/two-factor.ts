@@ -0,0 +1,319 @@
+import { Request, Response, NextFunction } from "express";
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import QRCode from "qrcode";
+import { db } from "./db";
+import { userTwoFactor, User, UserTwoFactor } from "@shared/schema";
+import { and, eq, isNull, lt, or, sql } from "drizzle-orm";
+import { z } from "zod";
+
+/**
+ * Two-Factor Authentication
+ *
+ * TOTP (RFC 6238) codes from an authenticator app, with single-use recovery
+ * codes for when the app isn't at hand. 2FA gates sign-in (a second step after
+ * the password or OAuth provider) and sensitive account actions, which need a
+ * code entered within the last few minutes of the session.
+ */
+
+const TOTP_ISSUER = "Hope Log";
+const TOTP_DIGITS = 6;
+const TOTP_STEP_SECONDS = 30;
+// Codes from one step either side are accepted to allow for clock drift
+const TOTP_WINDOW = 1;
+const RECOVERY_CODE_COUNT = 10;
+
+// How long a sign-in may wait at the second step
+export const PENDING_LOGIN_TTL_MS = 5 * 60 * 1000;
+// Wrong codes allowed at the second step before the sign-in has to start again
+export const PENDING_LOGIN_MAX_ATTEMPTS = 5;
+// How long a passed challenge covers sensitive actions
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+export class TwoFactorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TwoFactorError";
+  }
+}
+
+// An authenticator code or a recovery code, as entered at a sign-in or challenge
+export const secondFactorSchema = z.object({
+  code: z.string().trim().min(6).max(10).optional(),
+  recoveryCode: z.string().trim().min(10).max(20).optional(),
+}).refine(data => !!data.code !== !!data.recoveryCode, {
+  message: "Enter either an authenticator code or a recovery code",
+});
+
+export type SecondFactor = z.infer<typeof secondFactorSchema>;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (let i = 0; i < buffer.length; i++) {
+    value = (value << 8) | buffer[i];
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+    value &= (1 << bits) - 1;
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  const normalized = input.replace(/=+$/, "").toUpperCase();
+  for (let i = 0; i < normalized.length; i++) {
+    const index = BASE32_ALPHABET.indexOf(normalized[i]);
+    if (index === -1) {
+      throw new TwoFactorError("Invalid TOTP secret");
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+    value &= (1 << bits) - 1;
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * The code an authenticator app shows for a time step (RFC 4226 HOTP)
+ */
+function generateCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeUInt32BE(Math.floor(step / 2 ** 32), 0);
+  counter.writeUInt32BE(step % 2 ** 32, 4);
+
+  const hmac = createHmac("sha1", base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS;
+  return binary.toString().padStart(TOTP_DIGITS, "0");
+}
+
+function currentStep(now: Date = new Date()): number {
+  return Math.floor(now.getTime() / 1000 / TOTP_STEP_SECONDS);
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+}
+
+/**
+ * The time step a code belongs to, or null if it isn't valid now
+ */
+function matchCode(secret: string, code: string, now: Date = new Date()): number | null {
+  const normalized = code.replace(/\s/g, "");
+  if (!/^\d+$/.test(normalized)) return null;
+
+  const step = currentStep(now);
+  for (let offset = -TOTP_WINDOW; offset <= TOTP_WINDOW; offset++) {
+    if (safeEqual(generateCode(secret, step + offset), normalized)) {
+      return step + offset;
+    }
+  }
+  return null;
+}
+
+// Recovery codes are compared without dashes, spaces or case
+function hashRecoveryCode(code: string): string {
+  const normalized = code.replace(/[\s-]/g, "").toLowerCase();
+  return createHash("sha256").update(normalized).digest("hex");
+}
+
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = randomBytes(5).toString("hex");
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+}
+
+async function getTwoFactor(userId: number): Promise<UserTwoFactor | null> {
+  const [record] = await db.select().from(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+  return record ?? null;
+}
+
+export async function isTwoFactorEnabled(userId: number): Promise<boolean> {
+  const record = await getTwoFactor(userId);
+  return !!record?.enabledAt;
+}
+
+export async function getTwoFactorStatus(userId: number) {
+  const record = await getTwoFactor(userId);
+  return {
+    enabled: !!record?.enabledAt,
+    enabledAt: record?.enabledAt ?? null,
+    recoveryCodesRemaining: record?.enabledAt ? record.recoveryCodeHashes.length : 0,
+  };
+}
+
+/**
+ * Start enrolling: a new secret to add to an authenticator app, as a QR code
+ * and as text. Starting again before confirming replaces the secret.
+ * @throws TwoFactorError if 2FA is already on
+ */
+export async function startEnrollment(user: User) {
+  const existing = await getTwoFactor(user.id);
+  if (existing?.enabledAt) {
+    throw new TwoFactorError("Two-factor authentication is already enabled");
+  }
+
+  const secret = base32Encode(randomBytes(20));
+  const now = new Date().toISOString();
+  await db.insert(userTwoFactor)
+    .values({ userId: user.id, secret })
+    .onConflictDoUpdate({
+      target: userTwoFactor.userId,
+      set: { secret, recoveryCodeHashes: [], lastUsedStep: null, updatedAt: now },
+    });
+
+  const accountName = user.email || user.username;
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${accountName}`);
+  const otpauthUrl = `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(TOTP_ISSUER)}&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_STEP_SECONDS}`;
+
+  return {
+    secret,
+    otpauthUrl,
+    qrCodeDataUrl: await QRCode.toDataURL(otpauthUrl),
+  };
+}
+
+/**
+ * Finish enrolling with a code from the app, turning 2FA on
+ * @returns Recovery codes, shown to the user once
+ * @throws TwoFactorError if enrollment wasn't started or the code is wrong
+ */
+export async function confirmEnrollment(userId: number, code: string): Promise<string[]> {
+  const record = await getTwoFactor(userId);
+  if (!record) {
+    throw new TwoFactorError("Start setting up two-factor authentication first");
+  }
+  if (record.enabledAt) {
+    throw new TwoFactorError("Two-factor authentication is already enabled");
+  }
+
+  const step = matchCode(record.secret, code);
+  if (step === null) {
+    throw new TwoFactorError("That code isn't valid. Check your device's time and try again.");
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  await db.update(userTwoFactor)
+    .set({
+      enabledAt: new Date().toISOString(),
+      recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode),
+      lastUsedStep: step,
+      updatedAt: new Date().toISOString(),
+    })
+    .where(eq(userTwoFactor.id, record.id));
+
+  return recoveryCodes;
+}
+
+/**
+ * Replace the user's recovery codes, invalidating the old ones
+ */
+export async function regenerateRecoveryCodes(userId: number): Promise<string[]> {
+  const recoveryCodes = generateRecoveryCodes();
+  await db.update(userTwoFactor)
+    .set({ recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode), updatedAt: new Date().toISOString() })
+    .where(eq(userTwoFactor.userId, userId));
+  return recoveryCodes;
+}
+
+export async function disableTwoFactor(userId: number): Promise<void> {
+  await db.delete(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+}
+
+/**
+ * Check an authenticator or recovery code for a user with 2FA on. An accepted
+ * code is used up: the TOTP step can't be accepted again and a recovery code
+ * is removed.
+ */
+export async function verifySecondFactor(userId: number, factor: SecondFactor): Promise<boolean> {
+  const record = await getTwoFactor(userId);
+  if (!record?.enabledAt) return false;
+
+  if (factor.recoveryCode) {
+    const hash = hashRecoveryCode(factor.recoveryCode);
+    // Removed in the same statement that checks for it, so two requests can't both use one code
+    const [used] = await db.update(userTwoFactor)
+      .set({
+        recoveryCodeHashes: sql`${userTwoFactor.recoveryCodeHashes} - ${hash}::text`,
+        updatedAt: new Date().toISOString(),
+      })
+      .where(and(eq(userTwoFactor.id, record.id), sql`${userTwoFactor.recoveryCodeHashes} ? ${hash}::text`))
+      .returning({ id: userTwoFactor.id });
+    if (used) {
+      console.log(`[2FA] User ${userId} signed in with a recovery code`);
+    }
+    return !!used;
+  }
+
+  if (factor.code) {
+    const step = matchCode(record.secret, factor.code);
+    if (step === null) return false;
+
+    const [accepted] = await db.update(userTwoFactor)
+      .set({ lastUsedStep: step, updatedAt: new Date().toISOString() })
+      .where(and(
+        eq(userTwoFactor.id, record.id),
+        or(isNull(userTwoFactor.lastUsedStep), lt(userTwoFactor.lastUsedStep, step))
+      ))
+      .returning({ id: userTwoFactor.id });
+    return !!accepted;
+  }
+
+  return false;
+}
+
+/**
+ * Note that the session's user just proved their second factor
+ */
+export function markChallengePassed(req: Request): void {
+  req.session.twoFactorVerifiedAt = Date.now();
+}
+
+/**
+ * Middleware for sensitive account actions. Users with 2FA on must have
+ * passed a challenge (POST /api/2fa/challenge) in the last few minutes;
+ * otherwise the action is refused with code TWO_FACTOR_REQUIRED so the
+ * client can ask for a code and retry.
+ */
+export async function requireTwoFactorChallenge(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.sendStatus(401);
+  }
+
+  try {
+    if (!(await isTwoFactorEnabled(req.user.id))) {
+      return next();
+    }
+
+    const verifiedAt = req.session.twoFactorVerifiedAt;
+    if (verifiedAt && Date.now() - verifiedAt < CHALLENGE_TTL_MS) {
+      return next();
+    }
+
+    return res.status(403).json({
+      error: "Enter a code from your authenticator app to continue",
+      code: "TWO_FACTOR_REQUIRED",
+    });
+  } catch (error) {
+    console.error("Error checking two-factor challenge:", error);
+    return res.status(500).json({ error: "Failed to check two-factor authentication" });
+  }
+}
@@ -0,0 +1,183 @@
+import webpush from "web-push";
+import { db } from "./db";
+import { storage } from "./storage";
+import { pushSubscriptions, PushSubscription } from "@shared/schema";
+import { and, desc, eq, sql } from "drizzle-orm";
+
+/**
+ * Web Push
+ *
+ * Sends notifications to the browsers and devices a user has subscribed with the
+ * service worker in client/public/push-sw.js. Requests are signed with a VAPID key
+ * pair from VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY (generate one with
+ * `npx tsx server/scripts/generate-vapid-keys.ts`), and VAPID_SUBJECT is a contact
+ * URL or mailto: address for the push services.
+ *
+ * Pushes are only sent to users with browserNotifications turned on. Subscriptions
+ * the push service reports as expired are removed.
+ */
+
+export interface PushPayload {
+  title: string;
+  body: string;
+  url?: string; // Page to open when the notification is clicked
+  tag?: string; // Replaces an earlier notification with the same tag
+  notificationId?: number;
+}
+
+export interface BrowserPushSubscription {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+}
+
+let vapidConfigured: boolean | null = null;
+
+/**
+ * Whether VAPID keys are set, so pushes can be sent
+ */
+export function isWebPushConfigured(): boolean {
+  if (vapidConfigured === null) {
+    const { VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY } = process.env;
+    vapidConfigured = !!(VAPID_PUBLIC_KEY && VAPID_PRIVATE_KEY);
+
+    if (vapidConfigured) {
+      webpush.setVapidDetails(
+        process.env.VAPID_SUBJECT || "mailto:support@hopelog.app",
+        VAPID_PUBLIC_KEY!,
+        VAPID_PRIVATE_KEY!
+      );
+    } else {
+      console.log("VAPID keys not set, Web Push notifications are disabled");
+    }
+  }
+  return vapidConfigured;
+}
+
+/**
+ * The public VAPID key browsers need to subscribe, or null if push isn't configured
+ */
+export function getVapidPublicKey(): string | null {
+  return isWebPushConfigured() ? process.env.VAPID_PUBLIC_KEY! : null;
+}
+
+/**
+ * A readable device label such as "Chrome on macOS", from a user agent string
+ */
+export function describeUserAgent(userAgent: string | undefined): string {
+  if (!userAgent) return "Unknown device";
+
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge" :
+    /OPR\//.test(userAgent) ? "Opera" :
+    /Firefox\//.test(userAgent) ? "Firefox" :
+    /Chrome\//.test(userAgent) ? "Chrome" :
+    /Safari\//.test(userAgent) ? "Safari" :
+    "Browser";
+
+  const os =
+    /Android/.test(userAgent) ? "Android" :
+    /iPhone|iPad|iPod/.test(userAgent) ? "iOS" :
+    /Mac OS X/.test(userAgent) ? "macOS" :
+    /Windows/.test(userAgent) ? "Windows" :
+    /CrOS/.test(userAgent) ? "ChromeOS" :
+    /Linux/.test(userAgent) ? "Linux" :
+    null;
+
+  return os ? `${browser} on ${os}` : browser;
+}
+
+/**
+ * Save a browser's push subscription for a user. A browser that subscribes again
+ * (or that another account used before) replaces its earlier subscription.
+ */
+export async function savePushSubscription(
+  userId: number,
+  subscription: BrowserPushSubscription,
+  userAgent?: string,
+  deviceName?: string
+): Promise<PushSubscription> {
+  const values = {
+    userId,
+    endpoint: subscription.endpoint,
+    p256dh: subscription.keys.p256dh,
+    auth: subscription.keys.auth,
+    userAgent: userAgent ?? null,
+    deviceName: deviceName || describeUserAgent(userAgent),
+  };
+
+  const [saved] = await db
+    .insert(pushSubscriptions)
+    .values(values)
+    .onConflictDoUpdate({ target: pushSubscriptions.endpoint, set: values })
+    .returning();
+
+  return saved;
+}
+
+/**
+ * A user's subscribed devices, most recently added first
+ */
+export async function listPushSubscriptions(userId: number): Promise<PushSubscription[]> {
+  return await db
+    .select()
+    .from(pushSubscriptions)
+    .where(eq(pushSubscriptions.userId, userId))
+    .orderBy(desc(pushSubscriptions.createdAt));
+}
+
+/**
+ * Revoke one of a user's devices
+ * @returns Whether a subscription was removed
+ */
+export async function deletePushSubscription(userId: number, id: number): Promise<boolean> {
+  const deleted = await db
+    .delete(pushSubscriptions)
+    .where(and(eq(pushSubscriptions.id, id), eq(pushSubscriptions.userId, userId)))
+    .returning({ id: pushSubscriptions.id });
+
+  return deleted.length > 0;
+}
+
+async function sendToSubscription(subscription: PushSubscription, payload: PushPayload): Promise<boolean> {
+  try {
+    await webpush.sendNotification(
+      { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+      JSON.stringify(payload),
+      { TTL: 24 * 60 * 60 }
+    );
+
+    await db
+      .update(pushSubscriptions)
+      .set({ lastUsedAt: sql`now()` })
+      .where(eq(pushSubscriptions.id, subscription.id));
+    return true;
+  } catch (error: any) {
+    // 404 and 410 mean the browser unsubscribed or the subscription expired
+    if (error?.statusCode === 404 || error?.statusCode === 410) {
+      console.log(`Removing expired push subscription ${subscription.id} for user ${subscription.userId}`);
+      await db.delete(pushSubscriptions).where(eq(pushSubscriptions.id, subscription.id));
+    } else {
+      console.error(`Error sending push to subscription ${subscription.id}:`, error?.body || error);
+    }
+    return false;
+  }
+}
+
+/**
+ * Push a notification to every device a user has subscribed, if push is
+ * configured and the user has browser notifications turned on
+ * @returns Number of devices the push was delivered to
+ */
+export async function sendPushToUser(userId: number, payload: PushPayload): Promise<number> {
+  if (!isWebPushConfigured()) return 0;
+
+  const preferences = await storage.getNotificationPreferencesByUserId(userId);
+  if (preferences && !preferences.browserNotifications) return 0;
+
+  const subscriptions = await listPushSubscriptions(userId);
+  let delivered = 0;
+  for (const subscription of subscriptions) {
+    if (await sendToSubscription(subscription, payload)) delivered++;
+  }
+  return delivered;
+}
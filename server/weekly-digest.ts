@@ -0,0 +1,310 @@
+import { db } from "./db";
+import { storage } from "./storage";
+import {
+  users,
+  journalEntries,
+  moods,
+  notificationPreferences,
+  weeklyDigests,
+  WeeklyDigest,
+} from "@shared/schema";
+import { and, desc, eq, gte, isNull, lt } from "drizzle-orm";
+import { generateWeeklySummary } from "./openai";
+import { TokenLimitExceededError } from "./token-usage";
+import { FeatureLimitService } from "./hooks/use-feature-limits";
+import { registerJobHandler, scheduleRecurringJob } from "./job-queue";
+import { queueUserEmail } from "./email";
+import { sendPushToUser } from "./web-push";
+import { publishToUser } from "./realtime";
+import {
+  resolveTimeZone,
+  getZonedParts,
+  zonedTimeToUtc,
+  parseTimeOfDay,
+  addDays,
+} from "./schedule-utils";
+
+/**
+ * Weekly Digest
+ *
+ * Once a week, each user with the weeklyDigest preference (and weeklyDigestAccess
+ * on their plan) gets a digest of the previous Monday–Sunday in their time zone:
+ * the AI summary from generateWeeklySummary, their average mood, habit streaks and
+ * goal progress. Digests are kept as history in weekly_digests and announced with
+ * an in-app notification, an email and a Web Push notification.
+ *
+ * Digests are generated from Monday at the user's reminder time. A week missed
+ * during downtime is still generated later in the week.
+ */
+
+// How often the sweep for users due a digest runs
+const DIGEST_INTERVAL_MS = 60 * 60 * 1000;
+
+// Insight used when there are no entries to summarize, or the AI budget is used up
+const NO_ENTRIES_INSIGHT = "You didn't write in your journal last week. Even a few lines can help you notice patterns in how you feel.";
+
+interface CalendarDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+export interface DigestWeek {
+  weekStart: string; // YYYY-MM-DD
+  weekEnd: string;
+  startsAt: Date; // Monday 00:00 in the user's time zone
+  endsAt: Date; // The following Monday 00:00
+}
+
+function formatCalendarDate({ year, month, day }: CalendarDate): string {
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/**
+ * The most recent complete Monday–Sunday week before `now`, in the time zone
+ */
+export function getPreviousWeek(now: Date, timeZone: string): DigestWeek {
+  const today = getZonedParts(now, timeZone);
+  const daysSinceMonday = (today.weekday + 6) % 7;
+  const thisMonday = addDays(today, -daysSinceMonday);
+  const lastMonday = addDays(thisMonday, -7);
+
+  return {
+    weekStart: formatCalendarDate(lastMonday),
+    weekEnd: formatCalendarDate(addDays(thisMonday, -1)),
+    startsAt: zonedTimeToUtc({ ...lastMonday, hour: 0, minute: 0 }, timeZone),
+    endsAt: zonedTimeToUtc({ ...thisMonday, hour: 0, minute: 0 }, timeZone),
+  };
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10;
+}
+
+/**
+ * Build and store the digest for a user's week. Returns the existing digest if
+ * that week was already generated.
+ * @returns The digest and whether it was created by this call
+ */
+export async function generateWeeklyDigest(
+  userId: number,
+  week: DigestWeek
+): Promise<{ digest: WeeklyDigest; created: boolean }> {
+  const [existing] = await db
+    .select()
+    .from(weeklyDigests)
+    .where(and(eq(weeklyDigests.userId, userId), eq(weeklyDigests.weekStart, week.weekStart)));
+  if (existing) {
+    return { digest: existing, created: false };
+  }
+
+  const startsAt = week.startsAt.toISOString();
+  const endsAt = week.endsAt.toISOString();
+
+  const entries = await db
+    .select()
+    .from(journalEntries)
+    .where(
+      and(
+        eq(journalEntries.userId, userId),
+        isNull(journalEntries.deletedAt),
+        gte(journalEntries.date, startsAt),
+        lt(journalEntries.date, endsAt)
+      )
+    );
+
+  const loggedMoods = await db
+    .select({ rating: moods.rating })
+    .from(moods)
+    .where(and(eq(moods.userId, userId), gte(moods.date, startsAt), lt(moods.date, endsAt)));
+
+  // Prefer moods the user logged; fall back to the sentiment of their entries
+  const averageMood = loggedMoods.length > 0
+    ? average(loggedMoods.map(mood => mood.rating))
+    : average(entries.filter(entry => entry.sentiment).map(entry => entry.sentiment!.score));
+
+  const habitStreaks = (await storage.getHabitsByUserId(userId))
+    .filter(habit => !habit.deletedAt && habit.status === "active" && habit.streak > 0)
+    .sort((a, b) => b.streak - a.streak)
+    .map(habit => ({ habitId: habit.id, name: habit.title, streak: habit.streak }));
+
+  const goalProgress = (await storage.getGoalsByUserId(userId))
+    .filter(goal => !goal.deletedAt && goal.status === "in_progress")
+    .map(goal => ({ goalId: goal.id, name: goal.name, progress: goal.progress, target: goal.target, unit: goal.unit }));
+
+  let summary = { topEmotions: [] as string[], commonThemes: [] as string[], insights: NO_ENTRIES_INSIGHT };
+  if (entries.length > 0) {
+    try {
+      summary = await generateWeeklySummary(
+        entries.map(entry => ({ content: entry.content, sentiment: entry.sentiment || undefined })),
+        userId
+      );
+
+      // Keep the single-row summary shown on the insights page current
+      await storage.createOrUpdateSummary({
+        userId,
+        topEmotions: summary.topEmotions,
+        commonThemes: summary.commonThemes,
+        insights: summary.insights,
+        updatedAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      if (!(error instanceof TokenLimitExceededError)) throw error;
+      console.log(`Weekly digest for user ${userId} generated without AI summary: ${error.message}`);
+      summary.insights = `You wrote ${entries.length} journal ${entries.length === 1 ? "entry" : "entries"} last week.`;
+    }
+  }
+
+  const [digest] = await db
+    .insert(weeklyDigests)
+    .values({
+      userId,
+      weekStart: week.weekStart,
+      weekEnd: week.weekEnd,
+      entryCount: entries.length,
+      averageMood,
+      topEmotions: summary.topEmotions,
+      commonThemes: summary.commonThemes,
+      insights: summary.insights,
+      habitStreaks,
+      goalProgress,
+    })
+    .onConflictDoNothing()
+    .returning();
+
+  // Another worker generated the same week in the meantime
+  if (!digest) {
+    const [stored] = await db
+      .select()
+      .from(weeklyDigests)
+      .where(and(eq(weeklyDigests.userId, userId), eq(weeklyDigests.weekStart, week.weekStart)));
+    return { digest: stored, created: false };
+  }
+
+  return { digest, created: true };
+}
+
+/**
+ * Announce a digest in-app, by email and by Web Push. Email and push follow the
+ * user's emailNotifications and browserNotifications preferences.
+ */
+export async function deliverWeeklyDigest(digest: WeeklyDigest): Promise<void> {
+  const notification = await storage.createNotification({
+    userId: digest.userId,
+    title: "Your weekly digest is ready",
+    message: digest.insights,
+    type: "system",
+    status: "unread",
+    metadata: { weeklyDigestId: digest.id },
+  });
+  publishToUser(digest.userId, { type: "notification-created", notification });
+
+  await db
+    .update(weeklyDigests)
+    .set({ notificationId: notification.id })
+    .where(eq(weeklyDigests.id, digest.id));
+
+  try {
+    await queueUserEmail(digest.userId, "weekly-digest", {
+      weekStart: digest.weekStart,
+      weekEnd: digest.weekEnd,
+      summary: digest.insights,
+      entryCount: digest.entryCount,
+      averageMood: digest.averageMood,
+      habitStreaks: digest.habitStreaks,
+      goals: digest.goalProgress,
+    }, { weeklyDigestId: digest.id });
+  } catch (error) {
+    console.error(`Error queueing weekly digest email for user ${digest.userId}:`, error);
+  }
+
+  try {
+    await sendPushToUser(digest.userId, {
+      title: notification.title,
+      body: digest.insights,
+      url: "/insights?tab=digests",
+      tag: "weekly-digest",
+      notificationId: notification.id,
+    });
+  } catch (error) {
+    console.error(`Error sending weekly digest push for user ${digest.userId}:`, error);
+  }
+}
+
+/**
+ * Generate and deliver last week's digest for every user who is due one
+ * @returns Number of digests delivered
+ */
+export async function sendWeeklyDigests(now: Date = new Date()): Promise<number> {
+  const rows = await db
+    .select({ userId: users.id, preferences: notificationPreferences })
+    .from(users)
+    .leftJoin(notificationPreferences, eq(notificationPreferences.userId, users.id));
+
+  let delivered = 0;
+  for (const { userId, preferences } of rows) {
+    if (preferences && !preferences.weeklyDigest) continue;
+
+    try {
+      const timeZone = resolveTimeZone(preferences?.timezone);
+      const local = getZonedParts(now, timeZone);
+
+      // On Mondays, wait until the user's reminder time
+      if (local.weekday === 1) {
+        const time = parseTimeOfDay(preferences?.reminderTime);
+        if (local.hour * 60 + local.minute < time.hour * 60 + time.minute) continue;
+      }
+
+      const week = getPreviousWeek(now, timeZone);
+      const [existing] = await db
+        .select({ id: weeklyDigests.id })
+        .from(weeklyDigests)
+        .where(and(eq(weeklyDigests.userId, userId), eq(weeklyDigests.weekStart, week.weekStart)));
+      if (existing) continue;
+
+      const access = await FeatureLimitService.canAccessWeeklyDigest(userId);
+      if (!access.allowed) continue;
+
+      const { digest, created } = await generateWeeklyDigest(userId, week);
+      // Nothing to report for users with no entries, habits or goals
+      if (!created || (digest.entryCount === 0 && digest.habitStreaks.length === 0 && digest.goalProgress.length === 0)) {
+        continue;
+      }
+
+      await deliverWeeklyDigest(digest);
+      delivered++;
+    } catch (error) {
+      console.error(`Error generating weekly digest for user ${userId}:`, error);
+    }
+  }
+
+  if (delivered > 0) {
+    console.log(`Delivered ${delivered} weekly digests`);
+  }
+  return delivered;
+}
+
+/**
+ * A user's past digests, newest first
+ */
+export async function getWeeklyDigestHistory(userId: number, limit: number = 12, offset: number = 0): Promise<WeeklyDigest[]> {
+  return await db
+    .select()
+    .from(weeklyDigests)
+    .where(eq(weeklyDigests.userId, userId))
+    .orderBy(desc(weeklyDigests.weekStart))
+    .limit(limit)
+    .offset(offset);
+}
+
+/**
+ * Register the weekly digest job handler and its hourly schedule
+ */
+export function registerWeeklyDigestJobs(): void {
+  registerJobHandler("weekly-digests", async () => {
+    await sendWeeklyDigests();
+  });
+
+  scheduleRecurringJob("weekly-digests", DIGEST_INTERVAL_MS);
+}
@@ -1,4 +1,5 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb, doublePrecision, date } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, doublePrecision, date, vector, index, uniqueIndex, customType, AnyPgColumn } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -27,10 +28,63 @@ export const users = pgTable("users", {
   resetPasswordToken: text("reset_password_token"), // For password reset
   resetPasswordExpires: timestamp("reset_password_expires", { mode: 'string' }),
   subscriptionTier: text("subscription_tier").default("free").notNull(), // 'free', 'pro'
-  subscriptionStatus: text("subscription_status").default("active").notNull(), // 'active', 'trial', 'expired', 'cancelled'
+  subscriptionStatus: text("subscription_status").default("active").notNull(), // 'active', 'trial', 'past_due', 'suspended', 'refunded', 'expired', 'cancelled'
   subscriptionExpiresAt: timestamp("subscription_expires_at", { mode: 'string' }),
+  trialUsedAt: timestamp("trial_used_at", { mode: 'string' }), // When the user started their one free trial
 });
 
+// TOTP second factor for a user. The secret is saved when enrollment starts;
+// 2FA is only on once enabledAt is set by confirming a code from the app.
+export const userTwoFactor = pgTable("user_two_factor", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().unique().references(() => users.id, { onDelete: "cascade" }),
+  secret: text("secret").notNull(), // Base32, as shown to authenticator apps
+  enabledAt: timestamp("enabled_at", { mode: 'string' }),
+  recoveryCodeHashes: jsonb("recovery_code_hashes").$type<string[]>().notNull().default([]), // SHA-256 of each unused code
+  lastUsedStep: integer("last_used_step"), // Time step of the last accepted code, so it can't be replayed
+  createdAt: timestamp("created_at", { mode: 'string' }).notNull().defaultNow(),
+  updatedAt: timestamp("updated_at", { mode: 'string' }).notNull().defaultNow(),
+});
+
+export type UserTwoFactor = typeof userTwoFactor.$inferSelect;
+
+// Signed-in sessions, so users can see where they're signed in and sign out remotely.
+// The session itself lives in the session store; this records who and where it is.
+export const userSessions = pgTable("user_sessions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  sessionId: text("session_id").notNull().unique(), // express-session ID
+  device: text("device"), // e.g. "Chrome on macOS", from the user agent
+  userAgent: text("user_agent"),
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at", { mode: 'string' }).notNull().defaultNow(),
+  lastSeenAt: timestamp("last_seen_at", { mode: 'string' }).notNull().defaultNow(),
+}, (table) => [
+  index("user_sessions_user_id_idx").on(table.userId),
+]);
+
+export type UserSession = typeof userSessions.$inferSelect;
+
+// Failed sign-in, registration and password reset attempts, per IP address and per account,
+// for rate limiting and lockouts
+export const authThrottles = pgTable("auth_throttles", {
+  id: serial("id").primaryKey(),
+  scope: text("scope").notNull(), // 'ip', 'account'
+  action: text("action").notNull(), // 'login', 'register', 'forgot-password', 'reset-password'
+  identifier: text("identifier").notNull(), // IP address, "user:<id>" or the login that was tried
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }), // Account scope, when the account exists
+  failures: integer("failures").notNull().default(0), // Within the current window
+  firstFailureAt: timestamp("first_failure_at", { mode: 'string' }).notNull().defaultNow(),
+  lastFailureAt: timestamp("last_failure_at", { mode: 'string' }).notNull().defaultNow(),
+  lastIpAddress: text("last_ip_address"),
+  blockedUntil: timestamp("blocked_until", { mode: 'string' }),
+  lockedOutAt: timestamp("locked_out_at", { mode: 'string' }), // Set when the account is locked rather than just slowed down
+}, (table) => [
+  uniqueIndex("auth_throttles_scope_action_identifier_idx").on(table.scope, table.action, table.identifier),
+]);
+
+export type AuthThrottle = typeof authThrottles.$inferSelect;
+
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true, // Made optional
   password: true,
@@ -62,6 +116,12 @@ export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
 // Journal entries table
+// The text journal search matches: the title ranks above the content, then the chat transcript.
+// Searches build the same expression so they can use the full-text index.
+export function journalSearchDocument(columns: { title: AnyPgColumn; content: AnyPgColumn; transcript: AnyPgColumn }) {
+  return sql`(setweight(to_tsvector('english', coalesce(${columns.title}, '')), 'A') || setweight(to_tsvector('english', ${columns.content}), 'B') || setweight(to_tsvector('english', coalesce(${columns.transcript}, '')), 'C'))`;
+}
+
 export const journalEntries = pgTable("journal_entries", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull(),
@@ -78,7 +138,11 @@ export const journalEntries = pgTable("journal_entries", {
   }>(),
   analyzed: boolean("analyzed").notNull().default(false), // For tracking if entry has been processed by AI suggestions
   deletedAt: timestamp("deleted_at", { mode: 'string' }),  // For recycle bin/soft delete functionality
-});
+}, (table) => [
+  index("journal_entries_search_idx").using("gin", journalSearchDocument(table)),
+  // Emotion and theme filters are containment queries on the sentiment JSON
+  index("journal_entries_sentiment_idx").using("gin", table.sentiment.op("jsonb_path_ops")),
+]);
 
 export const insertJournalEntrySchema = createInsertSchema(journalEntries)
   .omit({ id: true })
@@ -174,13 +238,46 @@ export const insertSummarySchema = createInsertSchema(summaries);
 export type InsertSummary = z.infer<typeof insertSummarySchema>;
 export type Summary = typeof summaries.$inferSelect;
 
+// Weekly digests - one per user per week, kept as history (summaries holds only the latest)
+export const weeklyDigests = pgTable("weekly_digests", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  weekStart: date("week_start").notNull(), // Monday of the week, in the user's time zone
+  weekEnd: date("week_end").notNull(), // Sunday of the week
+  entryCount: integer("entry_count").notNull().default(0),
+  averageMood: doublePrecision("average_mood"), // 1-5, from logged moods or entry sentiment; null if none
+  topEmotions: jsonb("top_emotions").$type<string[]>().notNull().default([]),
+  commonThemes: jsonb("common_themes").$type<string[]>().notNull().default([]),
+  insights: text("insights").notNull(),
+  habitStreaks: jsonb("habit_streaks").$type<{ habitId: number; name: string; streak: number }[]>().notNull().default([]),
+  goalProgress: jsonb("goal_progress").$type<{ goalId: number; name: string; progress: number; target: number; unit: string }[]>().notNull().default([]),
+  notificationId: integer("notification_id"), // In-app notification announcing the digest
+  createdAt: timestamp("created_at", { mode: 'string' }).notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("weekly_digests_user_id_week_start_idx").on(table.userId, table.weekStart),
+]);
+
+export const insertWeeklyDigestSchema = createInsertSchema(weeklyDigests)
+  .omit({ id: true, createdAt: true });
+
+export type InsertWeeklyDigest = z.infer<typeof insertWeeklyDigestSchema>;
+export type WeeklyDigest = typeof weeklyDigests.$inferSelect;
+
+// Dimensions of the embedding vectors (OpenAI text-embedding-3-small and the mock provider)
+export const EMBEDDING_DIMENSIONS = 1536;
+
 // Journal Embeddings table for RAG implementation
 export const journalEmbeddings = pgTable("journal_embeddings", {
   id: serial("id").primaryKey(),
   journalEntryId: integer("journal_entry_id").notNull().references(() => journalEntries.id, { onDelete: 'cascade' }),
-  embeddingJson: jsonb("embedding_json").notNull(),
+  embeddingJson: jsonb("embedding_json").notNull(), // Kept as a fallback for databases without pgvector
+  embedding: vector("embedding", { dimensions: EMBEDDING_DIMENSIONS }), // pgvector column, null until backfilled
   createdAt: timestamp("created_at", { mode: 'string' }).defaultNow(),
-});
+}, (table) => [
+  // Approximate nearest-neighbour index for cosine similarity search
+  index("journal_embeddings_embedding_hnsw_idx").using("hnsw", table.embedding.op("vector_cosine_ops")),
+  index("journal_embeddings_journal_entry_id_idx").on(table.journalEntryId),
+]);
 
 export const insertJournalEmbeddingSchema = createInsertSchema(journalEmbeddings)
   .omit({ id: true, createdAt: true });
@@ -195,7 +292,7 @@ export const notifications = pgTable("notifications", {
   title: text("title").notNull(),
   message: text("message").notNull(),
   type: text("type").notNull(), // 'reminder', 'goal', 'streak', 'system'
-  status: text("status").default("unread").notNull(), // 'unread', 'read', 'dismissed'
+  status: text("status").default("unread").notNull(), // 'scheduled', 'unread', 'read', 'dismissed'
   scheduledFor: timestamp("scheduled_for", { mode: 'string' }), // For scheduled notifications/reminders
   createdAt: timestamp("created_at", { mode: 'string' }).defaultNow(),
   updatedAt: timestamp("updated_at", { mode: 'string' }).defaultNow(),
@@ -208,6 +305,7 @@ export const insertNotificationSchema = createInsertSchema(notifications)
   .omit({ id: true, createdAt: true, updatedAt: true })
   .extend({
     scheduledFor: z.string().datetime().optional(),
+    metadata: z.record(z.any()).optional(),
   });
 
 export type InsertNotification = z.infer<typeof insertNotificationSchema>;
@@ -234,6 +332,25 @@ export const insertNotificationPreferencesSchema = createInsertSchema(notificati
 export type InsertNotificationPreferences = z.infer<typeof insertNotificationPreferencesSchema>;
 export type NotificationPreferences = typeof notificationPreferences.$inferSelect;
 
+// Web Push subscriptions - one per browser or device a user has enabled push on
+export const pushSubscriptions = pgTable("push_subscriptions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  endpoint: text("endpoint").notNull().unique(), // Push service URL, unique per browser
+  p256dh: text("p256dh").notNull(), // Browser's public key for payload encryption
+  auth: text("auth").notNull(), // Browser's authentication secret
+  deviceName: text("device_name"), // Human-readable label, e.g. "Chrome on macOS"
+  userAgent: text("user_agent"),
+  lastUsedAt: timestamp("last_used_at", { mode: 'string' }), // Last successful push
+  createdAt: timestamp("created_at", { mode: 'string' }).notNull().defaultNow(),
+});
+
+export const insertPushSubscriptionSchema = createInsertSchema(pushSubscriptions)
+  .omit({ id: true, createdAt: true, lastUsedAt: true });
+
+export type InsertPushSubscription = z.infer<typeof insertPushSubscriptionSchema>;
+export type PushSubscription = typeof pushSubscriptions.$inferSelect;
+
 // Tasks table
 export const tasks = pgTable("tasks", {
   id: serial("id").primaryKey(),
@@ -339,9 +456,10 @@ export const subscriptions = pgTable("subscriptions", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   planId: integer("plan_id").notNull().references(() => subscriptionPlans.id),
-  status: text("status").notNull().default("active"), // 'active', 'cancelled', 'expired'
+  status: text("status").notNull().default("active"), // 'trial', 'active', 'past_due', 'suspended', 'cancelled', 'refunded', 'expired'
   startDate: timestamp("start_date", { mode: 'string' }).notNull().defaultNow(),
   endDate: timestamp("end_date", { mode: 'string' }),
+  provider: text("provider"), // 'paypal', 'stripe'; null for free trials
   paypalSubscriptionId: text("paypal_subscription_id"),
   cancelAtPeriodEnd: boolean("cancel_at_period_end").default(false),
   cancelledAt: timestamp("cancelled_at", { mode: 'string' }),
@@ -447,23 +565,105 @@ export type AISuggestedHabit = typeof aiHabits.$inferSelect;
 // Payment transactions table
 export const payments = pgTable("payments", {
   id: serial("id").primaryKey(),
-  userId: integer("user_id").notNull().references(() => users.id),
-  subscriptionId: integer("subscription_id").references(() => subscriptions.id),
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }), // Null once the account is deleted; the payment is kept for the books
+  subscriptionId: integer("subscription_id").references(() => subscriptions.id, { onDelete: "set null" }),
   amount: doublePrecision("amount").notNull(),
   currency: text("currency").notNull().default("USD"),
   paymentMethod: text("payment_method").notNull(), // 'paypal', etc.
   paymentId: text("payment_id"), // ID from payment provider
-  status: text("status").notNull(), // 'completed', 'pending', 'failed', 'refunded'
+  status: text("status").notNull(), // 'completed', 'pending', 'failed', 'refunded', 'partially_refunded', 'disputed'
   paymentDate: timestamp("payment_date", { mode: 'string' }).notNull().defaultNow(),
+  promoCodeId: integer("promo_code_id").references(() => promoCodes.id, { onDelete: "set null" }), // Promo code redeemed with this payment
+  discountAmount: doublePrecision("discount_amount"), // Taken off the plan price by the promo code
   metadata: jsonb("metadata").$type<Record<string, any>>(),
   createdAt: timestamp("created_at", { mode: 'string' }).defaultNow(),
   updatedAt: timestamp("updated_at", { mode: 'string' }).defaultNow(),
-});
+}, (table) => [
+  // A provider's payment is recorded once, however many times it is reported
+  uniqueIndex("payments_payment_method_payment_id_idx").on(table.paymentMethod, table.paymentId).where(sql`${table.paymentId} IS NOT NULL`),
+]);
 
 export const insertPaymentSchema = createInsertSchema(payments).omit({ id: true, createdAt: true, updatedAt: true });
 export type InsertPayment = z.infer<typeof insertPaymentSchema>;
 export type Payment = typeof payments.$inferSelect;
 
+// Promo codes - admin-managed discounts applied at checkout
+export const promoCodes = pgTable("promo_codes", {
+  id: serial("id").primaryKey(),
+  code: text("code").notNull().unique(), // Stored in upper case
+  description: text("description"),
+  discountType: text("discount_type").notNull(), // 'percent', 'fixed'
+  discountValue: doublePrecision("discount_value").notNull(), // Percentage off, or amount off in the plan's currency
+  planIds: jsonb("plan_ids").$type<number[]>(), // Plans the code applies to; null for all plans
+  maxRedemptions: integer("max_redemptions"), // Across all users; null for unlimited
+  maxRedemptionsPerUser: integer("max_redemptions_per_user").notNull().default(1),
+  expiresAt: timestamp("expires_at", { mode: 'string' }),
+  isActive: boolean("is_active").notNull().default(true),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at", { mode: 'string' }).notNull().defaultNow(),
+  updatedAt: timestamp("updated_at", { mode: 'string' }).notNull().defaultNow(),
+});
+
+export const insertPromoCodeSchema = createInsertSchema(promoCodes)
+  .omit({ id: true, createdAt: true, updatedAt: true })
+  .extend({ planIds: z.array(z.number().int()).nullable().optional() });
+
+export type InsertPromoCode = z.infer<typeof insertPromoCodeSchema>;
+export type PromoCode = typeof promoCodes.$inferSelect;
+
+// Invoices - one per payment, numbered in the order they are issued.
+// Amounts, plan and seller details are copied from the payment and settings when
+// the invoice is issued or regenerated, so a rendered invoice doesn't change on its own.
+export const invoices = pgTable("invoices", {
+  id: serial("id").primaryKey(),
+  invoiceNumber: text("invoice_number").notNull().unique(), // e.g. 'HL-000042'
+  sequence: integer("sequence").notNull().unique(), // Gapless counter the number is made from
+  paymentId: integer("payment_id").notNull().unique().references(() => payments.id, { onDelete: "cascade" }),
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }), // Null once the account is deleted; billedTo keeps who it was for
+  subscriptionId: integer("subscription_id").references(() => subscriptions.id, { onDelete: "set null" }),
+  currency: text("currency").notNull().default("USD"),
+  planName: text("plan_name").notNull(),
+  planInterval: text("plan_interval"), // 'month', 'year'
+  periodStart: timestamp("period_start", { mode: 'string' }),
+  periodEnd: timestamp("period_end", { mode: 'string' }),
+  subtotal: doublePrecision("subtotal").notNull(), // Plan price before the discount
+  discountAmount: doublePrecision("discount_amount").notNull().default(0),
+  taxLabel: text("tax_label").notNull().default("Tax"), // e.g. 'VAT', 'GST'
+  taxRate: doublePrecision("tax_rate").notNull().default(0), // Percentage included in the amount paid
+  taxAmount: doublePrecision("tax_amount").notNull().default(0),
+  total: doublePrecision("total").notNull(), // The amount paid, tax included
+  billedTo: jsonb("billed_to").$type<{ name: string; email: string | null }>().notNull(),
+  seller: jsonb("seller").$type<{ name: string; address: string | null; taxId: string | null }>().notNull(),
+  issuedAt: timestamp("issued_at", { mode: 'string' }).notNull().defaultNow(),
+  regeneratedAt: timestamp("regenerated_at", { mode: 'string' }),
+  emailedAt: timestamp("emailed_at", { mode: 'string' }),
+}, (table) => [
+  index("invoices_user_id_idx").on(table.userId),
+]);
+
+export type Invoice = typeof invoices.$inferSelect;
+
+// PayPal webhook events - every event PayPal sends, stored once by its event ID
+export const paypalWebhookEvents = pgTable("paypal_webhook_events", {
+  id: serial("id").primaryKey(),
+  eventId: text("event_id").notNull().unique(), // PayPal's event ID; redeliveries reuse it
+  eventType: text("event_type").notNull(), // e.g. 'PAYMENT.SALE.COMPLETED'
+  resourceType: text("resource_type"),
+  resourceId: text("resource_id"),
+  payload: jsonb("payload").$type<Record<string, any>>().notNull(), // The event as received
+  status: text("status").notNull().default("received"), // 'received', 'processed', 'ignored', 'failed'
+  subscriptionId: integer("subscription_id").references(() => subscriptions.id, { onDelete: "set null" }), // Subscription the event applied to
+  detail: text("detail"), // Why the event was ignored, or the error it failed with
+  processedAt: timestamp("processed_at", { mode: 'string' }),
+  createdAt: timestamp("created_at", { mode: 'string' }).notNull().defaultNow(),
+});
+
+export const insertPaypalWebhookEventSchema = createInsertSchema(paypalWebhookEvents)
+  .omit({ id: true, createdAt: true, processedAt: true });
+
+export type InsertPaypalWebhookEvent = z.infer<typeof insertPaypalWebhookEventSchema>;
+export type PaypalWebhookEvent = typeof paypalWebhookEvents.$inferSelect;
+
 // Feature limitations table - controls what features are available for different subscription tiers
 export const featureLimits = pgTable("feature_limits", {
   id: serial("id").primaryKey(),
@@ -485,6 +685,21 @@ export const insertFeatureLimitSchema = createInsertSchema(featureLimits).omit({
 export type InsertFeatureLimit = z.infer<typeof insertFeatureLimitSchema>;
 export type FeatureLimit = typeof featureLimits.$inferSelect;
 
+// Admin changes to subscription plans and tier feature limits. Each row holds
+// the fields that changed, so the history reads without the old rows.
+export const planAuditLog = pgTable("plan_audit_log", {
+  id: serial("id").primaryKey(),
+  adminId: integer("admin_id").references(() => users.id, { onDelete: "set null" }),
+  entityType: text("entity_type").notNull(), // 'feature_limit', 'subscription_plan'
+  entityId: integer("entity_id").notNull(),
+  entityName: text("entity_name").notNull(), // Tier or plan name at the time of the change
+  action: text("action").notNull(), // 'create', 'update'
+  changes: jsonb("changes").$type<Record<string, { from: unknown; to: unknown }>>().notNull(),
+  createdAt: timestamp("created_at", { mode: 'string' }).notNull().defaultNow(),
+});
+
+export type PlanAuditLogEntry = typeof planAuditLog.$inferSelect;
+
 // User usage tracking to enforce limits
 export const userUsage = pgTable("user_usage", {
   id: serial("id").primaryKey(),
@@ -500,4 +715,134 @@ export const userUsage = pgTable("user_usage", {
 
 export const insertUserUsageSchema = createInsertSchema(userUsage).omit({ id: true, createdAt: true, updatedAt: true });
 export type InsertUserUsage = z.infer<typeof insertUserUsageSchema>;
-export type UserUsage = typeof userUsage.$inferSelect;
\ No newline at end of file
+export type UserUsage = typeof userUsage.$inferSelect;
+
+// AI token usage - one row per model call, used for per-user monthly token budgets
+export const aiTokenUsage = pgTable("ai_token_usage", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }), // null for system calls not tied to a user
+  feature: text("feature").notNull(), // 'chat', 'title', 'sentiment', 'embedding', etc.
+  provider: text("provider").notNull(), // 'openai', 'openai-compatible', 'mock'
+  model: text("model").notNull(),
+  promptTokens: integer("prompt_tokens").notNull().default(0),
+  completionTokens: integer("completion_tokens").notNull().default(0),
+  totalTokens: integer("total_tokens").notNull().default(0),
+  createdAt: timestamp("created_at", { mode: 'string' }).notNull().defaultNow(),
+});
+
+export const insertAiTokenUsageSchema = createInsertSchema(aiTokenUsage).omit({ id: true, createdAt: true });
+export type InsertAiTokenUsage = z.infer<typeof insertAiTokenUsageSchema>;
+export type AiTokenUsage = typeof aiTokenUsage.$inferSelect;
+
+// Background jobs - persistent queue for AI processing and scheduled work
+export const backgroundJobs = pgTable("background_jobs", {
+  id: serial("id").primaryKey(),
+  type: text("type").notNull(), // 'journal-title', 'journal-sentiment', 'journal-embedding', 'journal-suggestions', 'process-all-entries', 'deliver-notifications', 'daily-reminders', 'send-email', 'weekly-digests', 'paypal-webhook', 'subscription-lifecycle'
+  payload: jsonb("payload").$type<Record<string, any>>().notNull().default({}),
+  status: text("status").notNull().default("pending"), // 'pending', 'running', 'completed', 'dead'
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(5),
+  runAt: timestamp("run_at", { mode: 'string' }).notNull().defaultNow(), // Next time the job may run (pushed back on retry)
+  lockedAt: timestamp("locked_at", { mode: 'string' }), // When a worker claimed the job
+  lastError: text("last_error"),
+  completedAt: timestamp("completed_at", { mode: 'string' }),
+  createdAt: timestamp("created_at", { mode: 'string' }).notNull().defaultNow(),
+  updatedAt: timestamp("updated_at", { mode: 'string' }).notNull().defaultNow(),
+}, (table) => [
+  index("background_jobs_status_run_at_idx").on(table.status, table.runAt),
+]);
+
+export const insertBackgroundJobSchema = createInsertSchema(backgroundJobs)
+  .omit({ id: true, createdAt: true, updatedAt: true, lockedAt: true, completedAt: true });
+
+export type InsertBackgroundJob = z.infer<typeof insertBackgroundJobSchema>;
+export type BackgroundJob = typeof backgroundJobs.$inferSelect;
+
+// Email delivery log - one row per message, updated as it is sent, fails or bounces
+export const emailDeliveries = pgTable("email_deliveries", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }),
+  toAddress: text("to_address").notNull(),
+  template: text("template").notNull(), // 'verification', 'password-reset', 'journal-reminder', 'goal-reminder', 'weekly-digest'
+  subject: text("subject").notNull(),
+  status: text("status").notNull().default("queued"), // 'queued', 'sent', 'failed', 'bounced', 'suppressed'
+  transport: text("transport"), // 'smtp', 'file', 'console'
+  messageId: text("message_id"), // Message-ID assigned by the transport, used to match bounce reports
+  attempts: integer("attempts").notNull().default(0),
+  error: text("error"), // Last send error or bounce reason
+  metadata: jsonb("metadata").$type<Record<string, any>>().default({}),
+  sentAt: timestamp("sent_at", { mode: 'string' }),
+  bouncedAt: timestamp("bounced_at", { mode: 'string' }),
+  createdAt: timestamp("created_at", { mode: 'string' }).notNull().defaultNow(),
+  updatedAt: timestamp("updated_at", { mode: 'string' }).notNull().defaultNow(),
+}, (table) => [
+  index("email_deliveries_to_address_idx").on(table.toAddress),
+  index("email_deliveries_message_id_idx").on(table.messageId),
+]);
+
+export const insertEmailDeliverySchema = createInsertSchema(emailDeliveries)
+  .omit({ id: true, createdAt: true, updatedAt: true, sentAt: true, bouncedAt: true });
+
+export type InsertEmailDelivery = z.infer<typeof insertEmailDeliverySchema>;
+export type EmailDelivery = typeof emailDeliveries.$inferSelect;
+
+// Binary column for generated files
+const bytea = customType<{ data: Buffer }>({
+  dataType() {
+    return "bytea";
+  },
+});
+
+// Account data exports - one row per requested archive, built by the 'account-export' job
+export const dataExports = pgTable("data_exports", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  status: text("status").notNull().default("pending"), // 'pending', 'running', 'completed', 'failed', 'expired'
+  formats: jsonb("formats").$type<string[]>().notNull(), // 'json', 'csv', 'markdown', 'pdf'
+  itemCounts: jsonb("item_counts").$type<Record<string, number>>(), // Rows exported per data type
+  fileName: text("file_name"),
+  archive: bytea("archive"), // The zip file; cleared when the export expires
+  sizeBytes: integer("size_bytes"),
+  error: text("error"),
+  jobId: integer("job_id"),
+  completedAt: timestamp("completed_at", { mode: 'string' }),
+  expiresAt: timestamp("expires_at", { mode: 'string' }), // Download link stops working after this
+  createdAt: timestamp("created_at", { mode: 'string' }).notNull().defaultNow(),
+}, (table) => [
+  index("data_exports_user_id_idx").on(table.userId),
+]);
+
+export type DataExport = typeof dataExports.$inferSelect;
+
+// One line of an import report
+export type JournalImportItem = {
+  file: string; // File name, with the entry's position in it where there are several
+  status: "imported" | "duplicate" | "failed";
+  entryId?: number;
+  date?: string;
+  title?: string | null;
+  error?: string;
+};
+
+// Journal imports from other apps and plain files - one row per upload, built by the 'journal-import' job
+export const journalImports = pgTable("journal_imports", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  status: text("status").notNull().default("pending"), // 'pending', 'running', 'completed', 'failed'
+  fileNames: jsonb("file_names").$type<string[]>().notNull().default([]),
+  sources: jsonb("sources").$type<string[]>().notNull().default([]), // 'day-one', 'journey', 'markdown', 'text', 'csv'
+  pendingEntries: jsonb("pending_entries").$type<Record<string, any>[]>(), // Parsed entries waiting for the job; cleared once it runs
+  totalCount: integer("total_count").notNull().default(0),
+  importedCount: integer("imported_count").notNull().default(0),
+  duplicateCount: integer("duplicate_count").notNull().default(0),
+  failedCount: integer("failed_count").notNull().default(0),
+  items: jsonb("items").$type<JournalImportItem[]>().notNull().default([]),
+  error: text("error"),
+  jobId: integer("job_id"),
+  completedAt: timestamp("completed_at", { mode: 'string' }),
+  createdAt: timestamp("created_at", { mode: 'string' }).notNull().defaultNow(),
+}, (table) => [
+  index("journal_imports_user_id_idx").on(table.userId),
+]);
+
+export type JournalImport = typeof journalImports.$inferSelect;
@@ -1,5 +1,5 @@
 import axios from "axios";
-import { DailyPromptRequestPayload, CollectiveRequestPayload, SubmitAIPromptPayload, ConvoPayload, ConvoEntriesPayload, AnnoymousUserPrompts, StreamAiPromptOptions } from "../types/types";
+import { DailyPromptRequestPayload, CollectiveRequestPayload, SubmitAIPromptPayload, ConvoPayload, ConvoEntriesPayload, AnnoymousUserPrompts, StreamAiPromptOptions, PaymentIntentPayload } from "../types/types";
 import { toast } from 'react-toastify';
 import moment from 'moment-timezone';
 
@@ -344,18 +344,20 @@ export const streamAiPrompt = async (
         }
     });
 }
-export const createSubscription = async (paymentMethodId: string) => {
+// Activates the plan paid for by a payment intent confirmed with Stripe Elements
+export const createSubscription = async (paymentIntentId: string) => {
     const token = localStorage.getItem('authToken');
     if (!token) {
         throw new Error('User not authenticated');
     }
     const response = await axios.post(
         `${baseUrl}/api/create-subscription`,
-        { payment_method_id: paymentMethodId },
+        { payment_intent_id: paymentIntentId },
         {
             headers: {
                 Authorization: `Bearer ${token}`
-            }
+            },
+            withCredentials: true
         }
     );
     return response.data;
@@ -395,7 +397,7 @@ export const getAccountDetails = async () => {
     return response.data;
 };
 
-export const getPaymentIntent = async () => {
+export const getPaymentIntent = async (planName?: string) => {
     const token = localStorage.getItem('authToken');
     if (!token) {
         throw new Error('User not authenticated');
@@ -403,12 +405,14 @@ export const getPaymentIntent = async () => {
     const response = await axios.get(
         `${baseUrl}/api/create-payment-intent`,
         {
+            params: planName ? { planName } : undefined,
             headers: {
                 Authorization: `Bearer ${token}`
-            }
+            },
+            withCredentials: true
         }
     );
-    return response.data;
+    return response.data as PaymentIntentPayload;
 };
 
 
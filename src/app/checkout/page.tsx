@@ -30,21 +30,26 @@ const CheckoutForm = () => {
                 return;
             }
 
-            const { error: paymentMethodError, paymentMethod } = await stripe.createPaymentMethod({
-                elements
+            // Cards that need 3-D Secure are handled in place; only redirect-based methods leave the page
+            const { error: paymentError, paymentIntent } = await stripe.confirmPayment({
+                elements,
+                confirmParams: {
+                    return_url: `${window.location.origin}/checkout`
+                },
+                redirect: 'if_required'
             });
 
-            if (paymentMethodError) {
-                console.error('Payment method error:', paymentMethodError);
+            if (paymentError) {
+                console.error('Payment error:', paymentError);
                 return;
             }
 
-            if (!paymentMethod?.id) {
-                console.error('Payment method ID not found');
+            if (!paymentIntent?.id) {
+                console.error('Payment intent ID not found');
                 return;
             }
 
-            handleCardDetails(paymentMethod.id);
+            handleCardDetails(paymentIntent.id);
         } catch (err) {
             console.error('Payment processing error:', err);
         }
@@ -80,7 +85,7 @@ const CheckoutForm = () => {
 };
 
 const CheckoutPage = () => {
-    const { clientSecret, isLoading } = useCheckout();
+    const { clientSecret, amount, plan, isLoading } = useCheckout();
 
     if (isLoading || !clientSecret) {
         return (
@@ -95,7 +100,6 @@ const CheckoutPage = () => {
         appearance: {
             theme: 'stripe' as const,
         },
-        paymentMethodCreation: 'manual'
     };
 
     return (
@@ -103,13 +107,13 @@ const CheckoutPage = () => {
             <div className="max-w-md mx-auto bg-white rounded-lg shadow-lg overflow-hidden">
                 <div className="px-6 py-8">
                     <h2 className="text-2xl font-bold text-center text-gray-900 mb-8">
-                        Pro Subscription Plan
+                        {plan?.displayName ?? 'Pro'} Subscription Plan
                     </h2>
 
                     <div className="space-y-4">
                         <div className="flex justify-between items-center">
-                            <span className="text-gray-600">Monthly subscription</span>
-                            <span className="text-2xl font-bold">$4.99</span>
+                            <span className="text-gray-600">{plan?.interval === 'year' ? 'Yearly' : 'Monthly'} subscription</span>
+                            <span className="text-2xl font-bold">${amount?.toFixed(2)}</span>
                         </div>
 
                         <div className="border-t border-gray-200 pt-4">
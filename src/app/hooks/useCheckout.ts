@@ -22,10 +22,10 @@ export const useCheckout = () => {
         error,
         isError,
         reset: resetError
-    } = useMutation((paymentMethodId: string) => createSubscription(paymentMethodId), {
+    } = useMutation((paymentIntentId: string) => createSubscription(paymentIntentId), {
         onSuccess: (data) => {
             if (data.status === 'active') {
-                toast.success('Successfully subscribed to Pro plan!');
+                toast.success(`Successfully subscribed to ${paymentIntent?.plan.displayName ?? 'Pro'} plan!`);
                 router.push('/chatbot');
             }
         },
@@ -34,12 +34,15 @@ export const useCheckout = () => {
         }
     });
 
-    const handleCardDetails = async (paymentMethodId: string) => {
-        await handleSubscription(paymentMethodId);
+    // Called once Stripe has confirmed the payment
+    const handleCardDetails = async (paymentIntentId: string) => {
+        await handleSubscription(paymentIntentId);
     };
 
     return {
         clientSecret: paymentIntent?.clientSecret,
+        amount: paymentIntent?.amount,
+        plan: paymentIntent?.plan,
         handleCardDetails ,
         isLoading: isLoadingIntent || isSubscribing,
         error: isError ? (error as Error).message : null,
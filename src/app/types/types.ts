@@ -68,4 +68,17 @@ export type ConvoHistory = {
 
 export type StreamAiPromptOptions = {
     onChunk?: (chunk: string) => void;
-};
\ No newline at end of file
+};
+export type PaymentIntentPayload = {
+    paymentIntentId: string,
+    clientSecret: string,
+    amount: number,
+    currency: string,
+    discountAmount: number,
+    publishableKey: string,
+    plan: {
+        name: string,
+        displayName: string,
+        interval: 'month' | 'year'
+    }
+}